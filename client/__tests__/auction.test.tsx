@@ -1,5 +1,5 @@
-import { describe, it, expect, vi } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
 import {
   AuctionPanel,
   AuctionTimer,
@@ -196,6 +196,185 @@ describe('Step 3B.1 — Auction UI', () => {
 
       expect(screen.getByTestId('place-bid-button')).toBeDisabled();
     });
+
+    it('shows how many bankruptcy properties are still queued', () => {
+      const { rerender } = render(
+        <AuctionPanel
+          isOpen={true}
+          space={mediterraneanSpace}
+          auction={baseAuction}
+          currentPlayerId="player-1"
+          players={mockPlayers}
+          queuedCount={2}
+          onBid={vi.fn()}
+          onPass={vi.fn()}
+        />,
+      );
+      expect(screen.getByTestId('auction-queue')).toHaveTextContent(
+        '2 more properties from a bankruptcy up next',
+      );
+
+      rerender(
+        <AuctionPanel
+          isOpen={true}
+          space={mediterraneanSpace}
+          auction={baseAuction}
+          currentPlayerId="player-1"
+          players={mockPlayers}
+          onBid={vi.fn()}
+          onPass={vi.fn()}
+        />,
+      );
+      expect(screen.queryByTestId('auction-queue')).not.toBeInTheDocument();
+    });
+
+    it('starts the bid at the minimum raise and rejects anything lower', () => {
+      const onBid = vi.fn();
+      render(
+        <AuctionPanel
+          isOpen={true}
+          space={mediterraneanSpace}
+          auction={{ ...baseAuction, highBid: 50, highBidderId: 'player-2' }}
+          currentPlayerId="player-1"
+          players={mockPlayers}
+          minIncrement={25}
+          onBid={onBid}
+          onPass={vi.fn()}
+        />,
+      );
+
+      expect(screen.getByTestId('minimum-bid')).toHaveTextContent('at least $25');
+      const bidInput = screen.getByTestId('bid-input');
+      expect(bidInput).toHaveValue(75);
+      fireEvent.change(bidInput, { target: { value: '60' } });
+      expect(bidInput).toHaveValue(75);
+
+      fireEvent.click(screen.getByTestId('place-bid-button'));
+      expect(onBid).toHaveBeenCalledWith(75);
+    });
+
+    it('waits for the player due to bid when bidding goes round the table', () => {
+      const onPass = vi.fn();
+      const { rerender } = render(
+        <AuctionPanel
+          isOpen={true}
+          space={mediterraneanSpace}
+          auction={{ ...baseAuction, currentBidderId: 'player-2' }}
+          currentPlayerId="player-1"
+          players={mockPlayers}
+          onBid={vi.fn()}
+          onPass={onPass}
+        />,
+      );
+
+      expect(screen.getByTestId('waiting-for-bidder')).toHaveTextContent('Waiting for Bob to bid');
+      expect(screen.getByTestId('place-bid-button')).toBeDisabled();
+      fireEvent.click(screen.getByTestId('pass-button'));
+      expect(onPass).toHaveBeenCalled();
+
+      rerender(
+        <AuctionPanel
+          isOpen={true}
+          space={mediterraneanSpace}
+          auction={{ ...baseAuction, currentBidderId: 'player-1' }}
+          currentPlayerId="player-1"
+          players={mockPlayers}
+          onBid={vi.fn()}
+          onPass={onPass}
+        />,
+      );
+      expect(screen.queryByTestId('waiting-for-bidder')).not.toBeInTheDocument();
+      expect(screen.getByTestId('place-bid-button')).toBeEnabled();
+    });
+
+    it('takes one sealed bid and then waits for the reveal', () => {
+      const onBid = vi.fn();
+      const sealedAuction: AuctionInfo = {
+        ...baseAuction,
+        sealed: true,
+        sealedBids: { 'player-2': null },
+      };
+      const { rerender } = render(
+        <AuctionPanel
+          isOpen={true}
+          space={mediterraneanSpace}
+          auction={sealedAuction}
+          currentPlayerId="player-1"
+          players={mockPlayers}
+          onBid={onBid}
+          onPass={vi.fn()}
+        />,
+      );
+
+      expect(screen.queryByTestId('current-bid')).not.toBeInTheDocument();
+      expect(screen.getByTestId('bidders-info')).toHaveTextContent('Bob (Bid in)');
+      expect(screen.getByTestId('pass-button')).toHaveTextContent("Don't Bid");
+      fireEvent.click(screen.getByTestId('bid-increment-50'));
+      fireEvent.click(screen.getByTestId('place-bid-button'));
+      expect(onBid).toHaveBeenCalledWith(51);
+
+      rerender(
+        <AuctionPanel
+          isOpen={true}
+          space={mediterraneanSpace}
+          auction={{ ...sealedAuction, sealedBids: { 'player-1': 51, 'player-2': null } }}
+          currentPlayerId="player-1"
+          players={mockPlayers}
+          onBid={onBid}
+          onPass={vi.fn()}
+        />,
+      );
+      expect(screen.queryByTestId('bid-controls')).not.toBeInTheDocument();
+      expect(screen.getByTestId('sealed-bid-submitted')).toHaveTextContent('Your sealed bid: $51');
+    });
+  });
+
+  describe('AuctionPanel countdown', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('counts down from the auction deadline until a server tick arrives', () => {
+      vi.useFakeTimers();
+      const auction: AuctionInfo = { ...baseAuction, deadline: Date.now() + 12_000 };
+      const panel = (timerSeconds?: number) => (
+        <AuctionPanel
+          isOpen={true}
+          space={mediterraneanSpace}
+          auction={auction}
+          currentPlayerId="player-1"
+          players={mockPlayers}
+          timerSeconds={timerSeconds}
+          onBid={vi.fn()}
+          onPass={vi.fn()}
+        />
+      );
+
+      const { rerender } = render(panel());
+      expect(screen.getByTestId('auction-timer')).toHaveTextContent('12s');
+      act(() => {
+        vi.advanceTimersByTime(3000);
+      });
+      expect(screen.getByTestId('auction-timer')).toHaveTextContent('9s');
+
+      rerender(panel(8));
+      expect(screen.getByTestId('auction-timer')).toHaveTextContent('8s');
+    });
+
+    it('shows no countdown for an untimed auction', () => {
+      render(
+        <AuctionPanel
+          isOpen={true}
+          space={mediterraneanSpace}
+          auction={{ ...baseAuction, deadline: null }}
+          currentPlayerId="player-1"
+          players={mockPlayers}
+          onBid={vi.fn()}
+          onPass={vi.fn()}
+        />,
+      );
+      expect(screen.queryByTestId('auction-timer')).not.toBeInTheDocument();
+    });
   });
 
   describe('AuctionTimer', () => {
@@ -208,6 +387,15 @@ describe('Step 3B.1 — Auction UI', () => {
       const { container } = render(<AuctionTimer seconds={3} />);
       expect(container.querySelector('.timerLow')).toBeInTheDocument();
     });
+
+    it('calls going once, then going twice, as time runs out', () => {
+      const { rerender } = render(<AuctionTimer seconds={8} />);
+      expect(screen.queryByTestId('auctioneer-call')).not.toBeInTheDocument();
+      rerender(<AuctionTimer seconds={4} />);
+      expect(screen.getByTestId('auctioneer-call')).toHaveTextContent('Going once…');
+      rerender(<AuctionTimer seconds={1} />);
+      expect(screen.getByTestId('auctioneer-call')).toHaveTextContent('Going twice…');
+    });
   });
 
   describe('AuctionResult', () => {
@@ -242,5 +430,25 @@ describe('Step 3B.1 — Auction UI', () => {
         'No bids — Mediterranean Avenue remains unowned',
       );
     });
+
+    it('reveals every sealed bid from highest to lowest', () => {
+      render(
+        <AuctionResult
+          isOpen={true}
+          space={mediterraneanSpace}
+          winnerName="Carol"
+          winningBid={90}
+          revealedBids={[
+            { playerName: 'Alice', amount: 40 },
+            { playerName: 'Carol', amount: 90 },
+          ]}
+          onClose={vi.fn()}
+        />,
+      );
+
+      const bids = screen.getByTestId('revealed-bids').querySelectorAll('li');
+      expect(bids[0]).toHaveTextContent('Carol$90');
+      expect(bids[1]).toHaveTextContent('Alice$40');
+    });
   });
 });
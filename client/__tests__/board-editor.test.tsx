@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { CLASSIC_BOARD } from '@monopoly/shared';
+import { BoardEditor } from '../src/components/editor/BoardEditor';
+import {
+  cloneBoard,
+  createEffect,
+  exportBoardJson,
+  parseBoardJson,
+  updateCard,
+  updateSpace,
+} from '../src/components/editor/boardDraft';
+
+function boardFile(contents: string) {
+  return new File([contents], 'board.json', { type: 'application/json' });
+}
+
+describe('boardDraft', () => {
+  it('edits a copy without touching the original board', () => {
+    const draft = updateSpace(cloneBoard(CLASSIC_BOARD), 1, { name: 'Old Kent Road', cost: 70 });
+    expect(draft.spaces[1]).toMatchObject({ name: 'Old Kent Road', cost: 70 });
+    expect(CLASSIC_BOARD.spaces[1].name).toBe('Mediterranean Avenue');
+  });
+
+  it('replaces a card effect with a fresh one of the new type', () => {
+    expect(createEffect('repairs', CLASSIC_BOARD)).toEqual({
+      type: 'repairs',
+      perHouse: 0,
+      perHotel: 0,
+    });
+    expect(createEffect('moveBack', CLASSIC_BOARD)).toEqual({ type: 'moveBack', spaces: 1 });
+    expect(createEffect('advanceNearestColor', CLASSIC_BOARD)).toEqual({
+      type: 'advanceNearestColor',
+      colorGroup: 'brown',
+    });
+
+    const cardId = CLASSIC_BOARD.decks.chance[0].id;
+    const draft = updateCard(CLASSIC_BOARD, 'chance', cardId, {
+      effect: createEffect('jail', CLASSIC_BOARD),
+    });
+    expect(draft.decks.chance[0].effect).toEqual({ type: 'jail' });
+  });
+
+  it('reads back an exported board and rejects anything that does not validate', () => {
+    const json = exportBoardJson({ ...CLASSIC_BOARD, id: 'london', currencySymbol: '£' });
+    expect(parseBoardJson(json).board?.currencySymbol).toBe('£');
+    expect(parseBoardJson('{ not json')).toEqual({ error: 'File is not valid JSON' });
+    expect(parseBoardJson(JSON.stringify({ ...CLASSIC_BOARD, name: '' }))).toEqual({
+      error: 'Board needs a name',
+    });
+  });
+});
+
+describe('BoardEditor', () => {
+  beforeEach(() => {
+    HTMLCanvasElement.prototype.getContext = vi.fn().mockReturnValue(null);
+  });
+
+  it('starts from the classic board and reports it ready to play', () => {
+    render(<BoardEditor />);
+    expect(screen.getByTestId('board-name')).toHaveValue('Classic');
+    expect(screen.getByTestId('space-name')).toHaveValue('Mediterranean Avenue');
+    expect(screen.getByTestId('board-validation')).toHaveTextContent('Board is ready to play');
+  });
+
+  it('renames spaces and changes their price and rent', () => {
+    render(<BoardEditor />);
+    fireEvent.change(screen.getByTestId('space-select'), { target: { value: '3' } });
+    fireEvent.change(screen.getByTestId('space-name'), { target: { value: 'Whitechapel Road' } });
+    fireEvent.change(screen.getByTestId('space-cost'), { target: { value: '65' } });
+    fireEvent.change(screen.getByTestId('space-rent-5'), { target: { value: '500' } });
+
+    expect(screen.getByTestId('space-select')).toHaveDisplayValue('3: Whitechapel Road');
+    expect(screen.getByTestId('space-cost')).toHaveValue(65);
+    expect(screen.getByTestId('space-rent-5')).toHaveValue(500);
+  });
+
+  it('flags a color group left with too few streets', () => {
+    render(<BoardEditor />);
+    fireEvent.change(screen.getByTestId('space-colorGroup'), { target: { value: 'lightBlue' } });
+
+    expect(screen.getByTestId('color-group-brown')).toHaveTextContent('1 streets');
+    expect(screen.getByTestId('board-validation')).toHaveTextContent(
+      "Color group 'brown' needs 2-3 streets, not 1",
+    );
+    expect(screen.getByTestId('export-board')).toBeDisabled();
+  });
+
+  it('edits card text and points move cards at spaces on the board', () => {
+    const onExport = vi.fn();
+    render(<BoardEditor onExport={onExport} />);
+    const card = CLASSIC_BOARD.decks.chance[0];
+
+    fireEvent.change(screen.getByTestId(`card-text-${card.id}`), {
+      target: { value: 'Take a trip to Boardwalk.' },
+    });
+    fireEvent.change(screen.getByTestId(`card-effect-${card.id}`), { target: { value: 'move' } });
+    fireEvent.change(screen.getByTestId(`card-position-${card.id}`), { target: { value: '39' } });
+    fireEvent.click(screen.getByTestId('export-board'));
+
+    const [json, fileName] = onExport.mock.calls[0];
+    expect(fileName).toBe('classic.json');
+    expect(JSON.parse(json).decks.chance[0]).toMatchObject({
+      text: 'Take a trip to Boardwalk.',
+      effect: { type: 'move', position: 39 },
+    });
+  });
+
+  it('builds the richer effects and leaves sequences to the JSON file', () => {
+    const onExport = vi.fn();
+    const [first, second] = CLASSIC_BOARD.decks.chance;
+    const board = updateCard(CLASSIC_BOARD, 'chance', second.id, {
+      effect: { type: 'sequence', effects: [{ type: 'freeHouse' }, { type: 'jail' }] },
+    });
+    render(<BoardEditor initialBoard={board} onExport={onExport} />);
+
+    fireEvent.change(screen.getByTestId(`card-effect-${first.id}`), {
+      target: { value: 'advanceNearestColor' },
+    });
+    fireEvent.change(screen.getByTestId(`card-colorGroup-${first.id}`), {
+      target: { value: 'green' },
+    });
+    expect(screen.getByTestId(`card-effect-${second.id}`)).toHaveDisplayValue(
+      'Several effects (edit in the JSON file)',
+    );
+    fireEvent.click(screen.getByTestId('export-board'));
+
+    const chance = JSON.parse(onExport.mock.calls[0][0]).decks.chance;
+    expect(chance[0].effect).toEqual({ type: 'advanceNearestColor', colorGroup: 'green' });
+    expect(chance[1].effect.type).toBe('sequence');
+  });
+
+  it('imports a board file and reports files that fail validation', async () => {
+    render(<BoardEditor />);
+    const london = { ...CLASSIC_BOARD, id: 'london', name: 'London', currencySymbol: '£' };
+
+    fireEvent.change(screen.getByTestId('import-board'), {
+      target: { files: [boardFile(JSON.stringify(london))] },
+    });
+    await waitFor(() => expect(screen.getByTestId('board-name')).toHaveValue('London'));
+    expect(screen.getByTestId('board-currency')).toHaveValue('£');
+
+    fireEvent.change(screen.getByTestId('import-board'), {
+      target: { files: [boardFile(JSON.stringify({ ...london, currencySymbol: '' }))] },
+    });
+    await waitFor(() =>
+      expect(screen.getByTestId('import-error')).toHaveTextContent(
+        'Currency symbol must be 1-4 characters',
+      ),
+    );
+    expect(screen.getByTestId('board-name')).toHaveValue('London');
+  });
+});
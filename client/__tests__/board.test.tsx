@@ -6,6 +6,7 @@ import {
   getBoardPath,
   getColorGroupHex,
 } from '../src/components/board/boardLayout';
+import { CLASSIC_BOARD } from '@monopoly/shared';
 import { PixiBoard, DiceDisplay } from '../src/components/board/PixiBoard';
 import { mockBoard, mockPlayers, mockProperties } from '../src/mocks/gameData';
 
@@ -114,6 +115,28 @@ describe('boardLayout', () => {
     });
   });
 
+  describe('calculateSpacePositions on a smaller board', () => {
+    const positions = calculateSpacePositions(600, 12);
+
+    it('puts the corners a quarter of the way round', () => {
+      expect(positions).toHaveLength(12);
+      expect(positions.filter((p) => p.isCorner)).toEqual([
+        positions[0],
+        positions[3],
+        positions[6],
+        positions[9],
+      ]);
+      expect(positions[6]).toMatchObject({ x: 0, y: 0 });
+    });
+
+    it('stretches two spaces across each side', () => {
+      expect(positions[1].width).toBe(positions[2].width);
+      expect(positions[1].width).toBeCloseTo((600 - 2 * 72) / 2);
+      expect(positions[4].side).toBe('left');
+      expect(positions[11].side).toBe('right');
+    });
+  });
+
   describe('getBoardPath', () => {
     it('returns correct path from 5 to 10', () => {
       const path = getBoardPath(5, 10);
@@ -124,6 +147,10 @@ describe('boardLayout', () => {
       const path = getBoardPath(38, 3);
       expect(path).toEqual([39, 0, 1, 2, 3]);
     });
+
+    it('wraps around Go on a smaller board', () => {
+      expect(getBoardPath(10, 1, 12)).toEqual([11, 0, 1]);
+    });
   });
 
   describe('getColorGroupHex', () => {
@@ -134,6 +161,10 @@ describe('boardLayout', () => {
     it('returns correct hex for darkBlue', () => {
       expect(getColorGroupHex('darkBlue')).toBe(0x1565c0);
     });
+
+    it("uses the edition's color when given one", () => {
+      expect(getColorGroupHex('harbour', '#00796b')).toBe(0x00796b);
+    });
   });
 });
 
@@ -187,6 +218,25 @@ describe('PixiBoard component', () => {
     const canvas = screen.getByTestId('board-canvas');
     fireEvent.click(canvas);
   });
+
+  it("prices spaces in the edition's currency", () => {
+    const ctx = HTMLCanvasElement.prototype.getContext('2d') as unknown as {
+      fillText: ReturnType<typeof vi.fn>;
+    };
+    render(
+      <PixiBoard
+        spaces={mockBoard}
+        players={mockPlayers}
+        properties={mockProperties}
+        freeParkingPot={250}
+        edition={{ ...CLASSIC_BOARD, id: 'london', currencySymbol: '£' }}
+      />,
+    );
+    const texts = ctx.fillText.mock.calls.map(([text]) => text);
+    expect(texts).toContain('£60');
+    expect(texts).toContain('Free Parking: £250');
+    expect(texts).not.toContain('$60');
+  });
 });
 
 describe('DiceDisplay', () => {
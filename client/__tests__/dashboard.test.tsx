@@ -1,12 +1,14 @@
 import { describe, it, expect, vi } from 'vitest';
 import { render, screen, fireEvent } from '@testing-library/react';
 import { TurnState } from '@monopoly/shared';
+import type { RentAgreement } from '@monopoly/shared';
 import {
   PlayerDashboard,
   CurrentPlayerPanel,
   OwnedPropertiesList,
   HeldCardsDisplay,
   OtherPlayersSummary,
+  TradeAgreementsList,
   ActionButtonBar,
   TurnIndicator,
 } from '../src/components/dashboard/PlayerDashboard';
@@ -73,6 +75,69 @@ describe('HeldCardsDisplay', () => {
   });
 });
 
+describe('TradeAgreementsList', () => {
+  const agreements: RentAgreement[] = [
+    {
+      id: 'trade-1-0',
+      tradeId: 'trade-1',
+      propertyId: 5,
+      ownerId: 'player-2',
+      beneficiaryId: 'player-1',
+      type: 'rentImmunity',
+      landingsLeft: 2,
+    },
+    {
+      id: 'trade-1-1',
+      tradeId: 'trade-1',
+      propertyId: 1,
+      ownerId: 'player-1',
+      beneficiaryId: 'player-2',
+      type: 'rentShare',
+      percent: 25,
+      turnsLeft: 1,
+    },
+    {
+      id: 'trade-2-0',
+      tradeId: 'trade-2',
+      propertyId: 6,
+      ownerId: 'player-3',
+      beneficiaryId: 'player-2',
+      type: 'rentImmunity',
+      landingsLeft: 1,
+    },
+  ];
+
+  it("shows the player's deals from both sides", () => {
+    render(
+      <TradeAgreementsList
+        player={mockPlayers[0]}
+        players={mockPlayers}
+        properties={mockProperties}
+        agreements={agreements}
+      />,
+    );
+    expect(screen.getByTestId('agreement-trade-1-0')).toHaveTextContent(
+      'No rent to Bob on Reading Railroad (2 landings left)',
+    );
+    expect(screen.getByTestId('agreement-trade-1-1')).toHaveTextContent(
+      'Bob takes 25% of Mediterranean Avenue rent (1 turn left)',
+    );
+    expect(screen.queryByTestId('agreement-trade-2-0')).not.toBeInTheDocument();
+  });
+
+  it('returns null when the player has no deals', () => {
+    const { container } = render(
+      <TradeAgreementsList
+        player={mockPlayers[0]}
+        players={mockPlayers}
+        properties={mockProperties}
+        agreements={agreements.slice(2)}
+      />,
+    );
+    expect(container.innerHTML).toBe('');
+  });
+});
+
 describe('OtherPlayersSummary', () => {
   it('displays other players with correct info', () => {
     const others = mockPlayers.filter((p) => p.id !== 'player-1');
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, act } from '@testing-library/react';
 import { TurnState } from '@monopoly/shared';
 import { GameLayout } from '../src/components/dashboard/GameLayout';
 import { mockBoard, mockPlayers, mockProperties } from '../src/mocks/gameData';
@@ -71,4 +71,32 @@ describe('GameLayout', () => {
     fireEvent.click(toggle);
     expect(screen.queryByTestId('mobile-drawer')).not.toBeInTheDocument();
   });
+
+  it('shows no game clock outside timed games', () => {
+    render(<GameLayout {...defaultProps} />);
+    expect(screen.queryByTestId('game-clock')).not.toBeInTheDocument();
+  });
+
+  it('counts down the game clock of a timed game', () => {
+    vi.useFakeTimers();
+    try {
+      const endsAt = Date.now() + 90_000;
+      render(<GameLayout {...defaultProps} gameClock={{ endsAt, round: 3, roundLimit: 10 }} />);
+      expect(screen.getByText('Round 3 / 10')).toBeInTheDocument();
+      expect(screen.getByTestId('game-clock-countdown')).toHaveTextContent('1:30');
+
+      act(() => {
+        vi.advanceTimersByTime(90_000);
+      });
+      expect(screen.getByTestId('game-clock-countdown')).toHaveTextContent("Time's up");
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('announces the final round', () => {
+    render(<GameLayout {...defaultProps} gameClock={{ round: 5, isFinalRound: true }} />);
+    expect(screen.getByTestId('final-round-banner')).toHaveTextContent('Final round!');
+    expect(screen.queryByTestId('game-clock-countdown')).not.toBeInTheDocument();
+  });
 });
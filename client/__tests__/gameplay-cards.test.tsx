@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render, screen, fireEvent, act } from '@testing-library/react';
 import { CardDrawModal } from '../src/components/cards/CardDrawModal';
+import { CLASSIC_BOARD } from '@monopoly/shared';
 import type { Card } from '@monopoly/shared';
 
 describe('CardDrawModal', () => {
@@ -195,4 +196,54 @@ describe('CardDrawModal', () => {
       'Advance to nearest Utility (10x dice if owned)',
     );
   });
+
+  it('describes the richer effects in the edition currency', () => {
+    const card: Card = {
+      id: 'combo',
+      deck: 'chance',
+      text: 'A bad week.',
+      effect: {
+        type: 'sequence',
+        effects: [
+          { type: 'cashPerProperty', amount: -15 },
+          { type: 'advanceNearestColor', colorGroup: 'darkBlue' },
+          { type: 'payPercentOfCash', percent: 10 },
+        ],
+      },
+    };
+    render(
+      <CardDrawModal
+        card={card}
+        edition={{ ...CLASSIC_BOARD, currencySymbol: '£' }}
+        onDismiss={() => {}}
+      />,
+    );
+    act(() => {
+      vi.advanceTimersByTime(500);
+    });
+    expect(screen.getByTestId('card-effect')).toHaveTextContent(
+      'Pay £15 for each property you own, then Advance to the nearest Dark Blue property, then Pay 10% of your cash',
+    );
+  });
+
+  it('names the move destination and the swap target', () => {
+    const { rerender } = render(
+      <CardDrawModal
+        card={{ ...cashCard, effect: { type: 'move', position: 39 } }}
+        spaces={CLASSIC_BOARD.spaces}
+        onDismiss={() => {}}
+      />,
+    );
+    expect(screen.getByTestId('card-effect')).toHaveTextContent('Move to Boardwalk');
+
+    rerender(
+      <CardDrawModal
+        card={{ ...cashCard, effect: { type: 'swapPositions', target: 'richestPlayer' } }}
+        onDismiss={() => {}}
+      />,
+    );
+    expect(screen.getByTestId('card-effect')).toHaveTextContent(
+      'Swap places with the richest player',
+    );
+  });
 });
@@ -297,6 +297,25 @@ describe('GameplayController', () => {
     expect(emitAction).toHaveBeenCalledWith({ type: 'RollForDoubles' });
   });
 
+  it('offers the bus destinations and emits the chosen move', () => {
+    const state = makeState({
+      turnState: TurnState.ChoosingSpeedDieMove,
+      lastDiceResult: { die1: 4, die2: 3, total: 7, isDoubles: false, speedDie: 'bus' },
+      pendingSpeedDie: { type: 'bus', destinations: [4, 3, 7] },
+    });
+    renderWithProviders(
+      <GameplayController gameState={state} localPlayerId="player-1" emitAction={emitAction} />,
+    );
+    expect(screen.getByTestId('speed-die-destination-3')).toHaveTextContent('Baltic Avenue');
+    fireEvent.click(screen.getByTestId('speed-die-destination-7'));
+    expect(emitAction).toHaveBeenCalledWith({ type: 'ChooseSpeedDieMove', destination: 7 });
+
+    renderWithProviders(
+      <GameplayController gameState={state} localPlayerId="player-2" emitAction={emitAction} />,
+    );
+    expect(screen.getAllByTestId('speed-die-move')).toHaveLength(1);
+  });
+
   it('shows activity feed', () => {
     renderWithProviders(
       <GameplayController
@@ -63,4 +63,36 @@ describe('DiceDisplay', () => {
     expect(screen.getByTestId('die-face-6')).toBeInTheDocument();
     expect(screen.getByTestId('die-face-1')).toBeInTheDocument();
   });
+
+  it('adds a numbered Speed Die to the total', () => {
+    render(<DiceDisplay die1={2} die2={5} isDoubles={false} speedDie={3} />);
+    act(() => {
+      vi.advanceTimersByTime(700);
+    });
+    expect(screen.getByTestId('speed-die')).toContainElement(screen.getByTestId('die-face-3'));
+    expect(screen.getByTestId('dice-total')).toHaveTextContent('10');
+  });
+
+  it('shows the Mr. Monopoly and bus faces', () => {
+    const { rerender } = render(
+      <DiceDisplay die1={2} die2={5} isDoubles={false} speedDie="mrMonopoly" />,
+    );
+    act(() => {
+      vi.advanceTimersByTime(700);
+    });
+    expect(screen.getByTestId('speed-die')).toHaveAttribute('title', 'Mr. Monopoly');
+    expect(screen.getByTestId('dice-total')).toHaveTextContent('7');
+
+    rerender(<DiceDisplay die1={2} die2={5} isDoubles={false} speedDie="bus" />);
+    expect(screen.getByTestId('speed-die')).toHaveAttribute('title', 'Bus');
+  });
+
+  it('shows a triples badge instead of doubles', () => {
+    render(<DiceDisplay die1={3} die2={3} isDoubles={true} speedDie={3} />);
+    act(() => {
+      vi.advanceTimersByTime(700);
+    });
+    expect(screen.getByTestId('triples-badge')).toHaveTextContent('Triples!');
+    expect(screen.queryByTestId('doubles-badge')).not.toBeInTheDocument();
+  });
 });
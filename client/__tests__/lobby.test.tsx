@@ -1,11 +1,13 @@
 import { describe, it, expect, vi } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
-import { TokenType } from '@monopoly/shared';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { CLASSIC_BOARD, TokenType } from '@monopoly/shared';
 import {
   CreateGameForm,
   JoinGameForm,
   WaitingRoom,
   PlayerListItem,
+  HouseRulesEditor,
+  BoardSelector,
   NameEntryModal,
 } from '../src/components/lobby/Lobby';
 import type { LobbyPlayer } from '../src/components/lobby/Lobby';
@@ -15,6 +17,16 @@ const mockLobbyPlayers: LobbyPlayer[] = [
   { id: 'p2', name: 'Bob', token: TokenType.TopHat, isReady: false, isHost: false },
 ];
 
+const mockBot: LobbyPlayer = {
+  id: 'bot-1',
+  name: 'Trader Bot 1',
+  token: TokenType.Boot,
+  isReady: true,
+  isHost: false,
+  isBot: true,
+  botStrategy: 'trader',
+};
+
 describe('CreateGameForm', () => {
   it('renders form with player count and starting cash', () => {
     render(<CreateGameForm onSubmit={() => {}} />);
@@ -97,6 +109,180 @@ describe('WaitingRoom', () => {
   });
 });
 
+describe('WaitingRoom bots', () => {
+  it('labels bots with their strategy', () => {
+    render(<PlayerListItem player={mockBot} />);
+    expect(screen.getByTestId('bot-badge-bot-1')).toHaveTextContent('BOT · Trader');
+  });
+
+  it('host can add a bot with the chosen strategy', () => {
+    const onAddBot = vi.fn();
+    render(
+      <WaitingRoom
+        roomCode="ABCDEF"
+        players={mockLobbyPlayers}
+        isHost={true}
+        onAddBot={onAddBot}
+      />,
+    );
+    fireEvent.change(screen.getByTestId('bot-strategy-select'), {
+      target: { value: 'aggressive' },
+    });
+    fireEvent.click(screen.getByTestId('add-bot-button'));
+    expect(onAddBot).toHaveBeenCalledWith('aggressive');
+  });
+
+  it('host can remove bots but not humans', () => {
+    const onRemoveBot = vi.fn();
+    render(
+      <WaitingRoom
+        roomCode="ABCDEF"
+        players={[...mockLobbyPlayers, mockBot]}
+        isHost={true}
+        onRemoveBot={onRemoveBot}
+      />,
+    );
+    expect(screen.queryByTestId('remove-bot-p2')).not.toBeInTheDocument();
+    fireEvent.click(screen.getByTestId('remove-bot-bot-1'));
+    expect(onRemoveBot).toHaveBeenCalledWith('bot-1');
+  });
+
+  it('disables adding bots when the room is full', () => {
+    render(
+      <WaitingRoom
+        roomCode="ABCDEF"
+        players={mockLobbyPlayers}
+        isHost={true}
+        maxPlayers={2}
+        onAddBot={vi.fn()}
+      />,
+    );
+    expect(screen.getByTestId('add-bot-button')).toBeDisabled();
+  });
+
+  it('non-host cannot manage bots', () => {
+    render(
+      <WaitingRoom
+        roomCode="ABCDEF"
+        players={[...mockLobbyPlayers, mockBot]}
+        isHost={false}
+        onAddBot={vi.fn()}
+        onRemoveBot={vi.fn()}
+      />,
+    );
+    expect(screen.queryByTestId('add-bot-control')).not.toBeInTheDocument();
+    expect(screen.queryByTestId('remove-bot-bot-1')).not.toBeInTheDocument();
+  });
+});
+
+describe('HouseRulesEditor', () => {
+  it('shows the defaults merged with the room rules', () => {
+    render(<HouseRulesEditor rules={{ jailFine: 100, evenBuild: false }} editable />);
+    expect(screen.getByTestId('rule-jailFine')).toHaveValue(100);
+    expect(screen.getByTestId('rule-goSalary')).toHaveValue(200);
+    expect(screen.getByTestId('rule-mortgageInterestRate')).toHaveValue(10);
+    expect(screen.getByTestId('rule-evenBuild')).not.toBeChecked();
+    expect(screen.getByTestId('rule-auctionEnabled')).toBeChecked();
+    expect(screen.getByTestId('rule-auctionTimeLimit')).toHaveValue(15);
+    expect(screen.getByTestId('rule-minBidIncrement')).toHaveValue(1);
+    expect(screen.getByTestId('rule-tradeTimeLimit')).toHaveValue(120);
+    expect(screen.getByTestId('rule-auctionRoundRobin')).not.toBeChecked();
+    expect(screen.getByTestId('rule-sealedBidAuctions')).not.toBeChecked();
+    expect(screen.getByTestId('rule-tradeAnytime')).not.toBeChecked();
+  });
+
+  it('sends toggles straight away and numbers once the field is left', () => {
+    const onChange = vi.fn();
+    render(<HouseRulesEditor rules={{}} editable onChange={onChange} />);
+
+    fireEvent.click(screen.getByTestId('rule-freeParking'));
+    expect(onChange).toHaveBeenLastCalledWith({ freeParking: 'houserule' });
+
+    const interest = screen.getByTestId('rule-mortgageInterestRate');
+    fireEvent.change(interest, { target: { value: '15' } });
+    expect(onChange).toHaveBeenCalledTimes(1);
+    fireEvent.blur(interest);
+    expect(onChange).toHaveBeenLastCalledWith({ mortgageInterestRate: 0.15 });
+  });
+
+  it('picks the length of a timed game', () => {
+    const onChange = vi.fn();
+    render(<HouseRulesEditor rules={{}} editable onChange={onChange} />);
+
+    const length = screen.getByTestId('rule-gameTimeLimit');
+    expect(length).toHaveValue('0');
+    fireEvent.change(length, { target: { value: '60' } });
+    expect(onChange).toHaveBeenLastCalledWith({ gameTimeLimit: 60 });
+  });
+
+  it('is read-only for everyone but the host', () => {
+    render(
+      <WaitingRoom
+        roomCode="ABCDEF"
+        players={mockLobbyPlayers}
+        isHost={false}
+        houseRules={{}}
+        onUpdateHouseRules={vi.fn()}
+      />,
+    );
+    expect(screen.getByTestId('house-rules-editor')).toBeDisabled();
+  });
+});
+
+describe('BoardSelector', () => {
+  const boards = [
+    { id: 'classic', name: 'Classic', spaceCount: 40 },
+    { id: 'london', name: 'London', spaceCount: 40 },
+  ];
+
+  it('lets the host pick one of the server boards', () => {
+    const onSelect = vi.fn();
+    render(<BoardSelector boards={boards} editable onSelect={onSelect} />);
+    const select = screen.getByTestId('board-select');
+    expect(select).toHaveValue('classic');
+    expect(screen.getByText('London (40 spaces)')).toBeInTheDocument();
+    fireEvent.change(select, { target: { value: 'london' } });
+    expect(onSelect).toHaveBeenCalledWith('london');
+  });
+
+  it("shows the room's board read-only to other players, even a custom one", () => {
+    render(
+      <WaitingRoom
+        roomCode="ABCDEF"
+        players={mockLobbyPlayers}
+        isHost={false}
+        boards={boards}
+        board={{ id: 'my-town', name: 'My Town' }}
+        onSelectBoard={vi.fn()}
+      />,
+    );
+    const select = screen.getByTestId('board-select');
+    expect(select).toBeDisabled();
+    expect(select).toHaveValue('my-town');
+    expect(screen.getByText('My Town')).toBeInTheDocument();
+    expect(screen.queryByTestId('board-upload')).not.toBeInTheDocument();
+  });
+
+  it('lets the host load a board file exported from the editor', async () => {
+    const onUpload = vi.fn();
+    render(<BoardSelector boards={boards} editable onSelect={vi.fn()} onUpload={onUpload} />);
+    const board = { ...CLASSIC_BOARD, id: 'my-town', name: 'My Town' };
+
+    fireEvent.change(screen.getByTestId('board-upload'), {
+      target: { files: [new File([JSON.stringify(board)], 'my-town.json')] },
+    });
+    await waitFor(() => expect(onUpload).toHaveBeenCalledWith(board));
+
+    fireEvent.change(screen.getByTestId('board-upload'), {
+      target: { files: [new File(['nope'], 'broken.json')] },
+    });
+    await waitFor(() =>
+      expect(screen.getByTestId('board-upload-error')).toHaveTextContent('File is not valid JSON'),
+    );
+    expect(onUpload).toHaveBeenCalledTimes(1);
+  });
+});
+
 describe('NameEntryModal', () => {
   it('renders name input and token selector', () => {
     render(<NameEntryModal isOpen={true} onSubmit={() => {}} />);
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent, renderHook, waitFor, act } from '@testing-library/react';
+import {
+  createInitialGameState,
+  createReplay,
+  appendReplayStep,
+  type GameReplay,
+} from '@monopoly/shared';
+import { ReplayControls } from '../src/components/replay/ReplayControls';
+import { useReplay, REPLAY_SPEEDS } from '../src/hooks/useReplay';
+
+function makeReplay(): GameReplay {
+  const state = createInitialGameState(
+    [
+      { id: 'p1', name: 'Alice' },
+      { id: 'p2', name: 'Bob' },
+    ],
+    { gameId: 'replay-test', settings: { seed: 42 } },
+  );
+  let replay = createReplay(state);
+  replay = appendReplayStep(replay, {
+    type: 'action',
+    playerId: 'p1',
+    action: { type: 'RollDice' },
+    timestamp: 1000,
+  });
+  replay = appendReplayStep(replay, { type: 'autoEndTurn', timestamp: 2000 });
+  replay = appendReplayStep(replay, { type: 'autoRoll', timestamp: 3000 });
+  return replay;
+}
+
+const fetchTestReplay = async () => makeReplay();
+
+describe('ReplayControls', () => {
+  const defaultProps = {
+    step: 2,
+    totalSteps: 10,
+    isPlaying: false,
+    speed: 1,
+    speeds: REPLAY_SPEEDS,
+    onPlay: vi.fn(),
+    onPause: vi.fn(),
+    onStepBack: vi.fn(),
+    onStepForward: vi.fn(),
+    onSeek: vi.fn(),
+    onSpeedChange: vi.fn(),
+  };
+
+  it('shows the current position', () => {
+    render(<ReplayControls {...defaultProps} />);
+    expect(screen.getByTestId('replay-position')).toHaveTextContent('2 / 10');
+  });
+
+  it('toggles between play and pause', () => {
+    const onPlay = vi.fn();
+    const onPause = vi.fn();
+    const { rerender } = render(
+      <ReplayControls {...defaultProps} onPlay={onPlay} onPause={onPause} />,
+    );
+    fireEvent.click(screen.getByLabelText('Play'));
+    expect(onPlay).toHaveBeenCalled();
+
+    rerender(<ReplayControls {...defaultProps} isPlaying onPlay={onPlay} onPause={onPause} />);
+    fireEvent.click(screen.getByLabelText('Pause'));
+    expect(onPause).toHaveBeenCalled();
+  });
+
+  it('steps and scrubs', () => {
+    const onStepBack = vi.fn();
+    const onStepForward = vi.fn();
+    const onSeek = vi.fn();
+    render(
+      <ReplayControls
+        {...defaultProps}
+        onStepBack={onStepBack}
+        onStepForward={onStepForward}
+        onSeek={onSeek}
+      />,
+    );
+    fireEvent.click(screen.getByTestId('replay-step-back'));
+    fireEvent.click(screen.getByTestId('replay-step-forward'));
+    fireEvent.change(screen.getByTestId('replay-scrubber'), { target: { value: '7' } });
+    expect(onStepBack).toHaveBeenCalled();
+    expect(onStepForward).toHaveBeenCalled();
+    expect(onSeek).toHaveBeenCalledWith(7);
+  });
+
+  it('disables stepping past either end', () => {
+    const { rerender } = render(<ReplayControls {...defaultProps} step={0} />);
+    expect(screen.getByTestId('replay-step-back')).toBeDisabled();
+    rerender(<ReplayControls {...defaultProps} step={10} />);
+    expect(screen.getByTestId('replay-step-forward')).toBeDisabled();
+  });
+
+  it('changes playback speed', () => {
+    const onSpeedChange = vi.fn();
+    render(<ReplayControls {...defaultProps} onSpeedChange={onSpeedChange} />);
+    fireEvent.change(screen.getByTestId('replay-speed'), { target: { value: '2' } });
+    expect(onSpeedChange).toHaveBeenCalledWith(2);
+  });
+});
+
+describe('useReplay', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('loads the replay and starts at the initial state', async () => {
+    const { result } = renderHook(() => useReplay('replay-test', fetchTestReplay));
+    await waitFor(() => expect(result.current.status).toBe('ready'));
+    expect(result.current.step).toBe(0);
+    expect(result.current.totalSteps).toBe(3);
+    expect(result.current.state?.lastDiceResult).toBeFalsy();
+    expect(result.current.state?.players[0].position).toBe(0);
+  });
+
+  it('steps and seeks through reconstructed states', async () => {
+    const { result } = renderHook(() => useReplay('replay-test', fetchTestReplay));
+    await waitFor(() => expect(result.current.status).toBe('ready'));
+
+    act(() => result.current.stepForward());
+    expect(result.current.step).toBe(1);
+    expect(result.current.state?.lastDiceResult).toBeTruthy();
+
+    act(() => result.current.seek(99));
+    expect(result.current.step).toBe(3);
+
+    act(() => result.current.stepBack());
+    expect(result.current.step).toBe(2);
+    expect(result.current.state?.currentPlayerIndex).toBe(1);
+  });
+
+  it('plays through to the end and stops', async () => {
+    const { result } = renderHook(() => useReplay('replay-test', fetchTestReplay));
+    await waitFor(() => expect(result.current.status).toBe('ready'));
+
+    vi.useFakeTimers();
+    act(() => result.current.play());
+    expect(result.current.isPlaying).toBe(true);
+    for (let i = 0; i < 3; i++) {
+      act(() => {
+        vi.advanceTimersByTime(1000);
+      });
+    }
+    expect(result.current.step).toBe(3);
+    expect(result.current.isPlaying).toBe(false);
+  });
+
+  it('reports fetch errors', async () => {
+    const fetchMissing = async (): Promise<GameReplay> => {
+      throw new Error('Replay not found');
+    };
+    const { result } = renderHook(() => useReplay('missing', fetchMissing));
+    await waitFor(() => expect(result.current.status).toBe('error'));
+    expect(result.current.error).toBe('Replay not found');
+  });
+});
@@ -1,12 +1,13 @@
 import { describe, it, expect, vi } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, act } from '@testing-library/react';
 import { TradeBuilder } from '../src/components/trading/TradeBuilder';
 import {
   IncomingTradeModal,
   TradeNotification,
 } from '../src/components/trading/IncomingTradeModal';
+import { TradeHistory } from '../src/components/trading/TradeHistory';
 import { mockPlayers, mockProperties } from '../src/mocks/gameData';
-import type { TradeOffer, Property } from '@monopoly/shared';
+import type { TradeOffer, TradeThread, Property } from '@monopoly/shared';
 
 const activePlayers = mockPlayers.filter((p) => p.isActive && !p.isBankrupt);
 const otherPlayers = activePlayers.filter((p) => p.id !== 'player-1');
@@ -179,6 +180,128 @@ describe('Step 3B.5 — Trading UI', () => {
         }),
       );
     });
+
+    it('attaches rent deals that favor whoever gives up the property', () => {
+      const onSend = vi.fn();
+      const propsNoBuildings: Property[] = mockProperties.map((p) => ({ ...p, houses: 0 }));
+      render(
+        <TradeBuilder
+          isOpen={true}
+          currentPlayer={mockPlayers[0]}
+          otherPlayers={otherPlayers}
+          properties={propsNoBuildings}
+          onSendOffer={onSend}
+          onClose={vi.fn()}
+          prefilledRecipientId="player-2"
+        />,
+      );
+
+      // Mediterranean goes to Bob, so Alice keeps landing on it rent-free
+      fireEvent.click(screen.getByTestId('offer-prop-1'));
+      fireEvent.change(screen.getByTestId('clause-landings'), { target: { value: '3' } });
+      fireEvent.click(screen.getByTestId('add-clause'));
+      expect(screen.getByTestId('clause-0')).toHaveTextContent(
+        'Alice pays no rent on Mediterranean Avenue for the next 3 landings',
+      );
+
+      // Alice keeps Baltic, so the share goes to Bob
+      fireEvent.change(screen.getByTestId('clause-type'), { target: { value: 'rentShare' } });
+      fireEvent.change(screen.getByTestId('clause-property'), { target: { value: '3' } });
+      fireEvent.change(screen.getByTestId('clause-percent'), { target: { value: '150' } });
+      fireEvent.change(screen.getByTestId('clause-turns'), { target: { value: '4' } });
+      fireEvent.click(screen.getByTestId('add-clause'));
+      expect(screen.getByTestId('clause-1')).toHaveTextContent(
+        'Bob gets 100% of Baltic Avenue rent for 4 turns',
+      );
+
+      fireEvent.click(screen.getByTestId('send-offer-button'));
+      expect(onSend.mock.calls[0][1].clauses).toEqual([
+        { type: 'rentImmunity', propertyId: 1, beneficiaryId: 'player-1', landings: 3 },
+        {
+          type: 'rentShare',
+          propertyId: 3,
+          beneficiaryId: 'player-2',
+          percent: 100,
+          turns: 4,
+        },
+      ]);
+    });
+  });
+
+  describe('TradeBuilder multi-party deals', () => {
+    const propsNoBuildings: Property[] = mockProperties.map((p) => ({ ...p, houses: 0 }));
+
+    function renderMulti(onSendMultiOffer = vi.fn(), properties = propsNoBuildings) {
+      render(
+        <TradeBuilder
+          isOpen={true}
+          currentPlayer={mockPlayers[0]}
+          otherPlayers={otherPlayers}
+          properties={properties}
+          onSendOffer={vi.fn()}
+          onSendMultiOffer={onSendMultiOffer}
+          onClose={vi.fn()}
+        />,
+      );
+      return onSendMultiOffer;
+    }
+
+    it('only offers a multi-party deal when the page can send one', () => {
+      render(
+        <TradeBuilder
+          isOpen={true}
+          currentPlayer={mockPlayers[0]}
+          otherPlayers={otherPlayers}
+          properties={mockProperties}
+          onSendOffer={vi.fn()}
+          onClose={vi.fn()}
+        />,
+      );
+      expect(screen.queryByTestId('multi-player-selection')).not.toBeInTheDocument();
+    });
+
+    it('builds a three-way deal with a column per player', () => {
+      const onSend = renderMulti();
+      fireEvent.click(screen.getByTestId('multi-player-player-2'));
+      expect(screen.getByTestId('start-multi-trade')).toBeDisabled();
+      fireEvent.click(screen.getByTestId('multi-player-player-3'));
+      fireEvent.click(screen.getByTestId('start-multi-trade'));
+
+      expect(screen.getByText('You Give')).toBeInTheDocument();
+      expect(screen.getByText('Bob Gives')).toBeInTheDocument();
+      expect(screen.getByText('Charlie Gives')).toBeInTheDocument();
+      expect(screen.getByTestId('trade-validation-error')).toHaveTextContent(
+        'Add items to the trade',
+      );
+
+      fireEvent.change(screen.getByTestId('multi-dest-1'), { target: { value: 'player-2' } });
+      fireEvent.change(screen.getByTestId('multi-dest-5'), { target: { value: 'player-3' } });
+      fireEvent.change(screen.getByTestId('multi-cash-player-3-player-1'), {
+        target: { value: '100' },
+      });
+      fireEvent.click(screen.getByTestId('send-offer-button'));
+
+      expect(onSend).toHaveBeenCalledWith([
+        { fromId: 'player-1', toId: 'player-2', properties: [1], cash: 0, cards: 0 },
+        { fromId: 'player-2', toId: 'player-3', properties: [5], cash: 0, cards: 0 },
+        { fromId: 'player-3', toId: 'player-1', properties: [], cash: 100, cards: 0 },
+      ]);
+    });
+
+    it('wants every chosen player in the deal and keeps built-up streets out', () => {
+      const onSend = renderMulti(vi.fn(), mockProperties);
+      fireEvent.click(screen.getByTestId('multi-player-player-2'));
+      fireEvent.click(screen.getByTestId('multi-player-player-3'));
+      fireEvent.click(screen.getByTestId('start-multi-trade'));
+
+      expect(screen.getByTestId('multi-dest-9')).toBeDisabled();
+      fireEvent.change(screen.getByTestId('multi-dest-1'), { target: { value: 'player-2' } });
+      expect(screen.getByTestId('trade-validation-error')).toHaveTextContent(
+        'Add something for or from Charlie',
+      );
+      fireEvent.click(screen.getByTestId('send-offer-button'));
+      expect(onSend).not.toHaveBeenCalled();
+    });
   });
 
   describe('IncomingTradeModal', () => {
@@ -278,6 +401,241 @@ describe('Step 3B.5 — Trading UI', () => {
       fireEvent.click(screen.getByTestId('counter-trade-button'));
       expect(onCounter).toHaveBeenCalled();
     });
+
+    it('counts down to the offer lapsing and blocks accepting a broken offer', () => {
+      vi.useFakeTimers();
+      try {
+        render(
+          <IncomingTradeModal
+            isOpen={true}
+            trade={{ ...sampleTrade, expiresAt: Date.now() + 90_000 }}
+            proposer={mockPlayers[1]}
+            properties={mockProperties}
+            problem="Bob no longer owns Reading Railroad"
+            onAccept={vi.fn()}
+            onReject={vi.fn()}
+            onCounter={vi.fn()}
+            onClose={vi.fn()}
+          />,
+        );
+
+        expect(screen.getByTestId('trade-expiry')).toHaveTextContent('Offer expires in 1:30');
+        act(() => {
+          vi.advanceTimersByTime(31_000);
+        });
+        expect(screen.getByTestId('trade-expiry')).toHaveTextContent('Offer expires in 0:59');
+        expect(screen.getByTestId('trade-problem')).toHaveTextContent(
+          'Bob no longer owns Reading Railroad',
+        );
+        expect(screen.getByTestId('accept-trade-button')).toBeDisabled();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('shows what each player in a multi-party deal gives and who has agreed', () => {
+      const multiTrade: TradeOffer = {
+        ...sampleTrade,
+        recipientId: '',
+        offeredProperties: [],
+        offeredCash: 0,
+        requestedProperties: [],
+        participantIds: ['player-2', 'player-1', 'player-3'],
+        transfers: [
+          { fromId: 'player-2', toId: 'player-1', properties: [5], cash: 0, cards: 0 },
+          { fromId: 'player-1', toId: 'player-3', properties: [1], cash: 0, cards: 0 },
+        ],
+        acceptedBy: ['player-2'],
+      };
+      render(
+        <IncomingTradeModal
+          isOpen={true}
+          trade={multiTrade}
+          proposer={mockPlayers[1]}
+          properties={mockProperties}
+          players={mockPlayers}
+          onAccept={vi.fn()}
+          onReject={vi.fn()}
+          onCounter={vi.fn()}
+          onClose={vi.fn()}
+        />,
+      );
+
+      expect(screen.getByText(/wants to make a deal with Alice, Charlie/)).toBeInTheDocument();
+      expect(screen.getByTestId('multi-trade-summary')).toHaveTextContent('Bob GivesTo Alice');
+      expect(screen.getByText('Reading Railroad')).toBeInTheDocument();
+      expect(screen.getByTestId('trade-answer-player-2')).toHaveTextContent('Accepted');
+      expect(screen.getByTestId('trade-answer-player-3')).toHaveTextContent('Waiting');
+      expect(screen.getByTestId('accept-trade-button')).toBeInTheDocument();
+      expect(screen.queryByTestId('counter-trade-button')).not.toBeInTheDocument();
+    });
+
+    it('lists the rent deals attached to an offer', () => {
+      render(
+        <IncomingTradeModal
+          isOpen={true}
+          trade={{
+            ...sampleTrade,
+            clauses: [
+              { type: 'rentImmunity', propertyId: 5, beneficiaryId: 'player-1', landings: 1 },
+              {
+                type: 'rentShare',
+                propertyId: 1,
+                beneficiaryId: 'player-2',
+                percent: 20,
+                turns: 6,
+              },
+            ],
+          }}
+          proposer={mockPlayers[1]}
+          properties={mockProperties}
+          players={mockPlayers}
+          onAccept={vi.fn()}
+          onReject={vi.fn()}
+          onCounter={vi.fn()}
+          onClose={vi.fn()}
+        />,
+      );
+
+      expect(screen.getByTestId('trade-clause-0')).toHaveTextContent(
+        'Alice pays no rent on Reading Railroad for the next 1 landing',
+      );
+      expect(screen.getByTestId('trade-clause-1')).toHaveTextContent(
+        'Bob gets 20% of Mediterranean Avenue rent for 6 turns',
+      );
+    });
+
+    it('tells both sides why an offer was called off', () => {
+      const onClose = vi.fn();
+      render(
+        <IncomingTradeModal
+          isOpen={true}
+          trade={{ ...sampleTrade, status: 'expired', reason: 'The offer ran out of time' }}
+          proposer={mockPlayers[1]}
+          properties={mockProperties}
+          onAccept={vi.fn()}
+          onReject={vi.fn()}
+          onCounter={vi.fn()}
+          onClose={onClose}
+        />,
+      );
+
+      expect(screen.getByText(/trade offer was called off/)).toBeInTheDocument();
+      expect(screen.getByTestId('trade-cancelled')).toHaveTextContent('The offer ran out of time');
+      expect(screen.queryByTestId('accept-trade-button')).not.toBeInTheDocument();
+      expect(screen.queryByTestId('trade-expiry')).not.toBeInTheDocument();
+      fireEvent.click(screen.getByTestId('dismiss-trade-button'));
+      expect(onClose).toHaveBeenCalled();
+    });
+  });
+
+  describe('TradeHistory', () => {
+    const opening: TradeOffer = {
+      id: 'trade-1',
+      proposerId: 'player-1',
+      recipientId: 'player-2',
+      offeredProperties: [1],
+      offeredCash: 0,
+      offeredCards: 0,
+      requestedProperties: [5],
+      requestedCash: 0,
+      requestedCards: 0,
+      status: 'countered',
+      threadId: 'trade-1',
+      createdAt: 1000,
+    };
+    const threads: TradeThread[] = [
+      {
+        id: 'trade-1',
+        participantIds: ['player-1', 'player-2'],
+        status: 'accepted',
+        offers: [
+          opening,
+          {
+            ...opening,
+            id: 'trade-2',
+            proposerId: 'player-2',
+            recipientId: 'player-1',
+            offeredProperties: [5],
+            requestedProperties: [1],
+            requestedCash: 100,
+            status: 'accepted',
+            counterTo: 'trade-1',
+          },
+        ],
+      },
+      {
+        id: 'trade-3',
+        participantIds: ['player-2', 'player-1'],
+        status: 'rejected',
+        offers: [
+          {
+            ...opening,
+            id: 'trade-3',
+            proposerId: 'player-2',
+            recipientId: 'player-1',
+            offeredProperties: [],
+            offeredCash: 20,
+            requestedProperties: [],
+            status: 'rejected',
+            threadId: 'trade-3',
+          },
+        ],
+      },
+      {
+        id: 'trade-4',
+        participantIds: ['player-1', 'player-3'],
+        status: 'expired',
+        offers: [
+          {
+            ...opening,
+            id: 'trade-4',
+            recipientId: 'player-3',
+            requestedProperties: [6],
+            status: 'expired',
+            reason: 'The offer ran out of time',
+            threadId: 'trade-4',
+          },
+        ],
+      },
+    ];
+
+    it('groups each negotiation under the pair of players who had it', () => {
+      render(<TradeHistory threads={threads} players={mockPlayers} properties={mockProperties} />);
+
+      const pair = screen.getByTestId('trade-pair-player-1-player-2');
+      expect(pair).toHaveTextContent('Alice & Bob');
+      expect(pair.querySelectorAll('ol')).toHaveLength(2);
+      expect(screen.getByTestId('trade-offer-trade-1')).toHaveTextContent(
+        'CounteredAlice offered Mediterranean Avenue for Reading Railroad',
+      );
+      expect(screen.getByTestId('trade-offer-trade-2')).toHaveTextContent(
+        'CompletedBob offered Reading Railroad for Mediterranean Avenue and $100',
+      );
+      expect(screen.getByTestId('trade-offer-trade-4')).toHaveTextContent(
+        'ExpiredAlice offered Mediterranean Avenue for Oriental Avenue (The offer ran out of time)',
+      );
+    });
+
+    it('filters down to negotiations with an offer in the chosen state', () => {
+      render(<TradeHistory threads={threads} players={mockPlayers} properties={mockProperties} />);
+
+      fireEvent.click(screen.getByTestId('trade-history-filter-rejected'));
+      expect(screen.getByTestId('trade-thread-trade-3')).toBeInTheDocument();
+      expect(screen.queryByTestId('trade-thread-trade-1')).not.toBeInTheDocument();
+      expect(screen.queryByTestId('trade-pair-player-1-player-3')).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByTestId('trade-history-filter-countered'));
+      expect(screen.getByTestId('trade-thread-trade-1')).toBeInTheDocument();
+      expect(screen.queryByTestId('trade-thread-trade-3')).not.toBeInTheDocument();
+    });
+
+    it('stays hidden until a trade has been offered', () => {
+      const { container } = render(
+        <TradeHistory threads={[]} players={mockPlayers} properties={mockProperties} />,
+      );
+      expect(container.innerHTML).toBe('');
+    });
   });
 
   describe('TradeNotification', () => {
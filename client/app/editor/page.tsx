@@ -0,0 +1,22 @@
+'use client';
+
+import Link from 'next/link';
+import { BoardEditor } from '../../src/components/editor/BoardEditor';
+import styles from './EditorPage.module.css';
+
+export default function EditorPage() {
+  return (
+    <main className={styles.editorPage} data-testid="editor-page">
+      <header className={styles.header}>
+        <h1 className={styles.title}>Board Editor</h1>
+        <p className={styles.subtitle}>
+          Export your board as JSON, then load it from the lobby when you host a game.
+        </p>
+        <Link href="/" className={styles.homeLink}>
+          Back to Home
+        </Link>
+      </header>
+      <BoardEditor />
+    </main>
+  );
+}
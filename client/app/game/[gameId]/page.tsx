@@ -2,13 +2,26 @@
 
 import { use, useState, useEffect, useCallback, useMemo, Suspense } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
-import { TurnState, GameEventType, SpaceType } from '@monopoly/shared';
-import type { Property, TradeOfferPayload, TradeOffer } from '@monopoly/shared';
+import {
+  GameEventType,
+  TurnState,
+  getCurrentBidder,
+  getRentAgreements,
+  getTradeHoldouts,
+  getTradeProblem,
+  getTradeThreads,
+  isActionOpen,
+  isTimedGame,
+  getRound,
+  isFinalRound,
+} from '@monopoly/shared';
+import type { Property, TradeOfferPayload, TradeOffer, TradeTransfer } from '@monopoly/shared';
 import { GameStateProvider, useGameState } from '../../../src/hooks/useGameState';
 import { SoundProvider, GameSoundWatcher } from '../../../src/sounds';
 import { LoadingSkeleton } from '../../../src/components/ui/LoadingSkeleton';
 import { ConnectionError } from '../../../src/components/connection/ConnectionError';
 import { GameLayout } from '../../../src/components/dashboard/GameLayout';
+import { deriveProperties } from '../../../src/components/dashboard/deriveProperties';
 import { GameplayController } from '../../../src/components/gameplay/GameplayController';
 import { ActivityFeedSection } from '../../../src/components/gameplay/ActivityFeed';
 import { BuildingManager } from '../../../src/components/building/BuildingManager';
@@ -16,7 +29,8 @@ import type { BuildingSupply } from '../../../src/components/building/BuildingMa
 import { MortgageManager } from '../../../src/components/mortgage/MortgageManager';
 import { TradeBuilder } from '../../../src/components/trading/TradeBuilder';
 import { IncomingTradeModal } from '../../../src/components/trading/IncomingTradeModal';
-import { AuctionPanel } from '../../../src/components/auction/AuctionPanel';
+import { TradeHistory } from '../../../src/components/trading/TradeHistory';
+import { AuctionPanel, AuctionResult } from '../../../src/components/auction/AuctionPanel';
 import type { AuctionInfo } from '../../../src/components/auction/AuctionPanel';
 import { ChatPanel } from '../../../src/components/chat/ChatPanel';
 import { VictoryScreen } from '../../../src/components/endgame/VictoryScreen';
@@ -55,6 +69,8 @@ function GameContent({ gameId }: { gameId: string }) {
     chatMessages,
     gameOverData,
     turnTimer,
+    auctionUpdate,
+    cancelledTrade,
     emitAction,
     socket,
     dispatch,
@@ -98,97 +114,107 @@ function GameContent({ gameId }: { gameId: string }) {
   const localPlayer = gameState?.players.find((p) => p.id === (playerId || pidParam)) ?? null;
   const isMyTurn = !!(currentPlayer && currentPlayer.id === (playerId || pidParam));
   const isPlayerAction = gameState?.turnState === TurnState.PlayerAction;
+  const isRaisingFunds = gameState?.turnState === TurnState.RaisingFunds;
   const isAuction = gameState?.turnState === TurnState.Auction;
-  const showAssetManagement = isMyTurn && isPlayerAction && !localPlayer?.isBankrupt;
-
-  // Pending trade directed at the local player
+  const showAssetManagement =
+    isMyTurn && (isPlayerAction || isRaisingFunds) && !localPlayer?.isBankrupt;
+  // Other players can offer trades too, and at any point under the house rule
+  const canProposeTrade =
+    !!gameState &&
+    !!localPlayer &&
+    !localPlayer.isBankrupt &&
+    isActionOpen(gameState, 'ProposeTrade');
+
+  // Pending trade still waiting on the local player's answer
   const incomingTrade: TradeOffer | null = useMemo(() => {
     const pid = playerId || pidParam;
     if (!gameState || !pid) return null;
     return (
       (gameState.pendingTrades ?? []).find(
-        (t) => t.recipientId === pid && t.status === 'pending',
+        (t) => t.status === 'pending' && getTradeHoldouts(t).includes(pid),
       ) ?? null
     );
   }, [gameState, playerId, pidParam]);
 
   // Derive Property[] from board + player ownership
-  const properties = useMemo((): Property[] => {
-    if (!gameState) return [];
-    const props: Property[] = [];
-    for (const player of gameState.players) {
-      for (const spaceId of player.properties) {
-        const space = gameState.board.find((s) => s.id === spaceId);
-        if (!space) continue;
-        let type: 'street' | 'railroad' | 'utility' = 'street';
-        if (space.type === SpaceType.Railroad) type = 'railroad';
-        else if (space.type === SpaceType.Utility) type = 'utility';
-        const propState = gameState.propertyStates?.[space.id];
-        props.push({
-          spaceId: space.id,
-          name: space.name,
-          type,
-          colorGroup: space.colorGroup,
-          cost: space.cost ?? 0,
-          rentTiers: space.rentTiers ?? [],
-          mortgaged: propState?.mortgaged ?? false,
-          ownerId: player.id,
-          houses: propState?.houses ?? 0,
-        });
-      }
-    }
-    return props;
-  }, [gameState]);
+  const properties = useMemo(
+    (): Property[] => (gameState ? deriveProperties(gameState) : []),
+    [gameState],
+  );
 
-  // Building supply (default — server tracks actual supply internally)
-  const buildingSupply = useMemo((): BuildingSupply => ({ houses: 32, hotels: 12 }), []);
+  // Building supply left in the bank, and what the house rules started it with
+  const buildingSupply = useMemo(
+    (): BuildingSupply => gameState?.buildingSupply ?? { houses: 32, hotels: 12 },
+    [gameState?.buildingSupply],
+  );
+  const maxBuildingSupply = useMemo(
+    (): BuildingSupply => ({
+      houses: gameState?.settings.maxHouses ?? 32,
+      hotels: gameState?.settings.maxHotels ?? 12,
+    }),
+    [gameState?.settings.maxHouses, gameState?.settings.maxHotels],
+  );
 
-  // Derive auction info from game events when in Auction phase
+  // The running auction travels with every stateUpdate, so reconnecting players
+  // and spectators see it straight away
   const auctionData = useMemo(() => {
-    if (!isAuction || !gameState) return null;
+    const auction = isAuction ? gameState?.auction : null;
+    if (!gameState || !auction) return null;
 
-    const auctionEvents = gameState.events.filter(
-      (e) => e.type === GameEventType.AuctionStarted || e.type === GameEventType.AuctionBid,
-    );
-
-    const lastStart = [...auctionEvents]
-      .reverse()
-      .find((e) => e.type === GameEventType.AuctionStarted);
-    if (!lastStart) return null;
-
-    const propertyId = lastStart.payload.propertyId as number;
-    const space = gameState.board.find((s) => s.id === propertyId);
+    const space = gameState.board.find((s) => s.id === auction.propertyId);
     if (!space) return null;
 
-    // Get bid events after the last AuctionStarted
-    const bidEvents = auctionEvents.filter(
-      (e) => e.type === GameEventType.AuctionBid && e.timestamp >= lastStart.timestamp,
-    );
-
-    let highBid = 0;
-    let highBidderId: string | null = null;
-    const passedPlayers: string[] = [];
-
-    for (const evt of bidEvents) {
-      if (evt.payload.passed) {
-        passedPlayers.push(evt.payload.playerId as string);
-      } else {
-        const amount = evt.payload.amount as number;
-        if (amount > highBid) {
-          highBid = amount;
-          highBidderId = evt.payload.playerId as string;
-        }
-      }
-    }
-
-    const eligiblePlayers = gameState.players
-      .filter((p) => p.isActive && !p.isBankrupt)
-      .map((p) => p.id);
-
-    const info: AuctionInfo = { propertyId, highBid, highBidderId, eligiblePlayers, passedPlayers };
+    const info: AuctionInfo = { ...auction, currentBidderId: getCurrentBidder(gameState) };
     return { info, space };
   }, [isAuction, gameState]);
 
+  // Server countdown ticks for this auction; the panel counts down from the
+  // deadline itself until the first one arrives
+  const auctionSeconds =
+    auctionData &&
+    auctionUpdate?.auction.propertyId === auctionData.info.propertyId &&
+    auctionUpdate.auction.deadline === auctionData.info.deadline
+      ? (auctionUpdate.secondsRemaining ?? undefined)
+      : undefined;
+
+  // Sealed bids are all shown together once the auction closes. The reveal
+  // already in the log when the page loads counts as seen, so a reload
+  // doesn't bring it back
+  const latestReveal = useMemo(() => {
+    const ended = [...(gameState?.events ?? [])]
+      .reverse()
+      .find((e) => e.type === GameEventType.AuctionEnded);
+    return ended?.payload.bids ? ended : null;
+  }, [gameState?.events]);
+  const [seenRevealId, setSeenRevealId] = useState<string | null | undefined>(undefined);
+  useEffect(() => {
+    if (gameState && seenRevealId === undefined) setSeenRevealId(latestReveal?.id ?? null);
+  }, [gameState, latestReveal, seenRevealId]);
+
+  const sealedReveal = useMemo(() => {
+    if (!gameState || !latestReveal || seenRevealId === undefined) return null;
+    if (latestReveal.id === seenRevealId) return null;
+    const payload = latestReveal.payload as {
+      propertyId: number;
+      winnerId: string | null;
+      winningBid: number;
+      bids: Record<string, number>;
+    };
+    const space = gameState.board.find((s) => s.id === payload.propertyId);
+    if (!space) return null;
+    const nameOf = (id: string) => gameState.players.find((p) => p.id === id)?.name ?? id;
+    return {
+      id: latestReveal.id,
+      space,
+      winnerName: payload.winnerId ? nameOf(payload.winnerId) : null,
+      winningBid: payload.winningBid,
+      bids: Object.entries(payload.bids).map(([id, amount]) => ({
+        playerName: nameOf(id),
+        amount,
+      })),
+    };
+  }, [gameState, latestReveal, seenRevealId]);
+
   // --- Action handlers ---
   const handleBuildHouse = useCallback(
     (propertyId: number) => {
@@ -231,6 +257,14 @@ function GameContent({ gameId }: { gameId: string }) {
     [emitAction, counterTradeId],
   );
 
+  const handleSendMultiTradeOffer = useCallback(
+    (transfers: TradeTransfer[]) => {
+      emitAction({ type: 'ProposeMultiTrade', transfers });
+      setShowTradeBuilder(false);
+    },
+    [emitAction],
+  );
+
   const handleAcceptTrade = useCallback(
     (tradeId: string) => {
       emitAction({ type: 'AcceptTrade', tradeId });
@@ -278,6 +312,10 @@ function GameContent({ gameId }: { gameId: string }) {
     }
   }, [router, effectiveRoomCode]);
 
+  const handleWatchReplay = useCallback(() => {
+    router.push(`/replay/${gameState?.gameId ?? gameId}`);
+  }, [router, gameState?.gameId, gameId]);
+
   const handleLeave = useCallback(() => {
     router.push('/');
   }, [router]);
@@ -319,7 +357,31 @@ function GameContent({ gameId }: { gameId: string }) {
         spaces={gameState.board}
         players={gameState.players}
         properties={properties}
+        freeParkingPot={
+          gameState.settings.freeParking === 'houserule'
+            ? (gameState.freeParkingPot ?? 0)
+            : undefined
+        }
+        gameClock={
+          isTimedGame(gameState)
+            ? {
+                endsAt: gameState.gameClock?.endsAt,
+                round: getRound(gameState),
+                roundLimit: gameState.settings.roundLimit,
+                isFinalRound: isFinalRound(gameState),
+              }
+            : undefined
+        }
+        edition={gameState.edition}
         currentPlayer={localPlayer ?? currentPlayer!}
+        rentAgreements={getRentAgreements(gameState)}
+        tradeHistory={
+          <TradeHistory
+            threads={getTradeThreads(gameState)}
+            players={gameState.players}
+            properties={properties}
+          />
+        }
         activityFeed={
           <ActivityFeedSection
             events={gameState.events}
@@ -334,10 +396,10 @@ function GameContent({ gameId }: { gameId: string }) {
         gameState={gameState}
         localPlayerId={effectivePlayerId}
         emitAction={emitAction}
-        showAssetManagement={!!showAssetManagement}
-        onOpenBuild={() => setShowBuildingManager(true)}
-        onOpenMortgage={() => setShowMortgageManager(true)}
-        onOpenTrade={() => setShowTradeBuilder(true)}
+        showAssetManagement={!!showAssetManagement || canProposeTrade}
+        onOpenBuild={showAssetManagement ? () => setShowBuildingManager(true) : undefined}
+        onOpenMortgage={showAssetManagement ? () => setShowMortgageManager(true) : undefined}
+        onOpenTrade={canProposeTrade ? () => setShowTradeBuilder(true) : undefined}
       />
 
       {/* P1.S3.T4: Building & Mortgage managers (only during PlayerAction phase, local player's turn) */}
@@ -349,6 +411,8 @@ function GameContent({ gameId }: { gameId: string }) {
             properties={properties}
             board={gameState.board}
             supply={buildingSupply}
+            maxSupply={maxBuildingSupply}
+            evenBuild={gameState.settings.evenBuild}
             onBuildHouse={handleBuildHouse}
             onSellBuilding={handleSellBuilding}
             onClose={() => setShowBuildingManager(false)}
@@ -358,6 +422,7 @@ function GameContent({ gameId }: { gameId: string }) {
             player={localPlayer}
             properties={properties}
             board={gameState.board}
+            interestRate={gameState.settings.mortgageInterestRate}
             onMortgage={handleMortgage}
             onUnmortgage={handleUnmortgage}
             onClose={() => setShowMortgageManager(false)}
@@ -377,6 +442,7 @@ function GameContent({ gameId }: { gameId: string }) {
           )}
           properties={properties}
           onSendOffer={handleSendTradeOffer}
+          onSendMultiOffer={counterTradeId ? undefined : handleSendMultiTradeOffer}
           onClose={() => {
             setShowTradeBuilder(false);
             setCounterTradeId(null);
@@ -396,6 +462,8 @@ function GameContent({ gameId }: { gameId: string }) {
               trade={incomingTrade}
               proposer={proposer}
               properties={properties}
+              players={gameState.players}
+              problem={getTradeProblem(gameState, incomingTrade)}
               onAccept={() => handleAcceptTrade(incomingTrade.id)}
               onReject={() => handleRejectTrade(incomingTrade.id)}
               onCounter={() => handleCounterTrade(incomingTrade.id)}
@@ -404,19 +472,56 @@ function GameContent({ gameId }: { gameId: string }) {
           );
         })()}
 
+      {/* A trade this player made or was offered was called off, and why */}
+      {cancelledTrade &&
+        !incomingTrade &&
+        (() => {
+          const proposer = gameState.players.find((p) => p.id === cancelledTrade.proposerId);
+          if (!proposer) return null;
+          const dismiss = () => dispatch({ type: 'CLEAR_CANCELLED_TRADE' });
+          return (
+            <IncomingTradeModal
+              isOpen
+              trade={cancelledTrade}
+              proposer={proposer}
+              properties={properties}
+              players={gameState.players}
+              onAccept={dismiss}
+              onReject={dismiss}
+              onCounter={dismiss}
+              onClose={dismiss}
+            />
+          );
+        })()}
+
       {/* P1.S3.T6: Auction Panel */}
       {isAuction && auctionData && effectivePlayerId && (
         <AuctionPanel
+          key={auctionData.info.propertyId}
           isOpen
           space={auctionData.space}
           auction={auctionData.info}
           currentPlayerId={effectivePlayerId}
           players={gameState.players}
+          timerSeconds={auctionSeconds}
+          minIncrement={gameState.settings.minBidIncrement}
+          queuedCount={gameState.auctionQueue?.length ?? 0}
           onBid={handleAuctionBid}
           onPass={handleAuctionPass}
         />
       )}
 
+      {sealedReveal && (
+        <AuctionResult
+          isOpen
+          space={sealedReveal.space}
+          winnerName={sealedReveal.winnerName}
+          winningBid={sealedReveal.winningBid}
+          revealedBids={sealedReveal.bids}
+          onClose={() => setSeenRevealId(sealedReveal.id)}
+        />
+      )}
+
       {/* P1.S3.T7: Chat Panel */}
       <ChatPanel
         messages={chatMessages}
@@ -429,8 +534,10 @@ function GameContent({ gameId }: { gameId: string }) {
         <VictoryScreen
           gameState={gameState}
           winnerId={gameOverData.winnerId}
+          standings={gameOverData.standings}
           onPlayAgain={handlePlayAgain}
           onLeave={handleLeave}
+          onWatchReplay={handleWatchReplay}
         />
       )}
 
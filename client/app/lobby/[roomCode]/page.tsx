@@ -2,7 +2,14 @@
 
 import { use, useState, useEffect, Suspense } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
-import type { TokenType, RoomMetadata } from '@monopoly/shared';
+import type {
+  TokenType,
+  RoomMetadata,
+  BotStrategyName,
+  HouseRules,
+  BoardSummary,
+  BoardDefinition,
+} from '@monopoly/shared';
 import { GameStateProvider, useGameState } from '@/src/hooks/useGameState';
 import { JoinGameForm, WaitingRoom, NameEntryModal } from '@/src/components/lobby/Lobby';
 import { ConnectionError } from '@/src/components/connection/ConnectionError';
@@ -17,12 +24,21 @@ function LobbyContent({ roomCode }: { roomCode: string }) {
   const [joinError, setJoinError] = useState<string | null>(null);
   const [wasConnected, setWasConnected] = useState(false);
   const [autoAction, setAutoAction] = useState<'idle' | 'pending' | 'done'>('idle');
+  const [boards, setBoards] = useState<BoardSummary[] | undefined>();
 
   // Track whether we were ever connected (to distinguish initial load from disconnect)
   useEffect(() => {
     if (connected) setWasConnected(true);
   }, [connected]);
 
+  // Boards the host can pick from, fetched once connected
+  useEffect(() => {
+    if (!connected || boards) return;
+    socket.listBoards().then((result) => {
+      if (result.ok) setBoards(result.boards);
+    });
+  }, [connected, boards, socket]);
+
   // P1.S2.T6: Navigate all clients to game page on gameStarted
   useEffect(() => {
     if (gameState?.gameId) {
@@ -54,8 +70,9 @@ function LobbyContent({ roomCode }: { roomCode: string }) {
                 isConnected: true,
               },
             ],
-            maxPlayers: 4,
+            maxPlayers: 6,
             startingCash: 1500,
+            houseRules: {},
             status: 'waiting',
             createdAt: Date.now(),
           };
@@ -150,6 +167,8 @@ function LobbyContent({ roomCode }: { roomCode: string }) {
     token: p.token,
     isReady: p.isReady,
     isHost: p.isHost,
+    isBot: p.isBot,
+    botStrategy: p.botStrategy,
   }));
 
   // P1.S2.T5: TokenSelector — derive current token and disabled tokens
@@ -175,13 +194,57 @@ function LobbyContent({ roomCode }: { roomCode: string }) {
     }
   };
 
+  const handleAddBot = async (strategy: BotStrategyName) => {
+    const result = await socket.addBot(room.roomCode ?? roomCode, strategy);
+    if (!result.ok) {
+      dispatch({ type: 'ACTION_ERROR', message: result.error || 'Failed to add bot' });
+    }
+  };
+
+  const handleRemoveBot = async (botId: string) => {
+    const result = await socket.removeBot(room.roomCode ?? roomCode, botId);
+    if (!result.ok) {
+      dispatch({ type: 'ACTION_ERROR', message: result.error || 'Failed to remove bot' });
+    }
+  };
+
+  const handleUpdateHouseRules = async (rules: Partial<HouseRules>) => {
+    const result = await socket.updateHouseRules(room.roomCode ?? roomCode, rules);
+    if (!result.ok) {
+      dispatch({ type: 'ACTION_ERROR', message: result.error || 'Failed to update house rules' });
+    }
+  };
+
+  const handleSelectBoard = async (boardId: string) => {
+    const result = await socket.selectBoard(room.roomCode ?? roomCode, { boardId });
+    if (!result.ok) {
+      dispatch({ type: 'ACTION_ERROR', message: result.error || 'Failed to choose the board' });
+    }
+  };
+
+  const handleUploadBoard = async (board: BoardDefinition) => {
+    const result = await socket.selectBoard(room.roomCode ?? roomCode, { board });
+    if (!result.ok) {
+      dispatch({ type: 'ACTION_ERROR', message: result.error || 'Failed to load the board' });
+    }
+  };
+
   return (
     <>
       <WaitingRoom
         roomCode={room.roomCode ?? roomCode}
         players={players}
         isHost={isHost}
+        maxPlayers={room.maxPlayers}
         onStartGame={handleStartGame}
+        onAddBot={handleAddBot}
+        onRemoveBot={handleRemoveBot}
+        houseRules={room.houseRules ?? {}}
+        onUpdateHouseRules={handleUpdateHouseRules}
+        boards={boards}
+        board={room.board}
+        onSelectBoard={handleSelectBoard}
+        onUploadBoard={handleUploadBoard}
         tokenSelector={
           <>
             <h3>Select Your Token</h3>
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import styles from './page.module.css';
 
@@ -85,6 +86,10 @@ export default function Home() {
           </div>
         </form>
       </div>
+
+      <Link href="/editor" className={styles.editorLink}>
+        Design your own board
+      </Link>
     </main>
   );
 }
@@ -0,0 +1,76 @@
+'use client';
+
+import { use, useMemo } from 'react';
+import Link from 'next/link';
+import { isTimedGame, getRound, isFinalRound, type Property } from '@monopoly/shared';
+import { useReplay, REPLAY_SPEEDS } from '../../../src/hooks/useReplay';
+import { LoadingSkeleton } from '../../../src/components/ui/LoadingSkeleton';
+import { GameLayout } from '../../../src/components/dashboard/GameLayout';
+import { deriveProperties } from '../../../src/components/dashboard/deriveProperties';
+import { ActivityFeedSection } from '../../../src/components/gameplay/ActivityFeed';
+import { ReplayControls } from '../../../src/components/replay/ReplayControls';
+import styles from './ReplayPage.module.css';
+
+export default function ReplayPage({ params }: { params: Promise<{ gameId: string }> }) {
+  const { gameId } = use(params);
+  const replay = useReplay(gameId);
+  const { state } = replay;
+
+  const properties = useMemo((): Property[] => (state ? deriveProperties(state) : []), [state]);
+
+  if (replay.status === 'error') {
+    return (
+      <main className={styles.message} data-testid="replay-error">
+        <p>{replay.error}</p>
+        <Link href="/" className={styles.homeLink}>
+          Back to Home
+        </Link>
+      </main>
+    );
+  }
+
+  if (replay.status === 'loading' || !state) {
+    return <LoadingSkeleton />;
+  }
+
+  const currentPlayer = state.players[state.currentPlayerIndex];
+
+  return (
+    <main className={styles.replayPage} data-testid="replay-page" data-game-id={gameId}>
+      <GameLayout
+        spaces={state.board}
+        players={state.players}
+        properties={properties}
+        freeParkingPot={
+          state.settings.freeParking === 'houserule' ? (state.freeParkingPot ?? 0) : undefined
+        }
+        gameClock={
+          isTimedGame(state)
+            ? {
+                round: getRound(state),
+                roundLimit: state.settings.roundLimit,
+                isFinalRound: isFinalRound(state),
+              }
+            : undefined
+        }
+        edition={state.edition}
+        currentPlayer={currentPlayer}
+        activityFeed={<ActivityFeedSection events={state.events} players={state.players} />}
+      />
+
+      <ReplayControls
+        step={replay.step}
+        totalSteps={replay.totalSteps}
+        isPlaying={replay.isPlaying}
+        speed={replay.speed}
+        speeds={REPLAY_SPEEDS}
+        onPlay={replay.play}
+        onPause={replay.pause}
+        onStepBack={replay.stepBack}
+        onStepForward={replay.stepForward}
+        onSeek={replay.seek}
+        onSpeedChange={replay.setSpeed}
+      />
+    </main>
+  );
+}
@@ -2,6 +2,8 @@ import { describe, it, expect, vi } from 'vitest';
 import { render, screen, fireEvent } from '@testing-library/react';
 import React from 'react';
 import { BankruptcyModal } from '../components/bankruptcy/BankruptcyModal';
+import { RaisingFundsPanel } from '../components/bankruptcy/RaisingFundsPanel';
+import { InheritedMortgagesModal } from '../components/bankruptcy/InheritedMortgagesModal';
 import { VictoryScreen } from '../components/endgame/VictoryScreen';
 import { ChatPanel } from '../components/chat/ChatPanel';
 import { ActivityFeed, formatEventMessage } from '../components/gameplay/ActivityFeed';
@@ -9,7 +11,14 @@ import { ErrorBoundary } from '../components/ui/ErrorBoundary';
 import { LoadingSkeleton } from '../components/ui/LoadingSkeleton';
 import { ConnectionError } from '../components/connection/ConnectionError';
 import type { GameState, Player, ChatMessage, GameEvent } from '@monopoly/shared';
-import { GameEventType, TokenType, TurnState, SpaceType } from '@monopoly/shared';
+import {
+  DEFAULT_GAME_SETTINGS,
+  GameEventType,
+  TokenType,
+  TurnState,
+  SpaceType,
+  calculateLiquidationValue,
+} from '@monopoly/shared';
 
 // Mock getPropertyState for bankruptcy tests
 vi.mock('@monopoly/shared', async () => {
@@ -69,13 +78,7 @@ function createMockGameState(overrides?: Partial<GameState>): GameState {
     ],
     decks: { chance: [], communityChest: [] },
     turnState: TurnState.WaitingForRoll,
-    settings: {
-      maxPlayers: 4,
-      startingCash: 1500,
-      turnTimeLimit: 60,
-      freeParking: 'classic',
-      auctionEnabled: true,
-    },
+    settings: { ...DEFAULT_GAME_SETTINGS, maxPlayers: 4 },
     events: [],
     ...overrides,
   };
@@ -188,6 +191,114 @@ describe('Phase 4.1 — Bankruptcy Modal', () => {
   });
 });
 
+describe('Raising Funds Panel', () => {
+  it('shows the shortfall, liquidation value and creditor', () => {
+    vi.mocked(calculateLiquidationValue).mockReturnValueOnce(300);
+    const gameState = createMockGameState({ turnState: TurnState.RaisingFunds });
+    gameState.players[0].cash = 50;
+
+    render(
+      <RaisingFundsPanel
+        gameState={gameState}
+        player={gameState.players[0]}
+        debt={{ debtorId: 'p1', creditorId: 'p2', amount: 200 }}
+        onManageAssets={vi.fn()}
+      />,
+    );
+
+    expect(screen.getByText(/You owe Bob \$200/)).toBeInTheDocument();
+    expect(screen.getByTestId('raising-funds-shortfall')).toHaveTextContent('$150');
+    expect(screen.getByTestId('raising-funds-liquidation')).toHaveTextContent('$300');
+    expect(screen.queryByTestId('raising-funds-warning')).not.toBeInTheDocument();
+  });
+
+  it('warns when assets cannot cover the debt and opens asset management', () => {
+    const gameState = createMockGameState({ turnState: TurnState.RaisingFunds });
+    gameState.players[0].cash = 0;
+    const onManageAssets = vi.fn();
+
+    render(
+      <RaisingFundsPanel
+        gameState={gameState}
+        player={gameState.players[0]}
+        debt={{ debtorId: 'p1', creditorId: 'bank', amount: 200 }}
+        onManageAssets={onManageAssets}
+      />,
+    );
+
+    expect(screen.getByTestId('raising-funds-warning')).toBeInTheDocument();
+    fireEvent.click(screen.getByTestId('raise-funds-button'));
+    expect(onManageAssets).toHaveBeenCalled();
+  });
+});
+
+describe('Inherited Mortgages Modal', () => {
+  it('offers to unmortgage or keep each inherited property', () => {
+    const gameState = createMockGameState();
+    const onUnmortgage = vi.fn();
+    const onKeepMortgaged = vi.fn();
+
+    render(
+      <InheritedMortgagesModal
+        gameState={gameState}
+        player={gameState.players[1]}
+        inheritance={{ creditorId: 'p2', propertyIds: [1] }}
+        onUnmortgage={onUnmortgage}
+        onKeepMortgaged={onKeepMortgaged}
+        onRaiseFunds={vi.fn()}
+      />,
+    );
+
+    expect(screen.getByTestId('inherited-mortgage-1')).toHaveTextContent('Mediterranean Avenue');
+    fireEvent.click(screen.getByTestId('unmortgage-inherited-1'));
+    expect(onUnmortgage).toHaveBeenCalledWith(1);
+    fireEvent.click(screen.getByTestId('keep-mortgaged-1'));
+    expect(onKeepMortgaged).toHaveBeenCalledWith(1);
+    expect(screen.getByTestId('keep-mortgaged-1')).toHaveTextContent('Keep mortgaged ($3)');
+  });
+
+  it('disables unmortgaging when the creditor cannot afford it', () => {
+    const gameState = createMockGameState();
+    gameState.players[1].cash = 20;
+
+    render(
+      <InheritedMortgagesModal
+        gameState={gameState}
+        player={gameState.players[1]}
+        inheritance={{ creditorId: 'p2', propertyIds: [1] }}
+        onUnmortgage={vi.fn()}
+        onKeepMortgaged={vi.fn()}
+        onRaiseFunds={vi.fn()}
+      />,
+    );
+
+    expect(screen.getByTestId('unmortgage-inherited-1')).toBeDisabled();
+    expect(screen.getByTestId('keep-mortgaged-1')).not.toBeDisabled();
+    expect(screen.queryByTestId('inherited-raise-funds')).not.toBeInTheDocument();
+  });
+
+  it('disables keeping the mortgage when the creditor cannot pay the interest', () => {
+    const gameState = createMockGameState();
+    gameState.players[1].cash = 2;
+    const onRaiseFunds = vi.fn();
+
+    render(
+      <InheritedMortgagesModal
+        gameState={gameState}
+        player={gameState.players[1]}
+        inheritance={{ creditorId: 'p2', propertyIds: [1] }}
+        onUnmortgage={vi.fn()}
+        onKeepMortgaged={vi.fn()}
+        onRaiseFunds={onRaiseFunds}
+      />,
+    );
+
+    expect(screen.getByTestId('keep-mortgaged-1')).toBeDisabled();
+    fireEvent.click(screen.getByTestId('inherited-raise-funds'));
+    expect(onRaiseFunds).toHaveBeenCalled();
+  });
+});
+
 describe('Phase 4.2 — Victory Screen', () => {
   it('renders winner name, token, and banner', () => {
     const gameState = createMockGameState({ status: 'finished' });
@@ -262,6 +373,28 @@ describe('Phase 4.2 — Victory Screen', () => {
     fireEvent.click(screen.getByTestId('leave-button'));
     expect(onLeave).toHaveBeenCalled();
   });
+
+  it('lists the server standings of a timed game', () => {
+    const gameState = createMockGameState({ status: 'finished' });
+
+    render(
+      <VictoryScreen
+        gameState={gameState}
+        winnerId="p1"
+        standings={[
+          { playerId: 'p1', playerName: 'Alice', position: 1, netWorth: 2100, eliminationOrder: 0 },
+          { playerId: 'p2', playerName: 'Bob', position: 2, netWorth: 1300, eliminationOrder: 0 },
+        ]}
+        onPlayAgain={vi.fn()}
+        onLeave={vi.fn()}
+      />,
+    );
+
+    const rows = screen.getByTestId('standings-table').querySelectorAll('tbody tr');
+    expect(rows).toHaveLength(2);
+    expect(rows[1]).toHaveTextContent('Bob');
+    expect(rows[1]).toHaveTextContent('$1,300');
+  });
 });
 
 describe('Phase 4.4 — Activity Feed', () => {
@@ -324,6 +457,111 @@ describe('Phase 4.4 — Activity Feed', () => {
     expect(result).toBe('Alice bought a property for $60');
   });
 
+  it('formatEventMessage announces a Free Parking jackpot', () => {
+    const event: GameEvent = {
+      id: 'evt-2',
+      gameId: 'test',
+      type: GameEventType.FreeParkingJackpot,
+      payload: { playerId: 'p1', amount: 350 },
+      timestamp: Date.now(),
+    };
+    const players = [{ id: 'p1', name: 'Alice' }] as Player[];
+
+    expect(formatEventMessage(event, players)).toBe('Alice hit the Free Parking jackpot for $350');
+  });
+
+  it('formatEventMessage announces the final round of a timed game', () => {
+    const event: GameEvent = {
+      id: 'evt-3',
+      gameId: 'test',
+      type: GameEventType.FinalRoundStarted,
+      payload: { round: 4, reason: 'time' },
+      timestamp: Date.now(),
+    };
+
+    expect(formatEventMessage(event, [])).toBe("Time's up! Round 4 is the final round");
+  });
+
+  it('formatEventMessage describes Speed Die rolls and moves', () => {
+    const players = [{ id: 'p1', name: 'Alice' }] as Player[];
+    const roll: GameEvent = {
+      id: 'evt-4',
+      gameId: 'test',
+      type: GameEventType.DiceRolled,
+      payload: {
+        playerId: 'p1',
+        die1: 4,
+        die2: 1,
+        total: 5,
+        isDoubles: false,
+        speedDie: 'mrMonopoly',
+      },
+      timestamp: Date.now(),
+    };
+    const move: GameEvent = {
+      ...roll,
+      id: 'evt-5',
+      type: GameEventType.SpeedDieMoved,
+      payload: { playerId: 'p1', face: 'mrMonopoly', toPosition: 6, spaceName: 'Oriental Avenue' },
+    };
+
+    expect(formatEventMessage(roll, players)).toBe('Alice rolled 5 (4+1+Mr. Monopoly)');
+    expect(formatEventMessage(move, players)).toBe(
+      'Mr. Monopoly sent Alice ahead to Oriental Avenue',
+    );
+  });
+
+  it('formatEventMessage spells out what changed hands in a trade and waived rent', () => {
+    const players = [
+      { id: 'p1', name: 'Alice' },
+      { id: 'p2', name: 'Bob' },
+    ] as Player[];
+    const trade: GameEvent = {
+      id: 'evt-6',
+      gameId: 'test',
+      type: GameEventType.TradeCompleted,
+      payload: {
+        tradeId: 't1',
+        playerId: 'p2',
+        participantIds: ['p1', 'p2'],
+        transfers: [
+          {
+            fromId: 'p1',
+            toId: 'p2',
+            properties: [3],
+            propertyNames: ['Baltic Avenue'],
+            cash: 50,
+            cards: 1,
+          },
+          {
+            fromId: 'p2',
+            toId: 'p1',
+            properties: [6],
+            propertyNames: ['Oriental Avenue'],
+            cash: 0,
+            cards: 0,
+          },
+        ],
+        clauses: [{ type: 'rentImmunity', propertyId: 3, beneficiaryId: 'p1', landings: 2 }],
+      },
+      timestamp: Date.now(),
+    };
+    const rent: GameEvent = {
+      ...trade,
+      id: 'evt-7',
+      type: GameEventType.RentPaid,
+      payload: { payerId: 'p1', receiverId: 'p2', amount: 0, waived: true },
+    };
+
+    expect(formatEventMessage(trade, players)).toBe(
+      'Alice and Bob traded: Alice gave Bob Baltic Avenue, $50 and a Get Out of Jail Free card; Bob gave Alice Oriental Avenue, plus 1 rent deal',
+    );
+    expect(formatEventMessage({ ...trade, payload: { playerId: 'p2' } }, players)).toBe(
+      'Bob completed a trade',
+    );
+    expect(formatEventMessage(rent, players)).toBe('Alice owed no rent to Bob under a trade deal');
+  });
+
   it('has ARIA live region for screen readers', () => {
     render(<ActivityFeed events={[]} players={[]} />);
     const liveRegion = screen.getByRole('status');
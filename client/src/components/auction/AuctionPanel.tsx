@@ -15,6 +15,14 @@ export interface AuctionInfo {
   highBidderId: string | null;
   eligiblePlayers: string[];
   passedPlayers: string[];
+  // Set when bidding goes round the table
+  currentBidderId?: string | null;
+  // When the countdown runs out (epoch ms); null when auctions are untimed
+  deadline?: number | null;
+  // Sealed bidding: everyone bids once in secret and the bids are revealed together
+  sealed?: boolean;
+  // Who has bid so far; other players' amounts arrive as null
+  sealedBids?: Record<string, number | null>;
 }
 
 export interface AuctionPanelProps {
@@ -24,6 +32,10 @@ export interface AuctionPanelProps {
   currentPlayerId: string;
   players: Player[];
   timerSeconds?: number;
+  // Smallest raise over the high bid the house rules allow
+  minIncrement?: number;
+  // Further properties from a bankruptcy waiting to be auctioned after this one
+  queuedCount?: number;
   onBid: (amount: number) => void;
   onPass: () => void;
   onClose?: () => void;
@@ -38,32 +50,45 @@ export function AuctionPanel({
   currentPlayerId,
   players,
   timerSeconds,
+  minIncrement = 1,
+  queuedCount = 0,
   onBid,
   onPass,
   onClose,
 }: AuctionPanelProps) {
-  const [bidAmount, setBidAmount] = useState(auction.highBid + 1);
+  const deadlineSeconds = useDeadlineCountdown(auction.deadline);
+  const countdown = timerSeconds ?? deadlineSeconds;
+  const minimumBid = auction.highBid + minIncrement;
+  const [bidAmount, setBidAmount] = useState(minimumBid);
   const currentPlayer = players.find((p) => p.id === currentPlayerId);
   const highBidder = auction.highBidderId
     ? players.find((p) => p.id === auction.highBidderId)
     : null;
+  const awaitedBidder =
+    auction.currentBidderId && auction.currentBidderId !== currentPlayerId
+      ? players.find((p) => p.id === auction.currentBidderId)
+      : null;
   const hasPassed = auction.passedPlayers.includes(currentPlayerId);
-  const isEligible = auction.eligiblePlayers.includes(currentPlayerId) && !hasPassed;
+  const sealedBids = auction.sealedBids ?? {};
+  const ownSealedBid = sealedBids[currentPlayerId];
+  const isEligible =
+    auction.eligiblePlayers.includes(currentPlayerId) && !hasPassed && ownSealedBid == null;
   const canAffordBid = currentPlayer ? currentPlayer.cash >= bidAmount : false;
+  const canBid = canAffordBid && !awaitedBidder && bidAmount >= minimumBid;
 
   useEffect(() => {
-    setBidAmount(auction.highBid + 1);
-  }, [auction.highBid]);
+    setBidAmount(minimumBid);
+  }, [minimumBid]);
 
   const handleIncrement = useCallback((increment: number) => {
     setBidAmount((prev) => prev + increment);
   }, []);
 
   const handleBid = useCallback(() => {
-    if (canAffordBid && isEligible) {
+    if (canBid && isEligible) {
       onBid(bidAmount);
     }
-  }, [bidAmount, canAffordBid, isEligible, onBid]);
+  }, [bidAmount, canBid, isEligible, onBid]);
 
   return (
     <Modal isOpen={isOpen} onClose={onClose ?? (() => {})} title="Property Auction" hideHeader>
@@ -96,21 +121,39 @@ export function AuctionPanel({
         </div>
 
         <div className={styles.auctionInfo}>
-          <div className={styles.bidStatus}>
-            <div className={styles.currentBid} data-testid="current-bid">
-              <span className={styles.bidLabel}>Current Bid:</span>
-              <span className={styles.bidAmount}>
-                {auction.highBid > 0 ? `$${auction.highBid.toLocaleString()}` : 'No bids yet'}
-              </span>
+          {auction.sealed ? (
+            <div className={styles.bidStatus} data-testid="sealed-status">
+              <div className={styles.currentBid}>
+                <span className={styles.bidLabel}>Sealed Bids</span>
+              </div>
+              <div className={styles.highBidder}>
+                One secret bid each — all bids are revealed when the time is up
+              </div>
             </div>
-            {highBidder && (
-              <div className={styles.highBidder} data-testid="high-bidder">
-                High Bidder: {highBidder.name}
+          ) : (
+            <div className={styles.bidStatus}>
+              <div className={styles.currentBid} data-testid="current-bid">
+                <span className={styles.bidLabel}>Current Bid:</span>
+                <span className={styles.bidAmount}>
+                  {auction.highBid > 0 ? `$${auction.highBid.toLocaleString()}` : 'No bids yet'}
+                </span>
               </div>
-            )}
-          </div>
+              {highBidder && (
+                <div className={styles.highBidder} data-testid="high-bidder">
+                  High Bidder: {highBidder.name}
+                </div>
+              )}
+            </div>
+          )}
+
+          {queuedCount > 0 && (
+            <div className={styles.queueNote} data-testid="auction-queue">
+              {queuedCount} more {queuedCount === 1 ? 'property' : 'properties'} from a bankruptcy
+              up next
+            </div>
+          )}
 
-          {timerSeconds !== undefined && <AuctionTimer seconds={timerSeconds} />}
+          {countdown !== undefined && <AuctionTimer seconds={countdown} />}
 
           <div className={styles.biddersInfo} data-testid="bidders-info">
             {players
@@ -120,16 +163,25 @@ export function AuctionPanel({
                   key={p.id}
                   className={`${styles.bidderChip} ${
                     auction.passedPlayers.includes(p.id) ? styles.bidderPassed : ''
-                  } ${p.id === auction.highBidderId ? styles.bidderLeading : ''}`}
+                  } ${p.id === auction.highBidderId ? styles.bidderLeading : ''} ${
+                    p.id === auction.currentBidderId ? styles.bidderTurn : ''
+                  }`}
                 >
                   {p.name}
                   {auction.passedPlayers.includes(p.id) && ' (Passed)'}
                   {p.id === auction.highBidderId && ' (Leading)'}
+                  {p.id in sealedBids && ' (Bid in)'}
                 </span>
               ))}
           </div>
         </div>
 
+        {isEligible && awaitedBidder && (
+          <div className={styles.waitingMessage} data-testid="waiting-for-bidder">
+            Waiting for {awaitedBidder.name} to bid
+          </div>
+        )}
+
         {isEligible && (
           <div className={styles.bidControls} data-testid="bid-controls">
             <div className={styles.bidInputRow}>
@@ -140,16 +192,20 @@ export function AuctionPanel({
                   type="number"
                   className={styles.bidInput}
                   value={bidAmount}
-                  onChange={(e) =>
-                    setBidAmount(Math.max(auction.highBid + 1, Number(e.target.value)))
-                  }
-                  min={auction.highBid + 1}
+                  onChange={(e) => setBidAmount(Math.max(minimumBid, Number(e.target.value)))}
+                  min={minimumBid}
                   max={currentPlayer?.cash ?? 0}
                   data-testid="bid-input"
                 />
               </div>
             </div>
 
+            {minIncrement > 1 && !auction.sealed && (
+              <div className={styles.minimumNote} data-testid="minimum-bid">
+                Bids go up by at least ${minIncrement.toLocaleString()}
+              </div>
+            )}
+
             <div className={styles.incrementButtons}>
               {BID_INCREMENTS.map((inc) => (
                 <Button
@@ -174,18 +230,24 @@ export function AuctionPanel({
               <Button
                 variant="primary"
                 onClick={handleBid}
-                disabled={!canAffordBid || bidAmount <= auction.highBid}
+                disabled={!canBid}
                 data-testid="place-bid-button"
               >
-                Place Bid (${bidAmount.toLocaleString()})
+                {auction.sealed ? 'Submit Sealed Bid' : 'Place Bid'} (${bidAmount.toLocaleString()})
               </Button>
               <Button variant="danger" onClick={onPass} data-testid="pass-button">
-                Pass
+                {auction.sealed ? "Don't Bid" : 'Pass'}
               </Button>
             </div>
           </div>
         )}
 
+        {ownSealedBid != null && (
+          <div className={styles.passedMessage} data-testid="sealed-bid-submitted">
+            Your sealed bid: ${ownSealedBid.toLocaleString()} — waiting for the reveal...
+          </div>
+        )}
+
         {hasPassed && (
           <div className={styles.passedMessage} data-testid="passed-message">
             You have passed. Waiting for other players...
@@ -196,13 +258,48 @@ export function AuctionPanel({
   );
 }
 
+function secondsUntil(deadline: number): number {
+  return Math.max(0, Math.ceil((deadline - Date.now()) / 1000));
+}
+
+// Counts down locally from the auction deadline, for when no server tick has
+// arrived yet (such as straight after reconnecting)
+function useDeadlineCountdown(deadline?: number | null): number | undefined {
+  const [seconds, setSeconds] = useState(() => (deadline ? secondsUntil(deadline) : undefined));
+
+  useEffect(() => {
+    if (!deadline) {
+      setSeconds(undefined);
+      return;
+    }
+    setSeconds(secondsUntil(deadline));
+    const id = setInterval(() => setSeconds(secondsUntil(deadline)), 1000);
+    return () => clearInterval(id);
+  }, [deadline]);
+
+  return seconds;
+}
+
+// The auctioneer's call as the countdown runs down
+function auctioneerCall(seconds: number): string | null {
+  if (seconds <= 2) return 'Going twice…';
+  if (seconds <= 5) return 'Going once…';
+  return null;
+}
+
 export function AuctionTimer({ seconds }: { seconds: number }) {
   const isLow = seconds <= 5;
+  const call = auctioneerCall(seconds);
 
   return (
     <div className={`${styles.timer} ${isLow ? styles.timerLow : ''}`} data-testid="auction-timer">
       <span className={styles.timerIcon}>&#9200;</span>
       <span className={styles.timerValue}>{seconds}s</span>
+      {call && (
+        <span className={styles.timerCall} data-testid="auctioneer-call">
+          {call}
+        </span>
+      )}
     </div>
   );
 }
@@ -212,6 +309,8 @@ export interface AuctionResultProps {
   space: Space;
   winnerName: string | null;
   winningBid: number;
+  // Every bid from a sealed auction, shown when they are revealed together
+  revealedBids?: { playerName: string; amount: number }[];
   onClose: () => void;
 }
 
@@ -220,6 +319,7 @@ export function AuctionResult({
   space,
   winnerName,
   winningBid,
+  revealedBids,
   onClose,
 }: AuctionResultProps) {
   return (
@@ -237,6 +337,18 @@ export function AuctionResult({
             No bids — {space.name} remains unowned
           </div>
         )}
+        {revealedBids && revealedBids.length > 0 && (
+          <ol className={styles.revealedBids} data-testid="revealed-bids">
+            {[...revealedBids]
+              .sort((a, b) => b.amount - a.amount)
+              .map((bid) => (
+                <li key={bid.playerName} className={styles.revealedBid}>
+                  <span>{bid.playerName}</span>
+                  <span>${bid.amount.toLocaleString()}</span>
+                </li>
+              ))}
+          </ol>
+        )}
         <Button variant="primary" onClick={onClose}>
           Continue
         </Button>
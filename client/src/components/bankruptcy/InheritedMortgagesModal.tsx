@@ -0,0 +1,98 @@
+'use client';
+
+import React from 'react';
+import type { GameState, PendingInheritance, Player } from '@monopoly/shared';
+import { inheritedMortgageInterest } from '@monopoly/shared';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import styles from './InheritedMortgagesModal.module.css';
+
+export interface InheritedMortgagesModalProps {
+  gameState: GameState;
+  player: Player;
+  inheritance: PendingInheritance;
+  onUnmortgage: (propertyId: number) => void;
+  onKeepMortgaged: (propertyId: number) => void;
+  onRaiseFunds: () => void;
+}
+
+export function InheritedMortgagesModal({
+  gameState,
+  player,
+  inheritance,
+  onUnmortgage,
+  onKeepMortgaged,
+  onRaiseFunds,
+}: InheritedMortgagesModalProps) {
+  const cheapestInterest = Math.min(
+    ...inheritance.propertyIds.map((id) => inheritedMortgageInterest(gameState, id)),
+  );
+
+  // Mandatory decision: the modal cannot be dismissed
+  return (
+    <Modal isOpen={true} onClose={() => {}} title="Inherited Mortgages">
+      <div className={styles.container} data-testid="inherited-mortgages-modal">
+        <p className={styles.intro}>
+          These properties came to you mortgaged. Unmortgage each one now, or pay 10% interest to
+          keep it mortgaged.
+        </p>
+
+        <ul className={styles.list}>
+          {inheritance.propertyIds.map((propertyId) => {
+            const space = gameState.board.find((s) => s.id === propertyId);
+            const interest = inheritedMortgageInterest(gameState, propertyId);
+            const payoff = (space?.mortgageValue ?? 0) + interest;
+            return (
+              <li
+                key={propertyId}
+                className={styles.item}
+                data-testid={`inherited-mortgage-${propertyId}`}
+              >
+                <span className={styles.name}>{space?.name ?? `Property ${propertyId}`}</span>
+                <div className={styles.actions}>
+                  <Button
+                    variant="primary"
+                    size="sm"
+                    onClick={() => onUnmortgage(propertyId)}
+                    disabled={player.cash < payoff}
+                    data-testid={`unmortgage-inherited-${propertyId}`}
+                  >
+                    Unmortgage (${payoff.toLocaleString()})
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => onKeepMortgaged(propertyId)}
+                    disabled={player.cash < interest}
+                    data-testid={`keep-mortgaged-${propertyId}`}
+                  >
+                    Keep mortgaged (${interest.toLocaleString()})
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className={styles.cash}>Your cash: ${player.cash.toLocaleString()}</div>
+
+        {player.cash < cheapestInterest && (
+          <div className={styles.shortfall} data-testid="inherited-mortgages-shortfall">
+            <p>
+              You cannot pay the interest on any of these. Sell or mortgage what you own to raise
+              it, or declare bankruptcy.
+            </p>
+            <Button
+              variant="danger"
+              size="sm"
+              onClick={onRaiseFunds}
+              data-testid="inherited-raise-funds"
+            >
+              Raise Funds or Declare Bankruptcy
+            </Button>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,63 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import type { GameState, PendingDebt, Player } from '@monopoly/shared';
+import { calculateLiquidationValue } from '@monopoly/shared';
+import { Button } from '../ui/Button';
+import styles from './RaisingFundsPanel.module.css';
+
+export interface RaisingFundsPanelProps {
+  gameState: GameState;
+  player: Player;
+  debt: PendingDebt;
+  onManageAssets: () => void;
+}
+
+export function RaisingFundsPanel({
+  gameState,
+  player,
+  debt,
+  onManageAssets,
+}: RaisingFundsPanelProps) {
+  const liquidationValue = useMemo(
+    () => calculateLiquidationValue(gameState, player.id),
+    [gameState, player.id],
+  );
+
+  const shortfall = Math.max(0, debt.amount - player.cash);
+  const canRaise = liquidationValue >= shortfall;
+  const creditorName =
+    debt.creditorId === 'bank'
+      ? 'the Bank'
+      : (gameState.players.find((p) => p.id === debt.creditorId)?.name ?? 'Unknown');
+
+  return (
+    <div className={styles.container} data-testid="raising-funds-panel" role="region">
+      <div className={styles.title}>Raise Funds</div>
+      <p className={styles.summary}>
+        You owe {creditorName} ${debt.amount.toLocaleString()}. Sell buildings, mortgage or trade to
+        cover it before ending your turn.
+      </p>
+      <dl className={styles.figures}>
+        <div>
+          <dt>Shortfall</dt>
+          <dd className={styles.shortfall} data-testid="raising-funds-shortfall">
+            ${shortfall.toLocaleString()}
+          </dd>
+        </div>
+        <div>
+          <dt>Liquidation value</dt>
+          <dd data-testid="raising-funds-liquidation">${liquidationValue.toLocaleString()}</dd>
+        </div>
+      </dl>
+      {!canRaise && (
+        <p className={styles.warning} data-testid="raising-funds-warning">
+          Selling everything will not cover this debt.
+        </p>
+      )}
+      <Button variant="primary" size="sm" onClick={onManageAssets} data-testid="raise-funds-button">
+        {canRaise ? 'Raise Funds' : 'Raise Funds or Declare Bankruptcy'}
+      </Button>
+    </div>
+  );
+}
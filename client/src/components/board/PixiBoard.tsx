@@ -1,8 +1,8 @@
 'use client';
 
 import React, { useRef, useEffect, useCallback, useState } from 'react';
-import type { Space, Player, Property } from '@monopoly/shared';
-import { SpaceType } from '@monopoly/shared';
+import type { BoardEdition, Space, Player, Property } from '@monopoly/shared';
+import { SpaceType, CLASSIC_BOARD, getCornerPositions } from '@monopoly/shared';
 import {
   calculateSpacePositions,
   getColorGroupHex,
@@ -15,6 +15,10 @@ export interface PixiBoardProps {
   spaces: Space[];
   players: Player[];
   properties: Property[];
+  /** Free Parking jackpot shown in the board centre; omitted when the house rule is off */
+  freeParkingPot?: number;
+  /** Currency and color bands of the board being played; defaults to the classic edition */
+  edition?: BoardEdition;
   onSpaceClick?: (spaceId: number) => void;
   className?: string;
 }
@@ -33,14 +37,6 @@ const TOKEN_COLORS: Record<string, string> = {
   wheelbarrow: '#2e7d32',
   battleship: '#37474f',
 };
-/** Different train emoji for each of the four railroads (keyed by board position). */
-const RAILROAD_ICONS: Record<number, string> = {
-  5: '\u{1F682}', // 🚂 Reading Railroad      — steam locomotive
-  15: '\u{1F686}', // 🚆 Pennsylvania Railroad  — intercity train
-  25: '\u{1F685}', // 🚅 B&O Railroad           — bullet train
-  35: '\u{1F688}', // 🚈 Short Line Railroad    — light rail
-};
-
 const TOKEN_ICONS: Record<string, string> = {
   scottieDog: '\u{1F415}',
   topHat: '\u{1F3A9}',
@@ -56,6 +52,8 @@ export function PixiBoard({
   spaces,
   players,
   properties,
+  freeParkingPot,
+  edition = CLASSIC_BOARD,
   onSpaceClick,
   className,
 }: PixiBoardProps) {
@@ -72,8 +70,24 @@ export function PixiBoard({
   const prevRenderStateRef = useRef('');
 
   // Keep latest props in a ref so drawBoard can access current values during animation
-  const stateRef = useRef({ spaces, players, properties, hoveredSpace, boardSize });
-  stateRef.current = { spaces, players, properties, hoveredSpace, boardSize };
+  const stateRef = useRef({
+    spaces,
+    players,
+    properties,
+    freeParkingPot,
+    edition,
+    hoveredSpace,
+    boardSize,
+  });
+  stateRef.current = {
+    spaces,
+    players,
+    properties,
+    freeParkingPot,
+    edition,
+    hoveredSpace,
+    boardSize,
+  };
 
   // Responsive sizing
   useEffect(() => {
@@ -175,7 +189,9 @@ export function PixiBoard({
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    const { spaces, players, properties, hoveredSpace, boardSize } = stateRef.current;
+    const { spaces, players, properties, freeParkingPot, edition, hoveredSpace, boardSize } =
+      stateRef.current;
+    const [, jailPosition] = getCornerPositions(spaces.length);
 
     // Determine device pixel ratio for crisp rendering on high-DPI screens
     const dpr = Math.min(window.devicePixelRatio || 1, 2);
@@ -187,7 +203,7 @@ export function PixiBoard({
       ctx.scale(dpr, dpr);
     }
 
-    const positions = calculateSpacePositions(boardSize);
+    const positions = calculateSpacePositions(boardSize, spaces.length);
     positionsRef.current = positions;
 
     // Clear and draw board background
@@ -206,13 +222,21 @@ export function PixiBoard({
     ctx.textAlign = 'center';
     ctx.textBaseline = 'middle';
     ctx.fillText('MONOPOLY', boardSize / 2, boardSize / 2);
+    if (freeParkingPot !== undefined) {
+      ctx.font = `bold ${boardSize * 0.028}px sans-serif`;
+      ctx.fillText(
+        `Free Parking: ${edition.currencySymbol}${freeParkingPot.toLocaleString()}`,
+        boardSize / 2,
+        boardSize / 2 + boardSize * 0.07,
+      );
+    }
     ctx.restore();
 
     // Draw each space
     for (let i = 0; i < spaces.length && i < positions.length; i++) {
       const space = spaces[i];
       const pos = positions[i];
-      drawSpace(ctx, space, pos, i, properties, hoveredSpace === i);
+      drawSpace(ctx, space, pos, edition, spaces.length, hoveredSpace === i);
     }
 
     // Draw player tokens — skip tokens that are currently animating
@@ -230,8 +254,8 @@ export function PixiBoard({
       if (position >= positions.length) continue;
       const pos = positions[position];
 
-      // Position 10 (Jail): split jailed vs visiting tokens
-      if (position === 10) {
+      // Jail corner: split jailed vs visiting tokens
+      if (position === jailPosition) {
         const jailed = playersAtPos.filter((p) => p.jailStatus?.inJail);
         const visiting = playersAtPos.filter((p) => !p.jailStatus?.inJail);
 
@@ -370,7 +394,7 @@ export function PixiBoard({
     const propsKey = properties
       .map((p) => `${p.spaceId}:${p.ownerId || ''}:${p.houses}:${p.mortgaged}`)
       .join('|');
-    const stateKey = `${boardSize}:${hoveredSpace}:${playersKey}:${propsKey}`;
+    const stateKey = `${boardSize}:${hoveredSpace}:${freeParkingPot}:${edition.id}:${spaces.length}:${playersKey}:${propsKey}`;
 
     if (stateKey === prevRenderStateRef.current) return;
     prevRenderStateRef.current = stateKey;
@@ -379,7 +403,7 @@ export function PixiBoard({
     if (animFrameRef.current) return;
 
     drawBoard();
-  }, [boardSize, spaces, players, properties, hoveredSpace, drawBoard]);
+  }, [boardSize, spaces, players, properties, freeParkingPot, edition, hoveredSpace, drawBoard]);
 
   // Cleanup animation frame on unmount
   useEffect(() => {
@@ -416,8 +440,8 @@ function drawSpace(
   ctx: CanvasRenderingContext2D,
   space: Space,
   pos: SpacePosition,
-  _index: number,
-  properties: Property[],
+  edition: BoardEdition,
+  spaceCount: number,
   isHovered: boolean,
 ) {
   // Background
@@ -442,7 +466,9 @@ function drawSpace(
   if (space.colorGroup) {
     const bandHeight = pos.isCorner ? 0 : Math.min(pos.width, pos.height) * 0.25;
     if (bandHeight > 0) {
-      ctx.fillStyle = '#' + getColorGroupHex(space.colorGroup).toString(16).padStart(6, '0');
+      const editionColor = edition.colorGroups.find((g) => g.id === space.colorGroup)?.color;
+      ctx.fillStyle =
+        '#' + getColorGroupHex(space.colorGroup, editionColor).toString(16).padStart(6, '0');
       if (pos.side === 'bottom') {
         ctx.fillRect(pos.x, pos.y, pos.width, bandHeight);
       } else if (pos.side === 'top') {
@@ -466,13 +492,13 @@ function drawSpace(
   ctx.textBaseline = 'middle';
 
   if (pos.isCorner) {
-    drawCornerSpace(ctx, space, pos);
+    drawCornerSpace(ctx, space, pos, spaceCount);
   } else if (
     space.type === SpaceType.Property ||
     space.type === SpaceType.Railroad ||
     space.type === SpaceType.Utility
   ) {
-    drawPropertySpace(ctx, space, pos, fontSize);
+    drawPropertySpace(ctx, space, pos, fontSize, edition.currencySymbol);
   } else {
     drawSpecialSpace(ctx, space, pos, fontSize);
   }
@@ -480,7 +506,13 @@ function drawSpace(
   ctx.restore();
 }
 
-function drawCornerSpace(ctx: CanvasRenderingContext2D, space: Space, pos: SpacePosition) {
+function drawCornerSpace(
+  ctx: CanvasRenderingContext2D,
+  space: Space,
+  pos: SpacePosition,
+  spaceCount: number,
+) {
+  const [, jail, freeParking, goToJail] = getCornerPositions(spaceCount);
   const cx = pos.x + pos.width / 2;
   const cy = pos.y + pos.height / 2;
   const iconSize = pos.width * 0.3;
@@ -495,7 +527,7 @@ function drawCornerSpace(ctx: CanvasRenderingContext2D, space: Space, pos: Space
     ctx.fillText('GO', cx, cy - iconSize * 0.3);
     ctx.font = `${iconSize * 0.6}px sans-serif`;
     ctx.fillText('\u2190', cx, cy + iconSize * 0.5);
-  } else if (space.position === 10) {
+  } else if (space.position === jail) {
     // Jail
     ctx.fillStyle = '#333';
     ctx.font = `bold ${iconSize * 0.5}px sans-serif`;
@@ -504,13 +536,13 @@ function drawCornerSpace(ctx: CanvasRenderingContext2D, space: Space, pos: Space
     ctx.fillStyle = '#666';
     ctx.fillText('JUST', cx, cy + iconSize * 0.2);
     ctx.fillText('VISITING', cx, cy + iconSize * 0.6);
-  } else if (space.position === 20) {
+  } else if (space.position === freeParking) {
     // Free Parking
     ctx.fillStyle = '#d32f2f';
     ctx.fillText('FREE', cx, cy - iconSize * 0.3);
     ctx.font = `bold ${iconSize * 0.7}px sans-serif`;
     ctx.fillText('PARKING', cx, cy + iconSize * 0.3);
-  } else if (space.position === 30) {
+  } else if (space.position === goToJail) {
     // Go To Jail
     ctx.fillStyle = '#333';
     ctx.fillText('GO TO', cx, cy - iconSize * 0.3);
@@ -524,13 +556,13 @@ function drawPropertySpace(
   space: Space,
   pos: SpacePosition,
   fontSize: number,
+  currencySymbol: string,
 ) {
   const isVertical = pos.side === 'left' || pos.side === 'right';
   const cx = pos.x + pos.width / 2;
   const cy = pos.y + pos.height / 2;
 
-  const railroadIcon =
-    space.type === SpaceType.Railroad ? (RAILROAD_ICONS[space.position] ?? '\u{1F682}') : null;
+  const railroadIcon = space.type === SpaceType.Railroad ? (space.icon ?? '\u{1F682}') : null;
 
   // Name
   const name = truncateName(space.name, isVertical ? pos.height : pos.width, fontSize);
@@ -548,13 +580,13 @@ function drawPropertySpace(
       ctx.fillText(name, 0, -fontSize * 0.05);
       if (space.cost) {
         ctx.font = `bold ${fontSize * 0.85}px sans-serif`;
-        ctx.fillText(`$${space.cost}`, 0, fontSize * 1.1);
+        ctx.fillText(`${currencySymbol}${space.cost}`, 0, fontSize * 1.1);
       }
     } else {
       ctx.fillText(name, 0, -fontSize * 0.6);
       if (space.cost) {
         ctx.font = `bold ${fontSize * 0.85}px sans-serif`;
-        ctx.fillText(`$${space.cost}`, 0, fontSize * 0.8);
+        ctx.fillText(`${currencySymbol}${space.cost}`, 0, fontSize * 0.8);
       }
     }
     ctx.restore();
@@ -567,13 +599,13 @@ function drawPropertySpace(
       ctx.fillText(name, cx, cy + fontSize * 0.7);
       if (space.cost) {
         ctx.font = `bold ${fontSize * 0.85}px sans-serif`;
-        ctx.fillText(`$${space.cost}`, cx, cy + fontSize * 1.9);
+        ctx.fillText(`${currencySymbol}${space.cost}`, cx, cy + fontSize * 1.9);
       }
     } else {
       ctx.fillText(name, cx, cy + nameOffset);
       if (space.cost) {
         ctx.font = `bold ${fontSize * 0.85}px sans-serif`;
-        ctx.fillText(`$${space.cost}`, cx, cy + nameOffset + fontSize * 1.2);
+        ctx.fillText(`${currencySymbol}${space.cost}`, cx, cy + nameOffset + fontSize * 1.2);
       }
     }
   }
@@ -21,13 +21,16 @@ const COLOR_GROUP_HEX: Record<ColorGroup, number> = {
   darkBlue: 0x1565c0,
 };
 
-export function getColorGroupHex(colorGroup: ColorGroup): number {
+// Prefers the edition's own color (a '#rrggbb' string) over the classic palette
+export function getColorGroupHex(colorGroup: ColorGroup, editionColor?: string): number {
+  if (editionColor) return parseInt(editionColor.slice(1), 16);
   return COLOR_GROUP_HEX[colorGroup];
 }
 
-export function calculateSpacePositions(boardSize: number): SpacePosition[] {
+export function calculateSpacePositions(boardSize: number, spaceCount = 40): SpacePosition[] {
+  const perSide = spaceCount / 4 - 1;
   const cornerSize = boardSize * 0.12;
-  const spaceWidth = (boardSize - 2 * cornerSize) / 9;
+  const spaceWidth = (boardSize - 2 * cornerSize) / perSide;
   const spaceHeight = cornerSize;
   const positions: SpacePosition[] = [];
 
@@ -42,8 +45,8 @@ export function calculateSpacePositions(boardSize: number): SpacePosition[] {
     isCorner: true,
   });
 
-  // Positions 1-9: Bottom row (right to left)
-  for (let i = 0; i < 9; i++) {
+  // Bottom row (right to left)
+  for (let i = 0; i < perSide; i++) {
     positions.push({
       x: boardSize - cornerSize - (i + 1) * spaceWidth,
       y: boardSize - spaceHeight,
@@ -55,7 +58,7 @@ export function calculateSpacePositions(boardSize: number): SpacePosition[] {
     });
   }
 
-  // Position 10: Jail (bottom-left corner)
+  // Jail (bottom-left corner)
   positions.push({
     x: 0,
     y: boardSize - cornerSize,
@@ -66,8 +69,8 @@ export function calculateSpacePositions(boardSize: number): SpacePosition[] {
     isCorner: true,
   });
 
-  // Positions 11-19: Left column (bottom to top)
-  for (let i = 0; i < 9; i++) {
+  // Left column (bottom to top)
+  for (let i = 0; i < perSide; i++) {
     positions.push({
       x: 0,
       y: boardSize - cornerSize - (i + 1) * spaceWidth,
@@ -79,7 +82,7 @@ export function calculateSpacePositions(boardSize: number): SpacePosition[] {
     });
   }
 
-  // Position 20: Free Parking (top-left corner)
+  // Free Parking (top-left corner)
   positions.push({
     x: 0,
     y: 0,
@@ -90,8 +93,8 @@ export function calculateSpacePositions(boardSize: number): SpacePosition[] {
     isCorner: true,
   });
 
-  // Positions 21-29: Top row (left to right)
-  for (let i = 0; i < 9; i++) {
+  // Top row (left to right)
+  for (let i = 0; i < perSide; i++) {
     positions.push({
       x: cornerSize + i * spaceWidth,
       y: 0,
@@ -103,7 +106,7 @@ export function calculateSpacePositions(boardSize: number): SpacePosition[] {
     });
   }
 
-  // Position 30: Go To Jail (top-right corner)
+  // Go To Jail (top-right corner)
   positions.push({
     x: boardSize - cornerSize,
     y: 0,
@@ -114,8 +117,8 @@ export function calculateSpacePositions(boardSize: number): SpacePosition[] {
     isCorner: true,
   });
 
-  // Positions 31-39: Right column (top to bottom)
-  for (let i = 0; i < 9; i++) {
+  // Right column (top to bottom)
+  for (let i = 0; i < perSide; i++) {
     positions.push({
       x: boardSize - spaceHeight,
       y: cornerSize + i * spaceWidth,
@@ -149,11 +152,11 @@ export function getTokenCenter(
   };
 }
 
-export function getBoardPath(from: number, to: number): number[] {
+export function getBoardPath(from: number, to: number, spaceCount = 40): number[] {
   const path: number[] = [];
   let current = from;
   while (current !== to) {
-    current = (current + 1) % 40;
+    current = (current + 1) % spaceCount;
     path.push(current);
   }
   return path;
@@ -23,12 +23,17 @@ export interface BuildingSupply {
   hotels: number;
 }
 
+const DEFAULT_MAX_SUPPLY: BuildingSupply = { houses: 32, hotels: 12 };
+
 export interface BuildingManagerProps {
   isOpen: boolean;
   player: Player;
   properties: Property[];
   board: Space[];
   supply: BuildingSupply;
+  /** Bank supply at the start of the game */
+  maxSupply?: BuildingSupply;
+  evenBuild?: boolean;
   onBuildHouse: (propertyId: number) => void;
   onSellBuilding: (propertyId: number) => void;
   onClose: () => void;
@@ -46,6 +51,8 @@ export function BuildingManager({
   properties,
   board,
   supply,
+  maxSupply = DEFAULT_MAX_SUPPLY,
+  evenBuild = true,
   onBuildHouse,
   onSellBuilding,
   onClose,
@@ -103,7 +110,7 @@ export function BuildingManager({
           </Button>
         </div>
 
-        <BuildingSupplyDisplay supply={supply} />
+        <BuildingSupplyDisplay supply={supply} maxSupply={maxSupply} />
 
         {monopolyGroups.length === 0 ? (
           <div className={styles.noMonopolies} data-testid="no-monopolies">
@@ -131,6 +138,7 @@ export function BuildingManager({
                       playerCash={player.cash}
                       supply={supply}
                       groupProperties={group.properties}
+                      evenBuild={evenBuild}
                       onBuild={() => onBuildHouse(prop.spaceId)}
                     />
                   );
@@ -142,6 +150,7 @@ export function BuildingManager({
                       houseCost={houseCost}
                       supply={supply}
                       groupProperties={group.properties}
+                      evenBuild={evenBuild}
                       onSell={() => onSellBuilding(prop.spaceId)}
                     />
                   );
@@ -161,6 +170,7 @@ interface BuildPropertyRowProps {
   playerCash: number;
   supply: BuildingSupply;
   groupProperties: Property[];
+  evenBuild: boolean;
   onBuild: () => void;
 }
 
@@ -170,10 +180,18 @@ function BuildPropertyRow({
   playerCash,
   supply,
   groupProperties,
+  evenBuild,
   onBuild,
 }: BuildPropertyRowProps) {
   const isHotel = property.houses === 5;
-  const canBuild = canBuildOnProperty(property, houseCost, playerCash, supply, groupProperties);
+  const canBuild = canBuildOnProperty(
+    property,
+    houseCost,
+    playerCash,
+    supply,
+    groupProperties,
+    evenBuild,
+  );
   const isHotelUpgrade = property.houses === 4;
 
   return (
@@ -206,6 +224,7 @@ interface SellBuildingRowProps {
   houseCost: number;
   supply: BuildingSupply;
   groupProperties: Property[];
+  evenBuild: boolean;
   onSell: () => void;
 }
 
@@ -214,10 +233,11 @@ function SellBuildingRow({
   houseCost,
   supply,
   groupProperties,
+  evenBuild,
   onSell,
 }: SellBuildingRowProps) {
   const refund = Math.floor(houseCost / 2);
-  const canSell = canSellFromProperty(property, supply, groupProperties);
+  const canSell = canSellFromProperty(property, supply, groupProperties, evenBuild);
 
   return (
     <div className={styles.propertyRow} data-testid={`sell-row-${property.spaceId}`}>
@@ -260,17 +280,27 @@ export function HouseIndicator({ houses }: { houses: number }) {
   );
 }
 
-export function BuildingSupplyDisplay({ supply }: { supply: BuildingSupply }) {
+export function BuildingSupplyDisplay({
+  supply,
+  maxSupply = DEFAULT_MAX_SUPPLY,
+}: {
+  supply: BuildingSupply;
+  maxSupply?: BuildingSupply;
+}) {
   return (
     <div className={styles.supplyDisplay} data-testid="building-supply">
       <div className={styles.supplyItem}>
         <span>&#127968;</span>
-        <span>Houses: {supply.houses}/32</span>
+        <span>
+          Houses: {supply.houses}/{maxSupply.houses}
+        </span>
         {supply.houses === 0 && <span className={styles.exhausted}>No houses available</span>}
       </div>
       <div className={styles.supplyItem}>
         <span>&#127976;</span>
-        <span>Hotels: {supply.hotels}/12</span>
+        <span>
+          Hotels: {supply.hotels}/{maxSupply.hotels}
+        </span>
         {supply.hotels === 0 && <span className={styles.exhausted}>No hotels available</span>}
       </div>
     </div>
@@ -283,6 +313,7 @@ function canBuildOnProperty(
   playerCash: number,
   supply: BuildingSupply,
   groupProperties: Property[],
+  evenBuild: boolean,
 ): boolean {
   if (property.houses >= 5) return false;
   if (property.mortgaged) return false;
@@ -297,7 +328,7 @@ function canBuildOnProperty(
 
   // Even-build rule: can only build if this property has <= min of group
   const minHouses = Math.min(...groupProperties.map((p) => p.houses));
-  if (property.houses > minHouses) return false;
+  if (evenBuild && property.houses > minHouses) return false;
 
   // Can't build if any property in group is mortgaged
   if (groupProperties.some((p) => p.mortgaged)) return false;
@@ -309,12 +340,13 @@ function canSellFromProperty(
   property: Property,
   supply: BuildingSupply,
   groupProperties: Property[],
+  evenBuild: boolean,
 ): boolean {
   if (property.houses <= 0) return false;
 
   // Even-sell rule: can only sell if this property has >= max of group
   const maxHouses = Math.max(...groupProperties.map((p) => p.houses));
-  if (property.houses < maxHouses) return false;
+  if (evenBuild && property.houses < maxHouses) return false;
 
   // If selling a hotel, need 4 houses in supply
   if (property.houses === 5 && supply.houses < 4) return false;
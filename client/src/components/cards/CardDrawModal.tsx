@@ -1,41 +1,80 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import type { Card, DeckType } from '@monopoly/shared';
+import { CLASSIC_BOARD } from '@monopoly/shared';
+import type { BoardEdition, Card, CardEffect, DeckType, Space, SwapTarget } from '@monopoly/shared';
 import { Modal } from '../ui/Modal';
 import { Button } from '../ui/Button';
 import styles from './CardDrawModal.module.css';
 
 export interface CardDrawModalProps {
   card: Card;
+  /** Board spaces, used to name the destination of move cards */
+  spaces?: Space[];
+  /** Currency and color group names of the game's board */
+  edition?: BoardEdition;
   onDismiss: () => void;
 }
 
-function getEffectDescription(card: Card): string {
-  const effect = card.effect;
+const SWAP_TARGET_LABELS: Record<SwapTarget, string> = {
+  nextPlayer: 'the next player',
+  richestPlayer: 'the richest player',
+  poorestPlayer: 'the poorest player',
+};
+
+interface DescriptionContext {
+  spaces?: Space[];
+  edition: BoardEdition;
+}
+
+function getEffectDescription(effect: CardEffect, { spaces, edition }: DescriptionContext): string {
+  const money = (amount: number) => `${edition.currencySymbol}${amount.toLocaleString()}`;
   switch (effect.type) {
     case 'cash':
       return effect.amount >= 0
-        ? `Receive $${effect.amount.toLocaleString()}`
-        : `Pay $${Math.abs(effect.amount).toLocaleString()}`;
-    case 'move':
-      return `Move to space ${effect.position}`;
+        ? `Receive ${money(effect.amount)}`
+        : `Pay ${money(Math.abs(effect.amount))}`;
+    case 'move': {
+      const space = spaces?.[effect.position];
+      return space ? `Move to ${space.name}` : `Move to space ${effect.position}`;
+    }
     case 'moveBack':
       return `Move back ${effect.spaces} spaces`;
     case 'jail':
       return 'Go directly to Jail';
     case 'collectFromAll':
-      return `Collect $${effect.amount.toLocaleString()} from each player`;
+      return `Collect ${money(effect.amount)} from each player`;
     case 'payEachPlayer':
-      return `Pay $${effect.amount.toLocaleString()} to each player`;
+      return `Pay ${money(effect.amount)} to each player`;
     case 'repairs':
-      return `Pay $${effect.perHouse}/house, $${effect.perHotel}/hotel`;
+      return `Pay ${money(effect.perHouse)}/house, ${money(effect.perHotel)}/hotel`;
     case 'advanceNearestRailroad':
       return 'Advance to nearest Railroad (double rent if owned)';
     case 'advanceNearestUtility':
       return 'Advance to nearest Utility (10x dice if owned)';
     case 'goojf':
       return 'Keep this card until needed';
+    case 'advanceNearestColor': {
+      const group = edition.colorGroups.find((g) => g.id === effect.colorGroup);
+      return `Advance to the nearest ${group?.name ?? effect.colorGroup} property`;
+    }
+    case 'cashPerProperty':
+      return effect.amount >= 0
+        ? `Receive ${money(effect.amount)} for each property you own`
+        : `Pay ${money(Math.abs(effect.amount))} for each property you own`;
+    case 'swapPositions':
+      return `Swap places with ${SWAP_TARGET_LABELS[effect.target]}`;
+    case 'allPayFreeParking':
+      return `Every player pays ${money(effect.amount)} into Free Parking`;
+    case 'payPercentOfCash':
+      return `Pay ${effect.percent}% of your cash`;
+    case 'freeHouse':
+      return 'Build a free house on one of your streets';
+    case 'sequence':
+      return effect.effects
+        .map((e) => getEffectDescription(e, { spaces, edition }))
+        .filter(Boolean)
+        .join(', then ');
     default:
       return '';
   }
@@ -49,7 +88,12 @@ function getDeckColor(deck: DeckType): string {
   return deck === 'chance' ? '#ff6f00' : '#1565c0';
 }
 
-export function CardDrawModal({ card, onDismiss }: CardDrawModalProps) {
+export function CardDrawModal({
+  card,
+  spaces,
+  edition = CLASSIC_BOARD,
+  onDismiss,
+}: CardDrawModalProps) {
   const [revealed, setRevealed] = useState(false);
 
   useEffect(() => {
@@ -59,7 +103,7 @@ export function CardDrawModal({ card, onDismiss }: CardDrawModalProps) {
 
   const deckLabel = getDeckLabel(card.deck);
   const deckColor = getDeckColor(card.deck);
-  const effectDesc = getEffectDescription(card);
+  const effectDesc = getEffectDescription(card.effect, { spaces, edition });
 
   return (
     <Modal isOpen={true} onClose={onDismiss} title={deckLabel}>
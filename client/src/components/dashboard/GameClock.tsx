@@ -0,0 +1,58 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import styles from './GameClock.module.css';
+
+export interface GameClockProps {
+  /** When the server's game clock runs out (ms since epoch); omitted without a time limit */
+  endsAt?: number | null;
+  round: number;
+  /** 0 when the game has no round limit */
+  roundLimit?: number;
+  isFinalRound?: boolean;
+}
+
+export function formatClock(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
+
+export function GameClock({ endsAt, round, roundLimit = 0, isFinalRound = false }: GameClockProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!endsAt) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [endsAt]);
+
+  const remaining = endsAt ? endsAt - now : null;
+
+  return (
+    <div className={styles.gameClock} data-testid="game-clock">
+      <span className={styles.round}>
+        Round {round}
+        {roundLimit > 0 && ` / ${roundLimit}`}
+      </span>
+      {remaining !== null && (
+        <span
+          className={`${styles.countdown} ${remaining <= 60_000 ? styles.countdownUrgent : ''}`}
+          role="timer"
+          data-testid="game-clock-countdown"
+        >
+          {remaining > 0 ? formatClock(remaining) : "Time's up"}
+        </span>
+      )}
+      {isFinalRound && (
+        <span className={styles.finalRound} role="status" data-testid="final-round-banner">
+          Final round!
+        </span>
+      )}
+    </div>
+  );
+}
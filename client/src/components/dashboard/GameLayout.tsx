@@ -1,9 +1,10 @@
 'use client';
 
-import React, { useState, useRef, useCallback, useEffect } from 'react';
-import type { Player, Property, Space } from '@monopoly/shared';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import type { BoardEdition, Player, Property, RentAgreement, Space } from '@monopoly/shared';
 import { PixiBoard } from '../board/PixiBoard';
 import { PlayerDashboard } from './PlayerDashboard';
+import { GameClock, type GameClockProps } from './GameClock';
 import { calculateSpacePositions } from '../board/boardLayout';
 import styles from './GameLayout.module.css';
 
@@ -12,20 +13,30 @@ const FOLLOW_ZOOM = 2.5;
 /** Milliseconds of no user interaction before auto-follow re-engages. */
 const AUTO_FOLLOW_DELAY_MS = 15_000;
 /**
- * Normalised [0-1] board-space centres for every space, computed once.
+ * Normalised [0-1] board-space centres for every space.
  * calculateSpacePositions(1) returns x/y values in the 0–1 range.
  */
-const NORMALISED_CENTERS = calculateSpacePositions(1).map((p) => ({
-  nx: p.x + p.width / 2,
-  ny: p.y + p.height / 2,
-}));
+function getNormalisedCenters(spaceCount: number) {
+  return calculateSpacePositions(1, spaceCount).map((p) => ({
+    nx: p.x + p.width / 2,
+    ny: p.y + p.height / 2,
+  }));
+}
 
 export interface GameLayoutProps {
   spaces: Space[];
   players: Player[];
   properties: Property[];
   currentPlayer: Player;
+  freeParkingPot?: number;
+  edition?: BoardEdition;
+  /** Shown above the board in timed games */
+  gameClock?: GameClockProps;
   onSpaceClick?: (spaceId: number) => void;
+  /** Trade agreements in force, shown in the player dashboard */
+  rentAgreements?: RentAgreement[];
+  /** Past and open trade negotiations, shown in the player dashboard */
+  tradeHistory?: React.ReactNode;
   activityFeed?: React.ReactNode;
 }
 
@@ -34,12 +45,18 @@ export function GameLayout({
   players,
   properties,
   currentPlayer,
+  freeParkingPot,
+  edition,
+  gameClock,
   onSpaceClick,
+  rentAgreements,
+  tradeHistory,
   activityFeed,
 }: GameLayoutProps) {
   const [drawerOpen, setDrawerOpen] = useState(false);
   const drawerRef = useRef<HTMLDivElement>(null);
   const touchStartY = useRef(0);
+  const normalisedCenters = useMemo(() => getNormalisedCenters(spaces.length), [spaces.length]);
 
   // Board touch gestures
   const [scale, setScale] = useState(1);
@@ -80,13 +97,13 @@ export function GameLayout({
   const zoomToPlayer = useCallback(
     (player: Player) => {
       const W = getBoardPixelSize();
-      const c = NORMALISED_CENTERS[player.position];
+      const c = normalisedCenters[player.position];
       if (!c) return;
       setWithTransition(true);
       setScale(FOLLOW_ZOOM);
       setTranslate({ x: (0.5 - c.nx) * W, y: (0.5 - c.ny) * W });
     },
-    [getBoardPixelSize],
+    [getBoardPixelSize, normalisedCenters],
   );
 
   /** Reset the 15-second inactivity countdown. */
@@ -218,6 +235,7 @@ export function GameLayout({
         onTouchEnd={handleTouchEnd}
         onDoubleClick={handleDoubleClick}
       >
+        {gameClock && <GameClock {...gameClock} />}
         <div
           ref={transformDivRef}
           style={{
@@ -230,6 +248,8 @@ export function GameLayout({
             spaces={spaces}
             players={players}
             properties={properties}
+            freeParkingPot={freeParkingPot}
+            edition={edition}
             onSpaceClick={onSpaceClick}
           />
         </div>
@@ -241,6 +261,8 @@ export function GameLayout({
           currentPlayer={currentPlayer}
           allPlayers={players}
           properties={properties}
+          rentAgreements={rentAgreements}
+          tradeHistory={tradeHistory}
           activityFeed={activityFeed}
         />
       </div>
@@ -262,6 +284,8 @@ export function GameLayout({
             currentPlayer={currentPlayer}
             allPlayers={players}
             properties={properties}
+            rentAgreements={rentAgreements}
+            tradeHistory={tradeHistory}
             activityFeed={activityFeed}
           />
         </div>
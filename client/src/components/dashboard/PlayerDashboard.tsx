@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useState } from 'react';
-import type { Player, Property, ColorGroup } from '@monopoly/shared';
+import type { Player, Property, ColorGroup, RentAgreement } from '@monopoly/shared';
 import { TokenType, TurnState } from '@monopoly/shared';
 import { CashDisplay } from '../ui/CashDisplay';
 import { Modal } from '../ui/Modal';
@@ -36,6 +36,8 @@ export interface PlayerDashboardProps {
   properties: Property[];
   turnState?: TurnState;
   isCurrentPlayersTurn?: boolean;
+  rentAgreements?: RentAgreement[];
+  tradeHistory?: React.ReactNode;
   activityFeed?: React.ReactNode;
 }
 
@@ -43,6 +45,8 @@ export function PlayerDashboard({
   currentPlayer,
   allPlayers,
   properties,
+  rentAgreements = [],
+  tradeHistory,
   activityFeed,
 }: PlayerDashboardProps) {
   const [selectedProperty, setSelectedProperty] = useState<Property | null>(null);
@@ -61,7 +65,14 @@ export function PlayerDashboard({
       <CurrentPlayerPanel player={currentPlayer} />
       <OwnedPropertiesList properties={ownedProperties} onPropertyClick={setSelectedProperty} />
       <HeldCardsDisplay count={currentPlayer.getOutOfJailFreeCards} />
+      <TradeAgreementsList
+        player={currentPlayer}
+        players={allPlayers}
+        properties={properties}
+        agreements={rentAgreements}
+      />
       <OtherPlayersSummary players={otherPlayers} properties={properties} />
+      {tradeHistory}
       {activityFeed}
 
       {selectedProperty && (
@@ -142,6 +153,61 @@ export function HeldCardsDisplay({ count }: { count: number }) {
   );
 }
 
+function describeAgreement(
+  agreement: RentAgreement,
+  playerId: string,
+  playerName: (id: string) => string,
+  propertyName: string,
+): string {
+  const owns = agreement.ownerId === playerId;
+  if (agreement.type === 'rentImmunity') {
+    const left = `${agreement.landingsLeft} landing${agreement.landingsLeft === 1 ? '' : 's'} left`;
+    return owns
+      ? `${playerName(agreement.beneficiaryId)} pays no rent on ${propertyName} (${left})`
+      : `No rent to ${playerName(agreement.ownerId)} on ${propertyName} (${left})`;
+  }
+  const left = `${agreement.turnsLeft} turn${agreement.turnsLeft === 1 ? '' : 's'} left`;
+  return owns
+    ? `${playerName(agreement.beneficiaryId)} takes ${agreement.percent}% of ${propertyName} rent (${left})`
+    : `${agreement.percent}% of ${propertyName} rent from ${playerName(agreement.ownerId)} (${left})`;
+}
+
+export function TradeAgreementsList({
+  player,
+  players,
+  properties,
+  agreements,
+}: {
+  player: Player;
+  players: Player[];
+  properties: Property[];
+  agreements: RentAgreement[];
+}) {
+  const own = agreements.filter((a) => a.ownerId === player.id || a.beneficiaryId === player.id);
+  if (own.length === 0) return null;
+
+  const playerName = (id: string) => players.find((p) => p.id === id)?.name ?? 'Unknown';
+  return (
+    <div className={styles.agreementsSection} data-testid="trade-agreements">
+      <div className={styles.sectionTitle}>Trade Agreements</div>
+      {own.map((agreement) => {
+        const propertyName =
+          properties.find((p) => p.spaceId === agreement.propertyId)?.name ??
+          `property ${agreement.propertyId}`;
+        return (
+          <div
+            key={agreement.id}
+            className={`${styles.agreement} ${agreement.beneficiaryId === player.id ? styles.agreementInFavor : ''}`}
+            data-testid={`agreement-${agreement.id}`}
+          >
+            {describeAgreement(agreement, player.id, playerName, propertyName)}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
 export function OtherPlayersSummary({
   players,
   properties,
@@ -199,12 +265,13 @@ export function ActionButtonBar({
 }: ActionButtonBarProps) {
   const isWaitingForRoll = turnState === TurnState.WaitingForRoll;
   const isPlayerAction = turnState === TurnState.PlayerAction;
+  const isRaisingFunds = turnState === TurnState.RaisingFunds;
 
   const rollEnabled = isCurrentPlayersTurn && isWaitingForRoll;
   const buyEnabled = false; // only enabled via property landing flow
   const buildEnabled = isCurrentPlayersTurn && isPlayerAction;
-  const mortgageEnabled = isCurrentPlayersTurn && isPlayerAction;
-  const tradeEnabled = isCurrentPlayersTurn && isPlayerAction;
+  const mortgageEnabled = isCurrentPlayersTurn && (isPlayerAction || isRaisingFunds);
+  const tradeEnabled = isCurrentPlayersTurn && (isPlayerAction || isRaisingFunds);
   const endTurnEnabled = isCurrentPlayersTurn && isPlayerAction;
 
   return (
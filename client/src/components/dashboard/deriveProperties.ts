@@ -0,0 +1,29 @@
+import { SpaceType } from '@monopoly/shared';
+import type { GameState, Property } from '@monopoly/shared';
+
+/** Builds the owned-property list the board and dashboard render from a game state. */
+export function deriveProperties(gameState: GameState): Property[] {
+  const props: Property[] = [];
+  for (const player of gameState.players) {
+    for (const spaceId of player.properties) {
+      const space = gameState.board.find((s) => s.id === spaceId);
+      if (!space) continue;
+      let type: 'street' | 'railroad' | 'utility' = 'street';
+      if (space.type === SpaceType.Railroad) type = 'railroad';
+      else if (space.type === SpaceType.Utility) type = 'utility';
+      const propState = gameState.propertyStates?.[space.id];
+      props.push({
+        spaceId: space.id,
+        name: space.name,
+        type,
+        colorGroup: space.colorGroup,
+        cost: space.cost ?? 0,
+        rentTiers: space.rentTiers ?? [],
+        mortgaged: propState?.mortgaged ?? false,
+        ownerId: player.id,
+        houses: propState?.houses ?? 0,
+      });
+    }
+  }
+  return props;
+}
@@ -11,3 +11,6 @@ export {
 export type { PlayerDashboardProps } from './PlayerDashboard';
 export { GameLayout } from './GameLayout';
 export type { GameLayoutProps } from './GameLayout';
+export { GameClock, formatClock } from './GameClock';
+export type { GameClockProps } from './GameClock';
+export { deriveProperties } from './deriveProperties';
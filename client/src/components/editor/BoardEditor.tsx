@@ -0,0 +1,448 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import {
+  CLASSIC_BOARD,
+  MAX_GROUP_STREETS,
+  MIN_GROUP_STREETS,
+  SpaceType,
+  validateBoardDefinition,
+} from '@monopoly/shared';
+import type { BoardDefinition, Card, CardEffect, DeckType, Space } from '@monopoly/shared';
+import { PixiBoard } from '../board/PixiBoard';
+import { Button } from '../ui/Button';
+import {
+  EFFECT_OPTIONS,
+  SWAP_TARGET_OPTIONS,
+  cloneBoard,
+  countStreets,
+  createEffect,
+  exportBoardJson,
+  getEffectOption,
+  parseBoardJson,
+  updateBoardDetails,
+  updateCard,
+  updateColorGroup,
+  updateSpace,
+  type EffectField,
+} from './boardDraft';
+import styles from './BoardEditor.module.css';
+
+const PURCHASABLE = [SpaceType.Property, SpaceType.Railroad, SpaceType.Utility];
+const RENT_TIER_LABELS = ['Base', '1 house', '2 houses', '3 houses', '4 houses', 'Hotel'];
+const DECKS: { deck: DeckType; label: string }[] = [
+  { deck: 'chance', label: 'Chance' },
+  { deck: 'communityChest', label: 'Community Chest' },
+];
+
+export interface BoardEditorProps {
+  /** Board to start from; defaults to a copy of the classic board */
+  initialBoard?: BoardDefinition;
+  /** Receives the exported JSON; defaults to downloading it as a file */
+  onExport?: (json: string, fileName: string) => void;
+}
+
+function downloadJson(json: string, fileName: string) {
+  const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function BoardEditor({
+  initialBoard = CLASSIC_BOARD,
+  onExport = downloadJson,
+}: BoardEditorProps) {
+  const [board, setBoard] = useState(() => cloneBoard(initialBoard));
+  const [selectedSpaceId, setSelectedSpaceId] = useState(1);
+  const [deck, setDeck] = useState<DeckType>('chance');
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const validationError = useMemo(() => validateBoardDefinition(board), [board]);
+  const selectedSpace = board.spaces.find((s) => s.id === selectedSpaceId) ?? board.spaces[0];
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    const result = parseBoardJson(await file.text());
+    setImportError(result.error ?? null);
+    if (result.board) {
+      setBoard(result.board);
+      setSelectedSpaceId(1);
+    }
+  };
+
+  return (
+    <div className={styles.editor} data-testid="board-editor">
+      <section className={styles.preview}>
+        <PixiBoard
+          spaces={board.spaces}
+          players={[]}
+          properties={[]}
+          edition={board}
+          onSpaceClick={setSelectedSpaceId}
+        />
+      </section>
+
+      <section className={styles.panel}>
+        <fieldset className={styles.group}>
+          <legend className={styles.legend}>Board</legend>
+          <TextField
+            label="Name"
+            value={board.name}
+            onChange={(name) => setBoard(updateBoardDetails(board, { name }))}
+            testId="board-name"
+          />
+          <TextField
+            label="Id"
+            value={board.id}
+            onChange={(id) => setBoard(updateBoardDetails(board, { id }))}
+            testId="board-id"
+          />
+          <TextField
+            label="Currency"
+            value={board.currencySymbol}
+            onChange={(currencySymbol) => setBoard(updateBoardDetails(board, { currencySymbol }))}
+            testId="board-currency"
+          />
+        </fieldset>
+
+        <fieldset className={styles.group}>
+          <legend className={styles.legend}>Color Groups</legend>
+          {board.colorGroups.map((group) => {
+            const streets = countStreets(board, group.id);
+            const unbalanced = streets < MIN_GROUP_STREETS || streets > MAX_GROUP_STREETS;
+            return (
+              <div key={group.id} className={styles.row} data-testid={`color-group-${group.id}`}>
+                <input
+                  type="color"
+                  className={styles.swatch}
+                  value={group.color}
+                  onChange={(e) =>
+                    setBoard(updateColorGroup(board, group.id, { color: e.target.value }))
+                  }
+                  aria-label={`${group.name} color`}
+                />
+                <input
+                  className={styles.input}
+                  value={group.name}
+                  onChange={(e) =>
+                    setBoard(updateColorGroup(board, group.id, { name: e.target.value }))
+                  }
+                  aria-label={`${group.id} name`}
+                />
+                <span className={unbalanced ? styles.warning : styles.hint}>{streets} streets</span>
+              </div>
+            );
+          })}
+        </fieldset>
+
+        <fieldset className={styles.group}>
+          <legend className={styles.legend}>Space</legend>
+          <select
+            className={styles.input}
+            value={selectedSpace.id}
+            onChange={(e) => setSelectedSpaceId(Number(e.target.value))}
+            data-testid="space-select"
+          >
+            {board.spaces.map((space) => (
+              <option key={space.id} value={space.id}>
+                {space.position}: {space.name}
+              </option>
+            ))}
+          </select>
+          <SpaceFields
+            board={board}
+            space={selectedSpace}
+            onChange={(changes) => setBoard(updateSpace(board, selectedSpace.id, changes))}
+          />
+        </fieldset>
+
+        <fieldset className={styles.group}>
+          <legend className={styles.legend}>Cards</legend>
+          <select
+            className={styles.input}
+            value={deck}
+            onChange={(e) => setDeck(e.target.value as DeckType)}
+            data-testid="deck-select"
+          >
+            {DECKS.map(({ deck, label }) => (
+              <option key={deck} value={deck}>
+                {label}
+              </option>
+            ))}
+          </select>
+          {board.decks[deck].map((card) => (
+            <CardFields
+              key={card.id}
+              card={card}
+              board={board}
+              onChange={(changes) => setBoard(updateCard(board, deck, card.id, changes))}
+            />
+          ))}
+        </fieldset>
+
+        <div
+          className={validationError ? styles.invalid : styles.valid}
+          role={validationError ? 'alert' : 'status'}
+          data-testid="board-validation"
+        >
+          {validationError ?? 'Board is ready to play'}
+        </div>
+
+        <div className={styles.actions}>
+          <Button
+            onClick={() => onExport(exportBoardJson(board), `${board.id}.json`)}
+            disabled={!!validationError}
+            data-testid="export-board"
+          >
+            Export JSON
+          </Button>
+          <label className={styles.importButton}>
+            Import JSON
+            <input
+              type="file"
+              accept="application/json,.json"
+              className={styles.fileInput}
+              onChange={(e) => handleImport(e.target.files?.[0])}
+              data-testid="import-board"
+            />
+          </label>
+          <Button
+            variant="ghost"
+            onClick={() => setBoard(cloneBoard(CLASSIC_BOARD))}
+            data-testid="reset-board"
+          >
+            Start Over
+          </Button>
+        </div>
+        {importError && (
+          <p className={styles.invalid} role="alert" data-testid="import-error">
+            {importError}
+          </p>
+        )}
+      </section>
+    </div>
+  );
+}
+
+interface SpaceFieldsProps {
+  board: BoardDefinition;
+  space: Space;
+  onChange: (changes: Partial<Space>) => void;
+}
+
+function SpaceFields({ board, space, onChange }: SpaceFieldsProps) {
+  const tiers = space.rentTiers ?? [];
+
+  return (
+    <div className={styles.fields} data-testid="space-fields">
+      <TextField
+        label="Name"
+        value={space.name}
+        onChange={(name) => onChange({ name })}
+        testId="space-name"
+      />
+      {space.type === SpaceType.Property && (
+        <label className={styles.field}>
+          <span>Color group</span>
+          <select
+            className={styles.input}
+            value={space.colorGroup}
+            onChange={(e) => onChange({ colorGroup: e.target.value })}
+            data-testid="space-colorGroup"
+          >
+            {board.colorGroups.map((group) => (
+              <option key={group.id} value={group.id}>
+                {group.name}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+      {PURCHASABLE.includes(space.type) && (
+        <>
+          <NumberField
+            label="Price"
+            value={space.cost ?? 0}
+            onChange={(cost) => onChange({ cost })}
+            testId="space-cost"
+          />
+          <NumberField
+            label="Mortgage value"
+            value={space.mortgageValue ?? 0}
+            onChange={(mortgageValue) => onChange({ mortgageValue })}
+            testId="space-mortgageValue"
+          />
+          {tiers.map((rent, i) => (
+            <NumberField
+              key={i}
+              label={`Rent: ${space.type === SpaceType.Property ? RENT_TIER_LABELS[i] : `${i + 1} owned`}`}
+              value={rent}
+              onChange={(value) =>
+                onChange({ rentTiers: tiers.map((t, j) => (j === i ? value : t)) })
+              }
+              testId={`space-rent-${i}`}
+            />
+          ))}
+        </>
+      )}
+      {space.type === SpaceType.Property && (
+        <NumberField
+          label="House cost"
+          value={space.houseCost ?? 0}
+          onChange={(houseCost) => onChange({ houseCost })}
+          testId="space-houseCost"
+        />
+      )}
+      {space.type === SpaceType.Tax && (
+        <NumberField
+          label="Tax"
+          value={space.taxAmount ?? 0}
+          onChange={(taxAmount) => onChange({ taxAmount })}
+          testId="space-taxAmount"
+        />
+      )}
+    </div>
+  );
+}
+
+interface CardFieldsProps {
+  card: Card;
+  board: BoardDefinition;
+  onChange: (changes: Partial<Omit<Card, 'id' | 'deck'>>) => void;
+}
+
+function getFieldChoices(field: EffectField, board: BoardDefinition) {
+  switch (field.kind) {
+    case 'position':
+      return board.spaces.map((s) => ({ value: String(s.position), label: s.name }));
+    case 'colorGroup':
+      return board.colorGroups.map((g) => ({ value: g.id, label: g.name }));
+    case 'swapTarget':
+      return SWAP_TARGET_OPTIONS;
+    default:
+      return null;
+  }
+}
+
+function CardFields({ card, board, onChange }: CardFieldsProps) {
+  const option = getEffectOption(card.effect.type);
+  const effect = card.effect as Record<string, unknown>;
+  const setField = (key: string, value: number | string) =>
+    onChange({ effect: { ...card.effect, [key]: value } as CardEffect });
+
+  return (
+    <div className={styles.card} data-testid={`card-${card.id}`}>
+      <textarea
+        className={styles.cardText}
+        value={card.text}
+        onChange={(e) => onChange({ text: e.target.value })}
+        aria-label={`${card.id} text`}
+        data-testid={`card-text-${card.id}`}
+      />
+      <div className={styles.row}>
+        <select
+          className={styles.input}
+          value={card.effect.type}
+          onChange={(e) =>
+            onChange({ effect: createEffect(e.target.value as CardEffect['type'], board) })
+          }
+          aria-label={`${card.id} effect`}
+          data-testid={`card-effect-${card.id}`}
+        >
+          {!option && (
+            <option value={card.effect.type} disabled>
+              Several effects (edit in the JSON file)
+            </option>
+          )}
+          {EFFECT_OPTIONS.map(({ type, label }) => (
+            <option key={type} value={type}>
+              {label}
+            </option>
+          ))}
+        </select>
+        {option?.fields.map((field) => {
+          const choices = getFieldChoices(field, board);
+          const testId = `card-${field.key}-${card.id}`;
+          return choices ? (
+            <select
+              key={field.key}
+              className={styles.input}
+              value={String(effect[field.key])}
+              onChange={(e) =>
+                setField(
+                  field.key,
+                  field.kind === 'position' ? Number(e.target.value) : e.target.value,
+                )
+              }
+              aria-label={`${card.id} ${field.label}`}
+              data-testid={testId}
+            >
+              {choices.map((choice) => (
+                <option key={choice.value} value={choice.value}>
+                  {choice.label}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <input
+              key={field.key}
+              type="number"
+              className={styles.numberInput}
+              value={Number(effect[field.key])}
+              onChange={(e) => setField(field.key, Number(e.target.value))}
+              aria-label={`${card.id} ${field.label}`}
+              data-testid={testId}
+            />
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+interface TextFieldProps {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  testId: string;
+}
+
+function TextField({ label, value, onChange, testId }: TextFieldProps) {
+  return (
+    <label className={styles.field}>
+      <span>{label}</span>
+      <input
+        className={styles.input}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        data-testid={testId}
+      />
+    </label>
+  );
+}
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  testId: string;
+}
+
+function NumberField({ label, value, onChange, testId }: NumberFieldProps) {
+  return (
+    <label className={styles.field}>
+      <span>{label}</span>
+      <input
+        type="number"
+        min={0}
+        className={styles.numberInput}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        data-testid={testId}
+      />
+    </label>
+  );
+}
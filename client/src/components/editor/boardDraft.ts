@@ -0,0 +1,163 @@
+import { validateBoardDefinition } from '@monopoly/shared';
+import type {
+  BoardDefinition,
+  Card,
+  CardEffect,
+  ColorGroupDefinition,
+  DeckType,
+  Space,
+  SwapTarget,
+} from '@monopoly/shared';
+
+export interface EffectField {
+  key: string;
+  label: string;
+  /** Number input by default; the others pick from a list */
+  kind?: 'number' | 'position' | 'colorGroup' | 'swapTarget';
+  defaultValue?: number | string;
+}
+
+export interface EffectOption {
+  type: CardEffect['type'];
+  label: string;
+  fields: EffectField[];
+}
+
+const AMOUNT: EffectField = { key: 'amount', label: 'Amount' };
+
+// Every effect except 'sequence', which is only written by hand in the JSON
+export const EFFECT_OPTIONS: EffectOption[] = [
+  { type: 'cash', label: 'Collect or pay the bank', fields: [AMOUNT] },
+  {
+    type: 'move',
+    label: 'Advance to a space',
+    fields: [{ key: 'position', label: 'Space', kind: 'position' }],
+  },
+  {
+    type: 'moveBack',
+    label: 'Go back',
+    fields: [{ key: 'spaces', label: 'Spaces', defaultValue: 1 }],
+  },
+  { type: 'jail', label: 'Go to jail', fields: [] },
+  { type: 'collectFromAll', label: 'Collect from every player', fields: [AMOUNT] },
+  { type: 'payEachPlayer', label: 'Pay every player', fields: [AMOUNT] },
+  {
+    type: 'repairs',
+    label: 'Street repairs',
+    fields: [
+      { key: 'perHouse', label: 'Per house' },
+      { key: 'perHotel', label: 'Per hotel' },
+    ],
+  },
+  { type: 'advanceNearestRailroad', label: 'Advance to the nearest railroad', fields: [] },
+  { type: 'advanceNearestUtility', label: 'Advance to the nearest utility', fields: [] },
+  {
+    type: 'advanceNearestColor',
+    label: 'Advance to the nearest street of a color',
+    fields: [{ key: 'colorGroup', label: 'Color group', kind: 'colorGroup' }],
+  },
+  { type: 'cashPerProperty', label: 'Collect or pay per property owned', fields: [AMOUNT] },
+  {
+    type: 'swapPositions',
+    label: 'Swap places with a player',
+    fields: [{ key: 'target', label: 'Player', kind: 'swapTarget', defaultValue: 'nextPlayer' }],
+  },
+  { type: 'allPayFreeParking', label: 'Everyone pays into Free Parking', fields: [AMOUNT] },
+  {
+    type: 'payPercentOfCash',
+    label: 'Pay a percentage of cash',
+    fields: [{ key: 'percent', label: 'Percent', defaultValue: 10 }],
+  },
+  { type: 'freeHouse', label: 'Build a free house', fields: [] },
+  { type: 'goojf', label: 'Get out of jail free', fields: [] },
+];
+
+export const SWAP_TARGET_OPTIONS: { value: SwapTarget; label: string }[] = [
+  { value: 'nextPlayer', label: 'Next player' },
+  { value: 'richestPlayer', label: 'Richest player' },
+  { value: 'poorestPlayer', label: 'Poorest player' },
+];
+
+export function getEffectOption(type: CardEffect['type']): EffectOption | undefined {
+  return EFFECT_OPTIONS.find((o) => o.type === type);
+}
+
+// A new effect of the given type with default values; moves point at Go and
+// color cards at the board's first group
+export function createEffect(type: CardEffect['type'], board: BoardDefinition): CardEffect {
+  const effect: Record<string, unknown> = { type };
+  for (const field of getEffectOption(type)?.fields ?? []) {
+    effect[field.key] =
+      field.kind === 'colorGroup' ? board.colorGroups[0]?.id : (field.defaultValue ?? 0);
+  }
+  return effect as CardEffect;
+}
+
+// Drafts are edited immutably, so a copy is taken before the first change
+export function cloneBoard(board: BoardDefinition): BoardDefinition {
+  return JSON.parse(JSON.stringify(board)) as BoardDefinition;
+}
+
+export function updateBoardDetails(
+  board: BoardDefinition,
+  changes: Partial<Pick<BoardDefinition, 'id' | 'name' | 'currencySymbol'>>,
+): BoardDefinition {
+  return { ...board, ...changes };
+}
+
+export function updateColorGroup(
+  board: BoardDefinition,
+  groupId: string,
+  changes: Partial<Omit<ColorGroupDefinition, 'id'>>,
+): BoardDefinition {
+  return {
+    ...board,
+    colorGroups: board.colorGroups.map((g) => (g.id === groupId ? { ...g, ...changes } : g)),
+  };
+}
+
+export function updateSpace(
+  board: BoardDefinition,
+  spaceId: number,
+  changes: Partial<Space>,
+): BoardDefinition {
+  return {
+    ...board,
+    spaces: board.spaces.map((s) => (s.id === spaceId ? { ...s, ...changes } : s)),
+  };
+}
+
+export function updateCard(
+  board: BoardDefinition,
+  deck: DeckType,
+  cardId: string,
+  changes: Partial<Omit<Card, 'id' | 'deck'>>,
+): BoardDefinition {
+  return {
+    ...board,
+    decks: {
+      ...board.decks,
+      [deck]: board.decks[deck].map((c) => (c.id === cardId ? { ...c, ...changes } : c)),
+    },
+  };
+}
+
+export function countStreets(board: BoardDefinition, groupId: string): number {
+  return board.spaces.filter((s) => s.colorGroup === groupId).length;
+}
+
+export function exportBoardJson(board: BoardDefinition): string {
+  return JSON.stringify(board, null, 2);
+}
+
+// Reads an exported board back in; the board is only returned when it validates
+export function parseBoardJson(text: string): { board?: BoardDefinition; error?: string } {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return { error: 'File is not valid JSON' };
+  }
+  const error = validateBoardDefinition(value);
+  return error ? { error } : { board: value as BoardDefinition };
+}
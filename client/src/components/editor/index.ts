@@ -0,0 +1,3 @@
+export { BoardEditor } from './BoardEditor';
+export type { BoardEditorProps } from './BoardEditor';
+export { parseBoardJson, exportBoardJson } from './boardDraft';
@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useMemo } from 'react';
-import type { GameState, Player } from '@monopoly/shared';
+import type { GameStanding, GameState, Player } from '@monopoly/shared';
 import { GameEventType, TokenType, calculateNetWorth, getPropertyState } from '@monopoly/shared';
 import styles from './VictoryScreen.module.css';
 
@@ -19,8 +19,11 @@ const TOKEN_ICONS: Record<string, string> = {
 export interface VictoryScreenProps {
   gameState: GameState;
   winnerId: string;
+  /** Final placings from the server's gameOver event; derived from the events when omitted */
+  standings?: GameStanding[];
   onPlayAgain: () => void;
   onLeave: () => void;
+  onWatchReplay?: () => void;
 }
 
 interface PlayerStanding {
@@ -29,10 +32,25 @@ interface PlayerStanding {
   netWorth: number;
 }
 
-export function VictoryScreen({ gameState, winnerId, onPlayAgain, onLeave }: VictoryScreenProps) {
+export function VictoryScreen({
+  gameState,
+  winnerId,
+  standings: finalStandings,
+  onPlayAgain,
+  onLeave,
+  onWatchReplay,
+}: VictoryScreenProps) {
   const winner = gameState.players.find((p) => p.id === winnerId);
 
   const standings = useMemo((): PlayerStanding[] => {
+    // A timed game ranks everyone still playing by net worth, so trust the server's placings
+    if (finalStandings) {
+      return finalStandings.flatMap((s) => {
+        const player = gameState.players.find((p) => p.id === s.playerId);
+        return player ? [{ player, position: s.position, netWorth: s.netWorth }] : [];
+      });
+    }
+
     // Get elimination order from events
     const bankruptEvents = gameState.events.filter((e) => e.type === GameEventType.PlayerBankrupt);
     const eliminationOrder = bankruptEvents.map((e) => e.payload.playerId as string);
@@ -64,7 +82,7 @@ export function VictoryScreen({ gameState, winnerId, onPlayAgain, onLeave }: Vic
     }
 
     return result;
-  }, [gameState, winner]);
+  }, [gameState, winner, finalStandings]);
 
   const netWorthBreakdown = useMemo(() => {
     if (!winner) return null;
@@ -233,6 +251,15 @@ export function VictoryScreen({ gameState, winnerId, onPlayAgain, onLeave }: Vic
           >
             Play Again
           </button>
+          {onWatchReplay && (
+            <button
+              className={styles.leaveButton}
+              onClick={onWatchReplay}
+              data-testid="watch-replay-button"
+            >
+              Watch Replay
+            </button>
+          )}
           <button className={styles.leaveButton} onClick={onLeave} data-testid="leave-button">
             Leave
           </button>
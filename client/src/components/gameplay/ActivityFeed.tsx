@@ -1,8 +1,9 @@
 'use client';
 
 import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
-import type { GameEvent, Player } from '@monopoly/shared';
+import type { GameEvent, Player, TradeTransfer } from '@monopoly/shared';
 import { GameEventType } from '@monopoly/shared';
+import { formatTradeItems } from '../trading/tradeText';
 import styles from './ActivityFeed.module.css';
 
 export interface ActivityFeedProps {
@@ -17,6 +18,7 @@ function getPlayerName(players: Player[], playerId: string): string {
 export const EVENT_ICONS: Partial<Record<GameEventType, string>> = {
   [GameEventType.DiceRolled]: '\u{1F3B2}',
   [GameEventType.PlayerMoved]: '\u{1F9F3}',
+  [GameEventType.SpeedDieMoved]: '\u{1F68C}',
   [GameEventType.PropertyPurchased]: '\u{1F3E0}',
   [GameEventType.RentPaid]: '\u{1F4B0}',
   [GameEventType.CardDrawn]: '\u{1F0CF}',
@@ -26,15 +28,30 @@ export const EVENT_ICONS: Partial<Record<GameEventType, string>> = {
   [GameEventType.HotelBuilt]: '\u{1F3E8}',
   [GameEventType.PropertyMortgaged]: '\u{1F4C4}',
   [GameEventType.TradeCompleted]: '\u{1F91D}',
+  [GameEventType.TradeCancelled]: '\u274C',
   [GameEventType.PlayerBankrupt]: '\u{1F4A5}',
   [GameEventType.GameEnded]: '\u{1F3C6}',
   [GameEventType.PassedGo]: '\u27A1\uFE0F',
   [GameEventType.TaxPaid]: '\u{1F4B8}',
+  [GameEventType.DebtIncurred]: '\u26A0\uFE0F',
+  [GameEventType.DebtSettled]: '\u2705',
+  [GameEventType.MortgageInterestPaid]: '\u{1F4C4}',
+  [GameEventType.FreeParkingJackpot]: '\u{1F17F}\uFE0F',
+  [GameEventType.FinalRoundStarted]: '\u23F3',
   [GameEventType.AuctionStarted]: '\u{1F4E2}',
   [GameEventType.GameStarted]: '\u{1F389}',
   [GameEventType.TurnStarted]: '\u{1F504}',
 };
 
+const SPEED_DIE_NAMES: Record<string, string> = { mrMonopoly: 'Mr. Monopoly', bus: 'Bus' };
+
+function formatDiceRoll(p: GameEvent['payload']): string {
+  const speedDie =
+    p.speedDie === undefined ? '' : `+${SPEED_DIE_NAMES[String(p.speedDie)] ?? p.speedDie}`;
+  const badge = p.isTriples ? ' - Triples!' : p.isDoubles ? ' - Doubles!' : '';
+  return `${p.total} (${p.die1}+${p.die2}${speedDie})${badge}`;
+}
+
 export function formatEventMessage(event: GameEvent, players: Player[]): string {
   const p = event.payload;
   const playerId = (p.playerId as string) ?? '';
@@ -42,13 +59,26 @@ export function formatEventMessage(event: GameEvent, players: Player[]): string
 
   switch (event.type) {
     case GameEventType.DiceRolled:
-      return `${name} rolled ${p.total} (${p.die1}+${p.die2})${p.isDoubles ? ' - Doubles!' : ''}`;
+      return `${name} rolled ${formatDiceRoll(p)}`;
     case GameEventType.PlayerMoved:
       return `${name} moved to space ${p.toPosition}`;
+    case GameEventType.SpeedDieMoved:
+      if (p.face === 'mrMonopoly') return `Mr. Monopoly sent ${name} ahead to ${p.spaceName}`;
+      return p.face === 'bus'
+        ? `${name} took the bus to ${p.spaceName}`
+        : `${name} rolled triples and jumped to ${p.spaceName}`;
     case GameEventType.PropertyPurchased:
       return `${name} bought ${p.spaceName ?? 'a property'} for $${p.price}`;
-    case GameEventType.RentPaid:
-      return `${getPlayerName(players, p.payerId as string)} paid $${p.amount} rent to ${getPlayerName(players, p.receiverId as string)}`;
+    case GameEventType.RentPaid: {
+      const payer = getPlayerName(players, p.payerId as string);
+      const receiver = getPlayerName(players, p.receiverId as string);
+      if (p.waived) return `${payer} owed no rent to ${receiver} under a trade deal`;
+      const shares = (p.shares as { playerId: string; amount: number }[] | undefined) ?? [];
+      const passedOn = shares
+        .map((s) => `$${s.amount} to ${getPlayerName(players, s.playerId)}`)
+        .join(', ');
+      return `${payer} paid $${p.amount} rent to ${receiver}${passedOn ? ` (${passedOn} of it)` : ''}`;
+    }
     case GameEventType.CardDrawn:
       return `${name} drew: "${p.cardText}"`;
     case GameEventType.PlayerJailed:
@@ -58,23 +88,56 @@ export function formatEventMessage(event: GameEvent, players: Player[]): string
     case GameEventType.TaxPaid:
       return `${name} paid $${p.amount} in ${p.spaceName ?? 'tax'}`;
     case GameEventType.PassedGo:
-      return `${name} passed Go and collected $200`;
+      return `${name} passed Go and collected $${p.amount ?? 200}`;
+    case GameEventType.DebtIncurred:
+      return `${name} is $${p.amount} short and must raise funds`;
+    case GameEventType.DebtSettled:
+      return `${name} settled a $${p.amount} debt`;
+    case GameEventType.MortgageInterestPaid:
+      return `${name} paid $${p.amount} interest to keep an inherited mortgage`;
+    case GameEventType.FreeParkingJackpot:
+      return `${name} hit the Free Parking jackpot for $${p.amount}`;
     case GameEventType.PlayerBankrupt:
       return `${name} went bankrupt!`;
     case GameEventType.HouseBuilt:
       return `${name} built a ${p.buildingType === 'hotel' ? 'hotel' : 'house'} on ${p.spaceName ?? 'a property'}`;
     case GameEventType.PropertyMortgaged:
       return `${name} mortgaged a property`;
-    case GameEventType.TradeCompleted:
-      return `${name} completed a trade`;
+    case GameEventType.TradeCompleted: {
+      // Events from before trades carried their contents only name the acceptor
+      const transfers = p.transfers as (TradeTransfer & { propertyNames: string[] })[] | undefined;
+      if (!transfers) return `${name} completed a trade`;
+      const traders = (p.participantIds as string[]).map((id) => getPlayerName(players, id));
+      const handOvers = transfers
+        .filter((t) => t.properties.length > 0 || t.cash > 0 || t.cards > 0)
+        .map(
+          (t) =>
+            `${getPlayerName(players, t.fromId)} gave ${getPlayerName(players, t.toId)} ${formatTradeItems(t.propertyNames, t.cash, t.cards)}`,
+        );
+      const clauses = (p.clauses as unknown[] | undefined)?.length ?? 0;
+      const deals = clauses > 0 ? `, plus ${clauses} rent deal${clauses === 1 ? '' : 's'}` : '';
+      return `${traders.slice(0, -1).join(', ')} and ${traders.at(-1)} traded: ${handOvers.join('; ')}${deals}`;
+    }
+    case GameEventType.TradeCancelled:
+      // A multi-party deal has no single recipient
+      if (!p.recipientId) {
+        return `${getPlayerName(players, p.proposerId as string)}'s multi-party trade was called off: ${p.reason}`;
+      }
+      return `${getPlayerName(players, p.proposerId as string)}'s trade with ${getPlayerName(players, p.recipientId as string)} was called off: ${p.reason}`;
     case GameEventType.AuctionStarted:
       return `Auction started!`;
     case GameEventType.GameStarted:
       return 'Game started!';
     case GameEventType.TurnStarted:
       return `${name}'s turn`;
+    case GameEventType.FinalRoundStarted:
+      return p.reason === 'time'
+        ? `Time's up! Round ${p.round} is the final round`
+        : `Final round: round ${p.round}`;
     case GameEventType.GameEnded:
-      return 'Game over!';
+      return p.winnerId
+        ? `Game over! ${getPlayerName(players, p.winnerId as string)} wins`
+        : 'Game over!';
     default:
       return `${event.type}`;
   }
@@ -177,7 +240,13 @@ export function ActivityFeedSection({
       const pid = (e.payload.playerId as string) ?? '';
       const payerId = (e.payload.payerId as string) ?? '';
       const receiverId = (e.payload.receiverId as string) ?? '';
-      return pid === localPlayerId || payerId === localPlayerId || receiverId === localPlayerId;
+      const traders = (e.payload.participantIds as string[] | undefined) ?? [];
+      return (
+        pid === localPlayerId ||
+        payerId === localPlayerId ||
+        receiverId === localPlayerId ||
+        (!!localPlayerId && traders.includes(localPlayerId))
+      );
     });
   }, [events, feedFilter, localPlayerId]);
 
@@ -1,12 +1,15 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
+import type { SpeedDieFace } from '@monopoly/shared';
 import styles from './DiceDisplay.module.css';
 
 export interface DiceDisplayProps {
   die1: number | null;
   die2: number | null;
   isDoubles: boolean;
+  // Third die of the Speed Die variant, once the roller has passed Go
+  speedDie?: SpeedDieFace | null;
   onAnimationComplete?: () => void;
 }
 
@@ -68,7 +71,38 @@ function DieFace({ value, rolling }: { value: number; rolling: boolean }) {
   );
 }
 
-export function DiceDisplay({ die1, die2, isDoubles, onAnimationComplete }: DiceDisplayProps) {
+const SPEED_DIE_LABELS: Record<'mrMonopoly' | 'bus', { icon: string; label: string }> = {
+  mrMonopoly: { icon: '🎩', label: 'Mr. Monopoly' },
+  bus: { icon: '🚌', label: 'Bus' },
+};
+
+function SpeedDie({ face, rolling }: { face: SpeedDieFace; rolling: boolean }) {
+  if (typeof face === 'number' && !rolling) {
+    return (
+      <div className={styles.speedDie} data-testid="speed-die">
+        <DieFace value={face} rolling={false} />
+      </div>
+    );
+  }
+  const symbol = typeof face === 'number' ? null : SPEED_DIE_LABELS[face];
+  return (
+    <div
+      className={`${styles.die} ${styles.speedDieSymbol} ${rolling ? styles.dieRolling : ''}`}
+      data-testid="speed-die"
+      title={symbol?.label}
+    >
+      {rolling ? '?' : symbol?.icon}
+    </div>
+  );
+}
+
+export function DiceDisplay({
+  die1,
+  die2,
+  isDoubles,
+  speedDie,
+  onAnimationComplete,
+}: DiceDisplayProps) {
   const [rolling, setRolling] = useState(false);
   const [displayValues, setDisplayValues] = useState<[number, number]>([1, 1]);
 
@@ -95,19 +129,29 @@ export function DiceDisplay({ die1, die2, isDoubles, onAnimationComplete }: Dice
 
   if (die1 === null || die2 === null) return null;
 
+  const speedDieValue = typeof speedDie === 'number' ? speedDie : 0;
+  const isTriples = isDoubles && speedDie === die1;
+
   return (
     <div className={styles.container} data-testid="dice-display">
       <div className={styles.diceRow}>
         <DieFace value={displayValues[0]} rolling={rolling} />
         <DieFace value={displayValues[1]} rolling={rolling} />
+        {speedDie != null && <SpeedDie face={speedDie} rolling={rolling} />}
       </div>
       {!rolling && (
         <div className={styles.total}>
-          <span data-testid="dice-total">{die1 + die2}</span>
-          {isDoubles && (
-            <span className={styles.doublesBadge} data-testid="doubles-badge">
-              Doubles!
+          <span data-testid="dice-total">{die1 + die2 + speedDieValue}</span>
+          {isTriples ? (
+            <span className={styles.doublesBadge} data-testid="triples-badge">
+              Triples!
             </span>
+          ) : (
+            isDoubles && (
+              <span className={styles.doublesBadge} data-testid="doubles-badge">
+                Doubles!
+              </span>
+            )
           )}
         </div>
       )}
@@ -2,10 +2,11 @@
 
 import React, { useCallback, useMemo, useState } from 'react';
 import type { GameState, Space, GameAction } from '@monopoly/shared';
-import { TurnState, GameEventType } from '@monopoly/shared';
+import { TurnState, GameEventType, inheritedMortgageInterest } from '@monopoly/shared';
 import { DiceDisplay } from './DiceDisplay';
 import { BuyPropertyModal } from './BuyPropertyModal';
 import { SpaceNotification } from './SpaceNotification';
+import { SpeedDieMovePanel } from './SpeedDieMovePanel';
 import { TurnStateLabel } from './TurnStateLabel';
 import { YourTurnBanner } from './YourTurnBanner';
 import { formatEventMessage, EVENT_ICONS, formatTime } from './ActivityFeed';
@@ -13,6 +14,8 @@ import { CardDrawModal } from '../cards/CardDrawModal';
 import { JailStatusIndicator } from '../jail/JailStatusIndicator';
 import { JailOptionsPanel } from '../jail/JailOptionsPanel';
 import { BankruptcyModal } from '../bankruptcy/BankruptcyModal';
+import { RaisingFundsPanel } from '../bankruptcy/RaisingFundsPanel';
+import { InheritedMortgagesModal } from '../bankruptcy/InheritedMortgagesModal';
 import styles from './GameplayController.module.css';
 
 export interface GameplayControllerProps {
@@ -38,6 +41,7 @@ export function GameplayController({
   const [buyDismissed, setBuyDismissed] = useState(false);
   const [showBankruptcy, setShowBankruptcy] = useState(false);
   const [bankruptcyDismissed, setBankruptcyDismissed] = useState(false);
+  const [raisingInheritanceFunds, setRaisingInheritanceFunds] = useState(false);
 
   const activePlayer = gameState.players[gameState.currentPlayerIndex];
   const localPlayer = gameState.players.find((p) => p.id === localPlayerId);
@@ -46,32 +50,26 @@ export function GameplayController({
   const isSpectator = localPlayer?.isBankrupt ?? false;
   const isGameFinished = gameState.status === 'finished';
 
-  // Auto-trigger bankruptcy modal when player cash goes negative
-  const playerCash = localPlayer?.cash ?? 0;
+  // Open the bankruptcy modal whenever the local player is left owing money
+  const localDebt =
+    gameState.pendingDebt && gameState.pendingDebt.debtorId === localPlayerId
+      ? gameState.pendingDebt
+      : null;
+  const hasLocalDebt = localDebt !== null && !isSpectator;
   useMemo(() => {
-    if (playerCash < 0 && !isSpectator) {
-      setShowBankruptcy(true);
-      setBankruptcyDismissed(false);
-    } else if (playerCash >= 0) {
-      setShowBankruptcy(false);
-      setBankruptcyDismissed(false);
-    }
-  }, [playerCash, isSpectator]);
-
-  // Compute debt info from lastResolution
-  const debtInfo = useMemo(() => {
-    const resolution = gameState.lastResolution;
-    if (!resolution || !localPlayer || localPlayer.cash >= 0) {
-      return { debtAmount: 0, creditorId: 'bank' as string | 'bank' };
-    }
-    // The engine already deducted the amount, making cash negative.
-    // debtAmount = 0 means "you need to get cash to $0"
-    // The modal math: remainingDebt = 0 - negativeCash = |cash|
-    if (resolution.type === 'rentPayment' && resolution.ownerId) {
-      return { debtAmount: 0, creditorId: resolution.ownerId };
-    }
-    return { debtAmount: 0, creditorId: 'bank' as const };
-  }, [gameState.lastResolution, localPlayer]);
+    setShowBankruptcy(hasLocalDebt);
+    setBankruptcyDismissed(false);
+  }, [hasLocalDebt]);
+
+  const isInheritanceCreditor = gameState.pendingInheritance?.creditorId === localPlayerId;
+  useMemo(() => {
+    setRaisingInheritanceFunds(false);
+  }, [isInheritanceCreditor]);
+
+  const handleManageDebt = useCallback(() => {
+    setShowBankruptcy(true);
+    setBankruptcyDismissed(false);
+  }, []);
 
   // Reset card/buy dismissal when context changes
   const cardKey = gameState.lastCardDrawn?.id ?? null;
@@ -129,6 +127,31 @@ export function GameplayController({
     emitAction({ type: 'RollForDoubles' });
   }, [emitAction]);
 
+  const handleChooseSpeedDieMove = useCallback(
+    (destination: number) => {
+      emitAction({ type: 'ChooseSpeedDieMove', destination });
+    },
+    [emitAction],
+  );
+
+  const handleUnmortgageInherited = useCallback(
+    (propertyId: number) => {
+      emitAction({ type: 'UnmortgageInheritedProperty', propertyId });
+    },
+    [emitAction],
+  );
+
+  const handleKeepInheritedMortgage = useCallback(
+    (propertyId: number) => {
+      emitAction({ type: 'KeepInheritedMortgage', propertyId });
+    },
+    [emitAction],
+  );
+
+  const handleRaiseInheritanceFunds = useCallback(() => {
+    setRaisingInheritanceFunds(true);
+  }, []);
+
   const handleCardDismiss = useCallback(() => {
     setCardDismissed(true);
   }, []);
@@ -147,6 +170,12 @@ export function GameplayController({
   const showJailOptions =
     isMyTurn && isInJail && !isSpectator && gameState.turnState === TurnState.WaitingForRoll;
 
+  const showSpeedDieMove =
+    isMyTurn &&
+    !isSpectator &&
+    gameState.pendingSpeedDie != null &&
+    gameState.turnState === TurnState.ChoosingSpeedDieMove;
+
   const showDice = gameState.lastDiceResult != null;
   const showActions = !isSpectator && !isGameFinished;
 
@@ -196,6 +225,7 @@ export function GameplayController({
             die1={gameState.lastDiceResult!.die1}
             die2={gameState.lastDiceResult!.die2}
             isDoubles={gameState.lastDiceResult!.isDoubles}
+            speedDie={gameState.lastDiceResult!.speedDie}
           />
         )}
       </div>
@@ -212,6 +242,7 @@ export function GameplayController({
         resolution={gameState.lastResolution}
         localPlayerName={localPlayer?.name ?? ''}
         passedGo={gameState.lastPassedGo}
+        goSalary={gameState.settings.goSalary}
       />
 
       {/* Turn State Label */}
@@ -252,12 +283,23 @@ export function GameplayController({
       {showJailOptions && localPlayer && (
         <JailOptionsPanel
           player={localPlayer}
+          fine={gameState.settings.jailFine}
           onPayFine={handlePayJailFine}
           onUseCard={handleUseJailCard}
           onRollForDoubles={handleRollForDoubles}
         />
       )}
 
+      {/* Debt owed by the local player */}
+      {hasLocalDebt && localPlayer && gameState.turnState === TurnState.RaisingFunds && (
+        <RaisingFundsPanel
+          gameState={gameState}
+          player={localPlayer}
+          debt={localDebt!}
+          onManageAssets={handleManageDebt}
+        />
+      )}
+
       {/* Dice display */}
       {showDice && (
         <DiceDisplay
@@ -265,6 +307,16 @@ export function GameplayController({
           die1={gameState.lastDiceResult!.die1}
           die2={gameState.lastDiceResult!.die2}
           isDoubles={gameState.lastDiceResult!.isDoubles}
+          speedDie={gameState.lastDiceResult!.speedDie}
+        />
+      )}
+
+      {/* Bus or triples destination */}
+      {showSpeedDieMove && (
+        <SpeedDieMovePanel
+          pending={gameState.pendingSpeedDie!}
+          board={gameState.board}
+          onChoose={handleChooseSpeedDieMove}
         />
       )}
 
@@ -340,23 +392,50 @@ export function GameplayController({
 
       {/* Card Draw Modal */}
       {showCardModal && (
-        <CardDrawModal card={gameState.lastCardDrawn!} onDismiss={handleCardDismiss} />
+        <CardDrawModal
+          card={gameState.lastCardDrawn!}
+          spaces={gameState.board}
+          edition={gameState.edition}
+          onDismiss={handleCardDismiss}
+        />
       )}
 
       {/* Bankruptcy Modal */}
-      {showBankruptcy && !bankruptcyDismissed && localPlayer && localPlayer.cash < 0 && (
+      {showBankruptcy && !bankruptcyDismissed && localPlayer && localDebt && (
+        <BankruptcyModal
+          gameState={gameState}
+          player={localPlayer}
+          debtAmount={localDebt.amount}
+          creditorId={localDebt.creditorId}
+          emitAction={emitAction}
+          onClose={() => setBankruptcyDismissed(true)}
+        />
+      )}
+
+      {/* Inherited mortgages awaiting the local creditor's decision */}
+      {isInheritanceCreditor && !raisingInheritanceFunds && localPlayer && (
+        <InheritedMortgagesModal
+          gameState={gameState}
+          player={localPlayer}
+          inheritance={gameState.pendingInheritance!}
+          onUnmortgage={handleUnmortgageInherited}
+          onKeepMortgaged={handleKeepInheritedMortgage}
+          onRaiseFunds={handleRaiseInheritanceFunds}
+        />
+      )}
+
+      {/* A creditor short of the interest raises it, or goes bankrupt to the bank */}
+      {isInheritanceCreditor && raisingInheritanceFunds && localPlayer && (
         <BankruptcyModal
           gameState={gameState}
           player={localPlayer}
-          debtAmount={debtInfo.debtAmount}
-          creditorId={debtInfo.creditorId}
+          debtAmount={inheritedMortgageInterest(
+            gameState,
+            gameState.pendingInheritance!.propertyIds[0],
+          )}
+          creditorId="bank"
           emitAction={emitAction}
-          onClose={() => {
-            if (localPlayer.cash >= 0) {
-              setShowBankruptcy(false);
-            }
-            setBankruptcyDismissed(true);
-          }}
+          onClose={() => setRaisingInheritanceFunds(false)}
         />
       )}
 
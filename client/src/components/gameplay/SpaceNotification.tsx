@@ -8,12 +8,14 @@ export interface SpaceNotificationProps {
   resolution: LastResolution | null | undefined;
   localPlayerName: string;
   passedGo?: boolean;
+  goSalary?: number;
 }
 
 export function SpaceNotification({
   resolution,
   localPlayerName,
   passedGo,
+  goSalary = 200,
 }: SpaceNotificationProps) {
   const { showToast } = useToast();
   const lastResolution = useRef<LastResolution | null>(null);
@@ -22,10 +24,10 @@ export function SpaceNotification({
   // Show Passed Go toast when lastPassedGo transitions to true
   useEffect(() => {
     if (passedGo && !lastPassedGo.current) {
-      showToast('Passed Go! Collected $200', 'success');
+      showToast(`Passed Go! Collected $${goSalary}`, 'success');
     }
     lastPassedGo.current = !!passedGo;
-  }, [passedGo, showToast]);
+  }, [passedGo, goSalary, showToast]);
 
   useEffect(() => {
     if (!resolution) return;
@@ -48,6 +50,12 @@ export function SpaceNotification({
         );
         break;
       }
+      case 'rentWaived':
+        showToast(
+          `No rent to ${resolution.ownerName ?? 'someone'} — a trade deal covers ${resolution.spaceName}`,
+          'success',
+        );
+        break;
       case 'tax':
         showToast(
           `${resolution.spaceName}: Pay $${(resolution.amount ?? 0).toLocaleString()}`,
@@ -55,7 +63,7 @@ export function SpaceNotification({
         );
         break;
       case 'passedGo':
-        showToast('Passed Go! Collected $200', 'success');
+        showToast(`Passed Go! Collected $${goSalary}`, 'success');
         break;
       case 'goToJail':
         showToast('Go to Jail!', 'error');
@@ -67,24 +75,30 @@ export function SpaceNotification({
         showToast('Freed from Jail!', 'success');
         break;
       case 'forcedJailExit':
-        showToast('Forced out of Jail — paid $50', 'warning');
+        showToast(`Forced out of Jail — paid $${resolution.amount ?? 50}`, 'warning');
         break;
       case 'stayInJail':
         showToast('Still in Jail — no doubles', 'info');
         break;
       case 'paidJailFine':
-        showToast("Paid $50 jail fine — you're free!", 'success');
+        showToast(`Paid $${resolution.amount ?? 50} jail fine — you're free!`, 'success');
         break;
       case 'usedJailCard':
         showToast('Used Get Out of Jail Free card!', 'success');
         break;
+      case 'freeParking':
+        showToast(
+          `Free Parking jackpot! Collected $${(resolution.amount ?? 0).toLocaleString()}`,
+          'success',
+        );
+        break;
       case 'ownProperty':
         showToast(`Your property — ${resolution.spaceName}`, 'info');
         break;
       default:
         break;
     }
-  }, [resolution, showToast, localPlayerName]);
+  }, [resolution, showToast, localPlayerName, goSalary]);
 
   return null;
 }
@@ -0,0 +1,74 @@
+'use client';
+
+import React, { useState } from 'react';
+import type { PendingSpeedDie, Space } from '@monopoly/shared';
+import { Button } from '../ui/Button';
+import styles from './SpeedDieMovePanel.module.css';
+
+export interface SpeedDieMovePanelProps {
+  pending: PendingSpeedDie;
+  board: Space[];
+  onChoose: (destination: number) => void;
+}
+
+function spaceName(board: Space[], position: number): string {
+  return board.find((s) => s.position === position)?.name ?? `Space ${position}`;
+}
+
+export function SpeedDieMovePanel({ pending, board, onChoose }: SpeedDieMovePanelProps) {
+  const destinations = pending.destinations ?? [];
+  const [selected, setSelected] = useState(destinations[0] ?? 0);
+
+  if (destinations.length === 0) return null;
+
+  // Triples can go anywhere, which is too many spaces for a row of buttons
+  if (pending.type === 'triples') {
+    return (
+      <div className={styles.container} data-testid="speed-die-move">
+        <div className={styles.title}>Triples! Move anywhere</div>
+        <div className={styles.options}>
+          <select
+            className={styles.select}
+            value={selected}
+            onChange={(e) => setSelected(Number(e.target.value))}
+            aria-label="Destination"
+            data-testid="speed-die-destination-select"
+          >
+            {destinations.map((position) => (
+              <option key={position} value={position}>
+                {spaceName(board, position)}
+              </option>
+            ))}
+          </select>
+          <Button
+            variant="primary"
+            size="sm"
+            onClick={() => onChoose(selected)}
+            data-testid="speed-die-move-button"
+          >
+            Move
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.container} data-testid="speed-die-move">
+      <div className={styles.title}>Bus ticket: choose your move</div>
+      <div className={styles.options}>
+        {destinations.map((position) => (
+          <Button
+            key={position}
+            variant="secondary"
+            size="sm"
+            onClick={() => onChoose(position)}
+            data-testid={`speed-die-destination-${position}`}
+          >
+            {spaceName(board, position)}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
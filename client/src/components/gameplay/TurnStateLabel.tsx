@@ -14,10 +14,12 @@ export interface TurnStateLabelProps {
 const STATE_LABELS: Record<TurnState, string> = {
   [TurnState.WaitingForRoll]: 'Roll Dice',
   [TurnState.Rolling]: 'Rolling...',
+  [TurnState.ChoosingSpeedDieMove]: 'Choose Your Move',
   [TurnState.Resolving]: 'Resolving...',
   [TurnState.AwaitingBuyDecision]: 'Buy or Auction',
   [TurnState.Auction]: 'Auction in Progress',
   [TurnState.PlayerAction]: 'Your Action',
+  [TurnState.RaisingFunds]: 'Raise Funds',
   [TurnState.TradeNegotiation]: 'Trade in Progress',
   [TurnState.EndTurn]: 'Turn Ending...',
 };
@@ -1,6 +1,7 @@
 export { DiceDisplay } from './DiceDisplay';
 export { BuyPropertyModal } from './BuyPropertyModal';
 export { SpaceNotification } from './SpaceNotification';
+export { SpeedDieMovePanel } from './SpeedDieMovePanel';
 export { TurnStateLabel } from './TurnStateLabel';
 export { YourTurnBanner } from './YourTurnBanner';
 export { ActivityFeed, ActivityFeedSection } from './ActivityFeed';
@@ -7,6 +7,7 @@ import styles from './JailOptionsPanel.module.css';
 
 export interface JailOptionsPanelProps {
   player: Player;
+  fine?: number;
   onPayFine: () => void;
   onUseCard: () => void;
   onRollForDoubles: () => void;
@@ -14,13 +15,14 @@ export interface JailOptionsPanelProps {
 
 export function JailOptionsPanel({
   player,
+  fine = 50,
   onPayFine,
   onUseCard,
   onRollForDoubles,
 }: JailOptionsPanelProps) {
   if (!player.jailStatus.inJail) return null;
 
-  const canAffordFine = player.cash >= 50;
+  const canAffordFine = player.cash >= fine;
   const hasCard = player.getOutOfJailFreeCards > 0;
 
   return (
@@ -34,7 +36,7 @@ export function JailOptionsPanel({
           disabled={!canAffordFine}
           data-testid="pay-fine-button"
         >
-          Pay $50 Fine
+          Pay ${fine} Fine
         </Button>
         <Button
           variant="secondary"
@@ -1,11 +1,13 @@
 'use client';
 
-import React, { useState, useCallback } from 'react';
-import { TokenType } from '@monopoly/shared';
+import React, { useState, useCallback, useEffect } from 'react';
+import { DEFAULT_GAME_SETTINGS, HOUSE_RULE_LIMITS, TokenType } from '@monopoly/shared';
+import type { BoardDefinition, BoardSummary, BotStrategyName, HouseRules } from '@monopoly/shared';
 import { Button } from '../ui/Button';
 import { Input } from '../ui/Input';
 import { Modal } from '../ui/Modal';
 import { TokenSelector } from '../ui/TokenSelector';
+import { parseBoardJson } from '../editor/boardDraft';
 import styles from './Lobby.module.css';
 
 // Token display icons
@@ -20,6 +22,12 @@ const TOKEN_ICONS: Record<string, string> = {
   [TokenType.Battleship]: '\u{1F6A2}',
 };
 
+export const BOT_STRATEGY_OPTIONS: { value: BotStrategyName; label: string }[] = [
+  { value: 'cautious', label: 'Cautious' },
+  { value: 'aggressive', label: 'Aggressive builder' },
+  { value: 'trader', label: 'Trader' },
+];
+
 // --- CreateGameForm ---
 export interface CreateGameFormProps {
   onSubmit: (settings: { playerCount: number; startingCash: number }) => void;
@@ -117,9 +125,19 @@ export interface LobbyPlayer {
   token?: TokenType;
   isReady: boolean;
   isHost: boolean;
+  isBot?: boolean;
+  botStrategy?: BotStrategyName;
+}
+
+export interface PlayerListItemProps {
+  player: LobbyPlayer;
+  /** Shown for bots when the viewer is the host. */
+  onRemove?: () => void;
 }
 
-export function PlayerListItem({ player }: { player: LobbyPlayer }) {
+export function PlayerListItem({ player, onRemove }: PlayerListItemProps) {
+  const botLabel = BOT_STRATEGY_OPTIONS.find((o) => o.value === player.botStrategy)?.label;
+
   return (
     <div className={styles.playerItem} data-testid={`player-${player.id}`}>
       <span className={styles.playerToken}>
@@ -128,10 +146,304 @@ export function PlayerListItem({ player }: { player: LobbyPlayer }) {
       <div className={styles.playerDetails}>
         <div className={styles.playerItemName}>{player.name}</div>
         {player.isHost && <div className={styles.hostBadge}>HOST</div>}
+        {player.isBot && (
+          <div className={styles.botBadge} data-testid={`bot-badge-${player.id}`}>
+            BOT{botLabel ? ` \u00B7 ${botLabel}` : ''}
+          </div>
+        )}
+      </div>
+      {player.isBot && onRemove ? (
+        <button
+          className={styles.removeBotButton}
+          onClick={onRemove}
+          aria-label={`Remove ${player.name}`}
+          data-testid={`remove-bot-${player.id}`}
+        >
+          &times;
+        </button>
+      ) : (
+        <span className={styles.readyStatus} aria-label={player.isReady ? 'Ready' : 'Not ready'}>
+          {player.isReady ? '\u2705' : '\u23F3'}
+        </span>
+      )}
+    </div>
+  );
+}
+
+// --- AddBotControl ---
+export interface AddBotControlProps {
+  onAdd: (strategy: BotStrategyName) => void;
+  disabled?: boolean;
+}
+
+export function AddBotControl({ onAdd, disabled = false }: AddBotControlProps) {
+  const [strategy, setStrategy] = useState<BotStrategyName>('cautious');
+
+  return (
+    <div className={styles.addBotControl} data-testid="add-bot-control">
+      <label htmlFor="botStrategy" className={styles.selectLabel}>
+        Bot Strategy
+      </label>
+      <div className={styles.addBotRow}>
+        <select
+          id="botStrategy"
+          className={styles.select}
+          value={strategy}
+          onChange={(e) => setStrategy(e.target.value as BotStrategyName)}
+          disabled={disabled}
+          data-testid="bot-strategy-select"
+        >
+          {BOT_STRATEGY_OPTIONS.map((o) => (
+            <option key={o.value} value={o.value}>
+              {o.label}
+            </option>
+          ))}
+        </select>
+        <Button
+          variant="secondary"
+          onClick={() => onAdd(strategy)}
+          disabled={disabled}
+          data-testid="add-bot-button"
+        >
+          Add Bot
+        </Button>
       </div>
-      <span className={styles.readyStatus} aria-label={player.isReady ? 'Ready' : 'Not ready'}>
-        {player.isReady ? '\u2705' : '\u23F3'}
-      </span>
+    </div>
+  );
+}
+
+// --- HouseRulesEditor ---
+type ToggleRule =
+  | 'auctionEnabled'
+  | 'auctionRoundRobin'
+  | 'sealedBidAuctions'
+  | 'tradeAnytime'
+  | 'doubleGoSalary'
+  | 'noRentInJail'
+  | 'evenBuild'
+  | 'mustCircuitBeforeBuying'
+  | 'speedDie';
+type NumberRule =
+  | 'goSalary'
+  | 'jailFine'
+  | 'mortgageInterestRate'
+  | 'maxHouses'
+  | 'maxHotels'
+  | 'startingProperties'
+  | 'turnTimeLimit'
+  | 'auctionTimeLimit'
+  | 'minBidIncrement'
+  | 'tradeTimeLimit'
+  | 'roundLimit';
+
+const TOGGLE_RULES: { key: ToggleRule; label: string }[] = [
+  { key: 'auctionEnabled', label: 'Auction unbought property' },
+  { key: 'auctionRoundRobin', label: 'Bid in turn at auctions' },
+  { key: 'sealedBidAuctions', label: 'Sealed-bid auctions' },
+  { key: 'tradeAnytime', label: 'Trade at any time' },
+  { key: 'evenBuild', label: 'Build evenly across color groups' },
+  { key: 'doubleGoSalary', label: 'Double salary for landing on Go' },
+  { key: 'noRentInJail', label: 'No rent collected while in jail' },
+  { key: 'mustCircuitBeforeBuying', label: 'Go around once before buying' },
+  { key: 'speedDie', label: 'Speed Die' },
+];
+
+// Mortgage interest is edited as a percentage; the engine stores a fraction
+const NUMBER_RULES: { key: NumberRule; label: string; scale?: number }[] = [
+  { key: 'goSalary', label: 'Go salary ($)' },
+  { key: 'jailFine', label: 'Jail fine ($)' },
+  { key: 'mortgageInterestRate', label: 'Mortgage interest (%)', scale: 100 },
+  { key: 'maxHouses', label: 'Houses in the bank' },
+  { key: 'maxHotels', label: 'Hotels in the bank' },
+  { key: 'startingProperties', label: 'Properties dealt to each player' },
+  { key: 'turnTimeLimit', label: 'Turn time limit (seconds)' },
+  { key: 'auctionTimeLimit', label: 'Auction countdown (seconds, 0 for none)' },
+  { key: 'minBidIncrement', label: 'Minimum bid raise ($)' },
+  { key: 'tradeTimeLimit', label: 'Trade offers expire after (seconds, 0 for never)' },
+  { key: 'roundLimit', label: 'Round limit (0 for none)' },
+];
+
+const GAME_LENGTHS = [0, 30, 60, 90];
+
+export interface HouseRulesEditorProps {
+  rules: Partial<HouseRules>;
+  /** Only the host may edit; everyone else sees the rules read-only */
+  editable?: boolean;
+  onChange?: (rules: Partial<HouseRules>) => void;
+}
+
+export function HouseRulesEditor({ rules, editable = false, onChange }: HouseRulesEditorProps) {
+  const current = { ...DEFAULT_GAME_SETTINGS, ...rules };
+  const disabled = !editable || !onChange;
+
+  return (
+    <fieldset className={styles.houseRules} data-testid="house-rules-editor" disabled={disabled}>
+      <legend className={styles.playerListTitle}>House Rules</legend>
+      <label className={styles.ruleToggle}>
+        <input
+          type="checkbox"
+          checked={current.freeParking === 'houserule'}
+          onChange={(e) => onChange?.({ freeParking: e.target.checked ? 'houserule' : 'classic' })}
+          data-testid="rule-freeParking"
+        />
+        Free Parking jackpot
+      </label>
+      {TOGGLE_RULES.map(({ key, label }) => (
+        <label key={key} className={styles.ruleToggle}>
+          <input
+            type="checkbox"
+            checked={current[key]}
+            onChange={(e) => onChange?.({ [key]: e.target.checked })}
+            data-testid={`rule-${key}`}
+          />
+          {label}
+        </label>
+      ))}
+      {NUMBER_RULES.map(({ key, label, scale = 1 }) => (
+        <NumberRuleInput
+          key={key}
+          rule={key}
+          label={label}
+          value={current[key]}
+          scale={scale}
+          onCommit={(value) => onChange?.({ [key]: value })}
+        />
+      ))}
+      <label className={styles.ruleNumber}>
+        <span>Game length</span>
+        <select
+          className={styles.ruleInput}
+          value={current.gameTimeLimit}
+          onChange={(e) => onChange?.({ gameTimeLimit: Number(e.target.value) })}
+          data-testid="rule-gameTimeLimit"
+        >
+          {!GAME_LENGTHS.includes(current.gameTimeLimit) && (
+            <option value={current.gameTimeLimit}>{current.gameTimeLimit} minutes</option>
+          )}
+          {GAME_LENGTHS.map((minutes) => (
+            <option key={minutes} value={minutes}>
+              {minutes === 0 ? 'No time limit' : `${minutes} minutes`}
+            </option>
+          ))}
+        </select>
+      </label>
+    </fieldset>
+  );
+}
+
+interface NumberRuleInputProps {
+  rule: NumberRule;
+  label: string;
+  value: number;
+  scale: number;
+  onCommit: (value: number) => void;
+}
+
+// Sends the value once the host leaves the field, so half-typed numbers are never submitted
+function NumberRuleInput({ rule, label, value, scale, onCommit }: NumberRuleInputProps) {
+  const displayed = Math.round(value * scale * 100) / 100;
+  const [draft, setDraft] = useState(String(displayed));
+  const [min, max] = HOUSE_RULE_LIMITS[rule] ?? [0, Infinity];
+
+  useEffect(() => {
+    setDraft(String(displayed));
+  }, [displayed]);
+
+  const commit = () => {
+    const parsed = Number(draft);
+    if (draft.trim() === '' || !Number.isFinite(parsed) || parsed === displayed) {
+      setDraft(String(displayed));
+      return;
+    }
+    onCommit(parsed / scale);
+  };
+
+  return (
+    <label className={styles.ruleNumber}>
+      <span>{label}</span>
+      <input
+        type="number"
+        className={styles.ruleInput}
+        min={min * scale}
+        max={max * scale}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit();
+        }}
+        data-testid={`rule-${rule}`}
+      />
+    </label>
+  );
+}
+
+// --- BoardSelector ---
+export interface BoardSelectorProps {
+  boards: BoardSummary[];
+  /** The room's board; the classic board when unset */
+  selected?: { id: string; name: string };
+  /** Only the host may change the board */
+  editable?: boolean;
+  onSelect?: (boardId: string) => void;
+  /** Called with a board file exported from the editor, once it validates */
+  onUpload?: (board: BoardDefinition) => void;
+}
+
+export function BoardSelector({
+  boards,
+  selected = { id: 'classic', name: 'Classic' },
+  editable = false,
+  onSelect,
+  onUpload,
+}: BoardSelectorProps) {
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  // A board the host uploaded isn't in the server's list, so offer it alongside
+  const options = boards.some((b) => b.id === selected.id)
+    ? boards
+    : [{ id: selected.id, name: selected.name, spaceCount: 0 }, ...boards];
+
+  const handleUpload = async (file: File | undefined) => {
+    if (!file || !onUpload) return;
+    const result = parseBoardJson(await file.text());
+    setUploadError(result.error ?? null);
+    if (result.board) onUpload(result.board);
+  };
+
+  return (
+    <div data-testid="board-selector">
+      <label className={styles.ruleNumber}>
+        <span>Board</span>
+        <select
+          className={styles.ruleInput}
+          value={selected.id}
+          disabled={!editable || !onSelect}
+          onChange={(e) => onSelect?.(e.target.value)}
+          data-testid="board-select"
+        >
+          {options.map((board) => (
+            <option key={board.id} value={board.id}>
+              {board.spaceCount ? `${board.name} (${board.spaceCount} spaces)` : board.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      {editable && onUpload && (
+        <label className={styles.ruleNumber}>
+          <span>Or load a board file</span>
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={(e) => handleUpload(e.target.files?.[0])}
+            data-testid="board-upload"
+          />
+        </label>
+      )}
+      {uploadError && (
+        <p className={styles.uploadError} role="alert" data-testid="board-upload-error">
+          {uploadError}
+        </p>
+      )}
     </div>
   );
 }
@@ -141,7 +453,17 @@ export interface WaitingRoomProps {
   roomCode: string;
   players: LobbyPlayer[];
   isHost: boolean;
+  maxPlayers?: number;
   onStartGame?: () => void;
+  onAddBot?: (strategy: BotStrategyName) => void;
+  onRemoveBot?: (botId: string) => void;
+  houseRules?: Partial<HouseRules>;
+  onUpdateHouseRules?: (rules: Partial<HouseRules>) => void;
+  /** Boards the host can choose from; the selector is hidden without them */
+  boards?: BoardSummary[];
+  board?: { id: string; name: string };
+  onSelectBoard?: (boardId: string) => void;
+  onUploadBoard?: (board: BoardDefinition) => void;
   tokenSelector?: React.ReactNode;
 }
 
@@ -149,7 +471,16 @@ export function WaitingRoom({
   roomCode,
   players,
   isHost,
+  maxPlayers,
   onStartGame,
+  onAddBot,
+  onRemoveBot,
+  houseRules,
+  onUpdateHouseRules,
+  boards,
+  board,
+  onSelectBoard,
+  onUploadBoard,
   tokenSelector,
 }: WaitingRoomProps) {
   const [copied, setCopied] = useState(false);
@@ -189,10 +520,36 @@ export function WaitingRoom({
         <div className={styles.playerList}>
           <div className={styles.playerListTitle}>Players ({players.length})</div>
           {players.map((player) => (
-            <PlayerListItem key={player.id} player={player} />
+            <PlayerListItem
+              key={player.id}
+              player={player}
+              onRemove={isHost && onRemoveBot ? () => onRemoveBot(player.id) : undefined}
+            />
           ))}
+          {isHost && onAddBot && (
+            <AddBotControl
+              onAdd={onAddBot}
+              disabled={maxPlayers !== undefined && players.length >= maxPlayers}
+            />
+          )}
         </div>
 
+        {boards && (
+          <div className={styles.boardSection}>
+            <BoardSelector
+              boards={boards}
+              selected={board}
+              editable={isHost}
+              onSelect={onSelectBoard}
+              onUpload={onUploadBoard}
+            />
+          </div>
+        )}
+
+        {houseRules && (
+          <HouseRulesEditor rules={houseRules} editable={isHost} onChange={onUpdateHouseRules} />
+        )}
+
         {tokenSelector && <div className={styles.tokenSelectorSection}>{tokenSelector}</div>}
 
         <div className={styles.startSection}>
@@ -1,8 +1,22 @@
-export { CreateGameForm, JoinGameForm, WaitingRoom, PlayerListItem, NameEntryModal } from './Lobby';
+export {
+  CreateGameForm,
+  JoinGameForm,
+  WaitingRoom,
+  PlayerListItem,
+  AddBotControl,
+  HouseRulesEditor,
+  BoardSelector,
+  NameEntryModal,
+  BOT_STRATEGY_OPTIONS,
+} from './Lobby';
 export type {
   CreateGameFormProps,
   JoinGameFormProps,
   WaitingRoomProps,
   LobbyPlayer,
+  PlayerListItemProps,
+  AddBotControlProps,
+  HouseRulesEditorProps,
+  BoardSelectorProps,
   NameEntryModalProps,
 } from './Lobby';
@@ -23,6 +23,7 @@ export interface MortgageManagerProps {
   player: Player;
   properties: Property[];
   board: Space[];
+  interestRate?: number;
   onMortgage: (propertyId: number) => void;
   onUnmortgage: (propertyId: number) => void;
   onClose: () => void;
@@ -33,6 +34,7 @@ export function MortgageManager({
   player,
   properties,
   board,
+  interestRate = 0.1,
   onMortgage,
   onUnmortgage,
   onClose,
@@ -114,7 +116,7 @@ export function MortgageManager({
                   />
                 );
               } else {
-                const interest = Math.ceil(mortgageValue * 0.1);
+                const interest = Math.ceil(mortgageValue * interestRate);
                 const totalCost = mortgageValue + interest;
                 return (
                   <UnmortgagePropertyRow
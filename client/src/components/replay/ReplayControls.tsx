@@ -0,0 +1,95 @@
+'use client';
+
+import React from 'react';
+import styles from './ReplayControls.module.css';
+
+export interface ReplayControlsProps {
+  step: number;
+  totalSteps: number;
+  isPlaying: boolean;
+  speed: number;
+  speeds: number[];
+  onPlay: () => void;
+  onPause: () => void;
+  onStepBack: () => void;
+  onStepForward: () => void;
+  onSeek: (step: number) => void;
+  onSpeedChange: (speed: number) => void;
+}
+
+export function ReplayControls({
+  step,
+  totalSteps,
+  isPlaying,
+  speed,
+  speeds,
+  onPlay,
+  onPause,
+  onStepBack,
+  onStepForward,
+  onSeek,
+  onSpeedChange,
+}: ReplayControlsProps) {
+  return (
+    <div className={styles.controls} data-testid="replay-controls">
+      <div className={styles.buttons}>
+        <button
+          className={styles.controlButton}
+          onClick={onStepBack}
+          disabled={step <= 0}
+          aria-label="Step back"
+          data-testid="replay-step-back"
+        >
+          &#9198;
+        </button>
+        <button
+          className={`${styles.controlButton} ${styles.playButton}`}
+          onClick={isPlaying ? onPause : onPlay}
+          disabled={totalSteps === 0}
+          aria-label={isPlaying ? 'Pause' : 'Play'}
+          data-testid="replay-play-toggle"
+        >
+          {isPlaying ? '\u23F8' : '\u25B6'}
+        </button>
+        <button
+          className={styles.controlButton}
+          onClick={onStepForward}
+          disabled={step >= totalSteps}
+          aria-label="Step forward"
+          data-testid="replay-step-forward"
+        >
+          &#9197;
+        </button>
+      </div>
+
+      <input
+        type="range"
+        className={styles.scrubber}
+        min={0}
+        max={totalSteps}
+        value={step}
+        onChange={(e) => onSeek(Number(e.target.value))}
+        aria-label="Replay position"
+        data-testid="replay-scrubber"
+      />
+
+      <span className={styles.position} data-testid="replay-position">
+        {step} / {totalSteps}
+      </span>
+
+      <select
+        className={styles.speedSelect}
+        value={speed}
+        onChange={(e) => onSpeedChange(Number(e.target.value))}
+        aria-label="Playback speed"
+        data-testid="replay-speed"
+      >
+        {speeds.map((s) => (
+          <option key={s} value={s}>
+            {s}x
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
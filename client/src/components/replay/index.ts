@@ -0,0 +1,2 @@
+export { ReplayControls } from './ReplayControls';
+export type { ReplayControlsProps } from './ReplayControls';
@@ -1,9 +1,11 @@
 'use client';
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { getTradeHoldouts, getTradeParticipants, isMultiPartyTrade } from '@monopoly/shared';
 import type { Player, Property, TradeOffer, ColorGroup } from '@monopoly/shared';
 import { Button } from '../ui/Button';
 import { Modal } from '../ui/Modal';
+import { describeClause } from './tradeText';
 import styles from './IncomingTradeModal.module.css';
 
 const COLOR_GROUP_CSS: Record<ColorGroup, string> = {
@@ -22,6 +24,10 @@ export interface IncomingTradeModalProps {
   trade: TradeOffer;
   proposer: Player;
   properties: Property[];
+  // Everyone in the game, for naming the players in a multi-party deal
+  players?: Player[];
+  // Why the offer can no longer go through as it stands, if it can't
+  problem?: string | null;
   onAccept: () => void;
   onReject: () => void;
   onCounter: () => void;
@@ -33,11 +39,16 @@ export function IncomingTradeModal({
   trade,
   proposer,
   properties,
+  players = [],
+  problem,
   onAccept,
   onReject,
   onCounter,
   onClose,
 }: IncomingTradeModalProps) {
+  const isCancelled = trade.status === 'invalidated' || trade.status === 'expired';
+  const secondsLeft = useSecondsUntil(isCancelled ? null : trade.expiresAt);
+  const isMulti = isMultiPartyTrade(trade);
   const offeredProps = trade.offeredProperties
     .map((id) => properties.find((p) => p.spaceId === id))
     .filter(Boolean) as Property[];
@@ -46,50 +57,198 @@ export function IncomingTradeModal({
     .filter(Boolean) as Property[];
 
   return (
-    <Modal isOpen={isOpen} onClose={onClose} title="Trade Offer">
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={isCancelled ? 'Trade Called Off' : 'Trade Offer'}
+    >
       <div className={styles.container} data-testid="incoming-trade-modal">
         <div className={styles.proposerInfo}>
-          <strong>{proposer.name}</strong> wants to trade with you
+          {isCancelled ? (
+            <>
+              <strong>{proposer.name}</strong>&apos;s trade offer was called off
+            </>
+          ) : isMulti ? (
+            <>
+              <strong>{proposer.name}</strong> wants to make a deal with{' '}
+              {getTradeParticipants(trade)
+                .slice(1)
+                .map((id) => playerName(players, id))
+                .join(', ')}
+            </>
+          ) : (
+            <>
+              <strong>{proposer.name}</strong> wants to trade with you
+            </>
+          )}
         </div>
 
-        <div className={styles.tradeColumns}>
-          <div className={styles.column}>
-            <div className={styles.columnTitle}>They Offer</div>
-            <TradeItemsList
-              propertyItems={offeredProps}
-              cash={trade.offeredCash}
-              cards={trade.offeredCards}
-            />
+        {isCancelled && (
+          <div className={styles.tradeWarning} data-testid="trade-cancelled">
+            {trade.reason}
+          </div>
+        )}
+        {!isCancelled && problem && (
+          <div className={styles.tradeWarning} data-testid="trade-problem">
+            This offer can no longer go through: {problem}
           </div>
+        )}
+        {secondsLeft !== null && (
+          <div className={styles.expiry} data-testid="trade-expiry">
+            Offer expires in {formatCountdown(secondsLeft)}
+          </div>
+        )}
 
-          <div className={styles.exchangeIcon}>&harr;</div>
+        {isMulti ? (
+          <MultiTradeColumns trade={trade} players={players} properties={properties} />
+        ) : (
+          <div className={styles.tradeColumns}>
+            <div className={styles.column}>
+              <div className={styles.columnTitle}>They Offer</div>
+              <TradeItemsList
+                propertyItems={offeredProps}
+                cash={trade.offeredCash}
+                cards={trade.offeredCards}
+              />
+            </div>
 
-          <div className={styles.column}>
-            <div className={styles.columnTitle}>They Request</div>
-            <TradeItemsList
-              propertyItems={requestedProps}
-              cash={trade.requestedCash}
-              cards={trade.requestedCards}
-            />
+            <div className={styles.exchangeIcon}>&harr;</div>
+
+            <div className={styles.column}>
+              <div className={styles.columnTitle}>They Request</div>
+              <TradeItemsList
+                propertyItems={requestedProps}
+                cash={trade.requestedCash}
+                cards={trade.requestedCards}
+              />
+            </div>
           </div>
-        </div>
+        )}
 
-        <div className={styles.actions}>
-          <Button variant="primary" onClick={onAccept} data-testid="accept-trade-button">
-            Accept
-          </Button>
-          <Button variant="danger" onClick={onReject} data-testid="reject-trade-button">
-            Reject
-          </Button>
-          <Button variant="secondary" onClick={onCounter} data-testid="counter-trade-button">
-            Counter
-          </Button>
-        </div>
+        {trade.clauses && trade.clauses.length > 0 && (
+          <div className={styles.clauses} data-testid="trade-clauses">
+            <div className={styles.columnTitle}>Rent Deals</div>
+            {trade.clauses.map((clause, index) => (
+              <div key={index} className={styles.tradeItem} data-testid={`trade-clause-${index}`}>
+                {describeClause(
+                  clause,
+                  properties.find((p) => p.spaceId === clause.propertyId)?.name ??
+                    `Property ${clause.propertyId}`,
+                  playerName(players, clause.beneficiaryId),
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {isCancelled ? (
+          <div className={styles.actions}>
+            <Button variant="primary" onClick={onClose} data-testid="dismiss-trade-button">
+              OK
+            </Button>
+          </div>
+        ) : (
+          <div className={styles.actions}>
+            <Button
+              variant="primary"
+              onClick={onAccept}
+              disabled={!!problem}
+              data-testid="accept-trade-button"
+            >
+              Accept
+            </Button>
+            <Button variant="danger" onClick={onReject} data-testid="reject-trade-button">
+              Reject
+            </Button>
+            {!isMulti && (
+              <Button variant="secondary" onClick={onCounter} data-testid="counter-trade-button">
+                Counter
+              </Button>
+            )}
+          </div>
+        )}
       </div>
     </Modal>
   );
 }
 
+function secondsUntil(deadline: number): number {
+  return Math.max(0, Math.ceil((deadline - Date.now()) / 1000));
+}
+
+// Seconds left until the deadline, ticking once a second; null without one
+function useSecondsUntil(deadline?: number | null): number | null {
+  const [seconds, setSeconds] = useState(() => (deadline ? secondsUntil(deadline) : null));
+
+  useEffect(() => {
+    if (!deadline) {
+      setSeconds(null);
+      return;
+    }
+    setSeconds(secondsUntil(deadline));
+    const id = setInterval(() => setSeconds(secondsUntil(deadline)), 1000);
+    return () => clearInterval(id);
+  }, [deadline]);
+
+  return seconds;
+}
+
+function formatCountdown(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+function playerName(players: Player[], id: string): string {
+  return players.find((p) => p.id === id)?.name ?? id;
+}
+
+// A column per participant with what they hand to whom and whether they've agreed
+function MultiTradeColumns({
+  trade,
+  players,
+  properties,
+}: {
+  trade: TradeOffer;
+  players: Player[];
+  properties: Property[];
+}) {
+  const holdouts = getTradeHoldouts(trade);
+  const transfers = trade.transfers ?? [];
+
+  return (
+    <div className={styles.multiColumns} data-testid="multi-trade-summary">
+      {getTradeParticipants(trade).map((id) => (
+        <div key={id} className={styles.column}>
+          <div className={styles.columnTitle}>{playerName(players, id)} Gives</div>
+          {!transfers.some((t) => t.fromId === id) && <div className={styles.noItems}>Nothing</div>}
+          {transfers
+            .filter((t) => t.fromId === id)
+            .map((t) => (
+              <div key={t.toId} className={styles.transfer}>
+                <div className={styles.transferTo}>To {playerName(players, t.toId)}</div>
+                <TradeItemsList
+                  propertyItems={
+                    t.properties
+                      .map((spaceId) => properties.find((p) => p.spaceId === spaceId))
+                      .filter(Boolean) as Property[]
+                  }
+                  cash={t.cash}
+                  cards={t.cards}
+                />
+              </div>
+            ))}
+          <div
+            className={holdouts.includes(id) ? styles.waiting : styles.agreed}
+            data-testid={`trade-answer-${id}`}
+          >
+            {holdouts.includes(id) ? 'Waiting' : 'Accepted'}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 function TradeItemsList({
   propertyItems,
   cash,
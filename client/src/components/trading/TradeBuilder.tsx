@@ -1,9 +1,18 @@
 'use client';
 
 import React, { useState, useMemo, useCallback } from 'react';
-import type { Player, Property, ColorGroup, TradeOfferPayload } from '@monopoly/shared';
+import { CLAUSE_LIMITS } from '@monopoly/shared';
+import type {
+  Player,
+  Property,
+  ColorGroup,
+  TradeClause,
+  TradeOfferPayload,
+  TradeTransfer,
+} from '@monopoly/shared';
 import { Button } from '../ui/Button';
 import { Modal } from '../ui/Modal';
+import { describeClause } from './tradeText';
 import styles from './TradeBuilder.module.css';
 
 const COLOR_GROUP_CSS: Record<ColorGroup, string> = {
@@ -23,12 +32,72 @@ export interface TradeBuilderProps {
   otherPlayers: Player[];
   properties: Property[];
   onSendOffer: (recipientId: string, offer: TradeOfferPayload) => void;
+  // Offers a deal between three or more players; without it only two-player trades can be built
+  onSendMultiOffer?: (transfers: TradeTransfer[]) => void;
   onClose: () => void;
   prefilledRecipientId?: string;
   prefilledOffer?: Partial<TradeOfferPayload>;
 }
 
-type TradeStep = 'selectPlayer' | 'buildOffer';
+type TradeStep = 'selectPlayer' | 'buildOffer' | 'buildMulti';
+
+// Cash and cards in a multi-party deal are keyed by who hands them to whom
+function pairKey(fromId: string, toId: string): string {
+  return `${fromId}>${toId}`;
+}
+
+// One transfer for every pair of players with something changing hands
+function buildTransfers(
+  participants: Player[],
+  properties: Property[],
+  destinations: Record<number, string>,
+  cash: Record<string, number>,
+  cards: Record<string, number>,
+): TradeTransfer[] {
+  const transfers: TradeTransfer[] = [];
+  for (const from of participants) {
+    for (const to of participants) {
+      if (from.id === to.id) continue;
+      const key = pairKey(from.id, to.id);
+      const transfer: TradeTransfer = {
+        fromId: from.id,
+        toId: to.id,
+        properties: properties
+          .filter((p) => p.ownerId === from.id && destinations[p.spaceId] === to.id)
+          .map((p) => p.spaceId),
+        cash: cash[key] ?? 0,
+        cards: cards[key] ?? 0,
+      };
+      if (transfer.properties.length > 0 || transfer.cash > 0 || transfer.cards > 0) {
+        transfers.push(transfer);
+      }
+    }
+  }
+  return transfers;
+}
+
+function multiTradeError(
+  currentPlayer: Player,
+  participants: Player[],
+  transfers: TradeTransfer[],
+): string | null {
+  if (transfers.length === 0) return 'Add items to the trade';
+  for (const player of participants) {
+    if (!transfers.some((t) => t.fromId === player.id || t.toId === player.id)) {
+      return `Add something for or from ${player.name}`;
+    }
+  }
+  const given = (id: string) => transfers.filter((t) => t.fromId === id);
+  if (given(currentPlayer.id).reduce((sum, t) => sum + t.cash, 0) > currentPlayer.cash) {
+    return 'You cannot afford the offered cash';
+  }
+  for (const player of participants) {
+    if (given(player.id).reduce((sum, t) => sum + t.cards, 0) > player.getOutOfJailFreeCards) {
+      return `${player.name} does not have that many Get Out of Jail Free cards`;
+    }
+  }
+  return null;
+}
 
 export function TradeBuilder({
   isOpen,
@@ -36,6 +105,7 @@ export function TradeBuilder({
   otherPlayers,
   properties,
   onSendOffer,
+  onSendMultiOffer,
   onClose,
   prefilledRecipientId,
   prefilledOffer,
@@ -54,9 +124,31 @@ export function TradeBuilder({
   const [requestedCash, setRequestedCash] = useState(prefilledOffer?.requestedCash ?? 0);
   const [offeredCards, setOfferedCards] = useState(prefilledOffer?.offeredCards ?? 0);
   const [requestedCards, setRequestedCards] = useState(prefilledOffer?.requestedCards ?? 0);
+  const [clauses, setClauses] = useState<TradeClause[]>(prefilledOffer?.clauses ?? []);
+
+  // Multi-party deal state
+  const [multiIds, setMultiIds] = useState<string[]>([]);
+  const [destinations, setDestinations] = useState<Record<number, string>>({});
+  const [multiCash, setMultiCash] = useState<Record<string, number>>({});
+  const [multiCards, setMultiCards] = useState<Record<string, number>>({});
 
   const recipient = otherPlayers.find((p) => p.id === recipientId);
 
+  const participants = useMemo(
+    () => [currentPlayer, ...otherPlayers.filter((p) => multiIds.includes(p.id))],
+    [currentPlayer, otherPlayers, multiIds],
+  );
+
+  const transfers = useMemo(
+    () => buildTransfers(participants, properties, destinations, multiCash, multiCards),
+    [participants, properties, destinations, multiCash, multiCards],
+  );
+
+  const multiError = useMemo(
+    () => multiTradeError(currentPlayer, participants, transfers),
+    [currentPlayer, participants, transfers],
+  );
+
   const myProperties = useMemo(
     () => properties.filter((p) => p.ownerId === currentPlayer.id),
     [properties, currentPlayer.id],
@@ -67,6 +159,24 @@ export function TradeBuilder({
     [properties, recipientId],
   );
 
+  // A clause favors whichever player won't own its property once the trade goes through
+  const beneficiaryOf = useCallback(
+    (propertyId: number) => {
+      const ownerAfter = offeredProperties.includes(propertyId)
+        ? recipientId
+        : requestedProperties.includes(propertyId)
+          ? currentPlayer.id
+          : properties.find((p) => p.spaceId === propertyId)?.ownerId;
+      return ownerAfter === currentPlayer.id ? recipientId! : currentPlayer.id;
+    },
+    [offeredProperties, requestedProperties, recipientId, currentPlayer.id, properties],
+  );
+
+  const tradedClauses = useMemo(
+    () => clauses.map((c) => ({ ...c, beneficiaryId: beneficiaryOf(c.propertyId) })),
+    [clauses, beneficiaryOf],
+  );
+
   const validationError = useMemo(() => {
     if (!recipientId) return 'Select a player to trade with';
     if (
@@ -75,7 +185,8 @@ export function TradeBuilder({
       offeredCash === 0 &&
       requestedCash === 0 &&
       offeredCards === 0 &&
-      requestedCards === 0
+      requestedCards === 0 &&
+      clauses.length === 0
     ) {
       return 'Add items to the trade';
     }
@@ -116,6 +227,7 @@ export function TradeBuilder({
     requestedCash,
     offeredCards,
     requestedCards,
+    clauses.length,
     currentPlayer,
     properties,
   ]);
@@ -125,6 +237,17 @@ export function TradeBuilder({
     setStep('buildOffer');
   }, []);
 
+  const toggleMultiPlayer = useCallback((playerId: string) => {
+    setMultiIds((prev) =>
+      prev.includes(playerId) ? prev.filter((id) => id !== playerId) : [...prev, playerId],
+    );
+  }, []);
+
+  const handleSendMultiOffer = useCallback(() => {
+    if (!onSendMultiOffer || multiError) return;
+    onSendMultiOffer(transfers);
+  }, [onSendMultiOffer, multiError, transfers]);
+
   const toggleProperty = useCallback((propId: number, side: 'offer' | 'request') => {
     if (side === 'offer') {
       setOfferedProperties((prev) =>
@@ -146,6 +269,7 @@ export function TradeBuilder({
       requestedProperties,
       requestedCash,
       requestedCards,
+      ...(tradedClauses.length > 0 && { clauses: tradedClauses }),
     });
   }, [
     recipientId,
@@ -157,6 +281,7 @@ export function TradeBuilder({
     requestedProperties,
     requestedCash,
     requestedCards,
+    tradedClauses,
   ]);
 
   const handleClose = useCallback(() => {
@@ -168,6 +293,11 @@ export function TradeBuilder({
     setRequestedCash(0);
     setOfferedCards(0);
     setRequestedCards(0);
+    setClauses([]);
+    setMultiIds([]);
+    setDestinations({});
+    setMultiCash({});
+    setMultiCards({});
     onClose();
   }, [onClose]);
 
@@ -175,7 +305,69 @@ export function TradeBuilder({
     <Modal isOpen={isOpen} onClose={handleClose} title="Trade">
       <div className={styles.container} data-testid="trade-builder">
         {step === 'selectPlayer' && (
-          <PlayerSelection players={otherPlayers} onSelect={handleSelectPlayer} />
+          <PlayerSelection
+            players={otherPlayers}
+            onSelect={handleSelectPlayer}
+            multiIds={onSendMultiOffer ? multiIds : undefined}
+            onToggleMulti={toggleMultiPlayer}
+            onStartMulti={() => setStep('buildMulti')}
+          />
+        )}
+
+        {step === 'buildMulti' && (
+          <>
+            <div className={styles.tradeHeader}>
+              Trading with{' '}
+              <strong>
+                {participants
+                  .slice(1)
+                  .map((p) => p.name)
+                  .join(', ')}
+              </strong>
+              <Button variant="ghost" size="sm" onClick={() => setStep('selectPlayer')}>
+                Change
+              </Button>
+            </div>
+
+            <div className={styles.multiColumns} data-testid="multi-trade-columns">
+              {participants.map((player) => (
+                <MultiTradeColumn
+                  key={player.id}
+                  player={player}
+                  isYou={player.id === currentPlayer.id}
+                  others={participants.filter((p) => p.id !== player.id)}
+                  properties={properties}
+                  destinations={destinations}
+                  cash={multiCash}
+                  cards={multiCards}
+                  onDestination={(spaceId, toId) =>
+                    setDestinations((prev) => ({ ...prev, [spaceId]: toId }))
+                  }
+                  onCash={(toId, amount) =>
+                    setMultiCash((prev) => ({ ...prev, [pairKey(player.id, toId)]: amount }))
+                  }
+                  onCards={(toId, count) =>
+                    setMultiCards((prev) => ({ ...prev, [pairKey(player.id, toId)]: count }))
+                  }
+                />
+              ))}
+            </div>
+
+            {multiError && (
+              <div className={styles.validationError} data-testid="trade-validation-error">
+                {multiError}
+              </div>
+            )}
+
+            <Button
+              variant="primary"
+              onClick={handleSendMultiOffer}
+              disabled={!!multiError}
+              data-testid="send-offer-button"
+            >
+              Send Offer
+            </Button>
+          </>
         )}
 
         {step === 'buildOffer' && recipient && (
@@ -188,6 +380,7 @@ export function TradeBuilder({
                 onClick={() => {
                   setStep('selectPlayer');
                   setRecipientId(null);
+                  setClauses([]);
                 }}
               >
                 Change
@@ -250,6 +443,15 @@ export function TradeBuilder({
               </div>
             </div>
 
+            <RentClauseSection
+              candidates={[...myProperties, ...theirProperties]}
+              clauses={tradedClauses}
+              nameOf={(id) => (id === currentPlayer.id ? currentPlayer.name : recipient.name)}
+              beneficiaryOf={beneficiaryOf}
+              onAdd={(clause) => setClauses((prev) => [...prev, clause])}
+              onRemove={(index) => setClauses((prev) => prev.filter((_, i) => i !== index))}
+            />
+
             {validationError && (
               <div className={styles.validationError} data-testid="trade-validation-error">
                 {validationError}
@@ -274,11 +476,19 @@ export function TradeBuilder({
 function PlayerSelection({
   players,
   onSelect,
+  multiIds,
+  onToggleMulti,
+  onStartMulti,
 }: {
   players: Player[];
   onSelect: (id: string) => void;
+  // Set when several players can be picked for one deal
+  multiIds?: string[];
+  onToggleMulti: (id: string) => void;
+  onStartMulti: () => void;
 }) {
   const activePlayers = players.filter((p) => p.isActive && !p.isBankrupt);
+  const canTradeWithSeveral = multiIds !== undefined && activePlayers.length >= 2;
 
   return (
     <div className={styles.playerSelection} data-testid="player-selection">
@@ -295,6 +505,123 @@ function PlayerSelection({
           <span className={styles.playerPropCount}>{player.properties.length} props</span>
         </button>
       ))}
+
+      {canTradeWithSeveral && (
+        <div className={styles.multiSelection} data-testid="multi-player-selection">
+          <div className={styles.selectionTitle}>Or make one deal with several players</div>
+          {activePlayers.map((player) => (
+            <label key={player.id} className={styles.cardLabel}>
+              <input
+                type="checkbox"
+                checked={multiIds.includes(player.id)}
+                onChange={() => onToggleMulti(player.id)}
+                data-testid={`multi-player-${player.id}`}
+              />
+              {player.name}
+            </label>
+          ))}
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={onStartMulti}
+            disabled={multiIds.length < 2}
+            data-testid="start-multi-trade"
+          >
+            Continue
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// What one player hands over in a multi-party deal: each property can go to any
+// other participant, and cash and cards are set per receiving player
+function MultiTradeColumn({
+  player,
+  isYou,
+  others,
+  properties,
+  destinations,
+  cash,
+  cards,
+  onDestination,
+  onCash,
+  onCards,
+}: {
+  player: Player;
+  isYou: boolean;
+  others: Player[];
+  properties: Property[];
+  destinations: Record<number, string>;
+  cash: Record<string, number>;
+  cards: Record<string, number>;
+  onDestination: (spaceId: number, toId: string) => void;
+  onCash: (toId: string, amount: number) => void;
+  onCards: (toId: string, count: number) => void;
+}) {
+  const owned = properties.filter((p) => p.ownerId === player.id);
+
+  return (
+    <div className={styles.tradeColumn} data-testid={`multi-column-${player.id}`}>
+      <div className={styles.columnTitle}>{isYou ? 'You Give' : `${player.name} Gives`}</div>
+      {owned.length === 0 ? (
+        <div className={styles.noProps}>No properties</div>
+      ) : (
+        owned.map((prop) => {
+          const hasBuildings =
+            prop.colorGroup &&
+            properties
+              .filter((p) => p.colorGroup === prop.colorGroup && p.ownerId === player.id)
+              .some((p) => p.houses > 0);
+          return (
+            <label key={prop.spaceId} className={styles.destinationRow}>
+              <span className={styles.destinationName}>
+                {prop.colorGroup && (
+                  <span
+                    className={styles.chipDot}
+                    style={{ backgroundColor: COLOR_GROUP_CSS[prop.colorGroup] }}
+                  />
+                )}
+                {prop.name}
+                {prop.mortgaged && ' (M)'}
+              </span>
+              <select
+                value={destinations[prop.spaceId] ?? ''}
+                onChange={(e) => onDestination(prop.spaceId, e.target.value)}
+                disabled={!!hasBuildings}
+                data-testid={`multi-dest-${prop.spaceId}`}
+              >
+                <option value="">Keeps</option>
+                {others.map((other) => (
+                  <option key={other.id} value={other.id}>
+                    To {other.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          );
+        })
+      )}
+      {others.map((other) => (
+        <div key={other.id} className={styles.multiPayment}>
+          <span className={styles.cashLabel}>To {other.name}</span>
+          <TradeCashInput
+            value={cash[pairKey(player.id, other.id)] ?? 0}
+            max={player.cash}
+            onChange={(amount) => onCash(other.id, amount)}
+            testId={`multi-cash-${player.id}-${other.id}`}
+          />
+          {player.getOutOfJailFreeCards > 0 && (
+            <TradeCardToggle
+              count={cards[pairKey(player.id, other.id)] ?? 0}
+              maxCards={player.getOutOfJailFreeCards}
+              onChange={(count) => onCards(other.id, count)}
+              testId={`multi-cards-${player.id}-${other.id}`}
+            />
+          )}
+        </div>
+      ))}
     </div>
   );
 }
@@ -356,6 +683,145 @@ function TradePropertyPicker({
   );
 }
 
+// Rent-free landings or a cut of future rent, attached to a two-player trade
+function RentClauseSection({
+  candidates,
+  clauses,
+  nameOf,
+  beneficiaryOf,
+  onAdd,
+  onRemove,
+}: {
+  candidates: Property[];
+  clauses: TradeClause[];
+  nameOf: (playerId: string) => string;
+  beneficiaryOf: (propertyId: number) => string;
+  onAdd: (clause: TradeClause) => void;
+  onRemove: (index: number) => void;
+}) {
+  const [type, setType] = useState<TradeClause['type']>('rentImmunity');
+  const [propertyId, setPropertyId] = useState<number | null>(null);
+  const [landings, setLandings] = useState(1);
+  const [percent, setPercent] = useState(25);
+  const [turns, setTurns] = useState(5);
+
+  if (candidates.length === 0) return null;
+  const chosenId = propertyId ?? candidates[0].spaceId;
+  const propertyName = (id: number) =>
+    candidates.find((p) => p.spaceId === id)?.name ?? `Property ${id}`;
+
+  const handleAdd = () => {
+    const beneficiaryId = beneficiaryOf(chosenId);
+    onAdd(
+      type === 'rentImmunity'
+        ? { type, propertyId: chosenId, beneficiaryId, landings }
+        : { type, propertyId: chosenId, beneficiaryId, percent, turns },
+    );
+  };
+
+  return (
+    <div className={styles.clauseSection} data-testid="rent-clauses">
+      <div className={styles.columnTitle}>Rent Deals</div>
+      {clauses.map((clause, index) => (
+        <div key={index} className={styles.clause} data-testid={`clause-${index}`}>
+          <span>
+            {describeClause(clause, propertyName(clause.propertyId), nameOf(clause.beneficiaryId))}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onRemove(index)}
+            data-testid={`remove-clause-${index}`}
+          >
+            Remove
+          </Button>
+        </div>
+      ))}
+      <div className={styles.clauseForm}>
+        <select
+          value={type}
+          onChange={(e) => setType(e.target.value as TradeClause['type'])}
+          aria-label="Kind of rent deal"
+          data-testid="clause-type"
+        >
+          <option value="rentImmunity">Rent-free landings</option>
+          <option value="rentShare">Share of rent</option>
+        </select>
+        <select
+          value={chosenId}
+          onChange={(e) => setPropertyId(Number(e.target.value))}
+          aria-label="Property"
+          data-testid="clause-property"
+        >
+          {candidates.map((prop) => (
+            <option key={prop.spaceId} value={prop.spaceId}>
+              {prop.name}
+            </option>
+          ))}
+        </select>
+        {type === 'rentImmunity' ? (
+          <ClauseNumberInput
+            label="Landings"
+            value={landings}
+            limits={CLAUSE_LIMITS.landings}
+            onChange={setLandings}
+            testId="clause-landings"
+          />
+        ) : (
+          <>
+            <ClauseNumberInput
+              label="%"
+              value={percent}
+              limits={CLAUSE_LIMITS.percent}
+              onChange={setPercent}
+              testId="clause-percent"
+            />
+            <ClauseNumberInput
+              label="Turns"
+              value={turns}
+              limits={CLAUSE_LIMITS.turns}
+              onChange={setTurns}
+              testId="clause-turns"
+            />
+          </>
+        )}
+        <Button variant="secondary" size="sm" onClick={handleAdd} data-testid="add-clause">
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function ClauseNumberInput({
+  label,
+  value,
+  limits: [min, max],
+  onChange,
+  testId,
+}: {
+  label: string;
+  value: number;
+  limits: readonly [number, number];
+  onChange: (v: number) => void;
+  testId: string;
+}) {
+  return (
+    <label className={styles.clauseNumber}>
+      {label}
+      <input
+        type="number"
+        className={styles.cashInput}
+        value={value}
+        onChange={(e) => onChange(Math.min(max, Math.max(min, Math.round(Number(e.target.value)))))}
+        min={min}
+        max={max}
+        data-testid={testId}
+      />
+    </label>
+  );
+}
+
 function TradeCashInput({
   value,
   max,
@@ -0,0 +1,132 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { getTradeTransfers, isMultiPartyTrade } from '@monopoly/shared';
+import type {
+  Player,
+  Property,
+  TradeOffer,
+  TradeStatus,
+  TradeThread,
+  TradeTransfer,
+} from '@monopoly/shared';
+import { formatTime } from '../gameplay/ActivityFeed';
+import { formatTradeItems } from './tradeText';
+import styles from './TradeHistory.module.css';
+
+export interface TradeHistoryProps {
+  // Every negotiation to show, as returned by getTradeThreads
+  threads: TradeThread[];
+  players: Player[];
+  properties: Property[];
+}
+
+type HistoryFilter = 'all' | 'accepted' | 'rejected' | 'countered';
+
+const FILTERS: { value: HistoryFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'accepted', label: 'Completed' },
+  { value: 'rejected', label: 'Rejected' },
+  { value: 'countered', label: 'Countered' },
+];
+
+const STATUS_LABELS: Record<TradeStatus, string> = {
+  pending: 'Pending',
+  accepted: 'Completed',
+  rejected: 'Rejected',
+  countered: 'Countered',
+  invalidated: 'Called off',
+  expired: 'Expired',
+};
+
+function playerName(players: Player[], id: string): string {
+  return players.find((p) => p.id === id)?.name ?? 'Unknown';
+}
+
+// What one offer put on the table, from its proposer's side
+function describeOffer(offer: TradeOffer, players: Player[], properties: Property[]): string {
+  const itemsOf = (t: TradeTransfer) =>
+    formatTradeItems(
+      t.properties.map((id) => properties.find((p) => p.spaceId === id)?.name ?? `Property ${id}`),
+      t.cash,
+      t.cards,
+    );
+  const proposer = playerName(players, offer.proposerId);
+  const transfers = getTradeTransfers(offer);
+
+  if (isMultiPartyTrade(offer)) {
+    const handOvers = transfers.map(
+      (t) => `${playerName(players, t.fromId)} gives ${playerName(players, t.toId)} ${itemsOf(t)}`,
+    );
+    return `${proposer} proposed: ${handOvers.join('; ')}`;
+  }
+  const [gives, asks] = transfers.map(itemsOf);
+  const clauseCount = offer.clauses?.length ?? 0;
+  const deals =
+    clauseCount > 0 ? ` with ${clauseCount} rent deal${clauseCount === 1 ? '' : 's'}` : '';
+  return `${proposer} offered ${gives || 'nothing'} for ${asks || 'nothing'}${deals}`;
+}
+
+// Past and open negotiations, grouped by the players who took part
+export function TradeHistory({ threads, players, properties }: TradeHistoryProps) {
+  const [filter, setFilter] = useState<HistoryFilter>('all');
+
+  const groups = useMemo(() => {
+    const byPair = new Map<string, TradeThread[]>();
+    for (const thread of threads) {
+      if (filter !== 'all' && !thread.offers.some((o) => o.status === filter)) continue;
+      const key = [...thread.participantIds].sort().join('-');
+      byPair.set(key, [...(byPair.get(key) ?? []), thread]);
+    }
+    return [...byPair.entries()];
+  }, [threads, filter]);
+
+  if (threads.length === 0) return null;
+
+  return (
+    <div className={styles.container} data-testid="trade-history">
+      <div className={styles.header}>
+        <span>Trade History</span>
+        <div className={styles.filters}>
+          {FILTERS.map(({ value, label }) => (
+            <button
+              key={value}
+              className={`${styles.filterButton} ${filter === value ? styles.filterActive : ''}`}
+              onClick={() => setFilter(value)}
+              data-testid={`trade-history-filter-${value}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {groups.length === 0 && <div className={styles.empty}>No trades to show</div>}
+      {groups.map(([key, pairThreads]) => (
+        <div key={key} className={styles.pair} data-testid={`trade-pair-${key}`}>
+          <div className={styles.pairTitle}>
+            {pairThreads[0].participantIds.map((id) => playerName(players, id)).join(' & ')}
+          </div>
+          {pairThreads.map((thread) => (
+            <ol key={thread.id} className={styles.thread} data-testid={`trade-thread-${thread.id}`}>
+              {thread.offers.map((offer) => (
+                <li key={offer.id} className={styles.offer} data-testid={`trade-offer-${offer.id}`}>
+                  <span className={`${styles.status} ${styles[offer.status]}`}>
+                    {STATUS_LABELS[offer.status]}
+                  </span>
+                  <span className={styles.offerText}>
+                    {describeOffer(offer, players, properties)}
+                    {offer.reason && ` (${offer.reason})`}
+                  </span>
+                  {offer.createdAt !== undefined && (
+                    <span className={styles.time}>{formatTime(offer.createdAt)}</span>
+                  )}
+                </li>
+              ))}
+            </ol>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
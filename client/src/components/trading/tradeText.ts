@@ -0,0 +1,27 @@
+import type { TradeClause } from '@monopoly/shared';
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+// "Baltic Avenue, $50 and a Get Out of Jail Free card", or '' when nothing is handed over
+export function formatTradeItems(propertyNames: string[], cash: number, cards: number): string {
+  const items = [...propertyNames];
+  if (cash > 0) items.push(`$${cash.toLocaleString()}`);
+  if (cards === 1) items.push('a Get Out of Jail Free card');
+  if (cards > 1) items.push(`${cards} Get Out of Jail Free cards`);
+  if (items.length <= 1) return items.join('');
+  return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
+
+// One line of plain text for a rent clause attached to a trade
+export function describeClause(
+  clause: TradeClause,
+  propertyName: string,
+  beneficiaryName: string,
+): string {
+  if (clause.type === 'rentImmunity') {
+    return `${beneficiaryName} pays no rent on ${propertyName} for the next ${plural(clause.landings, 'landing')}`;
+  }
+  return `${beneficiaryName} gets ${clause.percent}% of ${propertyName} rent for ${plural(clause.turns, 'turn')}`;
+}
@@ -3,16 +3,20 @@
 import { useEffect, useRef, useCallback, useState } from 'react';
 import { io, Socket } from 'socket.io-client';
 import type {
+  BoardDefinition,
+  BoardSummary,
+  BotStrategyName,
   ClientToServerEvents,
   ServerToClientEvents,
   GameAction,
   GameState,
+  HouseRules,
   RoomMetadata,
 } from '@monopoly/shared';
 
 type GameSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
 
-const SERVER_URL = process.env.NEXT_PUBLIC_SERVER_URL || 'http://localhost:3001';
+export const SERVER_URL = process.env.NEXT_PUBLIC_SERVER_URL || 'http://localhost:3001';
 
 // Parse the server URL so socket.io connects to the correct origin + path.
 // When SERVER_URL has a pathname (e.g. https://example.com/api), socket.io-client
@@ -54,6 +58,17 @@ export interface UseGameSocketReturn {
   ) => Promise<{ ok: boolean; error?: string }>;
   startGame: (roomCode: string) => Promise<{ ok: boolean; error?: string }>;
   leaveRoom: (roomCode: string) => Promise<{ ok: boolean; error?: string }>;
+  addBot: (roomCode: string, strategy: BotStrategyName) => Promise<{ ok: boolean; error?: string }>;
+  removeBot: (roomCode: string, botId: string) => Promise<{ ok: boolean; error?: string }>;
+  updateHouseRules: (
+    roomCode: string,
+    rules: Partial<HouseRules>,
+  ) => Promise<{ ok: boolean; error?: string }>;
+  listBoards: () => Promise<{ ok: boolean; boards?: BoardSummary[]; error?: string }>;
+  selectBoard: (
+    roomCode: string,
+    choice: { boardId?: string; board?: BoardDefinition },
+  ) => Promise<{ ok: boolean; error?: string }>;
 
   // Game actions
   emitAction: (roomCode: string, action: GameAction) => Promise<{ ok: boolean; error?: string }>;
@@ -188,6 +203,70 @@ export function useGameSocket(): UseGameSocketReturn {
     });
   }, []);
 
+  const addBot = useCallback(
+    async (code: string, strategy: BotStrategyName): Promise<{ ok: boolean; error?: string }> => {
+      const socket = socketRef.current;
+      if (!socket?.connected) return { ok: false, error: 'Not connected' };
+
+      return new Promise((resolve) => {
+        socket.emit('addBot', { roomCode: code, strategy }, resolve);
+      });
+    },
+    [],
+  );
+
+  const removeBot = useCallback(
+    async (code: string, botId: string): Promise<{ ok: boolean; error?: string }> => {
+      const socket = socketRef.current;
+      if (!socket?.connected) return { ok: false, error: 'Not connected' };
+
+      return new Promise((resolve) => {
+        socket.emit('removeBot', { roomCode: code, botId }, resolve);
+      });
+    },
+    [],
+  );
+
+  const updateHouseRules = useCallback(
+    async (code: string, rules: Partial<HouseRules>): Promise<{ ok: boolean; error?: string }> => {
+      const socket = socketRef.current;
+      if (!socket?.connected) return { ok: false, error: 'Not connected' };
+
+      return new Promise((resolve) => {
+        socket.emit('updateHouseRules', { roomCode: code, rules }, resolve);
+      });
+    },
+    [],
+  );
+
+  const listBoards = useCallback(async (): Promise<{
+    ok: boolean;
+    boards?: BoardSummary[];
+    error?: string;
+  }> => {
+    const socket = socketRef.current;
+    if (!socket?.connected) return { ok: false, error: 'Not connected' };
+
+    return new Promise((resolve) => {
+      socket.emit('listBoards', resolve);
+    });
+  }, []);
+
+  const selectBoard = useCallback(
+    async (
+      code: string,
+      choice: { boardId?: string; board?: BoardDefinition },
+    ): Promise<{ ok: boolean; error?: string }> => {
+      const socket = socketRef.current;
+      if (!socket?.connected) return { ok: false, error: 'Not connected' };
+
+      return new Promise((resolve) => {
+        socket.emit('selectBoard', { roomCode: code, ...choice }, resolve);
+      });
+    },
+    [],
+  );
+
   const emitAction = useCallback(
     async (code: string, action: GameAction): Promise<{ ok: boolean; error?: string }> => {
       const socket = socketRef.current;
@@ -243,6 +322,11 @@ export function useGameSocket(): UseGameSocketReturn {
     selectToken,
     startGame,
     leaveRoom,
+    addBot,
+    removeBot,
+    updateHouseRules,
+    listBoards,
+    selectBoard,
     emitAction,
     reconnect: reconnectFn,
     sendChatMessage,
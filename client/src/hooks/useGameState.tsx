@@ -14,8 +14,10 @@ import type {
   RoomMetadata,
   RoomPlayer,
   GameAction,
+  AuctionUpdate,
   ChatMessage,
   GameStanding,
+  TradeOffer,
 } from '@monopoly/shared';
 import { useGameSocket, type UseGameSocketReturn } from './useGameSocket';
 
@@ -37,6 +39,12 @@ export interface GameContextState {
   // Turn timer
   turnTimer: { secondsRemaining: number; phase: string } | null;
 
+  // Running auction and its countdown
+  auctionUpdate: AuctionUpdate | null;
+
+  // The last of this player's trades to be called off, until it is dismissed
+  cancelledTrade: TradeOffer | null;
+
   // Chat
   chatMessages: ChatMessage[];
 
@@ -55,6 +63,8 @@ const initialState: GameContextState = {
   gameState: null,
   events: [],
   turnTimer: null,
+  auctionUpdate: null,
+  cancelledTrade: null,
   chatMessages: [],
   gameOverData: null,
   lastError: null,
@@ -73,6 +83,9 @@ type GameContextAction =
   | { type: 'STATE_UPDATE'; state: GameState }
   | { type: 'GAME_EVENT'; event: GameEvent }
   | { type: 'TURN_TIMER_UPDATE'; data: { secondsRemaining: number; phase: string } }
+  | { type: 'AUCTION_UPDATE'; data: AuctionUpdate }
+  | { type: 'TRADE_CANCELLED'; trade: TradeOffer }
+  | { type: 'CLEAR_CANCELLED_TRADE' }
   | { type: 'PLAYER_DISCONNECTED'; playerId: string }
   | { type: 'PLAYER_RECONNECTED'; playerId: string }
   | { type: 'CHAT_MESSAGE'; message: ChatMessage }
@@ -137,7 +150,12 @@ function gameReducer(state: GameContextState, action: GameContextAction): GameCo
       return { ...state, gameState: action.state };
 
     case 'STATE_UPDATE':
-      return { ...state, gameState: action.state };
+      // The countdown for a finished auction stops arriving, so drop the last one
+      return {
+        ...state,
+        gameState: action.state,
+        auctionUpdate: action.state.auction ? state.auctionUpdate : null,
+      };
 
     case 'GAME_EVENT':
       return { ...state, events: [...state.events, action.event] };
@@ -145,6 +163,15 @@ function gameReducer(state: GameContextState, action: GameContextAction): GameCo
     case 'TURN_TIMER_UPDATE':
       return { ...state, turnTimer: action.data };
 
+    case 'AUCTION_UPDATE':
+      return { ...state, auctionUpdate: action.data };
+
+    case 'TRADE_CANCELLED':
+      return { ...state, cancelledTrade: action.trade };
+
+    case 'CLEAR_CANCELLED_TRADE':
+      return { ...state, cancelledTrade: null };
+
     case 'PLAYER_DISCONNECTED': {
       if (!state.room) return state;
       return {
@@ -232,6 +259,8 @@ export function GameStateProvider({ children }: { children: ReactNode }) {
       gameEvent: (event: GameEvent) => dispatch({ type: 'GAME_EVENT', event }),
       turnTimerUpdate: (data: { secondsRemaining: number; phase: string }) =>
         dispatch({ type: 'TURN_TIMER_UPDATE', data }),
+      auctionUpdate: (data: AuctionUpdate) => dispatch({ type: 'AUCTION_UPDATE', data }),
+      tradeCancelled: (trade: TradeOffer) => dispatch({ type: 'TRADE_CANCELLED', trade }),
       playerDisconnected: (data: { playerId: string }) =>
         dispatch({ type: 'PLAYER_DISCONNECTED', playerId: data.playerId }),
       playerReconnected: (data: { playerId: string }) =>
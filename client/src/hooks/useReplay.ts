@@ -0,0 +1,124 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { buildReplayTimeline } from '@monopoly/shared';
+import type { GameReplay, GameState } from '@monopoly/shared';
+import { SERVER_URL } from './useGameSocket';
+
+/** Milliseconds between steps at 1x playback speed. */
+const BASE_STEP_MS = 800;
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+
+export type ReplayStatus = 'loading' | 'ready' | 'error';
+
+export type ReplayFetcher = (gameId: string) => Promise<GameReplay>;
+
+export async function fetchReplay(gameId: string): Promise<GameReplay> {
+  const res = await fetch(`${SERVER_URL}/replay/${encodeURIComponent(gameId)}`);
+  if (!res.ok) {
+    throw new Error(res.status === 404 ? 'Replay not found' : 'Failed to load replay');
+  }
+  return (await res.json()) as GameReplay;
+}
+
+export interface UseReplayReturn {
+  status: ReplayStatus;
+  error: string | null;
+  /** Index into the action stream; 0 is the initial state. */
+  step: number;
+  totalSteps: number;
+  /** Reconstructed state after `step` actions. */
+  state: GameState | null;
+  isPlaying: boolean;
+  speed: number;
+  play: () => void;
+  pause: () => void;
+  stepForward: () => void;
+  stepBack: () => void;
+  seek: (step: number) => void;
+  setSpeed: (speed: number) => void;
+}
+
+export function useReplay(gameId: string, fetcher: ReplayFetcher = fetchReplay): UseReplayReturn {
+  const [status, setStatus] = useState<ReplayStatus>('loading');
+  const [error, setError] = useState<string | null>(null);
+  // Every intermediate state is precomputed so scrubbing is instant
+  const [timeline, setTimeline] = useState<GameState[]>([]);
+  const [step, setStep] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  useEffect(() => {
+    let cancelled = false;
+    setStatus('loading');
+    fetcher(gameId)
+      .then((replay) => {
+        if (cancelled) return;
+        setTimeline(buildReplayTimeline(replay));
+        setStep(0);
+        setStatus('ready');
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : 'Failed to load replay');
+        setStatus('error');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [gameId, fetcher]);
+
+  const totalSteps = Math.max(0, timeline.length - 1);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (step >= totalSteps) {
+      setIsPlaying(false);
+      return;
+    }
+    const id = setTimeout(() => setStep((s) => Math.min(s + 1, totalSteps)), BASE_STEP_MS / speed);
+    return () => clearTimeout(id);
+  }, [isPlaying, step, totalSteps, speed]);
+
+  const seek = useCallback(
+    (target: number) => {
+      setStep(Math.max(0, Math.min(target, totalSteps)));
+    },
+    [totalSteps],
+  );
+
+  const play = useCallback(() => {
+    // Restart from the beginning when play is pressed at the end
+    setStep((s) => (s >= totalSteps ? 0 : s));
+    setIsPlaying(true);
+  }, [totalSteps]);
+
+  const pause = useCallback(() => setIsPlaying(false), []);
+
+  const stepForward = useCallback(() => {
+    setIsPlaying(false);
+    setStep((s) => Math.min(s + 1, totalSteps));
+  }, [totalSteps]);
+
+  const stepBack = useCallback(() => {
+    setIsPlaying(false);
+    setStep((s) => Math.max(s - 1, 0));
+  }, []);
+
+  return {
+    status,
+    error,
+    step,
+    totalSteps,
+    state: timeline[step] ?? null,
+    isPlaying,
+    speed,
+    play,
+    pause,
+    stepForward,
+    stepBack,
+    seek,
+    setSpeed,
+  };
+}
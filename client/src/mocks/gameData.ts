@@ -1,5 +1,5 @@
 import type { Player, Property, GameState, Space, GameSettings } from '@monopoly/shared';
-import { TokenType, TurnState, SpaceType } from '@monopoly/shared';
+import { DEFAULT_GAME_SETTINGS, TokenType, TurnState, SpaceType } from '@monopoly/shared';
 
 export const mockPlayers: Player[] = [
   {
@@ -503,13 +503,7 @@ export const mockBoard: Space[] = [
   },
 ];
 
-export const mockSettings: GameSettings = {
-  maxPlayers: 6,
-  startingCash: 1500,
-  turnTimeLimit: 60,
-  freeParking: 'classic',
-  auctionEnabled: true,
-};
+export const mockSettings: GameSettings = { ...DEFAULT_GAME_SETTINGS };
 
 export const mockGameState: GameState = {
   gameId: 'game-001',
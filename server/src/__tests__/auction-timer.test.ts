@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { AuctionState } from '@monopoly/shared';
+import {
+  startAuctionCountdown,
+  stopAuctionCountdown,
+  hasAuctionCountdown,
+  clearAllAuctionCountdowns,
+} from '../game/auction-timer';
+import type { AppIO } from '../index';
+
+// Mock IO
+function createMockIO() {
+  const emitFn = vi.fn();
+  const io: Partial<AppIO> = {
+    to: vi.fn(() => ({ emit: emitFn })) as unknown as AppIO['to'],
+    emit: emitFn,
+  };
+  return Object.assign(io as unknown as AppIO, { _emitFn: emitFn });
+}
+
+function auctionEnding(deadline: number | null): AuctionState {
+  return {
+    propertyId: 3,
+    highBid: 20,
+    highBidderId: 'p1',
+    eligiblePlayers: ['p1', 'p2'],
+    passedPlayers: [],
+    currentBidderIndex: 0,
+    deadline,
+  };
+}
+
+describe('Auction Countdown', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    clearAllAuctionCountdowns();
+  });
+
+  afterEach(() => {
+    clearAllAuctionCountdowns();
+    vi.useRealTimers();
+  });
+
+  it('should broadcast the auction and the seconds left every second', () => {
+    const io = createMockIO();
+    const auction = auctionEnding(Date.now() + 15_000);
+    startAuctionCountdown('ROOM1', auction, io, vi.fn());
+
+    expect(io.to).toHaveBeenCalledWith('ROOM1');
+    expect(io._emitFn).toHaveBeenCalledWith('auctionUpdate', { auction, secondsRemaining: 15 });
+
+    vi.advanceTimersByTime(3000);
+    expect(io._emitFn).toHaveBeenLastCalledWith('auctionUpdate', {
+      auction,
+      secondsRemaining: 12,
+    });
+  });
+
+  it('should fire once the deadline passes', () => {
+    const onExpire = vi.fn();
+    startAuctionCountdown('ROOM1', auctionEnding(Date.now() + 10_000), createMockIO(), onExpire);
+
+    vi.advanceTimersByTime(9999);
+    expect(onExpire).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(onExpire).toHaveBeenCalledTimes(1);
+    expect(hasAuctionCountdown('ROOM1')).toBe(false);
+  });
+
+  it('should restart from the new deadline after a bid', () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    const io = createMockIO();
+    startAuctionCountdown('ROOM1', auctionEnding(Date.now() + 10_000), io, first);
+    vi.advanceTimersByTime(8000);
+    startAuctionCountdown('ROOM1', auctionEnding(Date.now() + 10_000), io, second);
+
+    vi.advanceTimersByTime(5000);
+    expect(first).not.toHaveBeenCalled();
+    expect(second).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(5000);
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+
+  it('should broadcast an untimed auction once without counting down', () => {
+    const io = createMockIO();
+    const onExpire = vi.fn();
+    startAuctionCountdown('ROOM1', auctionEnding(null), io, onExpire);
+
+    expect(io._emitFn).toHaveBeenCalledWith('auctionUpdate', {
+      auction: auctionEnding(null),
+      secondsRemaining: null,
+    });
+    expect(hasAuctionCountdown('ROOM1')).toBe(false);
+    vi.advanceTimersByTime(60_000);
+    expect(io._emitFn).toHaveBeenCalledTimes(1);
+    expect(onExpire).not.toHaveBeenCalled();
+  });
+
+  it('should not fire after being stopped', () => {
+    const onExpire = vi.fn();
+    startAuctionCountdown('ROOM1', auctionEnding(Date.now() + 1000), createMockIO(), onExpire);
+    stopAuctionCountdown('ROOM1');
+    vi.advanceTimersByTime(2000);
+    expect(onExpire).not.toHaveBeenCalled();
+  });
+});
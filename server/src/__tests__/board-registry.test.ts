@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CLASSIC_BOARD } from '@monopoly/shared';
+import {
+  getBoard,
+  listBoards,
+  loadBoardsFromDirectory,
+  registerBoard,
+  resetBoards,
+} from '../game/board-registry';
+
+const london = { ...CLASSIC_BOARD, id: 'london', name: 'London', currencySymbol: '£' };
+
+describe('Board Registry', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    resetBoards();
+    dir = mkdtempSync(join(tmpdir(), 'boards-'));
+  });
+
+  afterEach(() => {
+    resetBoards();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should offer the classic board by default', () => {
+    expect(listBoards()).toEqual([{ id: 'classic', name: 'Classic', spaceCount: 40 }]);
+    expect(getBoard('classic')).toBe(CLASSIC_BOARD);
+  });
+
+  it('should register valid boards and reject invalid ones', () => {
+    registerBoard(london);
+    expect(getBoard('london')?.currencySymbol).toBe('£');
+    expect(() => registerBoard({ ...london, id: 'bad', spaces: [] })).toThrow(
+      'Board must have a multiple of 4 spaces between 12 and 60',
+    );
+    expect(getBoard('bad')).toBeUndefined();
+  });
+
+  it('should load board files and skip broken ones', () => {
+    writeFileSync(join(dir, 'london.json'), JSON.stringify(london));
+    writeFileSync(join(dir, 'broken.json'), '{ not json');
+    writeFileSync(join(dir, 'notes.txt'), 'ignored');
+
+    const { loaded, errors } = loadBoardsFromDirectory(dir);
+    expect(loaded).toEqual(['london']);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatch(/^broken\.json: /);
+    expect(listBoards().map((b) => b.id)).toEqual(['classic', 'london']);
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { InMemoryRedisClient } from '../redis/client';
+import { initializeGame } from '../game/game-manager';
+import {
+  nextBotDecision,
+  playBotMove,
+  scheduleBotMove,
+  hasPendingBotMove,
+  cancelBotMove,
+  clearAllBotMoves,
+} from '../game/bot-manager';
+import {
+  serializeGameState,
+  deserializeGameState,
+  TurnState,
+  TokenType,
+  type RoomMetadata,
+  type GameState,
+} from '@monopoly/shared';
+
+function createBotRoom(): RoomMetadata {
+  return {
+    roomCode: 'BOTS01',
+    hostId: 'human',
+    players: [
+      {
+        id: 'bot-1',
+        name: 'Builder Bot 1',
+        token: TokenType.RaceCar,
+        isReady: true,
+        isHost: false,
+        isConnected: true,
+        isBot: true,
+        botStrategy: 'aggressive',
+      },
+      {
+        id: 'human',
+        name: 'Alice',
+        token: TokenType.TopHat,
+        isReady: true,
+        isHost: true,
+        isConnected: true,
+      },
+    ],
+    maxPlayers: 6,
+    startingCash: 1500,
+    status: 'playing',
+    gameId: 'BOTS01',
+    createdAt: Date.now(),
+  };
+}
+
+async function startGame(redis: InMemoryRedisClient, room: RoomMetadata): Promise<GameState> {
+  const state = initializeGame(room);
+  await redis.saveRoomMetadata(room.roomCode, room);
+  await redis.saveGameState(state.gameId, serializeGameState(state));
+  return state;
+}
+
+describe('Bot Manager', () => {
+  let redis: InMemoryRedisClient;
+
+  beforeEach(() => {
+    redis = new InMemoryRedisClient();
+    clearAllBotMoves();
+  });
+
+  afterEach(() => {
+    clearAllBotMoves();
+    vi.useRealTimers();
+  });
+
+  describe('nextBotDecision', () => {
+    it('should decide for a bot whose turn it is', () => {
+      const room = createBotRoom();
+      const state = initializeGame(room);
+      expect(nextBotDecision(room, state)).toEqual({
+        playerId: 'bot-1',
+        action: { type: 'RollDice' },
+      });
+    });
+
+    it('should leave human turns alone', () => {
+      const room = createBotRoom();
+      const state = initializeGame(room);
+      state.currentPlayerIndex = 1;
+      expect(nextBotDecision(room, state)).toBeNull();
+    });
+
+    it('should play a human seat handed to the caretaker', () => {
+      const room = createBotRoom();
+      const state = initializeGame(room);
+      state.currentPlayerIndex = 1;
+      state.turnState = TurnState.AwaitingBuyDecision;
+      state.pendingBuyDecision = { spaceId: 39, spaceName: 'Boardwalk', cost: 400 };
+      room.players[1].caretaker = true;
+      expect(nextBotDecision(room, state)).toEqual({
+        playerId: 'human',
+        action: { type: 'BuyProperty', propertyId: 39 },
+        fallbacks: [{ type: 'DeclineProperty', propertyId: 39 }],
+      });
+      // Not without a cash cushion
+      state.players[1].cash = 450;
+      expect(nextBotDecision(room, state)?.action).toEqual({
+        type: 'DeclineProperty',
+        propertyId: 39,
+      });
+    });
+
+    it('should answer trades addressed to a bot on a human turn', () => {
+      const room = createBotRoom();
+      const state = initializeGame(room);
+      state.currentPlayerIndex = 1;
+      state.turnState = TurnState.PlayerAction;
+      state.pendingTrades = [
+        {
+          id: 'trade-1',
+          proposerId: 'human',
+          recipientId: 'bot-1',
+          offeredProperties: [],
+          offeredCash: 0,
+          offeredCards: 0,
+          requestedProperties: [],
+          requestedCash: 500,
+          requestedCards: 0,
+          status: 'pending',
+        },
+      ];
+      expect(nextBotDecision(room, state)?.action).toEqual({
+        type: 'RejectTrade',
+        tradeId: 'trade-1',
+      });
+    });
+  });
+
+  describe('playBotMove', () => {
+    it('should act through processAction and report the result', async () => {
+      const room = createBotRoom();
+      await startGame(redis, room);
+      const onResult = vi.fn(async () => {});
+
+      expect(await playBotMove(redis, room.roomCode, onResult)).toBe(true);
+
+      expect(onResult).toHaveBeenCalledTimes(1);
+      const raw = await redis.loadGameState(room.gameId!);
+      expect(deserializeGameState(raw!).lastDiceResult).toBeTruthy();
+    });
+
+    it('should do nothing when no bot has a decision', async () => {
+      const room = createBotRoom();
+      const state = await startGame(redis, room);
+      state.currentPlayerIndex = 1;
+      await redis.saveGameState(state.gameId, serializeGameState(state));
+      const onResult = vi.fn(async () => {});
+
+      expect(await playBotMove(redis, room.roomCode, onResult)).toBe(false);
+      expect(onResult).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('scheduleBotMove', () => {
+    it('should move after the think delay', async () => {
+      vi.useFakeTimers();
+      const room = createBotRoom();
+      const state = await startGame(redis, room);
+      const onResult = vi.fn(async () => {});
+
+      scheduleBotMove(redis, room, state, onResult);
+      expect(hasPendingBotMove(room.roomCode)).toBe(true);
+      expect(onResult).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(onResult).toHaveBeenCalledTimes(1);
+      expect(hasPendingBotMove(room.roomCode)).toBe(false);
+    });
+
+    it('should not schedule anything on a human turn', async () => {
+      const room = createBotRoom();
+      const state = await startGame(redis, room);
+      state.currentPlayerIndex = 1;
+      scheduleBotMove(redis, room, state, vi.fn());
+      expect(hasPendingBotMove(room.roomCode)).toBe(false);
+    });
+
+    it('should be cancellable', async () => {
+      vi.useFakeTimers();
+      const room = createBotRoom();
+      const state = await startGame(redis, room);
+      const onResult = vi.fn(async () => {});
+
+      scheduleBotMove(redis, room, state, onResult);
+      cancelBotMove(room.roomCode);
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(onResult).not.toHaveBeenCalled();
+    });
+  });
+});
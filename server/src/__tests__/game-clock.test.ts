@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  scheduleGameClock,
+  cancelGameClock,
+  hasGameClock,
+  clearAllGameClocks,
+} from '../game/game-clock';
+
+describe('Game Clock', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    clearAllGameClocks();
+  });
+
+  afterEach(() => {
+    clearAllGameClocks();
+    vi.useRealTimers();
+  });
+
+  it('should fire once the game time is up', () => {
+    const onExpire = vi.fn();
+    scheduleGameClock('ROOM1', Date.now() + 30 * 60_000, onExpire);
+    expect(hasGameClock('ROOM1')).toBe(true);
+
+    vi.advanceTimersByTime(30 * 60_000 - 1);
+    expect(onExpire).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(onExpire).toHaveBeenCalledTimes(1);
+    expect(hasGameClock('ROOM1')).toBe(false);
+  });
+
+  it('should fire straight away for a clock that already ran out', () => {
+    const onExpire = vi.fn();
+    scheduleGameClock('ROOM1', Date.now() - 1000, onExpire);
+    vi.advanceTimersByTime(0);
+    expect(onExpire).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not fire after being cancelled', () => {
+    const onExpire = vi.fn();
+    scheduleGameClock('ROOM1', Date.now() + 1000, onExpire);
+    cancelGameClock('ROOM1');
+    vi.advanceTimersByTime(2000);
+    expect(onExpire).not.toHaveBeenCalled();
+    expect(hasGameClock('ROOM1')).toBe(false);
+  });
+
+  it('should replace an existing clock for the same room', () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    scheduleGameClock('ROOM1', Date.now() + 1000, first);
+    scheduleGameClock('ROOM1', Date.now() + 2000, second);
+    vi.advanceTimersByTime(2000);
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+});
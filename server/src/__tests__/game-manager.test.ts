@@ -1,16 +1,23 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach } from 'vitest';
 import { InMemoryRedisClient } from '../redis/client';
 import {
   initializeGame,
   processAction,
-  autoRollForPlayer,
-  autoEndTurnForPlayer,
-  deleteTurnMachine,
+  processTurnTimeout,
+  expireGameClock,
+  expireAuction,
+  expireTrades,
+  isReplayWithheld,
+  startReplay,
+  recordReplayStep,
+  loadReplay,
 } from '../game/game-manager';
 import {
   serializeGameState,
+  reconstructStateAt,
   TurnState,
   TokenType,
+  CLASSIC_BOARD,
   type RoomMetadata,
   type GameState,
 } from '@monopoly/shared';
@@ -46,10 +53,6 @@ describe('Game Manager', () => {
     redis = new InMemoryRedisClient();
   });
 
-  afterEach(() => {
-    deleteTurnMachine('TEST01');
-  });
-
   describe('initializeGame', () => {
     it('should create initial game state from room', () => {
       const room = createTestRoom(3);
@@ -63,6 +66,29 @@ describe('Game Manager', () => {
       expect(state.status).toBe('playing');
     });
 
+    it('should carry the room house rules into the game settings', () => {
+      const room = {
+        ...createTestRoom(),
+        houseRules: { freeParking: 'houserule' as const, jailFine: 100, maxHouses: 20 },
+      };
+      const state = initializeGame(room);
+
+      expect(state.settings.freeParking).toBe('houserule');
+      expect(state.settings.jailFine).toBe(100);
+      expect(state.settings.goSalary).toBe(200);
+      expect(state.buildingSupply).toEqual({ houses: 20, hotels: 12 });
+    });
+
+    it('should start the clock of a timed game', () => {
+      const untimed = initializeGame(createTestRoom());
+      expect(untimed.gameClock).toBeUndefined();
+
+      const before = Date.now();
+      const state = initializeGame({ ...createTestRoom(), houseRules: { gameTimeLimit: 60 } });
+      expect(state.gameClock!.startedAt).toBeGreaterThanOrEqual(before);
+      expect(state.gameClock!.endsAt - state.gameClock!.startedAt).toBe(60 * 60_000);
+    });
+
     it('should set up all players at position 0', () => {
       const room = createTestRoom();
       const state = initializeGame(room);
@@ -112,34 +138,267 @@ describe('Game Manager', () => {
       expect(parsed.players[0].position).toBeGreaterThanOrEqual(0);
     });
 
+    it('should resume a game from persisted state alone', async () => {
+      // Simulate another server instance picking up an in-flight auction from Redis
+      const persisted: GameState = JSON.parse(serializeGameState(state));
+      persisted.turnState = TurnState.Auction;
+      persisted.auction = {
+        propertyId: 1,
+        highBid: 0,
+        highBidderId: null,
+        eligiblePlayers: ['player-0', 'player-1'],
+        passedPlayers: [],
+        currentBidderIndex: 0,
+      };
+      const other = new InMemoryRedisClient();
+      await other.saveGameState('TEST01', serializeGameState(persisted));
+
+      const bid = await processAction(other, 'TEST01', 'player-1', {
+        type: 'AuctionBid',
+        amount: 50,
+      });
+      expect(bid.ok).toBe(true);
+      const pass = await processAction(other, 'TEST01', 'player-0', { type: 'AuctionPass' });
+      expect(pass.ok).toBe(true);
+      expect(pass.state!.players[1].properties).toContain(1);
+      expect(pass.state!.auction).toBeNull();
+      expect(pass.state!.turnState).toBe(TurnState.PlayerAction);
+    });
+
+    it('should keep the running auction in the state sent to players', async () => {
+      const persisted: GameState = JSON.parse(serializeGameState(state));
+      persisted.turnState = TurnState.AwaitingBuyDecision;
+      persisted.pendingBuyDecision = { spaceId: 1, spaceName: 'Mediterranean Avenue', cost: 60 };
+      await redis.saveGameState('TEST01', serializeGameState(persisted));
+
+      const result = await processAction(redis, 'TEST01', 'player-0', {
+        type: 'DeclineProperty',
+        propertyId: 1,
+      });
+      expect(result.state?.auction).toMatchObject({
+        propertyId: 1,
+        highBid: 0,
+        eligiblePlayers: ['player-0', 'player-1'],
+        deadline: expect.any(Number),
+      });
+
+      // A reconnecting player is handed the stored state
+      const stored = JSON.parse((await redis.loadGameState('TEST01'))!) as GameState;
+      expect(stored.auction).toEqual(result.state?.auction);
+    });
+
     it('should reject invalid action for current state', async () => {
       // Can't end turn before rolling
       const result = await processAction(redis, 'TEST01', 'player-0', { type: 'EndTurn' });
       expect(result.ok).toBe(false);
     });
+
+    it('should only take a trade answer from the player it was offered to', async () => {
+      const persisted = initializeGame(createTestRoom(3));
+      persisted.turnState = TurnState.PlayerAction;
+      await redis.saveGameState('TEST01', serializeGameState(persisted));
+
+      const offer = await processAction(redis, 'TEST01', 'player-1', {
+        type: 'ProposeTrade',
+        recipientId: 'player-0',
+        offer: {
+          offeredProperties: [],
+          offeredCash: 100,
+          offeredCards: 0,
+          requestedProperties: [],
+          requestedCash: 50,
+          requestedCards: 0,
+        },
+      });
+      expect(offer.ok).toBe(true);
+      const tradeId = offer.state!.pendingTrades![0].id;
+
+      const intruder = await processAction(redis, 'TEST01', 'player-2', {
+        type: 'AcceptTrade',
+        tradeId,
+      });
+      expect(intruder).toMatchObject({ ok: false, code: 'NOT_TRADE_PARTY' });
+
+      const accepted = await processAction(redis, 'TEST01', 'player-0', {
+        type: 'AcceptTrade',
+        tradeId,
+      });
+      expect(accepted.ok).toBe(true);
+      expect(accepted.state!.players.map((p) => p.cash)).toEqual([1550, 1450, 1500]);
+    });
   });
 
-  describe('autoRollForPlayer', () => {
-    it('should auto-roll and move player', () => {
-      const room = createTestRoom();
-      const state = initializeGame(room);
-      const result = autoRollForPlayer(state);
-      expect(result.players[0].position).toBeGreaterThanOrEqual(0);
+  describe('processTurnTimeout', () => {
+    it('rolls and ends the turn through recorded actions', async () => {
+      const state = initializeGame({ ...createTestRoom(), houseRules: { auctionEnabled: false } });
+      await redis.saveGameState(state.gameId, serializeGameState(state));
+      await startReplay(redis, state);
+
+      const result = await processTurnTimeout(redis, state.gameId);
+      expect(result.ok).toBe(true);
+      expect(result.state?.turnState).toBe(TurnState.WaitingForRoll);
+      expect(result.events?.[0]).toMatchObject({ type: 'DiceRolled' });
+
+      const replay = await loadReplay(redis, state.gameId);
+      expect(replay?.steps[0]).toMatchObject({ type: 'action', action: { type: 'RollDice' } });
+      expect(replay?.steps.at(-1)).toMatchObject({ type: 'action', action: { type: 'EndTurn' } });
+      expect(reconstructStateAt(replay!, replay!.steps.length)).toEqual(result.state);
+    });
+
+    it('declines an unbought property and waits for the auction', async () => {
+      const state = initializeGame(createTestRoom());
+      state.turnState = TurnState.AwaitingBuyDecision;
+      state.players[0].position = 1;
+      state.pendingBuyDecision = { spaceId: 1, spaceName: 'Mediterranean Avenue', cost: 60 };
+      await redis.saveGameState(state.gameId, serializeGameState(state));
+
+      const result = await processTurnTimeout(redis, state.gameId);
+      expect(result.state?.turnState).toBe(TurnState.Auction);
+      expect(result.state?.currentPlayerIndex).toBe(0);
+    });
+
+    it('leaves a player raising funds to settle their debt', async () => {
+      const state = initializeGame(createTestRoom());
+      state.turnState = TurnState.RaisingFunds;
+      await redis.saveGameState(state.gameId, serializeGameState(state));
+
+      const result = await processTurnTimeout(redis, state.gameId);
+      expect(result.ok).toBe(true);
+      expect(result.state).toEqual(state);
+      expect(result.events).toEqual([]);
     });
   });
 
-  describe('autoEndTurnForPlayer', () => {
-    it('should advance to next player', () => {
-      const room = createTestRoom();
-      let state = initializeGame(room);
+  describe('replay recording', () => {
+    it('records processed actions so the game can be reconstructed', async () => {
+      const state = initializeGame(createTestRoom());
+      await redis.saveGameState(state.gameId, serializeGameState(state));
+      await startReplay(redis, state);
+
+      const result = await processAction(redis, state.gameId, 'player-0', { type: 'RollDice' });
+      expect(result.ok).toBe(true);
+
+      const replay = await loadReplay(redis, state.gameId);
+      expect(replay?.steps).toHaveLength(1);
+      expect(replay?.steps[0]).toMatchObject({ type: 'action', playerId: 'player-0' });
+      expect(reconstructStateAt(replay!, 1)).toEqual(result.state);
+    });
+
+    it('replays a game played on the room board', async () => {
+      const board = { ...CLASSIC_BOARD, id: 'london', name: 'London', currencySymbol: '£' };
+      const state = initializeGame({ ...createTestRoom(), board });
+      expect(state.edition?.currencySymbol).toBe('£');
+      await redis.saveGameState(state.gameId, serializeGameState(state));
+      await startReplay(redis, state, board);
+
+      const result = await processAction(redis, state.gameId, 'player-0', { type: 'RollDice' });
+      const replay = await loadReplay(redis, state.gameId);
+      expect(replay?.board?.id).toBe('london');
+      expect(reconstructStateAt(replay!, 1)).toEqual(result.state);
+    });
+
+    it('does not record rejected actions', async () => {
+      const state = initializeGame(createTestRoom());
+      await redis.saveGameState(state.gameId, serializeGameState(state));
+      await startReplay(redis, state);
+
+      await processAction(redis, state.gameId, 'player-1', { type: 'RollDice' });
+
+      const replay = await loadReplay(redis, state.gameId);
+      expect(replay?.steps).toHaveLength(0);
+    });
+
+    it('records the clock running out in a timed game', async () => {
+      const state = initializeGame({ ...createTestRoom(), houseRules: { gameTimeLimit: 30 } });
+      await redis.saveGameState(state.gameId, serializeGameState(state));
+      await startReplay(redis, state);
+
+      const result = await expireGameClock(redis, state.gameId);
+      expect(result.ok).toBe(true);
+      expect(result.state?.finalRound).toBe(1);
+      expect(result.events?.map((e) => e.type)).toEqual(['FinalRoundStarted']);
 
-      // First auto-roll to get to PlayerAction state
-      state = autoRollForPlayer(state);
+      const replay = await loadReplay(redis, state.gameId);
+      expect(replay?.steps).toEqual([{ type: 'clockExpired', timestamp: expect.any(Number) }]);
+      expect(reconstructStateAt(replay!, 1).finalRound).toBe(1);
+    });
+
+    it('records an auction closed by its countdown', async () => {
+      const state = initializeGame(createTestRoom());
+      state.turnState = TurnState.Auction;
+      state.auction = {
+        propertyId: 1,
+        highBid: 40,
+        highBidderId: 'player-1',
+        eligiblePlayers: ['player-0', 'player-1'],
+        passedPlayers: [],
+        currentBidderIndex: 0,
+        deadline: Date.now() - 1000,
+      };
+      await redis.saveGameState(state.gameId, serializeGameState(state));
+      await startReplay(redis, state);
+
+      const result = await expireAuction(redis, state.gameId);
+      expect(result.ok).toBe(true);
+      expect(result.state?.players[1].properties).toContain(1);
+      expect(result.state?.auction).toBeNull();
+
+      const replay = await loadReplay(redis, state.gameId);
+      expect(replay?.steps).toEqual([{ type: 'auctionExpired', timestamp: expect.any(Number) }]);
+    });
+
+    it('records a trade offer lapsing', async () => {
+      const state = initializeGame(createTestRoom());
+      state.pendingTrades = [
+        {
+          id: 'trade-1',
+          proposerId: 'player-0',
+          recipientId: 'player-1',
+          offeredProperties: [],
+          offeredCash: 100,
+          offeredCards: 0,
+          requestedProperties: [],
+          requestedCash: 0,
+          requestedCards: 0,
+          status: 'pending',
+          expiresAt: Date.now() - 1000,
+        },
+      ];
+      await redis.saveGameState(state.gameId, serializeGameState(state));
+      await startReplay(redis, state);
+
+      const result = await expireTrades(redis, state.gameId);
+      expect(result.ok).toBe(true);
+      expect(result.state?.pendingTrades).toEqual([]);
+      expect(result.state?.tradeHistory?.[0].status).toBe('expired');
+      expect(result.events?.map((e) => e.type)).toEqual(['TradeCancelled']);
+
+      const replay = await loadReplay(redis, state.gameId);
+      expect(replay?.steps).toEqual([{ type: 'tradesExpired', timestamp: expect.any(Number) }]);
+    });
+
+    it('withholds the replay while sealed bids are hidden', async () => {
+      const state = initializeGame({
+        ...createTestRoom(),
+        houseRules: { sealedBidAuctions: true },
+      });
+      await redis.saveGameState(state.gameId, serializeGameState(state));
+      expect(await isReplayWithheld(redis, state.gameId)).toBe(false);
+
+      state.turnState = TurnState.AwaitingBuyDecision;
+      state.pendingBuyDecision = { spaceId: 1, spaceName: 'Mediterranean Avenue', cost: 60 };
+      await redis.saveGameState(state.gameId, serializeGameState(state));
+      const result = await processAction(redis, state.gameId, 'player-0', {
+        type: 'DeclineProperty',
+        propertyId: 1,
+      });
+      expect(result.state?.auction?.sealed).toBe(true);
+      expect(await isReplayWithheld(redis, state.gameId)).toBe(true);
+    });
 
-      // Then auto-end turn
-      const result = autoEndTurnForPlayer(state);
-      expect(result.currentPlayerIndex).not.toBe(state.currentPlayerIndex);
-      expect(result.turnState).toBe(TurnState.WaitingForRoll);
+    it('ignores steps for games without a recorded replay', async () => {
+      await recordReplayStep(redis, 'missing', { type: 'autoRoll', timestamp: 1 });
+      expect(await loadReplay(redis, 'missing')).toBeNull();
     });
   });
 });
@@ -1,12 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { InMemoryRedisClient } from '../redis/client';
-import {
-  initializeGame,
-  processAction,
-  deleteTurnMachine,
-  autoRollForPlayer,
-  autoEndTurnForPlayer,
-} from '../game/game-manager';
+import { initializeGame, processAction, processTurnTimeout } from '../game/game-manager';
 import {
   createRoom,
   joinRoom,
@@ -28,9 +22,7 @@ import {
   type RoomMetadata,
   type GameState,
   setPropertyState,
-  resetPropertyStates,
   initBuildingSupply,
-  resetBuildingSupply,
 } from '@monopoly/shared';
 
 // Helper to create a room with N players, all with tokens selected
@@ -98,10 +90,6 @@ describe('P6.S2.T1 — Full room lifecycle', () => {
     redis = new InMemoryRedisClient();
   });
 
-  afterEach(() => {
-    deleteTurnMachine('TEST01');
-  });
-
   it('create → join multiple players → start → game state initialized', async () => {
     // 1) Host creates room
     const room = await createRoom(redis, 'host-1', 'Alice');
@@ -139,8 +127,6 @@ describe('P6.S2.T1 — Full room lifecycle', () => {
       expect(player.isActive).toBe(true);
       expect(player.properties).toEqual([]);
     }
-
-    deleteTurnMachine(state.gameId);
   });
 
   it('room rejects join when full', async () => {
@@ -171,10 +157,6 @@ describe('P6.S2.T2 — Complete turn cycle', () => {
     redis = new InMemoryRedisClient();
   });
 
-  afterEach(() => {
-    if (gameId) deleteTurnMachine(gameId);
-  });
-
   it('roll → move → resolve → action → end turn → next player', async () => {
     const { state, playerIds } = await setupGame(redis, 2);
     gameId = state.gameId;
@@ -227,17 +209,15 @@ describe('P6.S2.T2 — Complete turn cycle', () => {
     expect(result.ok).toBe(false);
   });
 
-  it('autoRoll and autoEndTurn advance the game', async () => {
+  it('turn timeouts advance the game', async () => {
     const { state } = await setupGame(redis, 2);
     gameId = state.gameId;
+    state.settings.auctionEnabled = false;
+    await redis.saveGameState(gameId, serializeGameState(state));
 
-    // Auto-roll
-    let current = autoRollForPlayer(state);
-    expect(current.players[0].position).toBeGreaterThanOrEqual(0);
-
-    // Auto-end turn
-    current = autoEndTurnForPlayer(current);
-    expect(current.turnState).toBe(TurnState.WaitingForRoll);
+    const result = await processTurnTimeout(redis, gameId);
+    expect(result.ok).toBe(true);
+    expect(result.state?.turnState).toBe(TurnState.WaitingForRoll);
   });
 });
 
@@ -272,8 +252,6 @@ describe('P6.S2.T3 — Redis state persistence', () => {
     expect(restored.players[1].position).toBe(5);
     expect(restored.players[2].position).toBe(10);
     expect(restored.currentPlayerIndex).toBe(1);
-
-    deleteTurnMachine(state.gameId);
   });
 
   it('serialization preserves all game state fields', async () => {
@@ -290,8 +268,6 @@ describe('P6.S2.T3 — Redis state persistence', () => {
     expect(deserialized.currentPlayerIndex).toBe(state.currentPlayerIndex);
     expect(deserialized.players).toHaveLength(state.players.length);
     expect(deserialized.settings).toEqual(state.settings);
-
-    deleteTurnMachine(state.gameId);
   });
 
   it('processAction persists state to Redis after each action', async () => {
@@ -307,8 +283,6 @@ describe('P6.S2.T3 — Redis state persistence', () => {
     const persisted = deserializeGameState(raw!);
     expect(persisted.players[0].position).toBeGreaterThanOrEqual(0);
     expect(persisted.lastDiceResult).toBeDefined();
-
-    deleteTurnMachine(gameId);
   });
 
   it('game state not found returns error', async () => {
@@ -364,8 +338,6 @@ describe('P6.S2.T4 — Reconnection flow', () => {
     expect(raw).not.toBeNull();
     const gameState = deserializeGameState(raw!);
     expect(gameState.status).toBe('playing');
-
-    deleteTurnMachine(room.gameId!);
   });
 
   it('permanent disconnect after grace period triggers callback', async () => {
@@ -381,8 +353,6 @@ describe('P6.S2.T4 — Reconnection flow', () => {
     // Advance past grace period
     await vi.advanceTimersByTimeAsync(6000);
     expect(onPermanent).toHaveBeenCalledWith(room.roomCode, 'player-1');
-
-    deleteTurnMachine(room.gameId!);
   });
 
   it('reconnect before grace period prevents permanent disconnect', async () => {
@@ -401,8 +371,6 @@ describe('P6.S2.T4 — Reconnection flow', () => {
     // Advance past what would have been the grace period
     await vi.advanceTimersByTimeAsync(11000);
     expect(onPermanent).not.toHaveBeenCalled();
-
-    deleteTurnMachine(room.gameId!);
   });
 });
 
@@ -429,8 +397,6 @@ describe('P6.S2.T5 — Concurrent actions', () => {
     expect(result1.ok).toBe(true);
     expect(result2.ok).toBe(false);
     expect(result2.error).toBe('Not your turn');
-
-    deleteTurnMachine(gameId);
   });
 
   it('action on finished game is rejected', async () => {
@@ -444,8 +410,6 @@ describe('P6.S2.T5 — Concurrent actions', () => {
     const result = await processAction(redis, gameId, playerIds[0], { type: 'RollDice' });
     expect(result.ok).toBe(false);
     expect(result.error).toBe('Game is not in progress');
-
-    deleteTurnMachine(gameId);
   });
 
   it('rapid sequential actions maintain state consistency', async () => {
@@ -471,8 +435,6 @@ describe('P6.S2.T5 — Concurrent actions', () => {
     const finalState = deserializeGameState(raw!);
     expect(finalState.status).toBe('playing');
     expect(finalState.players[0].cash).toBeLessThanOrEqual(1500);
-
-    deleteTurnMachine(gameId);
   });
 });
 
@@ -486,14 +448,6 @@ describe('P6.S2.T6 — Full auction flow with 4 players', () => {
     redis = new InMemoryRedisClient();
   });
 
-  afterEach(() => {
-    if (gameId) {
-      deleteTurnMachine(gameId);
-      resetPropertyStates(gameId);
-      resetBuildingSupply(gameId);
-    }
-  });
-
   it('decline property → auction → bids and passes → winner gets property', async () => {
     const { state, playerIds } = await setupGame(redis, 4);
     gameId = state.gameId;
@@ -508,9 +462,6 @@ describe('P6.S2.T6 — Full auction flow with 4 players', () => {
     modState.turnState = TurnState.AwaitingBuyDecision;
     await redis.saveGameState(gameId, serializeGameState(modState));
 
-    // Reset turn machine so it picks up the new state
-    deleteTurnMachine(gameId);
-
     // Player 0 declines the property → triggers auction
     const decline = await processAction(redis, gameId, playerIds[0], {
       type: 'DeclineProperty',
@@ -563,13 +514,6 @@ describe('P6.S2.T7 — Trading between two players', () => {
     redis = new InMemoryRedisClient();
   });
 
-  afterEach(() => {
-    if (gameId) {
-      deleteTurnMachine(gameId);
-      resetPropertyStates(gameId);
-    }
-  });
-
   it('propose trade → accept → assets swap correctly', async () => {
     const { state, playerIds } = await setupGame(redis, 2);
     gameId = state.gameId;
@@ -586,9 +530,6 @@ describe('P6.S2.T7 — Trading between two players', () => {
     setPropertyState(modState, { spaceId: 3, houses: 0, mortgaged: false });
     await redis.saveGameState(gameId, serializeGameState(modState));
 
-    // Reset turn machine so it picks up the PlayerAction state
-    deleteTurnMachine(gameId);
-
     // Player 0 proposes trade: offer Med Ave + $100 for Baltic Ave
     const propose = await processAction(redis, gameId, playerIds[0], {
       type: 'ProposeTrade',
@@ -619,14 +560,6 @@ describe('P6.S2.T8 — Bankruptcy cascade', () => {
     redis = new InMemoryRedisClient();
   });
 
-  afterEach(() => {
-    if (gameId) {
-      deleteTurnMachine(gameId);
-      resetPropertyStates(gameId);
-      resetBuildingSupply(gameId);
-    }
-  });
-
   it('player declares bankruptcy to another player → assets transfer → game continues', async () => {
     const { state, playerIds } = await setupGame(redis, 3);
     gameId = state.gameId;
@@ -768,12 +701,11 @@ describe('P6.S2 — Cross-cutting integration scenarios', () => {
     const { state } = await setupGame(redis, 2);
     const gameId = state.gameId;
 
-    // Play several turns using auto-roll/auto-end
-    let current = state;
+    // Play several turns out through the turn timer
+    state.settings.auctionEnabled = false;
+    await redis.saveGameState(gameId, serializeGameState(state));
     for (let turn = 0; turn < 4; turn++) {
-      current = autoRollForPlayer(current);
-      current = autoEndTurnForPlayer(current);
-      await redis.saveGameState(gameId, serializeGameState(current));
+      await processTurnTimeout(redis, gameId);
     }
 
     // Verify state is consistent after multiple turns
@@ -781,8 +713,6 @@ describe('P6.S2 — Cross-cutting integration scenarios', () => {
     const loaded = deserializeGameState(raw!);
     expect(loaded.status).toBe('playing');
     expect(loaded.turnState).toBe(TurnState.WaitingForRoll);
-
-    deleteTurnMachine(gameId);
   });
 
   it('session data persists with room and player info', async () => {
@@ -809,7 +739,5 @@ describe('P6.S2 — Cross-cutting integration scenarios', () => {
     await redis.deleteSession(playerIds[0]);
     const deleted = await redis.loadSession(playerIds[0]);
     expect(deleted).toBeNull();
-
-    deleteTurnMachine(room.gameId!);
   });
 });
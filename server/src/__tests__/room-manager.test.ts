@@ -8,8 +8,15 @@ import {
   generateRoomCode,
   markPlayerDisconnected,
   markPlayerReconnected,
+  addBot,
+  removeBot,
+  updateHouseRules,
+  selectBoard,
+  setCaretaker,
+  shouldCaretakeTimedOutSeat,
 } from '../game/room-manager';
-import { TokenType } from '@monopoly/shared';
+import { registerBoard, resetBoards } from '../game/board-registry';
+import { CLASSIC_BOARD, TokenType } from '@monopoly/shared';
 
 describe('Room Manager', () => {
   let redis: InMemoryRedisClient;
@@ -67,6 +74,18 @@ describe('Room Manager', () => {
       expect(room.startingCash).toBe(2000);
     });
 
+    it('should default to standard rules and accept house rules', async () => {
+      expect((await createRoom(redis, 'host-1', 'Alice')).houseRules).toEqual({});
+      const room = await createRoom(redis, 'host-2', 'Bob', 6, 1500, { freeParking: 'houserule' });
+      expect(room.houseRules).toEqual({ freeParking: 'houserule' });
+    });
+
+    it('should reject invalid house rules', async () => {
+      await expect(createRoom(redis, 'host-1', 'Alice', 6, 1500, { jailFine: -5 })).rejects.toThrow(
+        "'jailFine' must be between 0 and 1000",
+      );
+    });
+
     it('should regenerate code on collision', async () => {
       // Pre-populate a room to force at least one collision check
       const firstRoom = await createRoom(redis, 'host-0', 'Pre');
@@ -165,6 +184,129 @@ describe('Room Manager', () => {
     });
   });
 
+  describe('bots', () => {
+    it('should let the host add a ready bot with a free token', async () => {
+      const room = await createRoom(redis, 'host-1', 'Alice');
+      await selectToken(redis, room.roomCode, 'host-1', TokenType.ScottieDog);
+      const { room: updated, player } = await addBot(redis, room.roomCode, 'host-1', 'trader');
+      expect(updated.players).toHaveLength(2);
+      expect(player).toMatchObject({
+        name: 'Trader Bot 1',
+        token: TokenType.TopHat,
+        isReady: true,
+        isHost: false,
+        isBot: true,
+        botStrategy: 'trader',
+      });
+      expect(player.id).toMatch(/^bot-/);
+    });
+
+    it('should number bots of the same strategy', async () => {
+      const room = await createRoom(redis, 'host-1', 'Alice');
+      await addBot(redis, room.roomCode, 'host-1', 'cautious');
+      const { player } = await addBot(redis, room.roomCode, 'host-1', 'cautious');
+      expect(player.name).toBe('Cautious Bot 2');
+    });
+
+    it('should only let the host add or remove bots', async () => {
+      const room = await createRoom(redis, 'host-1', 'Alice');
+      await joinRoom(redis, room.roomCode, 'p2', 'Bob');
+      await expect(addBot(redis, room.roomCode, 'p2', 'cautious')).rejects.toThrow(
+        'Only the host can add bots',
+      );
+      const { player } = await addBot(redis, room.roomCode, 'host-1', 'cautious');
+      await expect(removeBot(redis, room.roomCode, 'p2', player.id)).rejects.toThrow(
+        'Only the host can remove bots',
+      );
+    });
+
+    it('should respect the room size', async () => {
+      const room = await createRoom(redis, 'host-1', 'Alice', 2);
+      await addBot(redis, room.roomCode, 'host-1', 'aggressive');
+      await expect(addBot(redis, room.roomCode, 'host-1', 'aggressive')).rejects.toThrow(
+        'Room is full',
+      );
+    });
+
+    it('should remove bots but not humans', async () => {
+      const room = await createRoom(redis, 'host-1', 'Alice');
+      await joinRoom(redis, room.roomCode, 'p2', 'Bob');
+      const { player } = await addBot(redis, room.roomCode, 'host-1', 'aggressive');
+      await expect(removeBot(redis, room.roomCode, 'host-1', 'p2')).rejects.toThrow(
+        'Bot not found',
+      );
+      const updated = await removeBot(redis, room.roomCode, 'host-1', player.id);
+      expect(updated.players.map((p) => p.id)).toEqual(['host-1', 'p2']);
+    });
+
+    it('should merge house rule changes from the host', async () => {
+      const room = await createRoom(redis, 'host-1', 'Alice', 6, 1500, { evenBuild: false });
+      const updated = await updateHouseRules(redis, room.roomCode, 'host-1', { jailFine: 100 });
+      expect(updated.houseRules).toEqual({ evenBuild: false, jailFine: 100 });
+      expect((await redis.loadRoomMetadata(room.roomCode))?.houseRules).toEqual(updated.houseRules);
+    });
+
+    it('should only let the host change valid house rules before the game', async () => {
+      const room = await createRoom(redis, 'host-1', 'Alice');
+      await joinRoom(redis, room.roomCode, 'p2', 'Bob');
+      await expect(updateHouseRules(redis, room.roomCode, 'p2', { goSalary: 400 })).rejects.toThrow(
+        'Only the host can change house rules',
+      );
+      await expect(
+        updateHouseRules(redis, room.roomCode, 'host-1', { startingCash: 5000 } as never),
+      ).rejects.toThrow("Unknown rule 'startingCash'");
+    });
+
+    it('should let the host pick a registered or custom board', async () => {
+      const london = { ...CLASSIC_BOARD, id: 'london', name: 'London', currencySymbol: '£' };
+      registerBoard(london);
+      const room = await createRoom(redis, 'host-1', 'Alice');
+
+      let updated = await selectBoard(redis, room.roomCode, 'host-1', { boardId: 'london' });
+      expect(updated.board?.name).toBe('London');
+
+      const custom = { ...london, id: 'my-town', name: 'My Town' };
+      await selectBoard(redis, room.roomCode, 'host-1', { board: custom });
+      expect((await redis.loadRoomMetadata(room.roomCode))?.board).toEqual(custom);
+
+      updated = await selectBoard(redis, room.roomCode, 'host-1', { boardId: 'classic' });
+      expect(updated.board).toBeUndefined();
+      resetBoards();
+    });
+
+    it('should reject unknown or invalid boards', async () => {
+      const room = await createRoom(redis, 'host-1', 'Alice');
+      await joinRoom(redis, room.roomCode, 'p2', 'Bob');
+      await expect(selectBoard(redis, room.roomCode, 'p2', { boardId: 'classic' })).rejects.toThrow(
+        'Only the host can choose the board',
+      );
+      await expect(
+        selectBoard(redis, room.roomCode, 'host-1', { boardId: 'atlantis' }),
+      ).rejects.toThrow("Unknown board 'atlantis'");
+      await expect(
+        selectBoard(redis, room.roomCode, 'host-1', {
+          board: { ...CLASSIC_BOARD, currencySymbol: '' },
+        }),
+      ).rejects.toThrow('Currency symbol must be 1-4 characters');
+    });
+
+    it('should never hand the host role to a bot', async () => {
+      const room = await createRoom(redis, 'host-1', 'Alice');
+      await addBot(redis, room.roomCode, 'host-1', 'cautious');
+      await joinRoom(redis, room.roomCode, 'p2', 'Bob');
+      const { newHostId } = await leaveRoom(redis, room.roomCode, 'host-1');
+      expect(newHostId).toBe('p2');
+    });
+
+    it('should close the room when only bots are left', async () => {
+      const room = await createRoom(redis, 'host-1', 'Alice');
+      await addBot(redis, room.roomCode, 'host-1', 'cautious');
+      const { room: updated } = await leaveRoom(redis, room.roomCode, 'host-1');
+      expect(updated).toBeNull();
+      expect(await redis.roomExists(room.roomCode)).toBe(false);
+    });
+  });
+
   describe('disconnect / reconnect markers', () => {
     it('should mark player as disconnected', async () => {
       const room = await createRoom(redis, 'host-1', 'Alice');
@@ -178,5 +320,33 @@ describe('Room Manager', () => {
       const updated = await markPlayerReconnected(redis, room.roomCode, 'host-1');
       expect(updated?.players[0].isConnected).toBe(true);
     });
+
+    it('should hand a seat to the caretaker and return it on reconnect', async () => {
+      const room = await createRoom(redis, 'host-1', 'Alice');
+      await markPlayerDisconnected(redis, room.roomCode, 'host-1');
+      const away = await setCaretaker(redis, room.roomCode, 'host-1', true);
+      expect(away?.players[0].caretaker).toBe(true);
+
+      const back = await markPlayerReconnected(redis, room.roomCode, 'host-1');
+      expect(back?.players[0].caretaker).toBeUndefined();
+    });
+
+    it('should only hand a timed-out seat to the caretaker once its player has dropped', async () => {
+      const room = await createRoom(redis, 'host-1', 'Alice');
+      const { player: bot } = await addBot(redis, room.roomCode, 'host-1', 'cautious');
+      const connected = (await redis.loadRoomMetadata(room.roomCode))!;
+      expect(shouldCaretakeTimedOutSeat(connected, 'host-1')).toBe(false);
+      expect(shouldCaretakeTimedOutSeat(connected, bot.id)).toBe(false);
+
+      const dropped = await markPlayerDisconnected(redis, room.roomCode, 'host-1');
+      expect(shouldCaretakeTimedOutSeat(dropped!, 'host-1')).toBe(true);
+    });
+
+    it('should not put a caretaker on bot seats', async () => {
+      const room = await createRoom(redis, 'host-1', 'Alice');
+      const { player } = await addBot(redis, room.roomCode, 'host-1', 'cautious');
+      const updated = await setCaretaker(redis, room.roomCode, player.id, true);
+      expect(updated?.players[1].caretaker).toBeUndefined();
+    });
   });
 });
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { TradeOffer } from '@monopoly/shared';
+import {
+  scheduleTradeExpiry,
+  cancelTradeExpiry,
+  hasTradeExpiry,
+  clearAllTradeExpiries,
+  nextTradeExpiry,
+} from '../game/trade-expiry';
+
+function offer(id: string, expiresAt: number | null): TradeOffer {
+  return {
+    id,
+    proposerId: 'p1',
+    recipientId: 'p2',
+    offeredProperties: [],
+    offeredCash: 50,
+    offeredCards: 0,
+    requestedProperties: [],
+    requestedCash: 0,
+    requestedCards: 0,
+    status: 'pending',
+    expiresAt,
+  };
+}
+
+describe('Trade Expiry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    clearAllTradeExpiries();
+  });
+
+  afterEach(() => {
+    clearAllTradeExpiries();
+    vi.useRealTimers();
+  });
+
+  it('should pick the offer that lapses first', () => {
+    expect(nextTradeExpiry([offer('a', 5000), offer('b', null), offer('c', 3000)])).toBe(3000);
+    expect(nextTradeExpiry([offer('a', null)])).toBeNull();
+  });
+
+  it('should fire when the first pending offer runs out', () => {
+    const onExpire = vi.fn();
+    const now = Date.now();
+    scheduleTradeExpiry('ROOM1', [offer('a', now + 90_000), offer('b', now + 60_000)], onExpire);
+    expect(hasTradeExpiry('ROOM1')).toBe(true);
+
+    vi.advanceTimersByTime(59_999);
+    expect(onExpire).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(onExpire).toHaveBeenCalledTimes(1);
+    expect(hasTradeExpiry('ROOM1')).toBe(false);
+  });
+
+  it('should not schedule anything for offers without a time limit', () => {
+    scheduleTradeExpiry('ROOM1', [offer('a', null)], vi.fn());
+    expect(hasTradeExpiry('ROOM1')).toBe(false);
+  });
+
+  it('should not fire after being cancelled', () => {
+    const onExpire = vi.fn();
+    scheduleTradeExpiry('ROOM1', [offer('a', Date.now() + 1000)], onExpire);
+    cancelTradeExpiry('ROOM1');
+    vi.advanceTimersByTime(2000);
+    expect(onExpire).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,66 @@
+import type { AuctionState } from '@monopoly/shared';
+import type { AppIO } from '../index';
+
+// Each room's running auction gets a countdown that broadcasts the time left
+// every second and fires once its deadline passes. Bids move the deadline, so
+// the countdown is restarted whenever the auction changes.
+
+interface ActiveCountdown {
+  intervalId: ReturnType<typeof setInterval>;
+  timeoutId: ReturnType<typeof setTimeout>;
+}
+
+const activeCountdowns = new Map<string, ActiveCountdown>();
+
+export function secondsUntil(deadline: number): number {
+  return Math.max(0, Math.ceil((deadline - Date.now()) / 1000));
+}
+
+// Broadcasts the auction straight away; untimed auctions stop there
+export function startAuctionCountdown(
+  roomCode: string,
+  auction: AuctionState,
+  io: AppIO,
+  onExpire: () => void,
+): void {
+  // Clear any existing countdown for this room
+  stopAuctionCountdown(roomCode);
+
+  const { deadline } = auction;
+  io.to(roomCode).emit('auctionUpdate', {
+    auction,
+    secondsRemaining: deadline ? secondsUntil(deadline) : null,
+  });
+  if (!deadline) return;
+
+  const intervalId = setInterval(() => {
+    io.to(roomCode).emit('auctionUpdate', { auction, secondsRemaining: secondsUntil(deadline) });
+  }, 1000);
+  const timeoutId = setTimeout(
+    () => {
+      stopAuctionCountdown(roomCode);
+      onExpire();
+    },
+    Math.max(0, deadline - Date.now()),
+  );
+  activeCountdowns.set(roomCode, { intervalId, timeoutId });
+}
+
+export function stopAuctionCountdown(roomCode: string): void {
+  const countdown = activeCountdowns.get(roomCode);
+  if (countdown) {
+    clearInterval(countdown.intervalId);
+    clearTimeout(countdown.timeoutId);
+    activeCountdowns.delete(roomCode);
+  }
+}
+
+export function hasAuctionCountdown(roomCode: string): boolean {
+  return activeCountdowns.has(roomCode);
+}
+
+export function clearAllAuctionCountdowns(): void {
+  for (const roomCode of [...activeCountdowns.keys()]) {
+    stopAuctionCountdown(roomCode);
+  }
+}
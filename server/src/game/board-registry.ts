@@ -0,0 +1,47 @@
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import type { BoardDefinition, BoardSummary } from '@monopoly/shared';
+import { BUILT_IN_BOARDS, summarizeBoard, validateBoardDefinition } from '@monopoly/shared';
+
+// Editions rooms can be played on: the built-in boards plus any board
+// definition files found in BOARDS_DIR when the server starts
+
+const boards = new Map<string, BoardDefinition>();
+resetBoards();
+
+export function registerBoard(board: BoardDefinition): void {
+  const error = validateBoardDefinition(board);
+  if (error) throw new Error(error);
+  boards.set(board.id, board);
+}
+
+// Registers every *.json board in the directory. A file that fails to parse or
+// validate is skipped and reported, so one broken edition doesn't stop the server.
+export function loadBoardsFromDirectory(dir: string): { loaded: string[]; errors: string[] } {
+  const loaded: string[] = [];
+  const errors: string[] = [];
+
+  for (const file of readdirSync(dir).filter((f) => f.endsWith('.json'))) {
+    try {
+      const board = JSON.parse(readFileSync(join(dir, file), 'utf8')) as BoardDefinition;
+      registerBoard(board);
+      loaded.push(board.id);
+    } catch (err) {
+      errors.push(`${file}: ${err instanceof Error ? err.message : 'Invalid board'}`);
+    }
+  }
+  return { loaded, errors };
+}
+
+export function getBoard(boardId: string): BoardDefinition | undefined {
+  return boards.get(boardId);
+}
+
+export function listBoards(): BoardSummary[] {
+  return [...boards.values()].map(summarizeBoard);
+}
+
+export function resetBoards(): void {
+  boards.clear();
+  for (const board of BUILT_IN_BOARDS) boards.set(board.id, board);
+}
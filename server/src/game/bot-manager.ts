@@ -0,0 +1,110 @@
+import {
+  caretakerStrategy,
+  decideAction,
+  deserializeGameState,
+  getStrategy,
+  pendingDeciders,
+  type BotDecision,
+  type GameState,
+  type RoomMetadata,
+  type RoomPlayer,
+  type Strategy,
+} from '@monopoly/shared';
+import type { RedisClient } from '../redis/client';
+import * as GameManager from './game-manager';
+
+// Pause before each bot move so humans can follow along
+const DEFAULT_THINK_DELAY_MS = 800;
+
+export type BotResultHandler = (
+  room: RoomMetadata,
+  result: GameManager.ActionResult,
+) => Promise<void>;
+
+// At most one pending bot move per room
+const pendingMoves = new Map<string, ReturnType<typeof setTimeout>>();
+
+function thinkDelayMs(): number {
+  const configured = Number(process.env.BOT_THINK_DELAY_MS);
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_THINK_DELAY_MS;
+}
+
+// Strategy playing a seat, or null if a human is in control
+function strategyFor(player: RoomPlayer | undefined): Strategy | null {
+  if (player?.caretaker) return caretakerStrategy;
+  if (player?.isBot && player.botStrategy) return getStrategy(player.botStrategy);
+  return null;
+}
+
+// The first bot-controlled seat in the room that currently has a decision to make
+export function nextBotDecision(room: RoomMetadata, state: GameState): BotDecision | null {
+  for (const playerId of pendingDeciders(state)) {
+    const strategy = strategyFor(room.players.find((p) => p.id === playerId));
+    if (!strategy) continue;
+    const decision = decideAction(state, playerId, strategy);
+    if (decision) return decision;
+  }
+  return null;
+}
+
+export function scheduleBotMove(
+  redis: RedisClient,
+  room: RoomMetadata,
+  state: GameState,
+  onResult: BotResultHandler,
+): void {
+  cancelBotMove(room.roomCode);
+  if (!nextBotDecision(room, state)) return;
+
+  const timeoutId = setTimeout(() => {
+    pendingMoves.delete(room.roomCode);
+    playBotMove(redis, room.roomCode, onResult).catch((err) => {
+      const error = err instanceof Error ? err.message : String(err);
+      console.error(JSON.stringify({ event: 'botMoveFailed', roomCode: room.roomCode, error }));
+    });
+  }, thinkDelayMs());
+  pendingMoves.set(room.roomCode, timeoutId);
+}
+
+// Re-decides from the latest stored state, since humans may have acted during the delay
+export async function playBotMove(
+  redis: RedisClient,
+  roomCode: string,
+  onResult: BotResultHandler,
+): Promise<boolean> {
+  const room = await redis.loadRoomMetadata(roomCode);
+  if (!room?.gameId) return false;
+  const raw = await redis.loadGameState(room.gameId);
+  if (!raw) return false;
+
+  const decision = nextBotDecision(room, deserializeGameState(raw));
+  if (!decision) return false;
+
+  for (const action of [decision.action, ...(decision.fallbacks ?? [])]) {
+    const result = await GameManager.processAction(redis, room.gameId, decision.playerId, action);
+    if (result.ok) {
+      await onResult(room, result);
+      return true;
+    }
+  }
+  return false;
+}
+
+export function cancelBotMove(roomCode: string): void {
+  const timeoutId = pendingMoves.get(roomCode);
+  if (timeoutId) {
+    clearTimeout(timeoutId);
+    pendingMoves.delete(roomCode);
+  }
+}
+
+export function hasPendingBotMove(roomCode: string): boolean {
+  return pendingMoves.has(roomCode);
+}
+
+export function clearAllBotMoves(): void {
+  for (const timeoutId of pendingMoves.values()) {
+    clearTimeout(timeoutId);
+  }
+  pendingMoves.clear();
+}
@@ -0,0 +1,37 @@
+// Timed games run one wall-clock timeout per room; when it fires the round in
+// progress becomes the final round
+
+const activeClocks = new Map<string, ReturnType<typeof setTimeout>>();
+
+export function scheduleGameClock(roomCode: string, endsAt: number, onExpire: () => void): void {
+  // Clear any existing clock for this room
+  cancelGameClock(roomCode);
+
+  const timeoutId = setTimeout(
+    () => {
+      activeClocks.delete(roomCode);
+      onExpire();
+    },
+    Math.max(0, endsAt - Date.now()),
+  );
+  activeClocks.set(roomCode, timeoutId);
+}
+
+export function cancelGameClock(roomCode: string): void {
+  const timeoutId = activeClocks.get(roomCode);
+  if (timeoutId) {
+    clearTimeout(timeoutId);
+    activeClocks.delete(roomCode);
+  }
+}
+
+export function hasGameClock(roomCode: string): boolean {
+  return activeClocks.has(roomCode);
+}
+
+export function clearAllGameClocks(): void {
+  for (const timeoutId of activeClocks.values()) {
+    clearTimeout(timeoutId);
+  }
+  activeClocks.clear();
+}
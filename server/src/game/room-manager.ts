@@ -1,10 +1,28 @@
-import type { RoomMetadata, RoomPlayer } from '@monopoly/shared';
-import { TokenType } from '@monopoly/shared';
+import type {
+  BoardDefinition,
+  BotStrategyName,
+  HouseRules,
+  RoomMetadata,
+  RoomPlayer,
+} from '@monopoly/shared';
+import {
+  CLASSIC_BOARD,
+  TokenType,
+  validateBoardDefinition,
+  validateHouseRules,
+} from '@monopoly/shared';
 import type { RedisClient } from '../redis/client';
+import { getBoard } from './board-registry';
 
 const ROOM_CODE_LENGTH = 6;
 const ROOM_CODE_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // no I/O/0/1 for readability
 
+const BOT_NAMES: Record<BotStrategyName, string> = {
+  cautious: 'Cautious Bot',
+  aggressive: 'Builder Bot',
+  trader: 'Trader Bot',
+};
+
 export function generateRoomCode(): string {
   let code = '';
   for (let i = 0; i < ROOM_CODE_LENGTH; i++) {
@@ -19,7 +37,11 @@ export async function createRoom(
   hostName: string,
   maxPlayers = 6,
   startingCash = 1500,
+  houseRules: Partial<HouseRules> = {},
 ): Promise<RoomMetadata> {
+  const rulesError = validateHouseRules(houseRules);
+  if (rulesError) throw new Error(rulesError);
+
   // Generate unique room code
   let roomCode: string;
   let attempts = 0;
@@ -45,6 +67,7 @@ export async function createRoom(
     players: [host],
     maxPlayers,
     startingCash,
+    houseRules,
     status: 'waiting',
     createdAt: Date.now(),
   };
@@ -120,8 +143,8 @@ export async function leaveRoom(
 
   room.players = room.players.filter((p) => p.id !== playerId);
 
-  // If no players left, delete the room
-  if (room.players.length === 0) {
+  // If no human players are left, delete the room
+  if (!room.players.some((p) => !p.isBot)) {
     await redis.deleteRoomMetadata(roomCode);
     return { room: null };
   }
@@ -129,7 +152,7 @@ export async function leaveRoom(
   // Transfer host if the leaving player was host
   let newHostId: string | undefined;
   if (room.hostId === playerId) {
-    const newHost = room.players[0];
+    const newHost = room.players.find((p) => !p.isBot)!;
     room.hostId = newHost.id;
     newHost.isHost = true;
     newHostId = newHost.id;
@@ -139,6 +162,114 @@ export async function leaveRoom(
   return { room, newHostId };
 }
 
+export async function addBot(
+  redis: RedisClient,
+  roomCode: string,
+  requesterId: string,
+  strategy: BotStrategyName,
+): Promise<{ room: RoomMetadata; player: RoomPlayer }> {
+  const room = await redis.loadRoomMetadata(roomCode);
+  if (!room) throw new Error('Room not found');
+  if (room.hostId !== requesterId) throw new Error('Only the host can add bots');
+  if (room.status !== 'waiting') throw new Error('Game already started');
+  if (room.players.length >= room.maxPlayers) throw new Error('Room is full');
+  if (!(strategy in BOT_NAMES)) throw new Error(`Unknown bot strategy '${strategy}'`);
+
+  let id: string;
+  do {
+    id = `bot-${generateRoomCode().toLowerCase()}`;
+  } while (room.players.some((p) => p.id === id));
+
+  // Number bots of the same kind so their names stay distinct
+  const baseName = BOT_NAMES[strategy];
+  let n = 1;
+  while (room.players.some((p) => p.name === `${baseName} ${n}`)) n++;
+
+  const takenTokens = new Set(room.players.map((p) => p.token));
+  const player: RoomPlayer = {
+    id,
+    name: `${baseName} ${n}`,
+    token: Object.values(TokenType).find((t) => !takenTokens.has(t)),
+    isReady: true,
+    isHost: false,
+    isConnected: true,
+    isBot: true,
+    botStrategy: strategy,
+  };
+
+  room.players.push(player);
+  await redis.saveRoomMetadata(roomCode, room);
+  return { room, player };
+}
+
+export async function removeBot(
+  redis: RedisClient,
+  roomCode: string,
+  requesterId: string,
+  botId: string,
+): Promise<RoomMetadata> {
+  const room = await redis.loadRoomMetadata(roomCode);
+  if (!room) throw new Error('Room not found');
+  if (room.hostId !== requesterId) throw new Error('Only the host can remove bots');
+  if (room.status !== 'waiting') throw new Error('Game already started');
+  if (!room.players.some((p) => p.id === botId && p.isBot)) throw new Error('Bot not found');
+
+  room.players = room.players.filter((p) => p.id !== botId);
+  await redis.saveRoomMetadata(roomCode, room);
+  return room;
+}
+
+// Merges the host's changes into the room's house rules; omitted rules keep their value
+export async function updateHouseRules(
+  redis: RedisClient,
+  roomCode: string,
+  requesterId: string,
+  rules: Partial<HouseRules>,
+): Promise<RoomMetadata> {
+  const room = await redis.loadRoomMetadata(roomCode);
+  if (!room) throw new Error('Room not found');
+  if (room.hostId !== requesterId) throw new Error('Only the host can change house rules');
+  if (room.status !== 'waiting') throw new Error('Game already started');
+  const rulesError = validateHouseRules(rules);
+  if (rulesError) throw new Error(rulesError);
+
+  room.houseRules = { ...room.houseRules, ...rules };
+  await redis.saveRoomMetadata(roomCode, room);
+  return room;
+}
+
+// Sets the edition the room will play on, either a registered board by id or
+// a custom board supplied by the host
+export async function selectBoard(
+  redis: RedisClient,
+  roomCode: string,
+  requesterId: string,
+  selection: { boardId?: string; board?: BoardDefinition },
+): Promise<RoomMetadata> {
+  const room = await redis.loadRoomMetadata(roomCode);
+  if (!room) throw new Error('Room not found');
+  if (room.hostId !== requesterId) throw new Error('Only the host can choose the board');
+  if (room.status !== 'waiting') throw new Error('Game already started');
+
+  let board: BoardDefinition | undefined;
+  if (selection.board) {
+    const boardError = validateBoardDefinition(selection.board);
+    if (boardError) throw new Error(boardError);
+    board = selection.board;
+  } else {
+    board = getBoard(selection.boardId ?? CLASSIC_BOARD.id);
+    if (!board) throw new Error(`Unknown board '${selection.boardId}'`);
+  }
+
+  if (board.id === CLASSIC_BOARD.id && !selection.board) {
+    delete room.board;
+  } else {
+    room.board = board;
+  }
+  await redis.saveRoomMetadata(roomCode, room);
+  return room;
+}
+
 export async function markPlayerDisconnected(
   redis: RedisClient,
   roomCode: string,
@@ -167,12 +298,44 @@ export async function markPlayerReconnected(
   const player = room.players.find((p) => p.id === playerId);
   if (player) {
     player.isConnected = true;
+    // Reconnecting takes the seat back from the caretaker bot
+    delete player.caretaker;
   }
 
   await redis.saveRoomMetadata(roomCode, room);
   return room;
 }
 
+export async function setCaretaker(
+  redis: RedisClient,
+  roomCode: string,
+  playerId: string,
+  caretaker: boolean,
+): Promise<RoomMetadata | null> {
+  const room = await redis.loadRoomMetadata(roomCode);
+  if (!room) return null;
+
+  const player = room.players.find((p) => p.id === playerId);
+  // Bots already play their own seats
+  if (!player || player.isBot) return room;
+
+  if (caretaker) {
+    player.caretaker = true;
+  } else {
+    delete player.caretaker;
+  }
+
+  await redis.saveRoomMetadata(roomCode, room);
+  return room;
+}
+
+// A turn timer running out hands the seat to the caretaker bot only once its
+// player has dropped; a connected player's turn is just played on for them
+export function shouldCaretakeTimedOutSeat(room: RoomMetadata, playerId: string): boolean {
+  const player = room.players.find((p) => p.id === playerId);
+  return !!player && !player.isBot && player.isConnected === false;
+}
+
 export async function removeDisconnectedPlayer(
   redis: RedisClient,
   roomCode: string,
@@ -190,15 +353,16 @@ export async function removeDisconnectedPlayer(
   if (room.status === 'waiting') {
     room.players = room.players.filter((p) => p.id !== playerId);
 
-    if (room.players.length === 0) {
+    if (!room.players.some((p) => !p.isBot)) {
       await redis.deleteRoomMetadata(roomCode);
       return null;
     }
 
     // Transfer host if needed
-    if (room.hostId === playerId && room.players.length > 0) {
-      room.hostId = room.players[0].id;
-      room.players[0].isHost = true;
+    if (room.hostId === playerId) {
+      const newHost = room.players.find((p) => !p.isBot)!;
+      room.hostId = newHost.id;
+      newHost.isHost = true;
     }
   }
 
@@ -0,0 +1,52 @@
+import type { TradeOffer } from '@monopoly/shared';
+
+// One wall-clock timeout per room, set for whichever pending trade offer lapses
+// first; when it fires the expired offers are called off and the next is scheduled
+
+const activeExpiries = new Map<string, ReturnType<typeof setTimeout>>();
+
+export function nextTradeExpiry(trades: TradeOffer[]): number | null {
+  const deadlines = trades
+    .map((t) => t.expiresAt)
+    .filter((expiresAt): expiresAt is number => expiresAt != null);
+  return deadlines.length > 0 ? Math.min(...deadlines) : null;
+}
+
+export function scheduleTradeExpiry(
+  roomCode: string,
+  trades: TradeOffer[],
+  onExpire: () => void,
+): void {
+  cancelTradeExpiry(roomCode);
+
+  const expiresAt = nextTradeExpiry(trades);
+  if (expiresAt === null) return;
+
+  const timeoutId = setTimeout(
+    () => {
+      activeExpiries.delete(roomCode);
+      onExpire();
+    },
+    Math.max(0, expiresAt - Date.now()),
+  );
+  activeExpiries.set(roomCode, timeoutId);
+}
+
+export function cancelTradeExpiry(roomCode: string): void {
+  const timeoutId = activeExpiries.get(roomCode);
+  if (timeoutId) {
+    clearTimeout(timeoutId);
+    activeExpiries.delete(roomCode);
+  }
+}
+
+export function hasTradeExpiry(roomCode: string): boolean {
+  return activeExpiries.has(roomCode);
+}
+
+export function clearAllTradeExpiries(): void {
+  for (const timeoutId of activeExpiries.values()) {
+    clearTimeout(timeoutId);
+  }
+  activeExpiries.clear();
+}
@@ -13,6 +13,8 @@ import { registerSocketHandlers } from './socket/handlers';
 import { createRedisClient, RedisClient } from './redis/client';
 import { createRateLimiter } from './middleware/rate-limit';
 import { getLatencyMetrics } from './metrics/latency-tracker';
+import { isReplayWithheld, loadReplay } from './game/game-manager';
+import { loadBoardsFromDirectory } from './game/board-registry';
 
 // Initialize Sentry before anything else (only if DSN is configured)
 if (process.env.SENTRY_DSN) {
@@ -58,6 +60,24 @@ export function createApp(redis?: RedisClient): ReturnType<typeof express> {
     res.json(getLatencyMetrics());
   });
 
+  app.get('/replay/:gameId', async (req, res) => {
+    const client = redis ?? redisRef;
+    if (!client) {
+      res.status(503).json({ error: 'Storage unavailable' });
+      return;
+    }
+    if (await isReplayWithheld(client, req.params.gameId)) {
+      res.status(409).json({ error: 'Replay is unavailable while sealed bids are open' });
+      return;
+    }
+    const replay = await loadReplay(client, req.params.gameId);
+    if (!replay) {
+      res.status(404).json({ error: 'Replay not found' });
+      return;
+    }
+    res.json(replay);
+  });
+
   // Sentry error handler must be registered after all routes
   if (process.env.SENTRY_DSN) {
     Sentry.setupExpressErrorHandler(app);
@@ -106,6 +126,13 @@ export type AppIO = Server<
 
 // Start server when run directly (not imported for tests)
 if (process.env.NODE_ENV !== 'test') {
+  // Extra editions (city boards, test boards) are plain board definition files
+  if (process.env.BOARDS_DIR) {
+    const { loaded, errors } = loadBoardsFromDirectory(process.env.BOARDS_DIR);
+    console.log(`[Boards] Loaded ${loaded.length} board(s) from ${process.env.BOARDS_DIR}`);
+    for (const error of errors) console.error(`[Boards] Skipped ${error}`);
+  }
+
   const redis = createRedisClient();
   redisRef = redis;
   const app = createApp(redis);
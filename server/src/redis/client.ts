@@ -3,6 +3,7 @@ import type { RoomMetadata } from '@monopoly/shared';
 const GAME_TTL = 86400; // 24 hours in seconds
 const ROOM_TTL = 86400;
 const SESSION_TTL = 86400;
+const REPLAY_TTL = 604800; // 7 days — replays stay watchable after the game expires
 
 export interface RedisClient {
   // Game state
@@ -10,6 +11,10 @@ export interface RedisClient {
   loadGameState(gameId: string): Promise<string | null>;
   deleteGameState(gameId: string): Promise<void>;
 
+  // Replay (seed + action stream)
+  saveReplay(gameId: string, replay: string): Promise<void>;
+  loadReplay(gameId: string): Promise<string | null>;
+
   // Room metadata
   saveRoomMetadata(roomCode: string, metadata: RoomMetadata): Promise<void>;
   loadRoomMetadata(roomCode: string): Promise<RoomMetadata | null>;
@@ -56,6 +61,16 @@ export class InMemoryRedisClient implements RedisClient {
     this.ttls.delete(key);
   }
 
+  async saveReplay(gameId: string, replay: string): Promise<void> {
+    const key = `replay:${gameId}`;
+    this.store.set(key, replay);
+    this.ttls.set(key, REPLAY_TTL);
+  }
+
+  async loadReplay(gameId: string): Promise<string | null> {
+    return this.store.get(`replay:${gameId}`) ?? null;
+  }
+
   async saveRoomMetadata(roomCode: string, metadata: RoomMetadata): Promise<void> {
     const key = `room:${roomCode}`;
     this.store.set(key, JSON.stringify(metadata));
@@ -163,6 +178,12 @@ function createIORedisClient(
     async deleteGameState(gameId: string) {
       await redis.del(`game:${gameId}`);
     },
+    async saveReplay(gameId: string, replay: string) {
+      await redis.setex(`replay:${gameId}`, REPLAY_TTL, replay);
+    },
+    async loadReplay(gameId: string) {
+      return redis.get(`replay:${gameId}`);
+    },
     async saveRoomMetadata(roomCode: string, metadata: RoomMetadata) {
       await redis.setex(`room:${roomCode}`, ROOM_TTL, JSON.stringify(metadata));
     },
@@ -2,7 +2,16 @@ import type { Socket } from 'socket.io';
 import {
   serializeGameState,
   deserializeGameState,
+  getWinner,
+  getTradeParticipants,
+  getFinalStandings,
+  isAwaitingBid,
+  redactAuction,
+  redactGameState,
   TurnState,
+  GameEventType,
+  type GameState,
+  type RoomMetadata,
   type ClientToServerEvents,
   type ServerToClientEvents,
   type InterServerEvents,
@@ -13,13 +22,20 @@ import type { RedisClient } from '../redis/client';
 import * as RoomManager from '../game/room-manager';
 import * as GameManager from '../game/game-manager';
 import * as Reconnection from '../game/reconnection';
+import * as BotManager from '../game/bot-manager';
+import { listBoards } from '../game/board-registry';
 import {
   startTurnTimer,
   pauseTurnTimer,
   resumeTurnTimer,
+  getTimerRemaining,
   shouldPauseForState,
 } from '../game/turn-timer';
+import { scheduleGameClock, cancelGameClock } from '../game/game-clock';
+import { startAuctionCountdown, stopAuctionCountdown } from '../game/auction-timer';
+import { scheduleTradeExpiry, cancelTradeExpiry } from '../game/trade-expiry';
 import { recordLatency } from '../metrics/latency-tracker';
+import type { ActionResult } from '../game/game-manager';
 
 type AppSocket = Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
 
@@ -38,6 +54,7 @@ export function registerSocketHandlers(io: AppIO, socket: AppSocket, redis: Redi
         settings.playerName,
         settings.maxPlayers,
         settings.startingCash,
+        settings.houseRules,
       );
 
       socket.data.roomCode = room.roomCode;
@@ -137,12 +154,15 @@ export function registerSocketHandlers(io: AppIO, socket: AppSocket, redis: Redi
 
       // Persist game state
       await redis.saveGameState(state.gameId, serializeGameState(state));
+      await GameManager.startReplay(redis, state, room.board);
 
       // Broadcast to all players
       io.to(data.roomCode).emit('gameStarted', state);
 
       // Start turn timer
       startTurnTimerForRoom(io, redis, data.roomCode, state);
+      startGameClockForRoom(io, redis, room, state);
+      scheduleBotsForRoom(io, redis, room, state);
 
       callback({ ok: true });
     } catch (err) {
@@ -174,6 +194,66 @@ export function registerSocketHandlers(io: AppIO, socket: AppSocket, redis: Redi
     }
   });
 
+  socket.on('addBot', async (data, callback) => {
+    try {
+      const playerId = socket.data.playerId ?? socket.id;
+      const { player } = await RoomManager.addBot(redis, data.roomCode, playerId, data.strategy);
+
+      io.to(data.roomCode).emit('playerJoined', player);
+      callback({ ok: true, player });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to add bot';
+      callback({ ok: false, error: message });
+    }
+  });
+
+  socket.on('removeBot', async (data, callback) => {
+    try {
+      const playerId = socket.data.playerId ?? socket.id;
+      const room = await RoomManager.removeBot(redis, data.roomCode, playerId, data.botId);
+
+      io.to(data.roomCode).emit('playerLeft', { playerId: data.botId });
+      io.to(data.roomCode).emit('roomUpdated', room);
+      callback({ ok: true });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to remove bot';
+      callback({ ok: false, error: message });
+    }
+  });
+
+  socket.on('updateHouseRules', async (data, callback) => {
+    try {
+      const playerId = socket.data.playerId ?? socket.id;
+      const room = await RoomManager.updateHouseRules(redis, data.roomCode, playerId, data.rules);
+
+      io.to(data.roomCode).emit('roomUpdated', room);
+      callback({ ok: true });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to update house rules';
+      callback({ ok: false, error: message });
+    }
+  });
+
+  socket.on('listBoards', (callback) => {
+    callback({ ok: true, boards: listBoards() });
+  });
+
+  socket.on('selectBoard', async (data, callback) => {
+    try {
+      const playerId = socket.data.playerId ?? socket.id;
+      const room = await RoomManager.selectBoard(redis, data.roomCode, playerId, {
+        boardId: data.boardId,
+        board: data.board,
+      });
+
+      io.to(data.roomCode).emit('roomUpdated', room);
+      callback({ ok: true });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to choose the board';
+      callback({ ok: false, error: message });
+    }
+  });
+
   // --- Chat ---
 
   socket.on('chatMessage', async (data, callback) => {
@@ -241,69 +321,31 @@ export function registerSocketHandlers(io: AppIO, socket: AppSocket, redis: Redi
     const actionStart = Date.now();
     try {
       const playerId = socket.data.playerId ?? socket.id;
-      const room = await redis.loadRoomMetadata(data.roomCode);
+      let room = await redis.loadRoomMetadata(data.roomCode);
       if (!room || !room.gameId) {
         callback({ ok: false, error: 'No active game' });
         return;
       }
+      const { gameId } = room;
 
-      const result = await GameManager.processAction(redis, room.gameId, playerId, data.action);
+      // Acting again takes the seat back from the caretaker bot
+      if (room.players.some((p) => p.id === playerId && p.caretaker)) {
+        room = (await setCaretakerForRoom(io, redis, data.roomCode, playerId, false)) ?? room;
+      }
+
+      const result = await GameManager.processAction(redis, gameId, playerId, data.action);
 
       if (!result.ok) {
-        socket.emit('actionError', { message: result.error ?? 'Action failed' });
-        callback({ ok: false, error: result.error });
+        socket.emit('actionError', { message: result.error ?? 'Action failed', code: result.code });
+        callback({ ok: false, error: result.error, code: result.code });
         return;
       }
 
-      // Broadcast updated state
-      if (result.state) {
-        io.to(data.roomCode).emit('stateUpdate', result.state);
-
-        const latencyMs = Date.now() - actionStart;
-        recordLatency(latencyMs);
-        console.log(JSON.stringify({ event: 'stateUpdate', latencyMs }));
-
-        // Check for game over
-        if (result.state.status === 'finished') {
-          const { getWinner, calculateNetWorth } = await import('@monopoly/shared');
-          const winnerId = getWinner(result.state);
-          if (winnerId) {
-            const standings = result.state.players.map((p, _idx) => {
-              const netWorth = p.isBankrupt ? 0 : calculateNetWorth(result.state!, p.id);
-              return {
-                playerId: p.id,
-                playerName: p.name,
-                position: p.id === winnerId ? 1 : 0,
-                netWorth,
-                eliminationOrder: p.isBankrupt ? 1 : 0,
-              };
-            });
-            // Sort: winner first, then by net worth descending
-            standings.sort((a, b) => {
-              if (a.playerId === winnerId) return -1;
-              if (b.playerId === winnerId) return 1;
-              return b.netWorth - a.netWorth;
-            });
-            standings.forEach((s, i) => {
-              s.position = i + 1;
-            });
-
-            io.to(data.roomCode).emit('gameOver', { winnerId, standings });
-
-            // Update room status
-            const roomMeta = await redis.loadRoomMetadata(data.roomCode);
-            if (roomMeta) {
-              roomMeta.status = 'finished';
-              await redis.saveRoomMetadata(data.roomCode, roomMeta);
-            }
-          }
-        }
+      await broadcastActionResult(io, redis, room, result);
 
-        // Handle turn timer based on new state
-        if (result.state.status !== 'finished') {
-          handleTurnTimerUpdate(io, redis, data.roomCode, result.state);
-        }
-      }
+      const latencyMs = Date.now() - actionStart;
+      recordLatency(latencyMs);
+      console.log(JSON.stringify({ event: 'stateUpdate', latencyMs }));
 
       callback({ ok: true });
     } catch (err) {
@@ -355,8 +397,17 @@ export function registerSocketHandlers(io: AppIO, socket: AppSocket, redis: Redi
       if (wasDisconnected) {
         socket.to(data.roomCode).emit('playerReconnected', { playerId: data.playerId });
       }
+      // Seat may have been returned from the caretaker bot
+      const reconnectedPlayer = room.players.find((p) => p.id === data.playerId);
+      if (reconnectedPlayer) {
+        socket.to(data.roomCode).emit('playerUpdated', reconnectedPlayer);
+      }
 
-      callback({ ok: true, room, gameState });
+      callback({
+        ok: true,
+        room,
+        gameState: gameState && redactGameState(gameState, data.playerId),
+      });
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Reconnection failed';
       callback({ ok: false, error: message });
@@ -369,23 +420,18 @@ export function registerSocketHandlers(io: AppIO, socket: AppSocket, redis: Redi
     const { roomCode, playerId } = socket.data;
     if (!roomCode || !playerId) return;
 
+    passAbsentBidder(io, redis, roomCode, playerId).catch(
+      logFailure('absentBidderPassFailed', roomCode),
+    );
     Reconnection.handleDisconnect(io, redis, roomCode, playerId, {
       gracePeriodSeconds: 120,
       onPermanentDisconnect: async (rc, pid) => {
-        // If game is in progress, handle auto-action for disconnected player
-        const room = await redis.loadRoomMetadata(rc);
+        // The caretaker bot plays the seat until the player reconnects
+        const room = await setCaretakerForRoom(io, redis, rc, pid, true);
         if (room?.gameId) {
           const raw = await redis.loadGameState(room.gameId);
           if (raw) {
-            const state = deserializeGameState(raw);
-            const activePlayer = state.players[state.currentPlayerIndex];
-            if (activePlayer?.id === pid) {
-              // Auto-end their turn
-              const newState = GameManager.autoEndTurnForPlayer(state);
-              await redis.saveGameState(room.gameId, serializeGameState(newState));
-              io.to(rc).emit('stateUpdate', newState);
-              startTurnTimerForRoom(io, redis, rc, newState);
-            }
+            scheduleBotsForRoom(io, redis, room, deserializeGameState(raw));
           }
         }
       },
@@ -393,13 +439,106 @@ export function registerSocketHandlers(io: AppIO, socket: AppSocket, redis: Redi
   });
 }
 
+// --- Action broadcast / bots ---
+
+async function broadcastActionResult(
+  io: AppIO,
+  redis: RedisClient,
+  room: RoomMetadata,
+  result: ActionResult,
+): Promise<void> {
+  const { roomCode } = room;
+  for (const event of result.events ?? []) {
+    io.to(roomCode).emit('gameEvent', event);
+  }
+
+  // Broadcast updated state
+  if (!result.state) return;
+  await emitStateUpdate(io, roomCode, result.state);
+  await notifyCancelledTrades(io, roomCode, result);
+
+  // Check for game over
+  if (result.state.status === 'finished') {
+    cancelGameClock(roomCode);
+    stopAuctionCountdown(roomCode);
+    cancelTradeExpiry(roomCode);
+    const winnerId = getWinner(result.state);
+    if (winnerId) {
+      io.to(roomCode).emit('gameOver', { winnerId, standings: getFinalStandings(result.state) });
+
+      // Update room status
+      const roomMeta = await redis.loadRoomMetadata(roomCode);
+      if (roomMeta) {
+        roomMeta.status = 'finished';
+        await redis.saveRoomMetadata(roomCode, roomMeta);
+      }
+    }
+  }
+
+  // Handle turn timer based on new state
+  if (result.state.status !== 'finished') {
+    handleTurnTimerUpdate(io, redis, roomCode, result.state);
+    handleAuctionUpdate(io, redis, room, result.state);
+    handleTradeExpiry(io, redis, room, result.state);
+  }
+
+  scheduleBotsForRoom(io, redis, room, result.state);
+}
+
+// Sealed bids stay hidden, so while one is open each socket is sent the state
+// as its own player may see it
+async function emitStateUpdate(io: AppIO, roomCode: string, state: GameState): Promise<void> {
+  if (!state.auction?.sealed) {
+    io.to(roomCode).emit('stateUpdate', state);
+    return;
+  }
+  for (const socket of await io.in(roomCode).fetchSockets()) {
+    socket.emit('stateUpdate', redactGameState(state, socket.data.playerId ?? null));
+  }
+}
+
+async function setCaretakerForRoom(
+  io: AppIO,
+  redis: RedisClient,
+  roomCode: string,
+  playerId: string,
+  caretaker: boolean,
+): Promise<RoomMetadata | null> {
+  const room = await RoomManager.setCaretaker(redis, roomCode, playerId, caretaker);
+  const player = room?.players.find((p) => p.id === playerId);
+  if (player) {
+    io.to(roomCode).emit('playerUpdated', player);
+  }
+  return room;
+}
+
+// Bot moves go through the same broadcast path as human actions
+function scheduleBotsForRoom(
+  io: AppIO,
+  redis: RedisClient,
+  room: RoomMetadata,
+  state: GameState,
+): void {
+  BotManager.scheduleBotMove(redis, room, state, (botRoom, result) =>
+    broadcastActionResult(io, redis, botRoom, result),
+  );
+}
+
+// Logs a timer or background task that failed, as no client is waiting on it
+function logFailure(event: string, roomCode: string): (err: unknown) => void {
+  return (err) => {
+    const error = err instanceof Error ? err.message : String(err);
+    console.error(JSON.stringify({ event, roomCode, error }));
+  };
+}
+
 // --- Turn timer helpers ---
 
 function startTurnTimerForRoom(
   io: AppIO,
   redis: RedisClient,
   roomCode: string,
-  state: import('@monopoly/shared').GameState,
+  state: GameState,
 ): void {
   const duration = state.settings.turnTimeLimit;
   if (duration <= 0) return;
@@ -415,32 +554,66 @@ function startTurnTimerForRoom(
     const raw = await redis.loadGameState(room.gameId);
     if (!raw) return;
 
-    let currentState = deserializeGameState(raw);
+    const currentState = deserializeGameState(raw);
 
-    if (currentState.turnState === TurnState.WaitingForRoll) {
-      currentState = GameManager.autoRollForPlayer(currentState);
+    // A player who has dropped hands the seat to the caretaker bot, which
+    // resolves whatever the turn is waiting on
+    const activeId = currentState.players[currentState.currentPlayerIndex].id;
+    if (RoomManager.shouldCaretakeTimedOutSeat(room, activeId)) {
+      const caretakerRoom = await setCaretakerForRoom(io, redis, roomCode, activeId, true);
+      if (caretakerRoom) {
+        const moved = await BotManager.playBotMove(redis, roomCode, (botRoom, result) =>
+          broadcastActionResult(io, redis, botRoom, result),
+        );
+        if (moved) return;
+      }
     }
 
-    if (
-      currentState.turnState === TurnState.PlayerAction ||
-      currentState.turnState === TurnState.AwaitingBuyDecision
-    ) {
-      currentState = GameManager.autoEndTurnForPlayer(currentState);
-    }
+    // Otherwise play the turn on for them with the actions they would have sent
+    const result = await GameManager.processTurnTimeout(redis, room.gameId);
+    if (!result.ok || !result.state) return;
+    await broadcastActionResult(io, redis, room, result);
+  });
+}
 
-    await redis.saveGameState(room.gameId, serializeGameState(currentState));
-    io.to(roomCode).emit('stateUpdate', currentState);
+// --- Game clock helpers ---
 
-    // Restart timer for next player
-    startTurnTimerForRoom(io, redis, roomCode, currentState);
+function startGameClockForRoom(
+  io: AppIO,
+  redis: RedisClient,
+  room: RoomMetadata,
+  state: GameState,
+): void {
+  if (!state.gameClock) return;
+
+  scheduleGameClock(room.roomCode, state.gameClock.endsAt, () => {
+    announceClockExpiry(io, redis, room, state.gameId).catch(
+      logFailure('gameClockExpiryFailed', room.roomCode),
+    );
   });
 }
 
+async function announceClockExpiry(
+  io: AppIO,
+  redis: RedisClient,
+  room: RoomMetadata,
+  gameId: string,
+): Promise<void> {
+  const result = await GameManager.expireGameClock(redis, gameId);
+  if (!result.ok || !result.state) return;
+
+  // Only the final round is announced; the turn and its timer carry on
+  for (const event of result.events ?? []) {
+    io.to(room.roomCode).emit('gameEvent', event);
+  }
+  await emitStateUpdate(io, room.roomCode, result.state);
+}
+
 function handleTurnTimerUpdate(
   io: AppIO,
   redis: RedisClient,
   roomCode: string,
-  state: import('@monopoly/shared').GameState,
+  state: GameState,
 ): void {
   // Pause during auctions and trades
   if (shouldPauseForState(state.turnState)) {
@@ -454,6 +627,120 @@ function handleTurnTimerUpdate(
     return;
   }
 
-  // Resume if was paused
+  // Resume if was paused, or start afresh if the last one ran out mid-turn
+  if (getTimerRemaining(roomCode) === null) {
+    startTurnTimerForRoom(io, redis, roomCode, state);
+    return;
+  }
   resumeTurnTimer(roomCode);
 }
+
+// --- Trade helpers ---
+
+// Both sides of a trade that was called off hear why, whoever's action broke it
+async function notifyCancelledTrades(
+  io: AppIO,
+  roomCode: string,
+  result: ActionResult,
+): Promise<void> {
+  const cancelled = (result.events ?? [])
+    .filter((e) => e.type === GameEventType.TradeCancelled)
+    .map((e) => result.state?.tradeHistory?.find((t) => t.id === e.payload.tradeId))
+    .filter((trade) => trade !== undefined);
+  if (cancelled.length === 0) return;
+
+  const sockets = await io.in(roomCode).fetchSockets();
+  for (const trade of cancelled) {
+    for (const socket of sockets) {
+      const playerId = socket.data.playerId;
+      if (playerId && getTradeParticipants(trade).includes(playerId)) {
+        socket.emit('tradeCancelled', trade);
+      }
+    }
+  }
+}
+
+function handleTradeExpiry(
+  io: AppIO,
+  redis: RedisClient,
+  room: RoomMetadata,
+  state: GameState,
+): void {
+  scheduleTradeExpiry(room.roomCode, state.pendingTrades ?? [], () => {
+    callOffExpiredTrades(io, redis, room, state.gameId).catch(
+      logFailure('tradeExpiryFailed', room.roomCode),
+    );
+  });
+}
+
+async function callOffExpiredTrades(
+  io: AppIO,
+  redis: RedisClient,
+  room: RoomMetadata,
+  gameId: string,
+): Promise<void> {
+  const result = await GameManager.expireTrades(redis, gameId);
+  if (result.ok) await broadcastActionResult(io, redis, room, result);
+}
+
+// --- Auction helpers ---
+
+function handleAuctionUpdate(
+  io: AppIO,
+  redis: RedisClient,
+  room: RoomMetadata,
+  state: GameState,
+): void {
+  const { auction } = state;
+  if (!auction) {
+    stopAuctionCountdown(room.roomCode);
+    return;
+  }
+
+  startAuctionCountdown(room.roomCode, redactAuction(auction, null), io, () => {
+    closeExpiredAuction(io, redis, room, state.gameId).catch(
+      logFailure('auctionExpiryFailed', room.roomCode),
+    );
+  });
+
+  // Disconnected players can't hold the bidding open; seats the caretaker bot
+  // plays bid as usual, and a standing high bid is left in place
+  const absent = room.players.find(
+    (p) => !p.isConnected && !p.isBot && !p.caretaker && isAwaitingBid(auction, p.id),
+  );
+  if (absent) {
+    passAbsentBidder(io, redis, room.roomCode, absent.id).catch(
+      logFailure('absentBidderPassFailed', room.roomCode),
+    );
+  }
+}
+
+async function closeExpiredAuction(
+  io: AppIO,
+  redis: RedisClient,
+  room: RoomMetadata,
+  gameId: string,
+): Promise<void> {
+  const result = await GameManager.expireAuction(redis, gameId);
+  if (result.ok) await broadcastActionResult(io, redis, room, result);
+}
+
+// Passes for a bidder who has gone away. Each pass is broadcast like any other
+// action, which in turn passes the next absent bidder.
+async function passAbsentBidder(
+  io: AppIO,
+  redis: RedisClient,
+  roomCode: string,
+  playerId: string,
+): Promise<void> {
+  const room = await redis.loadRoomMetadata(roomCode);
+  if (!room?.gameId) return;
+  const raw = await redis.loadGameState(room.gameId);
+  const auction = raw ? deserializeGameState(raw).auction : null;
+  if (!auction || !isAwaitingBid(auction, playerId)) return;
+
+  const result = await GameManager.processAction(redis, room.gameId, playerId, {
+    type: 'AuctionPass',
+  });
+  if (result.ok) await broadcastActionResult(io, redis, room, result);
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { applyGameAction } from '../../engine/reducer';
+import { createInitialGameState, type PlayerSetup } from '../../engine/state';
+import { GameEventType } from '../../types/gameEvent';
+import { TurnState } from '../../types/turn';
+import type { GameState } from '../../types/gameState';
+
+const players: PlayerSetup[] = [
+  { id: 'p1', name: 'Alice' },
+  { id: 'p2', name: 'Bob' },
+  { id: 'p3', name: 'Carol' },
+];
+
+function newGame(auctionEnabled = true) {
+  const state = createInitialGameState(players, {
+    gameId: 'queue-game',
+    settings: { seed: 5, auctionEnabled },
+  });
+  state.players[0].properties = [1, 3, 5];
+  state.propertyStates = { 3: { houses: 2, mortgaged: false }, 5: { houses: 0, mortgaged: true } };
+  return state;
+}
+
+function act(state: GameState, playerId: string, action: Parameters<typeof applyGameAction>[2]) {
+  const result = applyGameAction(state, playerId, action);
+  expect(result.error).toBeUndefined();
+  return result;
+}
+
+describe('bankruptcy auction queue', () => {
+  it('auctions the first returned property straight after a bankruptcy to the bank', () => {
+    const { state, events } = act(newGame(), 'p1', {
+      type: 'DeclareBankruptcy',
+      creditorId: 'bank',
+    });
+
+    expect(state.turnState).toBe(TurnState.Auction);
+    expect(state.auction?.propertyId).toBe(1);
+    expect(state.auction?.eligiblePlayers).toEqual(['p2', 'p3']);
+    expect(state.auctionQueue).toEqual([3, 5]);
+    expect(state.currentPlayerIndex).toBe(1);
+    expect(events.at(-1)).toMatchObject({
+      type: GameEventType.AuctionStarted,
+      payload: { propertyId: 1, queued: 2 },
+    });
+  });
+
+  it('moves through the queue and resumes the turn once it is empty', () => {
+    let { state } = act(newGame(), 'p1', { type: 'DeclareBankruptcy', creditorId: 'bank' });
+
+    ({ state } = act(state, 'p2', { type: 'AuctionBid', amount: 50 }));
+    ({ state } = act(state, 'p3', { type: 'AuctionPass' }));
+    expect(state.players[1].properties).toContain(1);
+    expect(state.players[1].cash).toBe(1450);
+    expect(state.auction?.propertyId).toBe(3);
+    expect(state.turnState).toBe(TurnState.Auction);
+
+    ({ state } = act(state, 'p2', { type: 'AuctionPass' }));
+    ({ state } = act(state, 'p3', { type: 'AuctionBid', amount: 20 }));
+    expect(state.players[2].properties).toContain(3);
+    expect(state.auction?.propertyId).toBe(5);
+    // Returned properties come back without buildings or mortgages
+    expect(state.propertyStates?.[5]).toEqual({ houses: 0, mortgaged: false });
+
+    ({ state } = act(state, 'p2', { type: 'AuctionPass' }));
+    const last = act(state, 'p3', { type: 'AuctionPass' });
+
+    expect(last.state.auction).toBeNull();
+    expect(last.state.auctionQueue).toBeNull();
+    expect(last.state.turnState).toBe(TurnState.WaitingForRoll);
+    expect(last.state.players.some((p) => p.properties.includes(5))).toBe(false);
+    expect(act(last.state, 'p2', { type: 'RollDice' }).state.lastDiceResult).not.toBeNull();
+  });
+
+  it('blocks rolling until the queued auctions are done', () => {
+    const { state } = act(newGame(), 'p1', { type: 'DeclareBankruptcy', creditorId: 'bank' });
+    const roll = applyGameAction(state, 'p2', { type: 'RollDice' });
+    expect(roll.error?.message).toMatch(/Invalid action 'RollDice' in state 'Auction'/);
+  });
+
+  it('leaves the properties unowned when auctions are disabled', () => {
+    const { state } = act(newGame(false), 'p1', { type: 'DeclareBankruptcy', creditorId: 'bank' });
+    expect(state.auctionQueue).toBeUndefined();
+    expect(state.auction).toBeNull();
+    expect(state.turnState).toBe(TurnState.WaitingForRoll);
+  });
+
+  it('does not queue anything when the creditor is a player', () => {
+    const { state } = act(newGame(), 'p1', { type: 'DeclareBankruptcy', creditorId: 'p2' });
+    expect(state.auctionQueue).toBeUndefined();
+    expect(state.players[1].properties).toEqual([1, 3, 5]);
+  });
+});
@@ -0,0 +1,251 @@
+import { describe, it, expect } from 'vitest';
+import { applyGameAction, expireAuction } from '../../engine/reducer';
+import { applyReplayStep } from '../../engine/replay';
+import {
+  getCurrentBidder,
+  getMinimumBid,
+  redactGameState,
+  startAuction,
+} from '../../engine/properties';
+import { createInitialGameState, type PlayerSetup } from '../../engine/state';
+import { decideAction, pendingDeciders } from '../../simulation/decisions';
+import { aggressiveStrategy } from '../../simulation/strategies';
+import { GameEventType } from '../../types/gameEvent';
+import type { GameAction } from '../../types/gameAction';
+import type { GameSettings } from '../../types/gameSettings';
+import type { GameState } from '../../types/gameState';
+import { TurnState } from '../../types/turn';
+
+const players: PlayerSetup[] = [
+  { id: 'p1', name: 'Alice' },
+  { id: 'p2', name: 'Bob' },
+  { id: 'p3', name: 'Carol' },
+];
+
+const START = 1_000_000;
+
+// Baltic Avenue up for auction after the active player declined it
+function auctionGame(settings: Partial<GameSettings> = {}, activeIndex = 0) {
+  const state = createInitialGameState(players, {
+    gameId: 'auction-game',
+    settings: { seed: 3, ...settings },
+  });
+  state.currentPlayerIndex = activeIndex;
+  state.turnState = TurnState.Auction;
+  startAuction(state, 3, START);
+  return state;
+}
+
+function act(state: GameState, playerId: string, action: GameAction, now = START) {
+  const result = applyGameAction(state, playerId, action, { now });
+  expect(result.error).toBeUndefined();
+  return result.state;
+}
+
+describe('auction rules', () => {
+  it('makes every bid raise the high bid by the minimum increment', () => {
+    let state = auctionGame({ minBidIncrement: 10 });
+    expect(getMinimumBid(state)).toBe(10);
+    expect(applyGameAction(state, 'p1', { type: 'AuctionBid', amount: 5 }).error?.message).toBe(
+      'Bid $5 must be at least $10',
+    );
+
+    state = act(state, 'p1', { type: 'AuctionBid', amount: 40 });
+    expect(getMinimumBid(state)).toBe(50);
+    expect(applyGameAction(state, 'p2', { type: 'AuctionBid', amount: 45 }).error).toBeDefined();
+    expect(act(state, 'p2', { type: 'AuctionBid', amount: 50 }).auction?.highBid).toBe(50);
+  });
+
+  it('only takes bids in whole amounts', () => {
+    for (const sealedBidAuctions of [false, true]) {
+      const state = auctionGame({ sealedBidAuctions });
+      expect(
+        applyGameAction(state, 'p1', { type: 'AuctionBid', amount: 40.5 }).error?.message,
+      ).toBe('Bids must be whole numbers');
+    }
+  });
+
+  it('restarts the countdown on every bid', () => {
+    let state = auctionGame({ auctionTimeLimit: 10 });
+    expect(state.auction?.deadline).toBe(START + 10_000);
+
+    state = act(state, 'p2', { type: 'AuctionBid', amount: 20 }, START + 7000);
+    expect(state.auction?.deadline).toBe(START + 17_000);
+
+    // Passing doesn't buy anyone more time
+    state = act(state, 'p3', { type: 'AuctionPass' }, START + 9000);
+    expect(state.auction?.deadline).toBe(START + 17_000);
+  });
+
+  it('leaves the auction untimed when the countdown is off', () => {
+    const state = auctionGame({ auctionTimeLimit: 0 });
+    expect(state.auction?.deadline).toBeNull();
+    expect(expireAuction(state, { now: START + 60_000 }).error?.message).toBe(
+      'Auction has no countdown',
+    );
+  });
+
+  it('sells to the high bidder once the countdown runs out', () => {
+    let state = auctionGame({ auctionTimeLimit: 10 });
+    state = act(state, 'p2', { type: 'AuctionBid', amount: 60 }, START + 2000);
+
+    expect(expireAuction(state, { now: START + 11_000 }).error?.message).toBe(
+      'Auction countdown has not run out',
+    );
+
+    const { state: next, events } = expireAuction(state, { now: START + 12_000 });
+    expect(next.auction).toBeNull();
+    expect(next.turnState).toBe(TurnState.PlayerAction);
+    expect(next.players[1].properties).toContain(3);
+    expect(next.players[1].cash).toBe(1440);
+    expect(events.map((e) => e.type)).toEqual([
+      GameEventType.AuctionBid,
+      GameEventType.AuctionBid,
+      GameEventType.AuctionEnded,
+    ]);
+    expect(events[0].payload).toEqual({ playerId: 'p1', passed: true, timedOut: true });
+    expect(events[2].payload).toEqual({ propertyId: 3, winnerId: 'p2', winningBid: 60 });
+  });
+
+  it('leaves the property with the bank when nobody bid before time ran out', () => {
+    const { state } = expireAuction(auctionGame({ auctionTimeLimit: 10 }), {
+      now: START + 10_000,
+    });
+    expect(state.auction).toBeNull();
+    expect(state.players.some((p) => p.properties.includes(3))).toBe(false);
+  });
+
+  describe('round-robin bidding', () => {
+    it('opens with the player whose turn it is and goes round the table', () => {
+      let state = auctionGame({ auctionRoundRobin: true }, 1);
+      expect(getCurrentBidder(state)).toBe('p2');
+
+      const outOfTurn = applyGameAction(state, 'p3', { type: 'AuctionBid', amount: 10 });
+      expect(outOfTurn.error?.message).toBe('Waiting for Bob to bid');
+
+      state = act(state, 'p2', { type: 'AuctionBid', amount: 10 });
+      expect(getCurrentBidder(state)).toBe('p3');
+      state = act(state, 'p3', { type: 'AuctionPass' });
+      expect(getCurrentBidder(state)).toBe('p1');
+      state = act(state, 'p1', { type: 'AuctionBid', amount: 20 });
+      // Carol has passed, so the bidding comes straight back to Bob
+      expect(getCurrentBidder(state)).toBe('p2');
+    });
+
+    it('skips the high bidder and lets others pass out of turn', () => {
+      let state = auctionGame({ auctionRoundRobin: true });
+      state = act(state, 'p1', { type: 'AuctionBid', amount: 10 });
+      state = act(state, 'p3', { type: 'AuctionPass' });
+      expect(getCurrentBidder(state)).toBe('p2');
+
+      state = act(state, 'p2', { type: 'AuctionPass' });
+      expect(state.auction).toBeNull();
+      expect(state.players[0].properties).toContain(3);
+    });
+
+    it('passes only the player due to bid when their time runs out', () => {
+      let state = auctionGame({ auctionRoundRobin: true, auctionTimeLimit: 10 });
+      state = act(state, 'p1', { type: 'AuctionBid', amount: 10 }, START + 1000);
+
+      const { state: next, events } = expireAuction(state, { now: START + 11_000 });
+      expect(events).toHaveLength(1);
+      expect(next.auction?.passedPlayers).toEqual(['p2']);
+      expect(getCurrentBidder(next)).toBe('p3');
+      expect(next.auction?.deadline).toBe(START + 21_000);
+    });
+
+    it('only asks the player due to bid for a decision', () => {
+      const state = auctionGame({ auctionRoundRobin: true }, 2);
+      expect(pendingDeciders(state)).toEqual(['p3']);
+      expect(decideAction(state, 'p1', aggressiveStrategy)).toBeNull();
+      expect(decideAction(state, 'p3', aggressiveStrategy)?.action.type).toBe('AuctionBid');
+    });
+  });
+
+  describe('sealed bids', () => {
+    const sealed = (settings: Partial<GameSettings> = {}, activeIndex = 0) =>
+      auctionGame({ sealedBidAuctions: true, auctionTimeLimit: 30, ...settings }, activeIndex);
+
+    it('takes one hidden bid from each player and reveals them together', () => {
+      let state = sealed();
+      const first = applyGameAction(
+        state,
+        'p2',
+        { type: 'AuctionBid', amount: 80 },
+        { now: START },
+      );
+      expect(first.events[0].payload).toEqual({ playerId: 'p2', passed: false, sealed: true });
+      state = first.state;
+      expect(state.auction?.highBid).toBe(0);
+      // The window doesn't stretch for each bid
+      expect(state.auction?.deadline).toBe(START + 30_000);
+
+      expect(applyGameAction(state, 'p2', { type: 'AuctionBid', amount: 90 }).error?.message).toBe(
+        'Player p2 has already bid',
+      );
+
+      state = act(state, 'p1', { type: 'AuctionBid', amount: 60 });
+      const { state: done, events } = applyGameAction(state, 'p3', { type: 'AuctionPass' });
+      expect(done.auction).toBeNull();
+      expect(done.players[1].properties).toContain(3);
+      expect(done.players[1].cash).toBe(1420);
+      expect(events.at(-1)?.payload).toEqual({
+        propertyId: 3,
+        winnerId: 'p2',
+        winningBid: 80,
+        bids: { p2: 80, p1: 60 },
+      });
+    });
+
+    it('breaks a tie in turn order from the player whose turn it is', () => {
+      let state = sealed({}, 2);
+      state = act(state, 'p1', { type: 'AuctionBid', amount: 70 });
+      state = act(state, 'p2', { type: 'AuctionBid', amount: 70 });
+      state = act(state, 'p3', { type: 'AuctionBid', amount: 50 });
+      // Carol's turn, so Alice sits ahead of Bob
+      expect(state.players[0].properties).toContain(3);
+      expect(state.players[1].properties).not.toContain(3);
+    });
+
+    it('closes the window with whatever bids are in', () => {
+      let state = sealed();
+      state = act(state, 'p3', { type: 'AuctionBid', amount: 40 });
+      const { state: next, events } = expireAuction(state, { now: START + 30_000 });
+      expect(next.players[2].properties).toContain(3);
+      expect(events.filter((e) => e.type === GameEventType.AuctionBid)).toHaveLength(2);
+    });
+
+    it('shows each player only their own bid', () => {
+      let state = sealed();
+      state = act(state, 'p1', { type: 'AuctionBid', amount: 60 });
+      state = act(state, 'p2', { type: 'AuctionBid', amount: 75 });
+
+      expect(redactGameState(state, 'p1').auction?.sealedBids).toEqual({ p1: 60, p2: null });
+      expect(redactGameState(state, null).auction?.sealedBids).toEqual({ p1: null, p2: null });
+      expect(JSON.stringify(redactGameState(state, 'p3').auction)).not.toMatch(/75/);
+      // The stored state keeps every bid
+      expect(state.auction?.sealedBids).toEqual({ p1: 60, p2: 75 });
+    });
+
+    it('has scripted players bid their limit once', () => {
+      const state = sealed();
+      expect(decideAction(state, 'p1', aggressiveStrategy)?.action).toEqual({
+        type: 'AuctionBid',
+        amount: 60,
+      });
+      const afterBid = act(state, 'p1', { type: 'AuctionBid', amount: 60 });
+      expect(decideAction(afterBid, 'p1', aggressiveStrategy)).toBeNull();
+      expect(pendingDeciders(afterBid)).toEqual(['p2', 'p3']);
+    });
+  });
+
+  it('replays an auction closed by its countdown', () => {
+    const state = act(auctionGame({ auctionTimeLimit: 10 }), 'p3', {
+      type: 'AuctionBid',
+      amount: 25,
+    });
+    const next = applyReplayStep(state, { type: 'auctionExpired', timestamp: START + 10_000 });
+    expect(next.players[2].properties).toContain(3);
+    expect(next.auction).toBeNull();
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect } from 'vitest';
 import {
   canPlayerAfford,
   calculateLiquidationValue,
@@ -6,11 +6,14 @@ import {
   getWinner,
   calculateNetWorth,
   determineTimedGameWinner,
+  resolveInheritedMortgage,
 } from '../../engine/bankruptcy';
-import { setPropertyState, resetPropertyStates } from '../../engine/spaces';
-import { initBuildingSupply, resetBuildingSupply } from '../../engine/properties';
+import { applyGameAction } from '../../engine/reducer';
+import { setPropertyState } from '../../engine/spaces';
+import { initBuildingSupply } from '../../engine/properties';
 import { createInitialGameState, type PlayerSetup } from '../../engine/state';
 import type { GameState } from '../../types/gameState';
+import { TurnState } from '../../types/turn';
 
 const players: PlayerSetup[] = [
   { id: 'p1', name: 'Alice' },
@@ -25,11 +28,6 @@ function makeState(): GameState {
 }
 
 describe('Step 1A.9 — Bankruptcy & Endgame', () => {
-  beforeEach(() => {
-    resetPropertyStates('test-bankruptcy');
-    resetBuildingSupply('test-bankruptcy');
-  });
-
   describe('canPlayerAfford', () => {
     it('P1A.S9.T1: checks cash + liquidation value', () => {
       const state = makeState();
@@ -95,6 +93,115 @@ describe('Step 1A.9 — Bankruptcy & Endgame', () => {
     });
   });
 
+  describe('inherited mortgages', () => {
+    function inherited(): GameState {
+      const state = makeState();
+      state.players[0].properties = [3, 6, 39];
+      setPropertyState(state, { spaceId: 3, houses: 0, mortgaged: true });
+      setPropertyState(state, { spaceId: 6, houses: 0, mortgaged: false });
+      setPropertyState(state, { spaceId: 39, houses: 0, mortgaged: true });
+      return declareBankruptcy(state, 'p1', 'p2');
+    }
+
+    it('lists every inherited mortgaged property for the creditor', () => {
+      expect(inherited().pendingInheritance).toEqual({ creditorId: 'p2', propertyIds: [3, 39] });
+    });
+
+    it('unmortgages at the usual cost or charges 10% interest to keep the mortgage', () => {
+      let state = resolveInheritedMortgage(inherited(), 'p2', 39, true);
+      expect(state.players[1].cash).toBe(2780); // $3000 after the transfer, less $220 to unmortgage
+      expect(state.propertyStates?.[39]?.mortgaged).toBe(false);
+      expect(state.pendingInheritance).toEqual({ creditorId: 'p2', propertyIds: [3] });
+
+      state = resolveInheritedMortgage(state, 'p2', 3, false);
+      expect(state.players[1].cash).toBe(2777); // $3 interest on a $30 mortgage
+      expect(state.propertyStates?.[3]?.mortgaged).toBe(true);
+      expect(state.pendingInheritance).toBeNull();
+    });
+
+    it("won't let a creditor keep a mortgage they can't pay the interest on", () => {
+      const state = inherited();
+      state.players[1].cash = 2;
+      expect(() => resolveInheritedMortgage(state, 'p2', 3, false)).toThrow(
+        'Cannot afford mortgage interest $3 (has $2)',
+      );
+      expect(state.pendingInheritance).toEqual({ creditorId: 'p2', propertyIds: [3, 39] });
+    });
+
+    it('only lets the creditor settle properties they inherited', () => {
+      expect(() => resolveInheritedMortgage(inherited(), 'p3', 3, false)).toThrow(
+        'Only the creditor can settle inherited mortgages',
+      );
+      expect(() => resolveInheritedMortgage(inherited(), 'p2', 6, false)).toThrow(
+        'Property 6 is not an inherited mortgage',
+      );
+    });
+
+    it('holds the game until the creditor has decided', () => {
+      const { state } = applyGameAction(makeState(), 'p1', {
+        type: 'DeclareBankruptcy',
+        creditorId: 'p2',
+      });
+      state.players[1].properties.push(3);
+      setPropertyState(state, { spaceId: 3, houses: 0, mortgaged: true });
+      state.pendingInheritance = { creditorId: 'p2', propertyIds: [3] };
+
+      const blocked = applyGameAction(state, 'p2', { type: 'RollDice' });
+      expect(blocked.error?.message).toBe('Waiting for Bob to settle inherited mortgages');
+
+      const kept = applyGameAction(state, 'p2', { type: 'KeepInheritedMortgage', propertyId: 3 });
+      expect(kept.error).toBeUndefined();
+      expect(kept.events.at(-1)?.payload).toEqual({ playerId: 'p2', propertyId: 3, amount: 3 });
+      expect(applyGameAction(kept.state, 'p2', { type: 'RollDice' }).error).toBeUndefined();
+    });
+
+    // p1 went bankrupt to p3, who has $2 against $3 interest; p2 is up next
+    function shortCreditor(): GameState {
+      const { state } = applyGameAction(makeState(), 'p1', {
+        type: 'DeclareBankruptcy',
+        creditorId: 'p3',
+      });
+      state.players[2].cash = 2;
+      state.players[2].properties.push(3, 6);
+      setPropertyState(state, { spaceId: 3, houses: 0, mortgaged: true });
+      state.pendingInheritance = { creditorId: 'p3', propertyIds: [3] };
+      return state;
+    }
+
+    it("lets a creditor who can't pay the interest mortgage to raise it", () => {
+      const mortgaged = applyGameAction(shortCreditor(), 'p3', {
+        type: 'MortgageProperty',
+        propertyId: 6,
+      });
+      expect(mortgaged.error).toBeUndefined();
+      expect(mortgaged.state.players[2].cash).toBe(52);
+      expect(mortgaged.state.turnState).toBe(TurnState.WaitingForRoll);
+      expect(applyGameAction(mortgaged.state, 'p2', { type: 'RollDice' }).error?.message).toBe(
+        'Waiting for Charlie to settle inherited mortgages',
+      );
+
+      const kept = applyGameAction(mortgaged.state, 'p3', {
+        type: 'KeepInheritedMortgage',
+        propertyId: 3,
+      });
+      expect(kept.error).toBeUndefined();
+      expect(kept.state.players[2].cash).toBe(49);
+      expect(applyGameAction(kept.state, 'p2', { type: 'RollDice' }).error).toBeUndefined();
+    });
+
+    it("lets a creditor who can't pay go bankrupt to the bank and moves the game on", () => {
+      const { state, error } = applyGameAction(shortCreditor(), 'p3', {
+        type: 'DeclareBankruptcy',
+        creditorId: 'p1',
+      });
+      expect(error).toBeUndefined();
+      expect(state.players[2].isBankrupt).toBe(true);
+      expect(state.players[2].properties).toEqual([]);
+      expect(state.pendingInheritance).toBeNull();
+      expect(state.status).toBe('finished');
+    });
+  });
+
   describe('declareBankruptcy to bank', () => {
     it('P1A.S9.T5: properties go unowned, ready for auction', () => {
       const state = makeState();
@@ -0,0 +1,264 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CLASSIC_BOARD,
+  getColorGroupColor,
+  getCurrencySymbol,
+  validateBoardDefinition,
+} from '../../engine/boards';
+import { applyMovement } from '../../engine/dice';
+import { applyGameAction } from '../../engine/reducer';
+import { createReplay, createReplayInitialState } from '../../engine/replay';
+import { resolveSpace, setPropertyState } from '../../engine/spaces';
+import { createInitialGameState, getJailPosition, type PlayerSetup } from '../../engine/state';
+import type { BoardDefinition } from '../../types/board';
+import type { Card } from '../../types/card';
+import { SpaceType, type Space } from '../../types/space';
+
+const players: PlayerSetup[] = [
+  { id: 'p1', name: 'Alice' },
+  { id: 'p2', name: 'Bob' },
+];
+
+const roll = (total: number) => ({ die1: 1, die2: total - 1, total, isDoubles: false });
+
+function street(position: number, name: string, colorGroup: string): Space {
+  return {
+    id: position,
+    name,
+    type: SpaceType.Property,
+    position,
+    colorGroup,
+    cost: 100,
+    rentTiers: [10, 50, 150, 450, 625, 750],
+    mortgageValue: 50,
+    houseCost: 50,
+  };
+}
+
+function corner(position: number, name: string): Space {
+  return { id: position, name, type: SpaceType.Corner, position };
+}
+
+// A 12-space board: three spaces between each corner
+function testBoard(): BoardDefinition {
+  return {
+    id: 'test-city',
+    name: 'Test City',
+    currencySymbol: '€',
+    colorGroups: [
+      { id: 'harbour', name: 'Harbour', color: '#00796b' },
+      { id: 'oldTown', name: 'Old Town', color: '#6d4c41' },
+    ],
+    spaces: [
+      corner(0, 'Start'),
+      street(1, 'Quay Street', 'harbour'),
+      { id: 2, name: 'Chance', type: SpaceType.Chance, position: 2 },
+      corner(3, 'Jail'),
+      street(4, 'Dock Road', 'harbour'),
+      {
+        id: 5,
+        name: 'Ferry',
+        type: SpaceType.Railroad,
+        position: 5,
+        cost: 150,
+        rentTiers: [40],
+        mortgageValue: 75,
+        icon: '⛴️',
+      },
+      corner(6, 'Free Parking'),
+      street(7, 'Market Square', 'oldTown'),
+      { id: 8, name: 'City Tax', type: SpaceType.Tax, position: 8, taxAmount: 75 },
+      corner(9, 'Go To Jail'),
+      street(10, 'Castle Hill', 'oldTown'),
+      street(11, 'Cathedral Close', 'oldTown'),
+    ],
+    decks: {
+      chance: [
+        {
+          id: 'c1',
+          deck: 'chance',
+          text: 'Take the ferry.',
+          effect: { type: 'advanceNearestRailroad' },
+        },
+        {
+          id: 'c2',
+          deck: 'chance',
+          text: 'Go back two spaces.',
+          effect: { type: 'moveBack', spaces: 2 },
+        },
+      ],
+      communityChest: [],
+    },
+  };
+}
+
+function newGame(board = testBoard()) {
+  return createInitialGameState(players, { gameId: 'board-game', settings: { seed: 5 }, board });
+}
+
+describe('board definitions', () => {
+  it('accepts the classic board and the test board', () => {
+    expect(validateBoardDefinition(CLASSIC_BOARD)).toBeNull();
+    expect(validateBoardDefinition(testBoard())).toBeNull();
+  });
+
+  it('starts a game with the edition, its spaces and its decks', () => {
+    const state = newGame();
+    expect(state.board).toHaveLength(12);
+    expect(state.edition).toEqual({
+      id: 'test-city',
+      name: 'Test City',
+      currencySymbol: '€',
+      colorGroups: testBoard().colorGroups,
+    });
+    expect(state.decks.chance.map((c) => c.id).sort()).toEqual(['c1', 'c2']);
+    expect(getCurrencySymbol(state)).toBe('€');
+    expect(getColorGroupColor(state, 'oldTown')).toBe('#6d4c41');
+  });
+
+  it('falls back to the classic edition for older games', () => {
+    const state = createInitialGameState(players, { settings: { seed: 5 } });
+    delete state.edition;
+    expect(getCurrencySymbol(state)).toBe('$');
+    expect(getColorGroupColor(state, 'darkBlue')).toBe('#1565c0');
+  });
+
+  it('moves around a smaller board and jails at its corners', () => {
+    const state = newGame();
+    state.players[0].position = 10;
+    const moved = applyMovement(state, 'p1', roll(4)).state;
+    expect(moved.players[0].position).toBe(2);
+    expect(moved.players[0].cash).toBe(1700);
+
+    moved.players[0].position = 9;
+    expect(resolveSpace(moved, 'p1', roll(4)).type).toBe('goToJail');
+    expect(getJailPosition(moved)).toBe(3);
+  });
+
+  it('charges rent from the space rent tiers', () => {
+    const state = newGame();
+    state.players[1].properties = [5];
+    setPropertyState(state, { spaceId: 5, houses: 0, mortgaged: false });
+    state.players[0].position = 5;
+    expect(resolveSpace(state, 'p1', roll(5))).toMatchObject({
+      type: 'rentPayment',
+      rentAmount: 40,
+    });
+  });
+
+  it('replays a game played on a custom board', () => {
+    const board = testBoard();
+    const state = newGame(board);
+    const replay = createReplay(state, board);
+    expect(createReplayInitialState(replay).decks).toEqual(state.decks);
+
+    const { state: after } = applyGameAction(state, 'p1', { type: 'RollDice' }, { now: 1 });
+    expect(after.players[0].position).toBeLessThan(12);
+  });
+
+  describe('validateBoardDefinition', () => {
+    function withChange(change: (board: BoardDefinition) => void): string | null {
+      const board = testBoard();
+      change(board);
+      return validateBoardDefinition(board);
+    }
+
+    it('rejects boards of the wrong size or shape', () => {
+      expect(validateBoardDefinition(null)).toBe('Board definition must be an object');
+      expect(withChange((b) => b.spaces.pop())).toBe(
+        'Board must have a multiple of 4 spaces between 12 and 60',
+      );
+      expect(withChange((b) => (b.spaces[4] = { ...b.spaces[4], position: 5 }))).toBe(
+        'Space 4 must have id and position 4',
+      );
+      expect(withChange((b) => (b.spaces[6] = street(6, 'Park Lane', 'oldTown')))).toBe(
+        'Corners must be at spaces 0, 3, 6, 9 and nowhere else',
+      );
+    });
+
+    it('rejects bad spaces and color groups', () => {
+      expect(withChange((b) => (b.spaces[1].colorGroup = 'purple'))).toBe(
+        "Space 1 has unknown color group 'purple'",
+      );
+      expect(withChange((b) => (b.spaces[1].rentTiers = [10, 50]))).toBe(
+        'Space 1 needs six rent tiers (base, 1-4 houses, hotel)',
+      );
+      expect(withChange((b) => (b.colorGroups[0].color = 'teal'))).toBe(
+        "Color group 'harbour' needs a hex color like #8b4513",
+      );
+      expect(
+        withChange((b) => b.colorGroups.push({ id: 'empty', name: 'Empty', color: '#000000' })),
+      ).toBe("Color group 'empty' needs 2-3 streets, not 0");
+      expect(
+        withChange((b) => {
+          b.spaces[7].colorGroup = 'harbour';
+          b.spaces[10].colorGroup = 'harbour';
+        }),
+      ).toBe("Color group 'harbour' needs 2-3 streets, not 4");
+      expect(withChange((b) => (b.currencySymbol = ''))).toBe(
+        'Currency symbol must be 1-4 characters',
+      );
+    });
+
+    it('rejects cards that do not fit the board', () => {
+      expect(withChange((b) => (b.decks.chance[1].effect = { type: 'move', position: 12 }))).toBe(
+        "Card 'c2' moves to a space that is not on the board",
+      );
+      expect(withChange((b) => (b.decks.chance[1].id = 'c1'))).toBe("Card 'c1' is defined twice");
+      expect(withChange((b) => (b.decks.chance = []))).toBe(
+        'The chance deck is empty but the board has chance spaces',
+      );
+      expect(
+        withChange((b) => {
+          for (const card of b.decks.chance) card.effect = { type: 'goojf' };
+        }),
+      ).toBe('The chance deck needs a card other than Get Out of Jail Free');
+      expect(
+        withChange((b) => (b.decks.chance[0].effect = { type: 'advanceNearestUtility' })),
+      ).toBe("Card 'c1' needs a utility on the board");
+    });
+
+    it('checks the richer effects and effect sequences', () => {
+      const setEffect = (effect: Card['effect']) =>
+        withChange((b) => (b.decks.chance[1].effect = effect));
+
+      expect(setEffect({ type: 'advanceNearestColor', colorGroup: 'harbour' })).toBeNull();
+      expect(setEffect({ type: 'advanceNearestColor', colorGroup: 'pink' })).toBe(
+        "Card 'c2' needs a 'pink' property on the board",
+      );
+      expect(setEffect({ type: 'payPercentOfCash', percent: 120 })).toBe(
+        "Card 'c2' needs a percentage between 1 and 100",
+      );
+      expect(setEffect({ type: 'swapPositions', target: 'banker' as never })).toBe(
+        "Card 'c2' must swap with nextPlayer, richestPlayer, poorestPlayer",
+      );
+      expect(
+        setEffect({
+          type: 'sequence',
+          effects: [{ type: 'allPayFreeParking', amount: 10 }, { type: 'freeHouse' }],
+        }),
+      ).toBeNull();
+      expect(setEffect({ type: 'sequence', effects: [{ type: 'jail' }] })).toBe(
+        "Card 'c2' needs at least two effects in its sequence",
+      );
+      expect(
+        setEffect({
+          type: 'sequence',
+          effects: [{ type: 'jail' }, { type: 'moveBack', spaces: 2 }],
+        }),
+      ).toBe("Card 'c2' can move the player at most once");
+      expect(
+        setEffect({ type: 'sequence', effects: [{ type: 'goojf' }, { type: 'freeHouse' }] }),
+      ).toBe("Card 'c2' cannot keep a card as one of several effects");
+      expect(
+        setEffect({
+          type: 'sequence',
+          effects: [
+            { type: 'freeHouse' },
+            { type: 'sequence', effects: [{ type: 'freeHouse' }, { type: 'freeHouse' }] },
+          ],
+        }),
+      ).toBe("Card 'c2' cannot nest effect sequences");
+    });
+  });
+});
@@ -1,6 +1,6 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect } from 'vitest';
 import { createDeck, drawCard, returnCardToDeck, applyCardEffect } from '../../engine/cards';
-import { setPropertyState, resetPropertyStates } from '../../engine/spaces';
+import { getPropertyState, setPropertyState } from '../../engine/spaces';
 import { createInitialGameState, type PlayerSetup } from '../../engine/state';
 import type { Card } from '../../types/card';
 import type { GameState } from '../../types/gameState';
@@ -21,10 +21,6 @@ function makeState(): GameState {
 const defaultDice: DiceResult = { die1: 4, die2: 4, total: 8, isDoubles: true };
 
 describe('Step 1A.5 — Card System', () => {
-  beforeEach(() => {
-    resetPropertyStates('test-cards');
-  });
-
   describe('createDeck', () => {
     it('P1A.S5.T1: deck has 16 cards, order differs from input', () => {
       const cards = chanceCardsData as Card[];
@@ -183,6 +179,20 @@ describe('Step 1A.5 — Card System', () => {
       expect(result.state.players[3].cash).toBe(1450);
     });
 
+    it('collects from each player only what they have', () => {
+      const state = makeState();
+      state.players[1].cash = 20;
+      state.players[2].cash = -5;
+      const card: Card = {
+        id: 'test',
+        deck: 'communityChest',
+        text: 'Birthday',
+        effect: { type: 'collectFromAll', amount: 50 },
+      };
+      const result = applyCardEffect(state, 'p1', card);
+      expect(result.state.players.map((p) => p.cash)).toEqual([1570, 0, -5, 1450]);
+    });
+
     it('P1A.S5.T11: Pay each player $X', () => {
       const state = makeState();
       const card: Card = {
@@ -490,4 +500,210 @@ describe('Step 1A.5 — Card System', () => {
       expect(result.state.players[0].cash).toBe(1500 - 20);
     });
   });
+
+  describe('richer card effects', () => {
+    function card(effect: Card['effect']): Card {
+      return { id: 'test', deck: 'chance', text: 'Test card', effect };
+    }
+
+    it('advances to the nearest property of a color and resolves it', () => {
+      const state = makeState();
+      state.players[0].position = 36;
+      state.players[1].properties = [11];
+      setPropertyState(state, { spaceId: 11, houses: 0, mortgaged: false });
+
+      const result = applyCardEffect(
+        state,
+        'p1',
+        card({ type: 'advanceNearestColor', colorGroup: 'pink' }),
+      );
+      expect(result.state.players[0].position).toBe(11);
+      expect(result.passedGo).toBe(true);
+      expect(result.spaceResolution).toMatchObject({ type: 'rentPayment', rentAmount: 10 });
+      expect(result.state.players[0].cash).toBe(1500 + 200 - 10);
+
+      state.players[0].position = 12;
+      const unowned = applyCardEffect(
+        state,
+        'p1',
+        card({ type: 'advanceNearestColor', colorGroup: 'pink' }),
+      );
+      expect(unowned.movedToPosition).toBe(13);
+      expect(unowned.needsBuyDecision).toBe(true);
+    });
+
+    it('pays or collects per property owned', () => {
+      const state = makeState();
+      state.players[0].properties = [1, 3, 5];
+      expect(
+        applyCardEffect(state, 'p1', card({ type: 'cashPerProperty', amount: 20 })).state.players[0]
+          .cash,
+      ).toBe(1560);
+
+      state.settings.freeParking = 'houserule';
+      const paid = applyCardEffect(state, 'p1', card({ type: 'cashPerProperty', amount: -10 }));
+      expect(paid.state.players[0].cash).toBe(1470);
+      expect(paid.state.freeParkingPot).toBe(30);
+    });
+
+    it('swaps positions with the chosen player, skipping anyone in jail', () => {
+      const state = makeState();
+      state.players.forEach((p, i) => (p.position = i * 5));
+      state.players[1].jailStatus = { inJail: true, turnsInJail: 0 };
+      state.players[3].cash = 2000;
+      state.players[2].cash = 100;
+
+      const next = applyCardEffect(
+        state,
+        'p1',
+        card({ type: 'swapPositions', target: 'nextPlayer' }),
+      );
+      expect(next.swappedWithPlayerId).toBe('p3');
+      expect(next.state.players.map((p) => p.position)).toEqual([10, 5, 0, 15]);
+      expect(next.state.players[0].cash).toBe(1500);
+
+      const richest = applyCardEffect(
+        state,
+        'p1',
+        card({ type: 'swapPositions', target: 'richestPlayer' }),
+      );
+      expect(richest.swappedWithPlayerId).toBe('p4');
+      expect(richest.movedToPosition).toBe(15);
+
+      const poorest = applyCardEffect(
+        state,
+        'p4',
+        card({ type: 'swapPositions', target: 'poorestPlayer' }),
+      );
+      expect(poorest.swappedWithPlayerId).toBe('p3');
+    });
+
+    it('makes every player pay into Free Parking', () => {
+      const state = makeState();
+      state.settings.freeParking = 'houserule';
+      state.players[3].isBankrupt = true;
+
+      const result = applyCardEffect(state, 'p1', card({ type: 'allPayFreeParking', amount: 25 }));
+      expect(result.state.players.map((p) => p.cash)).toEqual([1475, 1475, 1475, 1500]);
+      expect(result.state.freeParkingPot).toBe(75);
+    });
+
+    it('lets other players pay only what they have into Free Parking', () => {
+      const state = makeState();
+      state.settings.freeParking = 'houserule';
+      state.players[0].cash = 10;
+      state.players[1].cash = 10;
+      state.players[2].cash = -5;
+
+      const result = applyCardEffect(state, 'p1', card({ type: 'allPayFreeParking', amount: 25 }));
+      // The drawer still pays in full and raises funds on their turn
+      expect(result.state.players.map((p) => p.cash)).toEqual([-15, 0, -5, 1475]);
+      expect(result.state.freeParkingPot).toBe(60);
+    });
+
+    it('pays a percentage of cash, rounded down', () => {
+      const state = makeState();
+      state.players[0].cash = 1234;
+      const result = applyCardEffect(state, 'p1', card({ type: 'payPercentOfCash', percent: 10 }));
+      expect(result.state.players[0].cash).toBe(1234 - 123);
+    });
+
+    it('builds a free house on the first street where one can be built', () => {
+      const state = makeState();
+      state.players[0].properties = [5, 6, 8, 9];
+      for (const spaceId of [6, 8, 9])
+        setPropertyState(state, { spaceId, houses: 0, mortgaged: false });
+      setPropertyState(state, { spaceId: 6, houses: 1, mortgaged: false });
+      state.players[0].cash = 0;
+
+      const result = applyCardEffect(state, 'p1', card({ type: 'freeHouse' }));
+      expect(result.freeHouseSpaceId).toBe(8);
+      expect(getPropertyState(result.state, 8)?.houses).toBe(1);
+      expect(result.state.players[0].cash).toBe(0);
+      expect(result.state.buildingSupply?.houses).toBe((state.buildingSupply?.houses ?? 32) - 1);
+
+      const nothing = applyCardEffect(state, 'p2', card({ type: 'freeHouse' }));
+      expect(nothing.freeHouseSpaceId).toBeUndefined();
+      expect(nothing.state).toEqual(state);
+    });
+
+    it('applies a sequence of effects in order', () => {
+      const state = makeState();
+      state.players[0].position = 30;
+      const result = applyCardEffect(
+        state,
+        'p1',
+        card({
+          type: 'sequence',
+          effects: [
+            { type: 'cash', amount: -50 },
+            { type: 'move', position: 0 },
+            { type: 'payPercentOfCash', percent: 50 },
+          ],
+        }),
+      );
+      expect(result.movedToPosition).toBe(0);
+      expect(result.passedGo).toBe(true);
+      // 1500 - 50 + 200 = 1650, then half of it
+      expect(result.state.players[0].cash).toBe(825);
+    });
+
+    it('keeps the buy decision from a move when a payment follows it', () => {
+      const state = makeState();
+      state.players[0].position = 7;
+      const result = applyCardEffect(
+        state,
+        'p1',
+        card({
+          type: 'sequence',
+          effects: [
+            { type: 'move', position: 39 },
+            { type: 'cash', amount: -50 },
+          ],
+        }),
+      );
+      expect(result.movedToPosition).toBe(39);
+      expect(result.needsBuyDecision).toBe(true);
+      expect(result.spaceResolution?.type).toBe('unownedProperty');
+      expect(result.state.players[0].cash).toBe(1450);
+    });
+
+    it('takes the rent owed from a move that follows a payment', () => {
+      const state = makeState();
+      state.players[0].position = 7;
+      state.players[1].properties = [39];
+      setPropertyState(state, { spaceId: 39, houses: 0, mortgaged: false });
+      const result = applyCardEffect(
+        state,
+        'p1',
+        card({
+          type: 'sequence',
+          effects: [
+            { type: 'cash', amount: -50 },
+            { type: 'move', position: 39 },
+          ],
+        }),
+      );
+      expect(result.needsBuyDecision).toBeUndefined();
+      expect(result.spaceResolution).toMatchObject({ type: 'rentPayment', rentAmount: 50 });
+      expect(result.state.players[0].cash).toBe(1400);
+      expect(result.state.players[1].cash).toBe(1550);
+    });
+
+    it('drops a buy decision left behind when a later step moves the player again', () => {
+      const state = makeState();
+      state.players[0].position = 7;
+      const result = applyCardEffect(
+        state,
+        'p1',
+        card({
+          type: 'sequence',
+          effects: [{ type: 'move', position: 39 }, { type: 'jail' }],
+        }),
+      );
+      expect(result.sentToJail).toBe(true);
+      expect(result.needsBuyDecision).toBeUndefined();
+      expect(result.spaceResolution).toBeUndefined();
+    });
+  });
 });
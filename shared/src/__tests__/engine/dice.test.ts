@@ -1,11 +1,10 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect } from 'vitest';
 import {
   rollDice,
   calculateNewPosition,
   didPassGo,
   applyMovement,
   getConsecutiveDoubles,
-  resetDoublesTracker,
   type DiceResult,
 } from '../../engine/dice';
 import { createInitialGameState, type PlayerSetup } from '../../engine/state';
@@ -16,10 +15,6 @@ const players: PlayerSetup[] = [
 ];
 
 describe('Step 1A.3 — Dice & Movement', () => {
-  beforeEach(() => {
-    resetDoublesTracker('test-game');
-  });
-
   describe('rollDice', () => {
     it('P1A.S3.T1: all die values 1-6, total correct, isDoubles correct', () => {
       const results: DiceResult[] = [];
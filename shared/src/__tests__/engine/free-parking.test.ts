@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { applyCardEffect } from '../../engine/cards';
+import { payJailFine, sendToJail } from '../../engine/jail';
+import { applyGameAction } from '../../engine/reducer';
+import { createInitialGameState, type PlayerSetup } from '../../engine/state';
+import { GameEventType } from '../../types/gameEvent';
+import type { Card } from '../../types/card';
+import type { GameSettings } from '../../types/gameSettings';
+
+const players: PlayerSetup[] = [
+  { id: 'p1', name: 'Alice' },
+  { id: 'p2', name: 'Bob' },
+];
+
+// Seed 3 rolls a 4: Go onto Income Tax, or Tennessee Avenue onto Free Parking
+function newGame(freeParking: GameSettings['freeParking'] = 'houserule') {
+  return createInitialGameState(players, {
+    gameId: 'pot-game',
+    settings: { seed: 3, freeParking },
+  });
+}
+
+const hospitalFees: Card = {
+  id: 'test',
+  deck: 'communityChest',
+  text: 'Hospital fees $100',
+  effect: { type: 'cash', amount: -100 },
+};
+
+describe('Free Parking jackpot', () => {
+  it('collects taxes into the pot', () => {
+    const { state } = applyGameAction(newGame(), 'p1', { type: 'RollDice' });
+    expect(state.players[0].position).toBe(4);
+    expect(state.players[0].cash).toBe(1300);
+    expect(state.freeParkingPot).toBe(200);
+  });
+
+  it('collects jail fines and card payments into the pot', () => {
+    let state = sendToJail(newGame(), 'p1');
+    state = payJailFine(state, 'p1');
+    state = applyCardEffect(state, 'p1', hospitalFees).state;
+    expect(state.freeParkingPot).toBe(150);
+  });
+
+  it('leaves the pot untouched under the classic rules', () => {
+    const { state } = applyGameAction(newGame('classic'), 'p1', { type: 'RollDice' });
+    expect(state.players[0].cash).toBe(1300);
+    expect(state.freeParkingPot).toBeUndefined();
+
+    const carded = applyCardEffect(newGame('classic'), 'p1', hospitalFees).state;
+    expect(carded.freeParkingPot).toBeUndefined();
+  });
+
+  it('pays the pot to the player who lands on Free Parking', () => {
+    const game = newGame();
+    game.players[0].position = 16;
+    game.freeParkingPot = 350;
+
+    const { state, events } = applyGameAction(game, 'p1', { type: 'RollDice' });
+    expect(state.players[0].position).toBe(20);
+    expect(state.players[0].cash).toBe(1850);
+    expect(state.freeParkingPot).toBe(0);
+    expect(state.lastResolution).toMatchObject({ type: 'freeParking', amount: 350 });
+    expect(events).toContainEqual(
+      expect.objectContaining({
+        type: GameEventType.FreeParkingJackpot,
+        payload: { playerId: 'p1', amount: 350 },
+      }),
+    );
+  });
+
+  it('pays nothing extra on Free Parking under the classic rules', () => {
+    const game = newGame('classic');
+    game.players[0].position = 16;
+
+    const { state, events } = applyGameAction(game, 'p1', { type: 'RollDice' });
+    expect(state.players[0].cash).toBe(1500);
+    expect(events.some((e) => e.type === GameEventType.FreeParkingJackpot)).toBe(false);
+  });
+});
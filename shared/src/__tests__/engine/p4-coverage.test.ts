@@ -1,11 +1,10 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import {
   calculateNewPosition,
   didPassGo,
   applyMovement,
   getConsecutiveDoubles,
   setConsecutiveDoubles,
-  resetDoublesTracker,
   type DiceResult,
 } from '../../engine/dice';
 import {
@@ -15,7 +14,6 @@ import {
   calculateUtilityRent,
   calculateStreetRent,
   setPropertyState,
-  resetPropertyStates,
   getPropertyOwnership,
   getPropertyState,
   ownsAllInColorGroup,
@@ -38,7 +36,6 @@ import {
   unmortgageProperty,
   getBuildingSupply,
   setBuildingSupply,
-  resetBuildingSupply,
   initBuildingSupply,
 } from '../../engine/properties';
 import {
@@ -48,7 +45,6 @@ import {
   counterTrade,
   storeTrade,
   getTrade,
-  resetTrades,
 } from '../../engine/trading';
 import { sendToJail, payJailFine, useJailCard, rollInJail } from '../../engine/jail';
 import {
@@ -125,10 +121,6 @@ const diceNonDoubles: DiceResult = { die1: 3, die2: 5, total: 8, isDoubles: fals
 // ─────────────────────────────────────────────────────────────────────
 
 describe('P4.S12.T1 — dice.ts 100% branch coverage', () => {
-  beforeEach(() => {
-    resetDoublesTracker('cov-test');
-  });
-
   it('getConsecutiveDoubles returns 0 when gameMap exists but player not tracked', () => {
     const state = make2();
     // Set doubles for p1 so game map is initialized
@@ -157,11 +149,6 @@ describe('P4.S12.T1 — dice.ts 100% branch coverage', () => {
 });
 
 describe('P4.S12.T1 — spaces.ts 100% branch coverage', () => {
-  beforeEach(() => {
-    resetPropertyStates('cov-test');
-    resetBuildingSupply('cov-test');
-  });
-
   it('resolveSpace for Go space returns noAction', () => {
     const state = make2();
     state.players[0].position = 0;
@@ -217,11 +204,6 @@ describe('P4.S12.T1 — spaces.ts 100% branch coverage', () => {
 // ─────────────────────────────────────────────────────────────────────
 
 describe('P4.S12.T2 — All 32 cards exercised', () => {
-  beforeEach(() => {
-    resetPropertyStates('cov-test');
-    resetBuildingSupply('cov-test');
-  });
-
   it('Chance deck has exactly 16 cards', () => {
     const cards = chanceCardsData as Card[];
     expect(cards).toHaveLength(16);
@@ -376,11 +358,6 @@ describe('P4.S12.T2 — All 32 cards exercised', () => {
 // ─────────────────────────────────────────────────────────────────────
 
 describe('P4.S12.T3 — Property edge cases', () => {
-  beforeEach(() => {
-    resetPropertyStates('cov-test');
-    resetBuildingSupply('cov-test');
-  });
-
   it('auction with no bids: property remains unowned', () => {
     const state = make3();
     startAuction(state, 3);
@@ -577,11 +554,6 @@ describe('P4.S12.T3 — Property edge cases', () => {
 // ─────────────────────────────────────────────────────────────────────
 
 describe('P4.S12.T4 — Trading edge cases', () => {
-  beforeEach(() => {
-    resetPropertyStates('cov-test');
-    resetTrades();
-  });
-
   it('counterTrade creates new offer with swapped roles, original marked countered', () => {
     const state = make2();
     state.players[0].properties = [3];
@@ -597,9 +569,9 @@ describe('P4.S12.T4 — Trading edge cases', () => {
       requestedCash: 0,
       requestedCards: 0,
     });
-    storeTrade(original);
+    storeTrade(state, original);
 
-    const { trade: counter } = counterTrade(state, original.id, {
+    const { state: counterState, trade: counter } = counterTrade(state, original.id, {
       offeredProperties: [6],
       offeredCash: 0,
       offeredCards: 0,
@@ -614,7 +586,7 @@ describe('P4.S12.T4 — Trading edge cases', () => {
     expect(counter.status).toBe('pending');
 
     // Original marked as countered
-    const orig = getTrade(original.id);
+    const orig = getTrade(counterState, original.id);
     expect(orig?.status).toBe('countered');
   });
 
@@ -691,9 +663,9 @@ describe('P4.S12.T4 — Trading edge cases', () => {
       requestedCash: 0,
       requestedCards: 0,
     });
-    storeTrade(trade);
-    rejectTrade(state, trade.id); // Now rejected
-    expect(() => acceptTrade(state, trade.id)).toThrow('not pending');
+    storeTrade(state, trade);
+    const rejected = rejectTrade(state, trade.id); // Now rejected
+    expect(() => acceptTrade(rejected, trade.id)).toThrow('not pending');
   });
 
   it('rejectTrade throws for non-existent trade', () => {
@@ -732,10 +704,6 @@ describe('P4.S12.T4 — Trading edge cases', () => {
 // ─────────────────────────────────────────────────────────────────────
 
 describe('P4.S12.T5 — Jail GOOJF card return', () => {
-  beforeEach(() => {
-    resetPropertyStates('cov-test');
-  });
-
   it('useJailCard with Chance GOOJF: card returned to Chance deck', () => {
     const state = make2();
     // Player draws Chance GOOJF
@@ -839,11 +807,6 @@ describe('P4.S12.T5 — Jail GOOJF card return', () => {
 // ─────────────────────────────────────────────────────────────────────
 
 describe('P4.S12.T6 — Go and nearest railroad edge cases', () => {
-  beforeEach(() => {
-    resetPropertyStates('cov-test');
-    resetDoublesTracker('cov-test');
-  });
-
   it('landing on Go exactly awards $200', () => {
     const state = make2();
     state.players[0].position = 35;
@@ -922,10 +885,6 @@ describe('P4.S12.T6 — Go and nearest railroad edge cases', () => {
 // ─────────────────────────────────────────────────────────────────────
 
 describe('P4.S12.T7 — Nearest utility edge cases', () => {
-  beforeEach(() => {
-    resetPropertyStates('cov-test');
-  });
-
   const utilCard: Card = {
     id: 'util',
     deck: 'chance',
@@ -1003,10 +962,6 @@ describe('P4.S12.T7 — Nearest utility edge cases', () => {
 // ─────────────────────────────────────────────────────────────────────
 
 describe('P4.S12.T8 — Reading Railroad trip from pos 36', () => {
-  beforeEach(() => {
-    resetPropertyStates('cov-test');
-  });
-
   it('Take a trip to Reading Railroad from pos 36: passes Go, collects $200, then resolves railroad', () => {
     const state = make2();
     state.players[0].position = 36;
@@ -1049,10 +1004,6 @@ describe('P4.S12.T8 — Reading Railroad trip from pos 36', () => {
 // ─────────────────────────────────────────────────────────────────────
 
 describe('P4.S12.T9 — Card chain effects', () => {
-  beforeEach(() => {
-    resetPropertyStates('cov-test');
-  });
-
   it('Go Back 3 from pos 36 (Chance) → lands on CC pos 33 → triggers CC draw', () => {
     const state = make2();
     state.players[0].position = 36;
@@ -1104,10 +1055,6 @@ describe('P4.S12.T9 — Card chain effects', () => {
 // ─────────────────────────────────────────────────────────────────────
 
 describe('P4.S12.T10 — Repairs rates: CC vs Chance', () => {
-  beforeEach(() => {
-    resetPropertyStates('cov-test');
-  });
-
   it('Chance repairs: $25/house, $100/hotel', () => {
     const state = make4();
     state.players[0].properties = [1, 3, 11];
@@ -1164,11 +1111,6 @@ describe('P4.S12.T10 — Repairs rates: CC vs Chance', () => {
 // ─────────────────────────────────────────────────────────────────────
 
 describe('P4.S12.T11 — Building with limited supply', () => {
-  beforeEach(() => {
-    resetPropertyStates('cov-test');
-    resetBuildingSupply('cov-test');
-  });
-
   it('only 1 house left: one player builds, other is blocked', () => {
     const state = make2();
     // Both players have monopolies
@@ -1198,11 +1140,6 @@ describe('P4.S12.T11 — Building with limited supply', () => {
 // ─────────────────────────────────────────────────────────────────────
 
 describe('P4.S12.T12 — Decliner wins own auction', () => {
-  beforeEach(() => {
-    resetPropertyStates('cov-test');
-    resetBuildingSupply('cov-test');
-  });
-
   it('declining player bids and wins the auction at a lower price', () => {
     const state = make3();
     // p1 lands on Baltic ($60) but declines to buy
@@ -1238,11 +1175,6 @@ describe('P4.S12.T12 — Decliner wins own auction', () => {
 // ─────────────────────────────────────────────────────────────────────
 
 describe('Bankruptcy coverage gaps', () => {
-  beforeEach(() => {
-    resetPropertyStates('cov-test');
-    resetBuildingSupply('cov-test');
-  });
-
   it('getWinner returns null for non-finished game', () => {
     const state = make2();
     expect(state.status).toBe('playing');
@@ -1635,12 +1567,6 @@ describe('TurnStateMachine coverage gaps', () => {
 // ─────────────────────────────────────────────────────────────────────
 
 describe('Remaining branch coverage targets', () => {
-  beforeEach(() => {
-    resetPropertyStates('cov-test');
-    resetBuildingSupply('cov-test');
-    resetTrades();
-  });
-
   // state.ts line 37: custom startingCash setting
   it('createInitialGameState with custom startingCash', () => {
     const state = createInitialGameState(twoPlayers, {
@@ -1874,7 +1800,7 @@ describe('Remaining branch coverage targets', () => {
       requestedCash: 0,
       requestedCards: 0,
     });
-    storeTrade(trade);
+    storeTrade(state, trade);
 
     const newState = acceptTrade(state, trade.id);
     expect(newState.players[1].properties).toContain(3);
@@ -2300,11 +2226,6 @@ describe('Remaining branch coverage targets', () => {
 // ─────────────────────────────────────────────────────────────────────
 
 describe('Synthetic data coverage — ?? fallback branches', () => {
-  beforeEach(() => {
-    resetPropertyStates('cov-test');
-    resetBuildingSupply('cov-test');
-  });
-
   // properties.ts line 61: space.cost ?? 0 in buyProperty
   it('buyProperty with undefined cost defaults to 0', () => {
     const state = make2();
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { applyGameAction } from '../../engine/reducer';
+import { isActionOpen } from '../../engine/permissions';
+import { createInitialGameState, type PlayerSetup } from '../../engine/state';
+import { setPropertyState } from '../../engine/spaces';
+import type { GameAction } from '../../types/gameAction';
+import type { GameSettings } from '../../types/gameSettings';
+import type { GameState } from '../../types/gameState';
+import { TurnState } from '../../types/turn';
+
+const players: PlayerSetup[] = [
+  { id: 'p1', name: 'Alice' },
+  { id: 'p2', name: 'Bob' },
+  { id: 'p3', name: 'Carol' },
+];
+
+const mediterraneanForCash: GameAction = {
+  type: 'ProposeTrade',
+  recipientId: 'p1',
+  offer: {
+    offeredProperties: [],
+    offeredCash: 100,
+    offeredCards: 0,
+    requestedProperties: [1],
+    requestedCash: 0,
+    requestedCards: 0,
+  },
+};
+
+// Alice's turn, with Mediterranean Avenue hers to trade
+function newGame(turnState = TurnState.PlayerAction, settings: Partial<GameSettings> = {}) {
+  const state = createInitialGameState(players, {
+    gameId: 'permissions-game',
+    settings: { seed: 5, ...settings },
+  });
+  state.turnState = turnState;
+  state.players[0].properties = [1];
+  setPropertyState(state, { spaceId: 1, houses: 0, mortgaged: false });
+  return state;
+}
+
+function act(state: GameState, playerId: string, action: GameAction): GameState {
+  const result = applyGameAction(state, playerId, action);
+  expect(result.error).toBeUndefined();
+  return result.state;
+}
+
+describe('action permissions', () => {
+  it('refuses players who are not in the game', () => {
+    const state = newGame(TurnState.Auction);
+    expect(applyGameAction(state, 'stranger', { type: 'AuctionPass' }).error).toEqual({
+      code: 'NOT_A_PLAYER',
+      message: 'You are not playing in this game',
+    });
+
+    state.players[2].isBankrupt = true;
+    expect(applyGameAction(state, 'p3', { type: 'AuctionPass' }).error?.code).toBe('NOT_A_PLAYER');
+  });
+
+  it('names the turn state an action was sent in', () => {
+    const waiting = applyGameAction(newGame(TurnState.WaitingForRoll), 'p1', { type: 'EndTurn' });
+    expect(waiting.error).toEqual({
+      code: 'WRONG_TURN_STATE',
+      message: "Invalid action 'EndTurn' in state 'WaitingForRoll'",
+    });
+
+    const raising = applyGameAction(newGame(TurnState.RaisingFunds), 'p1', { type: 'EndTurn' });
+    expect(raising.error).toEqual({
+      code: 'WRONG_TURN_STATE',
+      message: 'Cannot end turn while raising funds',
+    });
+  });
+
+  it('only lets the players waiting on a trade answer it', () => {
+    const state = act(newGame(), 'p2', mediterraneanForCash);
+    const tradeId = state.pendingTrades![0].id;
+
+    for (const [playerId, action] of [
+      ['p3', { type: 'AcceptTrade', tradeId }],
+      ['p2', { type: 'AcceptTrade', tradeId }],
+      ['p3', { type: 'CounterTrade', tradeId, offer: mediterraneanForCash.offer }],
+    ] as [string, GameAction][]) {
+      expect(applyGameAction(state, playerId, action).error).toEqual({
+        code: 'NOT_TRADE_PARTY',
+        message: 'Only a player the trade is waiting on can answer it',
+      });
+    }
+    expect(applyGameAction(state, 'p3', { type: 'RejectTrade', tradeId }).error?.code).toBe(
+      'NOT_TRADE_PARTY',
+    );
+
+    // Bob can still withdraw his own offer
+    const withdrawn = act(state, 'p2', { type: 'RejectTrade', tradeId });
+    expect(withdrawn.tradeHistory?.[0].status).toBe('rejected');
+    expect(applyGameAction(withdrawn, 'p1', { type: 'AcceptTrade', tradeId }).error).toEqual({
+      code: 'INVALID_ACTION',
+      message: 'Trade is not pending',
+    });
+    expect(applyGameAction(state, 'p1', { type: 'AcceptTrade', tradeId: 'nope' }).error).toEqual({
+      code: 'TRADE_NOT_FOUND',
+      message: 'Trade nope not found',
+    });
+  });
+
+  it('keeps trade offers to the asset-management phase unless the house rule lifts it', () => {
+    const auction = newGame(TurnState.Auction);
+    expect(applyGameAction(auction, 'p2', mediterraneanForCash).error?.code).toBe(
+      'WRONG_TURN_STATE',
+    );
+    expect(isActionOpen(auction, 'ProposeTrade')).toBe(false);
+
+    const anytime = newGame(TurnState.WaitingForRoll, { tradeAnytime: true });
+    expect(isActionOpen(anytime, 'ProposeMultiTrade')).toBe(true);
+    const offered = act(anytime, 'p2', mediterraneanForCash);
+    expect(offered.turnState).toBe(TurnState.WaitingForRoll);
+    expect(offered.pendingTrades).toHaveLength(1);
+  });
+
+  it('leaves inherited mortgages to the creditor', () => {
+    const state = newGame();
+    state.pendingInheritance = { creditorId: 'p2', propertyIds: [1] };
+    expect(
+      applyGameAction(state, 'p3', { type: 'KeepInheritedMortgage', propertyId: 1 }).error,
+    ).toEqual({
+      code: 'NOT_CREDITOR',
+      message: 'Only the creditor can settle inherited mortgages',
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect } from 'vitest';
 import {
   declareBankruptcy,
   getWinner,
@@ -6,8 +6,8 @@ import {
   calculateLiquidationValue,
   canPlayerAfford,
 } from '../../engine/bankruptcy';
-import { setPropertyState, resetPropertyStates } from '../../engine/spaces';
-import { initBuildingSupply, resetBuildingSupply } from '../../engine/properties';
+import { setPropertyState } from '../../engine/spaces';
+import { initBuildingSupply } from '../../engine/properties';
 import { createInitialGameState, type PlayerSetup } from '../../engine/state';
 import type { GameState } from '../../types/gameState';
 
@@ -24,11 +24,6 @@ function makeState(): GameState {
 }
 
 describe('Phase 4.1 — Bankruptcy Flow', () => {
-  beforeEach(() => {
-    resetPropertyStates('test-phase4');
-    resetBuildingSupply('test-phase4');
-  });
-
   describe('Debt detection', () => {
     it('P4.S1.T1: detects when player cannot afford amount', () => {
       const state = makeState();
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import {
   rollDice,
   calculateNewPosition,
@@ -6,7 +6,6 @@ import {
   applyMovement,
   getConsecutiveDoubles,
   setConsecutiveDoubles,
-  resetDoublesTracker,
   type DiceResult,
 } from '../../engine/dice';
 import {
@@ -16,7 +15,6 @@ import {
   calculateUtilityRent,
   calculateStreetRent,
   setPropertyState,
-  resetPropertyStates,
   getPropertyOwnership,
   getPropertyState,
   ownsAllInColorGroup,
@@ -38,7 +36,6 @@ import {
   unmortgageProperty,
   getBuildingSupply,
   setBuildingSupply,
-  resetBuildingSupply,
   initBuildingSupply,
 } from '../../engine/properties';
 import {
@@ -48,7 +45,6 @@ import {
   counterTrade,
   storeTrade,
   getTrade,
-  resetTrades,
 } from '../../engine/trading';
 import { sendToJail, payJailFine, useJailCard, rollInJail } from '../../engine/jail';
 import {
@@ -111,10 +107,6 @@ const defaultDice: DiceResult = { die1: 3, die2: 5, total: 8, isDoubles: false }
 // ─── P6.S1.T1 — 100% branch coverage for dice and movement ─────────
 
 describe('P6.S1.T1 — Dice & Movement Coverage', () => {
-  beforeEach(() => {
-    resetDoublesTracker('test-edge');
-  });
-
   it('rollDice with default RNG produces valid values', () => {
     for (let i = 0; i < 100; i++) {
       const r = rollDice();
@@ -165,21 +157,10 @@ describe('P6.S1.T1 — Dice & Movement Coverage', () => {
 
   it('getConsecutiveDoubles returns 0 for unknown game/player', () => {
     const state = make2State();
-    // No doubles tracker initialized
-    resetDoublesTracker('test-edge');
     expect(getConsecutiveDoubles(state, 'p1')).toBe(0);
     expect(getConsecutiveDoubles(state, 'unknown')).toBe(0);
   });
 
-  it('resetDoublesTracker clears all tracking for game', () => {
-    const state = make2State();
-    setConsecutiveDoubles(state, 'p1', 2);
-    setConsecutiveDoubles(state, 'p2', 1);
-    resetDoublesTracker('test-edge');
-    expect(getConsecutiveDoubles(state, 'p1')).toBe(0);
-    expect(getConsecutiveDoubles(state, 'p2')).toBe(0);
-  });
-
   it('applyMovement: exactly three doubles sends to jail immediately', () => {
     const state = make2State();
     const d: DiceResult = { die1: 2, die2: 2, total: 4, isDoubles: true };
@@ -197,11 +178,6 @@ describe('P6.S1.T1 — Dice & Movement Coverage', () => {
 // ─── P6.S1.T2 — 100% branch coverage for space resolution ──────────
 
 describe('P6.S1.T2 — Space Resolution Coverage', () => {
-  beforeEach(() => {
-    resetPropertyStates('test-edge');
-    resetBuildingSupply('test-edge');
-  });
-
   it('resolveSpace throws for non-existent player', () => {
     const state = make2State();
     expect(() => resolveSpace(state, 'nonexistent', defaultDice)).toThrow('not found');
@@ -391,11 +367,6 @@ describe('P6.S1.T2 — Space Resolution Coverage', () => {
 // ─── P6.S1.T3 — 100% branch coverage for card effects ──────────────
 
 describe('P6.S1.T3 — Card Effects Coverage', () => {
-  beforeEach(() => {
-    resetPropertyStates('test-edge');
-    resetBuildingSupply('test-edge');
-  });
-
   it('drawCard throws on empty deck', () => {
     const state = make2State();
     state.decks.chance = [];
@@ -653,11 +624,6 @@ describe('P6.S1.T3 — Card Effects Coverage', () => {
 // ─── P6.S1.T4 — 100% branch coverage for property management ───────
 
 describe('P6.S1.T4 — Property Management Coverage', () => {
-  beforeEach(() => {
-    resetPropertyStates('test-edge');
-    resetBuildingSupply('test-edge');
-  });
-
   it('buyProperty rejects non-purchasable space type', () => {
     const state = make2State();
     state.players[0].position = 0; // Go - corner
@@ -828,11 +794,6 @@ describe('P6.S1.T4 — Property Management Coverage', () => {
 // ─── P6.S1.T5 — 100% branch coverage for trading ───────────────────
 
 describe('P6.S1.T5 — Trading Coverage', () => {
-  beforeEach(() => {
-    resetPropertyStates('test-edge');
-    resetTrades();
-  });
-
   it('createTradeOffer rejects if proposer has insufficient GOOJF cards', () => {
     const state = make2State();
     state.players[0].getOutOfJailFreeCards = 0;
@@ -880,9 +841,9 @@ describe('P6.S1.T5 — Trading Coverage', () => {
       requestedCash: 0,
       requestedCards: 0,
     });
-    storeTrade(trade);
-    rejectTrade(state, trade.id);
-    expect(() => acceptTrade(state, trade.id)).toThrow('not pending');
+    storeTrade(state, trade);
+    const rejected = rejectTrade(state, trade.id);
+    expect(() => acceptTrade(rejected, trade.id)).toThrow('not pending');
   });
 
   it('rejectTrade throws for nonexistent trade', () => {
@@ -917,7 +878,7 @@ describe('P6.S1.T5 — Trading Coverage', () => {
       requestedCash: 100,
       requestedCards: 0,
     });
-    storeTrade(trade);
+    storeTrade(state, trade);
 
     const newState = acceptTrade(state, trade.id);
     expect(newState.players[0].cash).toBe(1600); // +100
@@ -1026,11 +987,6 @@ describe('P6.S1.T6 — Jail Coverage', () => {
 // ─── P6.S1.T7 — 100% branch coverage for bankruptcy ────────────────
 
 describe('P6.S1.T7 — Bankruptcy Coverage', () => {
-  beforeEach(() => {
-    resetPropertyStates('test-edge');
-    resetBuildingSupply('test-edge');
-  });
-
   it('canPlayerAfford returns false for nonexistent player', () => {
     const state = make2State();
     expect(canPlayerAfford(state, 'nonexistent', 100)).toBe(false);
@@ -1151,10 +1107,6 @@ describe('P6.S1.T7 — Bankruptcy Coverage', () => {
 // ─── P6.S1.T8 — Edge: player lands on Go exactly ───────────────────
 
 describe('P6.S1.T8 — Landing on Go & Wrapping Edge Cases', () => {
-  beforeEach(() => {
-    resetDoublesTracker('test-edge');
-  });
-
   it('player lands on Go exactly from position 35 rolling 5', () => {
     const state = make2State();
     state.players[0].position = 35;
@@ -1211,12 +1163,6 @@ describe('P6.S1.T8 — Landing on Go & Wrapping Edge Cases', () => {
 // ─── P6.S1.T9 — Edge: simultaneous trades, max building supply, mortgage during debt ─
 
 describe('P6.S1.T9 — Simultaneous Trades, Max Supply, Mortgage During Debt', () => {
-  beforeEach(() => {
-    resetPropertyStates('test-edge');
-    resetBuildingSupply('test-edge');
-    resetTrades();
-  });
-
   it('simultaneous trades: two trades created, only first accepted', () => {
     const state = make3State();
     state.players[0].properties = [3];
@@ -1235,7 +1181,7 @@ describe('P6.S1.T9 — Simultaneous Trades, Max Supply, Mortgage During Debt', (
       requestedCash: 0,
       requestedCards: 0,
     });
-    storeTrade(trade1);
+    storeTrade(state, trade1);
 
     // Trade 2: p1 offers Baltic to p3 (same property!)
     const { trade: trade2 } = createTradeOffer(state, 'p1', 'p3', {
@@ -1246,7 +1192,7 @@ describe('P6.S1.T9 — Simultaneous Trades, Max Supply, Mortgage During Debt', (
       requestedCash: 0,
       requestedCards: 0,
     });
-    storeTrade(trade2);
+    storeTrade(state, trade2);
 
     // Accept trade 1
     const newState = acceptTrade(state, trade1.id);
@@ -1254,7 +1200,7 @@ describe('P6.S1.T9 — Simultaneous Trades, Max Supply, Mortgage During Debt', (
     expect(newState.players[1].properties).toContain(3);
 
     // Trade 2 is still pending but would fail validation in real server
-    expect(getTrade(trade2.id)?.status).toBe('pending');
+    expect(getTrade(newState, trade2.id)?.status).toBe('pending');
   });
 
   it('building at max supply: only 32 houses available', () => {
@@ -1294,11 +1240,6 @@ describe('P6.S1.T9 — Simultaneous Trades, Max Supply, Mortgage During Debt', (
 // ─── P6.S1.T10 — Edge: 2-player bankruptcy ends game ───────────────
 
 describe('P6.S1.T10 — 2-Player Bankruptcy Edge Cases', () => {
-  beforeEach(() => {
-    resetPropertyStates('test-edge');
-    resetBuildingSupply('test-edge');
-  });
-
   it('2-player: bankruptcy immediately ends game', () => {
     const state = make2State();
     state.players[0].cash = 0;
@@ -1332,10 +1273,6 @@ describe('P6.S1.T10 — 2-Player Bankruptcy Edge Cases', () => {
 // ─── P6.S1.T11 — Edge: nearest railroad from all 3 Chance positions ─
 
 describe('P6.S1.T11 — Nearest Railroad From All Chance Positions', () => {
-  beforeEach(() => {
-    resetPropertyStates('test-edge');
-  });
-
   const nearestRRCard: Card = {
     id: 'test',
     deck: 'chance',
@@ -1414,10 +1351,6 @@ describe('P6.S1.T11 — Nearest Railroad From All Chance Positions', () => {
 // ─── P6.S1.T12 — Edge: nearest utility from all 3 Chance positions ─
 
 describe('P6.S1.T12 — Nearest Utility From All Chance Positions', () => {
-  beforeEach(() => {
-    resetPropertyStates('test-edge');
-  });
-
   const nearestUtilCard: Card = {
     id: 'test',
     deck: 'chance',
@@ -1557,11 +1490,6 @@ describe('P6.S1.T13 — Dual GOOJF Cards', () => {
 // ─── P6.S1.T14 — Edge: building auction when supply constrained ────
 
 describe('P6.S1.T14 — Building Auction (Supply Constraints)', () => {
-  beforeEach(() => {
-    resetPropertyStates('test-edge');
-    resetBuildingSupply('test-edge');
-  });
-
   it('only 2 houses available, 3 players want to build → 2 can, 1 cannot', () => {
     const state = make3State();
     setBuildingSupply(state, { houses: 2, hotels: 12 });
@@ -1603,10 +1531,6 @@ describe('P6.S1.T14 — Building Auction (Supply Constraints)', () => {
 // ─── P6.S1.T15 — Edge: Reading Railroad trip from pos 36 ───────────
 
 describe('P6.S1.T15 — Reading Railroad Trip From Position 36', () => {
-  beforeEach(() => {
-    resetPropertyStates('test-edge');
-  });
-
   it('Chance card "Take a trip to Reading Railroad" from pos 36 passes Go', () => {
     const state = make2State();
     state.players[0].position = 36;
@@ -1647,10 +1571,6 @@ describe('P6.S1.T15 — Reading Railroad Trip From Position 36', () => {
 // ─── P6.S1.T16 — Edge: chain card effects (card → another card space) ─
 
 describe('P6.S1.T16 — Chain Card Effects', () => {
-  beforeEach(() => {
-    resetPropertyStates('test-edge');
-  });
-
   it('Go Back 3 from Chance pos 7 lands on Income Tax (pos 4)', () => {
     const state = make2State();
     state.players[0].position = 7;
@@ -1703,10 +1623,6 @@ describe('P6.S1.T16 — Chain Card Effects', () => {
 // ─── P6.S1.T17 — Edge: CC repairs vs Chance repairs rates ──────────
 
 describe('P6.S1.T17 — CC vs Chance Repair Rates', () => {
-  beforeEach(() => {
-    resetPropertyStates('test-edge');
-  });
-
   it('Chance repairs: $25/house, $100/hotel', () => {
     const state = make2State();
     state.players[0].properties = [1, 3];
@@ -1772,11 +1688,6 @@ describe('P6.S1.T17 — CC vs Chance Repair Rates', () => {
 // ─── P6.S1.T18 — Edge: declining player wins auction ────────────────
 
 describe('P6.S1.T18 — Declining Player Wins Auction', () => {
-  beforeEach(() => {
-    resetPropertyStates('test-edge');
-    resetBuildingSupply('test-edge');
-  });
-
   it('decliner bids and wins their own auction', () => {
     const state = make3State();
     // p1 declines to buy Baltic ($60), auction starts
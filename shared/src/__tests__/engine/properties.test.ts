@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect } from 'vitest';
 import {
   buyProperty,
   startAuction,
@@ -14,10 +14,9 @@ import {
   unmortgageProperty,
   getBuildingSupply,
   setBuildingSupply,
-  resetBuildingSupply,
   initBuildingSupply,
 } from '../../engine/properties';
-import { setPropertyState, resetPropertyStates, getPropertyState } from '../../engine/spaces';
+import { setPropertyState, getPropertyState } from '../../engine/spaces';
 import { createInitialGameState, type PlayerSetup } from '../../engine/state';
 import type { GameState } from '../../types/gameState';
 
@@ -34,11 +33,6 @@ function makeState(): GameState {
 }
 
 describe('Step 1A.6 — Property Management Logic', () => {
-  beforeEach(() => {
-    resetPropertyStates('test-props');
-    resetBuildingSupply('test-props');
-  });
-
   describe('buyProperty', () => {
     it('P1A.S6.T1: transfers ownership and deducts cost', () => {
       const state = makeState();
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { applyGameAction } from '../../engine/reducer';
+import { createInitialGameState, type PlayerSetup } from '../../engine/state';
+import { GameEventType } from '../../types/gameEvent';
+import { TurnState } from '../../types/turn';
+
+const players: PlayerSetup[] = [
+  { id: 'p1', name: 'Alice' },
+  { id: 'p2', name: 'Bob' },
+  { id: 'p3', name: 'Carol' },
+];
+
+// Seed 11 rolls a 3 from Go onto Baltic Avenue, seed 3 rolls a 4 onto Income Tax
+function newGame(seed: number, cash: number) {
+  const state = createInitialGameState(players, { gameId: 'debt-game', settings: { seed } });
+  state.players[0].cash = cash;
+  state.players[0].properties = [6, 37, 39];
+  return state;
+}
+
+// Bob owns the browns with a hotel on Baltic Avenue ($450 rent)
+function hotelOnBaltic(cash: number) {
+  const state = newGame(11, cash);
+  state.players[1].properties = [1, 3];
+  state.propertyStates = { 3: { houses: 5, mortgaged: false } };
+  return state;
+}
+
+describe('raising funds', () => {
+  it('holds the debtor in RaisingFunds when rent exceeds their cash', () => {
+    const { state, events, error } = applyGameAction(hotelOnBaltic(100), 'p1', {
+      type: 'RollDice',
+    });
+    expect(error).toBeUndefined();
+    expect(state.turnState).toBe(TurnState.RaisingFunds);
+    expect(state.pendingDebt).toEqual({ debtorId: 'p1', creditorId: 'p2', amount: 350 });
+    expect(state.players[0].cash).toBe(0);
+    // Bob only keeps the rent that was actually paid
+    expect(state.players[1].cash).toBe(1600);
+    expect(events.at(-1)?.type).toBe(GameEventType.DebtIncurred);
+  });
+
+  it('owes shortfalls on tax to the bank', () => {
+    const { state } = applyGameAction(newGame(3, 150), 'p1', { type: 'RollDice' });
+    expect(state.turnState).toBe(TurnState.RaisingFunds);
+    expect(state.pendingDebt).toEqual({ debtorId: 'p1', creditorId: 'bank', amount: 50 });
+  });
+
+  it('blocks ending the turn and spending while the debt is open', () => {
+    const { state } = applyGameAction(hotelOnBaltic(100), 'p1', { type: 'RollDice' });
+
+    const endTurn = applyGameAction(state, 'p1', { type: 'EndTurn' });
+    expect(endTurn.error?.message).toBe('Cannot end turn while raising funds');
+
+    const mortgaged = applyGameAction(state, 'p1', { type: 'MortgageProperty', propertyId: 6 });
+    const unmortgage = applyGameAction(mortgaged.state, 'p1', {
+      type: 'UnmortgageProperty',
+      propertyId: 6,
+    });
+    expect(unmortgage.error?.message).toMatch(/Invalid action 'UnmortgageProperty'/);
+  });
+
+  it('settles automatically once mortgages cover the debt', () => {
+    let { state } = applyGameAction(hotelOnBaltic(100), 'p1', { type: 'RollDice' });
+
+    ({ state } = applyGameAction(state, 'p1', { type: 'MortgageProperty', propertyId: 39 }));
+    expect(state.turnState).toBe(TurnState.RaisingFunds);
+    expect(state.players[0].cash).toBe(200);
+
+    const result = applyGameAction(state, 'p1', { type: 'MortgageProperty', propertyId: 37 });
+    expect(result.state.turnState).toBe(TurnState.PlayerAction);
+    expect(result.state.pendingDebt).toBeNull();
+    expect(result.state.players[0].cash).toBe(25);
+    expect(result.state.players[1].cash).toBe(1950);
+    expect(result.events.at(-1)).toMatchObject({
+      type: GameEventType.DebtSettled,
+      payload: { playerId: 'p1', creditorId: 'p2', amount: 350 },
+    });
+
+    expect(applyGameAction(result.state, 'p1', { type: 'EndTurn' }).error).toBeUndefined();
+  });
+
+  it('hands the debtor to the recorded creditor on bankruptcy', () => {
+    const { state } = applyGameAction(hotelOnBaltic(100), 'p1', { type: 'RollDice' });
+    const result = applyGameAction(state, 'p1', { type: 'DeclareBankruptcy', creditorId: 'bank' });
+
+    expect(result.error).toBeUndefined();
+    expect(result.state.pendingDebt).toBeNull();
+    expect(result.state.players[1].properties).toEqual(expect.arrayContaining([6, 37, 39]));
+    expect(result.state.currentPlayerIndex).toBe(1);
+    expect(result.state.turnState).toBe(TurnState.WaitingForRoll);
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { applyGameAction, getTimeoutAction, getTimeoutActor } from '../../engine/reducer';
+import { createInitialGameState, type PlayerSetup } from '../../engine/state';
+import { setPropertyState } from '../../engine/spaces';
+import { GameEventType } from '../../types/gameEvent';
+import { TurnState } from '../../types/turn';
+
+const players: PlayerSetup[] = [
+  { id: 'p1', name: 'Alice' },
+  { id: 'p2', name: 'Bob' },
+];
+
+function newGame(seed = 42, auctionEnabled = true) {
+  return createInitialGameState(players, {
+    gameId: 'reducer-game',
+    settings: { seed, auctionEnabled },
+  });
+}
+
+describe('applyGameAction', () => {
+  it('does not mutate the input state', () => {
+    const state = newGame();
+    const snapshot = JSON.stringify(state);
+    const result = applyGameAction(state, 'p1', { type: 'RollDice' });
+    expect(result.error).toBeUndefined();
+    expect(JSON.stringify(state)).toBe(snapshot);
+    expect(result.state).not.toBe(state);
+  });
+
+  it('returns the events emitted by the action', () => {
+    const result = applyGameAction(newGame(), 'p1', { type: 'RollDice' }, { now: 1000 });
+    expect(result.events[0].type).toBe(GameEventType.DiceRolled);
+    expect(result.events.every((e) => e.timestamp === 1000)).toBe(true);
+    expect(result.state.events.slice(-result.events.length)).toEqual(result.events);
+  });
+
+  it('advances the turn state machine', () => {
+    const result = applyGameAction(newGame(), 'p1', { type: 'RollDice' });
+    expect(result.state.turnState).not.toBe(TurnState.WaitingForRoll);
+    expect(result.state.lastDiceResult).not.toBeNull();
+  });
+
+  it('is deterministic for the same seed, action and timestamp', () => {
+    const a = applyGameAction(newGame(7), 'p1', { type: 'RollDice' }, { now: 1 });
+    const b = applyGameAction(newGame(7), 'p1', { type: 'RollDice' }, { now: 1 });
+    expect(a.state).toEqual(b.state);
+    expect(a.events).toEqual(b.events);
+  });
+
+  it('rejects actions when the game is not in progress', () => {
+    const state = createInitialGameState(players, { gameId: 'waiting' });
+    state.status = 'waiting';
+    const result = applyGameAction(state, 'p1', { type: 'RollDice' });
+    expect(result.error).toEqual({
+      code: 'GAME_NOT_IN_PROGRESS',
+      message: 'Game is not in progress',
+    });
+    expect(result.state).toBe(state);
+    expect(result.events).toEqual([]);
+  });
+
+  it('rejects turn actions from a player who is not active', () => {
+    const state = newGame();
+    const result = applyGameAction(state, 'p2', { type: 'RollDice' });
+    expect(result.error?.code).toBe('NOT_YOUR_TURN');
+    expect(result.error?.message).toBe('Not your turn');
+    expect(result.state).toBe(state);
+  });
+
+  it('reports rule violations as INVALID_ACTION without changing state', () => {
+    const state = newGame();
+    const snapshot = JSON.stringify(state);
+    const result = applyGameAction(state, 'p1', { type: 'PayJailFine' });
+    expect(result.error?.code).toBe('INVALID_ACTION');
+    expect(result.error?.message).toBe('Player is not in jail');
+    expect(result.state).toBe(state);
+    expect(JSON.stringify(state)).toBe(snapshot);
+  });
+
+  it('leaves a declined property with the bank when auctions are off', () => {
+    const state = newGame(42, false);
+    state.players[0].position = 1;
+    state.turnState = TurnState.AwaitingBuyDecision;
+    state.pendingBuyDecision = { spaceId: 1, spaceName: 'Mediterranean Avenue', cost: 60 };
+
+    const result = applyGameAction(state, 'p1', { type: 'DeclineProperty', propertyId: 1 });
+    expect(result.error).toBeUndefined();
+    expect(result.state.turnState).toBe(TurnState.PlayerAction);
+    expect(result.state.auction ?? null).toBeNull();
+    expect(result.events.some((e) => e.type === GameEventType.AuctionStarted)).toBe(false);
+
+    const ended = applyGameAction(result.state, 'p1', { type: 'EndTurn' });
+    expect(ended.error).toBeUndefined();
+    expect(ended.state.currentPlayerIndex).toBe(1);
+  });
+
+  it('picks the action a timed-out turn takes in each turn state', () => {
+    const state = newGame();
+    expect(getTimeoutAction(state)).toEqual({ type: 'RollDice' });
+
+    state.turnState = TurnState.ChoosingSpeedDieMove;
+    state.pendingSpeedDie = { type: 'bus', destinations: [12, 14] };
+    expect(getTimeoutAction(state)).toEqual({ type: 'ChooseSpeedDieMove', destination: 12 });
+
+    state.turnState = TurnState.AwaitingBuyDecision;
+    state.pendingBuyDecision = { spaceId: 1, spaceName: 'Mediterranean Avenue', cost: 60 };
+    expect(getTimeoutAction(state)).toEqual({ type: 'DeclineProperty', propertyId: 1 });
+
+    state.turnState = TurnState.PlayerAction;
+    expect(getTimeoutAction(state)).toEqual({ type: 'EndTurn' });
+
+    for (const waiting of [TurnState.Auction, TurnState.RaisingFunds]) {
+      state.turnState = waiting;
+      expect(getTimeoutAction(state)).toBeNull();
+    }
+  });
+
+  it('settles inherited mortgages for a timed-out creditor, raising the interest first', () => {
+    const state = newGame();
+    state.players[1].properties = [1, 3];
+    setPropertyState(state, { spaceId: 1, houses: 0, mortgaged: true });
+    state.pendingInheritance = { creditorId: 'p2', propertyIds: [1] };
+    expect(getTimeoutActor(state)).toBe('p2');
+    expect(getTimeoutAction(state)).toEqual({ type: 'KeepInheritedMortgage', propertyId: 1 });
+
+    state.players[1].cash = 2;
+    expect(getTimeoutAction(state)).toEqual({ type: 'MortgageProperty', propertyId: 3 });
+
+    setPropertyState(state, { spaceId: 3, houses: 0, mortgaged: true });
+    expect(getTimeoutAction(state)).toEqual({ type: 'DeclareBankruptcy', creditorId: 'bank' });
+
+    state.pendingInheritance = null;
+    expect(getTimeoutActor(state)).toBe('p1');
+  });
+
+  it('marks the game finished when only one player remains', () => {
+    const state = newGame();
+    const result = applyGameAction(state, 'p1', {
+      type: 'DeclareBankruptcy',
+      creditorId: 'p2',
+    });
+    expect(result.error).toBeUndefined();
+    expect(result.state.status).toBe('finished');
+    expect(result.events.some((e) => e.type === GameEventType.PlayerBankrupt)).toBe(true);
+  });
+});
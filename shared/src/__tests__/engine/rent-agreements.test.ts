@@ -0,0 +1,249 @@
+import { describe, it, expect } from 'vitest';
+import { advanceToNextPlayer, applyGameAction } from '../../engine/reducer';
+import { getRentAgreements, tickRentAgreements } from '../../engine/rent-agreements';
+import { applySpaceResolution, resolveSpace, setPropertyState } from '../../engine/spaces';
+import { createTradeOffer, getTradeProblem } from '../../engine/trading';
+import { createInitialGameState, type PlayerSetup } from '../../engine/state';
+import { GameEventType } from '../../types/gameEvent';
+import type { GameAction, TradeOfferPayload } from '../../types/gameAction';
+import type { GameState } from '../../types/gameState';
+import type { TradeClause } from '../../types/trade';
+import { TurnState } from '../../types/turn';
+
+const players: PlayerSetup[] = [
+  { id: 'p1', name: 'Alice' },
+  { id: 'p2', name: 'Bob' },
+  { id: 'p3', name: 'Carol' },
+];
+
+const BOARDWALK = 39;
+
+// Alice sells Boardwalk to Bob for $400, with the given clauses attached
+function boardwalkSale(...clauses: TradeClause[]): TradeOfferPayload {
+  return {
+    offeredProperties: [BOARDWALK],
+    offeredCash: 0,
+    offeredCards: 0,
+    requestedProperties: [],
+    requestedCash: 400,
+    requestedCards: 0,
+    clauses,
+  };
+}
+
+const immunity = (landings: number): TradeClause => ({
+  type: 'rentImmunity',
+  propertyId: BOARDWALK,
+  beneficiaryId: 'p1',
+  landings,
+});
+
+const share = (percent: number, turns: number): TradeClause => ({
+  type: 'rentShare',
+  propertyId: BOARDWALK,
+  beneficiaryId: 'p1',
+  percent,
+  turns,
+});
+
+// Alice's turn, with Boardwalk hers to sell
+function newGame(): GameState {
+  const state = createInitialGameState(players, {
+    gameId: 'rent-agreements-game',
+    settings: { seed: 11 },
+  });
+  state.turnState = TurnState.PlayerAction;
+  state.players[0].properties = [BOARDWALK];
+  setPropertyState(state, { spaceId: BOARDWALK, houses: 0, mortgaged: false });
+  return state;
+}
+
+function act(state: GameState, playerId: string, action: GameAction): GameState {
+  const result = applyGameAction(state, playerId, action);
+  expect(result.error).toBeUndefined();
+  return result.state;
+}
+
+function sellBoardwalk(...clauses: TradeClause[]): GameState {
+  const offered = act(newGame(), 'p1', {
+    type: 'ProposeTrade',
+    recipientId: 'p2',
+    offer: boardwalkSale(...clauses),
+  });
+  return act(offered, 'p2', { type: 'AcceptTrade', tradeId: offered.pendingTrades![0].id });
+}
+
+function landOnBoardwalk(state: GameState, playerId: string): GameState {
+  const player = state.players.find((p) => p.id === playerId)!;
+  player.position = BOARDWALK;
+  const dice = { die1: 3, die2: 4, total: 7, isDoubles: false };
+  return applySpaceResolution(state, playerId, resolveSpace(state, playerId, dice));
+}
+
+describe('rent agreements', () => {
+  it('puts accepted clauses into force for the new owner', () => {
+    const state = sellBoardwalk(immunity(2));
+    expect(state.players[1].properties).toContain(BOARDWALK);
+    expect(getRentAgreements(state)).toEqual([
+      {
+        id: `${state.tradeHistory![0].id}-0`,
+        tradeId: state.tradeHistory![0].id,
+        propertyId: BOARDWALK,
+        ownerId: 'p2',
+        beneficiaryId: 'p1',
+        type: 'rentImmunity',
+        landingsLeft: 2,
+      },
+    ]);
+  });
+
+  it('waives rent for the agreed number of landings', () => {
+    let state = landOnBoardwalk(sellBoardwalk(immunity(2)), 'p1');
+    expect(state.players[0].cash).toBe(1900);
+    expect(getRentAgreements(state)[0]).toMatchObject({ landingsLeft: 1 });
+
+    state = landOnBoardwalk(state, 'p1');
+    expect(state.players[0].cash).toBe(1900);
+    expect(state.rentAgreements).toEqual([]);
+
+    state = landOnBoardwalk(state, 'p1');
+    expect(state.players[0].cash).toBe(1850);
+    expect(state.players[1].cash).toBe(1150);
+  });
+
+  it('only spares the player who holds the immunity', () => {
+    const state = landOnBoardwalk(sellBoardwalk(immunity(2)), 'p3');
+    expect(state.players[2].cash).toBe(1450);
+    expect(getRentAgreements(state)[0]).toMatchObject({ landingsLeft: 2 });
+  });
+
+  it('passes a share of the rent on until the turns run out', () => {
+    let state = landOnBoardwalk(sellBoardwalk(share(30, 2)), 'p3');
+    expect(state.players[2].cash).toBe(1450);
+    // Bob keeps $35 of the $50; Alice gets $15 on top of the $400 sale
+    expect(state.players[1].cash).toBe(1135);
+    expect(state.players[0].cash).toBe(1915);
+
+    state = advanceToNextPlayer(state);
+    expect(getRentAgreements(state)[0]).toMatchObject({ turnsLeft: 1 });
+    state = advanceToNextPlayer(state);
+    expect(state.rentAgreements).toEqual([]);
+
+    state = landOnBoardwalk(state, 'p3');
+    expect(state.players[1].cash).toBe(1185);
+  });
+
+  it('lapses once the owner parts with the property', () => {
+    const state = sellBoardwalk(immunity(3), share(10, 5));
+    state.players[1].properties = [];
+    state.players[2].properties = [BOARDWALK];
+
+    expect(getRentAgreements(state)).toEqual([]);
+    expect(tickRentAgreements(state)).toEqual([]);
+    expect(landOnBoardwalk(state, 'p1').players[0].cash).toBe(1850);
+  });
+
+  it('reports waived rent through the game events', () => {
+    const state = sellBoardwalk(immunity(1));
+    state.turnState = TurnState.WaitingForRoll;
+
+    // Find Alice's next roll, then start her that far short of Boardwalk
+    const rolled = act(structuredClone(state), 'p1', { type: 'RollDice' });
+    state.players[0].position = BOARDWALK - rolled.lastDiceResult!.total;
+    const { state: next, events } = applyGameAction(state, 'p1', { type: 'RollDice' });
+
+    expect(next.lastResolution).toMatchObject({ type: 'rentWaived', amount: 0 });
+    expect(events.find((e) => e.type === GameEventType.RentPaid)?.payload).toMatchObject({
+      payerId: 'p1',
+      receiverId: 'p2',
+      amount: 0,
+      waived: true,
+    });
+  });
+
+  it('holds back shares when the payer is short, keeping the total cash unchanged', () => {
+    const state = sellBoardwalk(share(50, 5));
+    setPropertyState(state, { spaceId: BOARDWALK, houses: 1, mortgaged: false });
+    state.currentPlayerIndex = 2;
+    state.turnState = TurnState.WaitingForRoll;
+    state.players[2].cash = 100;
+    state.players[2].properties = [31];
+    setPropertyState(state, { spaceId: 31, houses: 0, mortgaged: false });
+    const totalCash = (s: GameState) => s.players.reduce((sum, p) => sum + p.cash, 0);
+    const before = totalCash(state);
+
+    // Find Carol's next roll, then start her that far short of Boardwalk
+    const rolled = act(structuredClone(state), 'p3', { type: 'RollDice' });
+    state.players[2].position = BOARDWALK - rolled.lastDiceResult!.total;
+    const landed = act(state, 'p3', { type: 'RollDice' });
+    expect(landed.pendingDebt).toMatchObject({ debtorId: 'p3', creditorId: 'p2', amount: 100 });
+    expect(landed.players[0].cash).toBe(1900);
+    expect(totalCash(landed)).toBe(before);
+
+    // Mortgaging Pacific Avenue brings in $150 from the bank and settles the debt
+    const settled = act(landed, 'p3', { type: 'MortgageProperty', propertyId: 31 });
+    expect(settled.pendingDebt).toBeFalsy();
+    expect(settled.players[1].cash).toBe(1100 + 200);
+    expect(totalCash(settled)).toBe(before + 150);
+  });
+
+  it('checks clauses when the trade is offered', () => {
+    const state = newGame();
+    const offer = (clause: TradeClause) => () =>
+      createTradeOffer(state, 'p1', 'p2', boardwalkSale(clause));
+
+    expect(offer({ ...immunity(1), beneficiaryId: 'p2' })).toThrow(
+      "A clause on Boardwalk must favor the player who won't own it",
+    );
+    expect(offer({ ...immunity(1), beneficiaryId: 'p3' })).toThrow(
+      "A clause on Boardwalk must favor the player who won't own it",
+    );
+    expect(offer({ ...immunity(1), propertyId: 37 })).toThrow(
+      'Park Place does not belong to either player',
+    );
+    expect(offer({ ...immunity(1), propertyId: 4 })).toThrow('Property 4 not found');
+    expect(offer(immunity(11))).toThrow('Rent immunity must cover 1 to 10 landings');
+    expect(offer(share(0, 5))).toThrow('Rent share must be 1% to 100%');
+    expect(offer(share(50, 2.5))).toThrow('Rent share must last 1 to 50 turns');
+    expect(() =>
+      createTradeOffer(state, 'p1', 'p2', boardwalkSale(share(60, 5), share(50, 5))),
+    ).toThrow('Rent shares on Boardwalk would add up to more than 100%');
+  });
+
+  it('counts shares already in force toward the 100% limit', () => {
+    const state = sellBoardwalk(share(70, 10));
+    state.players[0].properties = [37];
+    setPropertyState(state, { spaceId: 37, houses: 0, mortgaged: false });
+    const parkPlaceFor = (percent: number): TradeOfferPayload => ({
+      offeredProperties: [],
+      offeredCash: 0,
+      offeredCards: 0,
+      requestedProperties: [37],
+      requestedCash: 0,
+      requestedCards: 0,
+      clauses: [{ ...share(percent, 5), beneficiaryId: 'p1' }],
+    });
+
+    expect(() => createTradeOffer(state, 'p2', 'p1', parkPlaceFor(40))).toThrow(
+      'Rent shares on Boardwalk would add up to more than 100%',
+    );
+    expect(() => createTradeOffer(state, 'p2', 'p1', parkPlaceFor(30))).not.toThrow();
+  });
+
+  it('calls off a pending trade whose clause property changes hands', () => {
+    const state = newGame();
+    state.players[1].properties = [6];
+    setPropertyState(state, { spaceId: 6, houses: 0, mortgaged: false });
+    const { state: offered, trade } = createTradeOffer(state, 'p1', 'p2', {
+      ...boardwalkSale(),
+      clauses: [{ ...immunity(1), propertyId: 6 }],
+    });
+    expect(getTradeProblem(offered, trade)).toBeNull();
+
+    offered.players[1].properties = [];
+    offered.players[2].properties = [6];
+    expect(getTradeProblem(offered, trade)).toBe(
+      'Oriental Avenue no longer belongs to either player',
+    );
+  });
+});
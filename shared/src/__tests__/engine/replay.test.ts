@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createReplay,
+  appendReplayStep,
+  reconstructStateAt,
+  buildReplayTimeline,
+  applyReplayStep,
+} from '../../engine/replay';
+import { applyGameAction, autoRollForPlayer, autoEndTurnForPlayer } from '../../engine/reducer';
+import { createInitialGameState, getActivePlayer, type PlayerSetup } from '../../engine/state';
+import type { GameAction } from '../../types/gameAction';
+import type { GameState } from '../../types/gameState';
+import type { GameReplay } from '../../types/replay';
+
+const players: PlayerSetup[] = [
+  { id: 'p1', name: 'Alice' },
+  { id: 'p2', name: 'Bob' },
+  { id: 'p3', name: 'Carol' },
+];
+
+function candidateActions(state: GameState): GameAction[] {
+  const actions: GameAction[] = [{ type: 'RollDice' }, { type: 'PayJailFine' }];
+  if (state.pendingBuyDecision) {
+    actions.push({ type: 'BuyProperty', propertyId: state.pendingBuyDecision.spaceId });
+    actions.push({ type: 'DeclineProperty', propertyId: state.pendingBuyDecision.spaceId });
+  }
+  actions.push({ type: 'EndTurn' });
+  return actions;
+}
+
+// Plays the game forward by taking the first legal action each step,
+// recording everything into a replay alongside the live state
+function playGame(seed: number, actions: number): { live: GameState; replay: GameReplay } {
+  let live = createInitialGameState(players, { gameId: 'replay-game', settings: { seed } });
+  let replay = createReplay(live);
+  let timestamp = 1000;
+
+  for (let i = 0; i < actions && live.status === 'playing'; i++) {
+    timestamp += 500;
+    const candidates: Array<{ playerId: string; action: GameAction }> = candidateActions(live).map(
+      (action) => ({ playerId: getActivePlayer(live).id, action }),
+    );
+    if (live.auction) {
+      for (const id of live.auction.eligiblePlayers) {
+        candidates.push({ playerId: id, action: { type: 'AuctionPass' } });
+      }
+    }
+
+    const taken = candidates
+      .map((c) => ({
+        ...c,
+        result: applyGameAction(live, c.playerId, c.action, { now: timestamp }),
+      }))
+      .find((c) => !c.result.error);
+
+    if (taken) {
+      live = taken.result.state;
+      replay = appendReplayStep(replay, {
+        type: 'action',
+        playerId: taken.playerId,
+        action: taken.action,
+        timestamp,
+      });
+    } else {
+      live = autoEndTurnForPlayer(live);
+      replay = appendReplayStep(replay, { type: 'autoEndTurn', timestamp });
+    }
+  }
+
+  return { live, replay };
+}
+
+describe('Replay', () => {
+  it('records the seed, players and settings of the game', () => {
+    const state = createInitialGameState(players, { gameId: 'g', settings: { seed: 11 } });
+    const replay = createReplay(state);
+    expect(replay.seed).toBe(11);
+    expect(replay.gameId).toBe('g');
+    expect(replay.players.map((p) => p.id)).toEqual(['p1', 'p2', 'p3']);
+    expect(replay.steps).toEqual([]);
+  });
+
+  it('step 0 reconstructs the initial state', () => {
+    const state = createInitialGameState(players, { gameId: 'g', settings: { seed: 11 } });
+    expect(reconstructStateAt(createReplay(state), 0)).toEqual(state);
+  });
+
+  it('reconstructs games whose seed was generated', () => {
+    const state = createInitialGameState(players, { gameId: 'g' });
+    expect(reconstructStateAt(createReplay(state), 0)).toEqual(state);
+  });
+
+  it('appendReplayStep does not mutate the replay', () => {
+    const state = createInitialGameState(players, { gameId: 'g', settings: { seed: 11 } });
+    const replay = createReplay(state);
+    const next = appendReplayStep(replay, { type: 'autoRoll', timestamp: 1 });
+    expect(replay.steps).toHaveLength(0);
+    expect(next.steps).toHaveLength(1);
+  });
+
+  it('reconstructs the final state of a played game exactly', () => {
+    const { live, replay } = playGame(2024, 120);
+    expect(replay.steps.length).toBeGreaterThan(50);
+    expect(reconstructStateAt(replay, replay.steps.length)).toEqual(live);
+  });
+
+  it('survives a JSON round-trip of the replay', () => {
+    const { live, replay } = playGame(7, 60);
+    const copy = JSON.parse(JSON.stringify(replay)) as GameReplay;
+    expect(reconstructStateAt(copy, copy.steps.length)).toEqual(live);
+  });
+
+  it('timeline entries match reconstructStateAt for every step', () => {
+    const { replay } = playGame(99, 30);
+    const timeline = buildReplayTimeline(replay);
+    expect(timeline).toHaveLength(replay.steps.length + 1);
+    for (const step of [0, 1, 10, replay.steps.length]) {
+      expect(timeline[step]).toEqual(reconstructStateAt(replay, step));
+    }
+  });
+
+  it('clamps steps beyond the end of the stream', () => {
+    const { live, replay } = playGame(5, 10);
+    expect(reconstructStateAt(replay, 999)).toEqual(live);
+    expect(reconstructStateAt(replay, -3)).toEqual(reconstructStateAt(replay, 0));
+  });
+
+  it('replays turn-timer fallbacks', () => {
+    const initial = createInitialGameState(players, { gameId: 'g', settings: { seed: 3 } });
+    let replay = createReplay(initial);
+    replay = appendReplayStep(replay, { type: 'autoRoll', timestamp: 1 });
+    replay = appendReplayStep(replay, { type: 'autoEndTurn', timestamp: 2 });
+
+    const live = autoEndTurnForPlayer(
+      autoRollForPlayer(createInitialGameState(players, { gameId: 'g', settings: { seed: 3 } })),
+    );
+    expect(reconstructStateAt(replay, 2)).toEqual(live);
+  });
+
+  it('applyReplayStep leaves the previous state untouched', () => {
+    const initial = createInitialGameState(players, { gameId: 'g', settings: { seed: 3 } });
+    const snapshot = JSON.stringify(initial);
+    applyReplayStep(initial, { type: 'autoRoll', timestamp: 1 });
+    applyReplayStep(initial, {
+      type: 'action',
+      playerId: 'p1',
+      action: { type: 'RollDice' },
+      timestamp: 1,
+    });
+    expect(JSON.stringify(initial)).toBe(snapshot);
+  });
+
+  it('throws when a recorded action is no longer legal', () => {
+    const initial = createInitialGameState(players, { gameId: 'g', settings: { seed: 3 } });
+    expect(() =>
+      applyReplayStep(initial, {
+        type: 'action',
+        playerId: 'p2',
+        action: { type: 'RollDice' },
+        timestamp: 1,
+      }),
+    ).toThrow(/Replay diverged/);
+  });
+});
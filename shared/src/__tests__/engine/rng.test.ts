@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { createRng, createStateRng, nextRandom, randomId } from '../../engine/rng';
+import { rollDice } from '../../engine/dice';
+import { createInitialGameState, type PlayerSetup } from '../../engine/state';
+import { createTradeOffer } from '../../engine/trading';
+
+const players: PlayerSetup[] = [
+  { id: 'p1', name: 'Alice' },
+  { id: 'p2', name: 'Bob' },
+];
+
+describe('Seeded RNG', () => {
+  it('createRng produces the same sequence for the same seed', () => {
+    const a = createRng(42);
+    const b = createRng(42);
+    const seqA = Array.from({ length: 20 }, () => a());
+    const seqB = Array.from({ length: 20 }, () => b());
+    expect(seqA).toEqual(seqB);
+    for (const v of seqA) {
+      expect(v).toBeGreaterThanOrEqual(0);
+      expect(v).toBeLessThan(1);
+    }
+  });
+
+  it('different seeds produce different sequences', () => {
+    const a = createRng(1);
+    const b = createRng(2);
+    expect(a()).not.toBe(b());
+  });
+
+  it('nextRandom advances rngState and matches createRng', () => {
+    const state = createInitialGameState(players, { gameId: 'rng-game', settings: { seed: 7 } });
+    const reference = createRng(7);
+    // Two deck shuffles consume 15 + 15 draws during setup
+    for (let i = 0; i < 30; i++) reference();
+
+    const before = state.rngState;
+    const value = nextRandom(state);
+    expect(value).toBe(reference());
+    expect(state.rngState).not.toBe(before);
+  });
+
+  it('RNG state survives serialization', () => {
+    const state = createInitialGameState(players, { gameId: 'rng-game', settings: { seed: 99 } });
+    const copy = JSON.parse(JSON.stringify(state));
+    const rollsA = Array.from({ length: 5 }, () => rollDice(createStateRng(state)));
+    const rollsB = Array.from({ length: 5 }, () => rollDice(createStateRng(copy)));
+    expect(rollsA).toEqual(rollsB);
+  });
+
+  it('falls back to a game-derived seed for states without rngState', () => {
+    const state = createInitialGameState(players, { gameId: 'legacy' });
+    delete state.rngState;
+    delete state.seed;
+    const copy = JSON.parse(JSON.stringify(state));
+    expect(nextRandom(state)).toBe(nextRandom(copy));
+  });
+
+  it('randomId is deterministic for a given state', () => {
+    const s1 = createInitialGameState(players, { gameId: 'ids', settings: { seed: 5 } });
+    const s2 = createInitialGameState(players, { gameId: 'ids', settings: { seed: 5 } });
+    const id = randomId(s1, 'trade');
+    expect(id).toMatch(/^trade-[0-9a-z]{9}$/);
+    expect(randomId(s2, 'trade')).toBe(id);
+  });
+
+  describe('createInitialGameState seeding', () => {
+    it('stores the seed on the state', () => {
+      const state = createInitialGameState(players, { settings: { seed: 1234 } });
+      expect(state.seed).toBe(1234);
+      expect(typeof state.rngState).toBe('number');
+    });
+
+    it('same seed shuffles decks and generates the game ID identically', () => {
+      const a = createInitialGameState(players, { settings: { seed: 42 } });
+      const b = createInitialGameState(players, { settings: { seed: 42 } });
+      expect(a.gameId).toBe(b.gameId);
+      expect(a.decks.chance.map((c) => c.id)).toEqual(b.decks.chance.map((c) => c.id));
+      expect(a.decks.communityChest.map((c) => c.id)).toEqual(
+        b.decks.communityChest.map((c) => c.id),
+      );
+    });
+
+    it('different seeds shuffle decks differently', () => {
+      const a = createInitialGameState(players, { gameId: 'g', settings: { seed: 1 } });
+      const b = createInitialGameState(players, { gameId: 'g', settings: { seed: 2 } });
+      expect(a.decks.chance.map((c) => c.id)).not.toEqual(b.decks.chance.map((c) => c.id));
+    });
+
+    it('generates a seed when none is provided', () => {
+      const state = createInitialGameState(players);
+      expect(typeof state.seed).toBe('number');
+    });
+  });
+
+  it('trade IDs are drawn from the game RNG', () => {
+    const offer = {
+      offeredProperties: [],
+      offeredCash: 10,
+      offeredCards: 0,
+      requestedProperties: [],
+      requestedCash: 0,
+      requestedCards: 0,
+    };
+    const s1 = createInitialGameState(players, { gameId: 'trade-rng', settings: { seed: 3 } });
+    const s2 = createInitialGameState(players, { gameId: 'trade-rng', settings: { seed: 3 } });
+    const t1 = createTradeOffer(s1, 'p1', 'p2', offer);
+    const t2 = createTradeOffer(s2, 'p1', 'p2', offer);
+    expect(t1.trade.id).toBe(t2.trade.id);
+    expect(t1.state.rngState).not.toBe(s1.rngState);
+  });
+});
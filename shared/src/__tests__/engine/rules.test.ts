@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { applyMovement, type DiceResult } from '../../engine/dice';
+import { payJailFine, sendToJail } from '../../engine/jail';
+import { buyProperty, canBuildHouse, unmortgageProperty } from '../../engine/properties';
+import { validateHouseRules } from '../../engine/rules';
+import { resolveSpace, setPropertyState } from '../../engine/spaces';
+import { createInitialGameState, type PlayerSetup } from '../../engine/state';
+import type { GameSettings } from '../../types/gameSettings';
+
+const players: PlayerSetup[] = [
+  { id: 'p1', name: 'Alice' },
+  { id: 'p2', name: 'Bob' },
+  { id: 'p3', name: 'Carol' },
+];
+
+const rollFour: DiceResult = { die1: 1, die2: 3, total: 4, isDoubles: false };
+
+function newGame(settings: Partial<GameSettings> = {}) {
+  return createInitialGameState(players, {
+    gameId: 'rules-game',
+    settings: { seed: 7, ...settings },
+  });
+}
+
+describe('house rules', () => {
+  describe('Go salary', () => {
+    it('pays the configured salary for passing Go', () => {
+      const state = newGame({ goSalary: 300 });
+      state.players[0].position = 38;
+      const { state: moved } = applyMovement(state, 'p1', rollFour);
+      expect(moved.players[0].position).toBe(2);
+      expect(moved.players[0].cash).toBe(1800);
+      expect(moved.players[0].hasPassedGo).toBe(true);
+    });
+
+    it('doubles the salary for landing exactly on Go', () => {
+      const state = newGame({ doubleGoSalary: true });
+      state.players[0].position = 36;
+      expect(applyMovement(state, 'p1', rollFour).state.players[0].cash).toBe(1900);
+
+      state.players[0].position = 38;
+      expect(applyMovement(state, 'p1', rollFour).state.players[0].cash).toBe(1700);
+    });
+  });
+
+  it('waives rent while the owner is in jail', () => {
+    const state = newGame({ noRentInJail: true });
+    state.players[1].properties = [6];
+    setPropertyState(state, { spaceId: 6, houses: 0, mortgaged: false });
+    state.players[0].position = 6;
+    expect(resolveSpace(state, 'p1', rollFour).type).toBe('rentPayment');
+
+    const jailed = sendToJail(state, 'p2');
+    expect(resolveSpace(jailed, 'p1', rollFour)).toMatchObject({ type: 'noAction', ownerId: 'p2' });
+  });
+
+  it('allows uneven building when the even-build rule is off', () => {
+    const state = newGame({ evenBuild: false });
+    state.players[0].properties = [1, 3];
+    setPropertyState(state, { spaceId: 1, houses: 0, mortgaged: false });
+    setPropertyState(state, { spaceId: 3, houses: 1, mortgaged: false });
+    expect(canBuildHouse(state, 'p1', 3)).toBeNull();
+    expect(canBuildHouse(newGame(), 'p1', 3)).not.toBeNull();
+  });
+
+  it('starts the bank with the configured building supply', () => {
+    expect(newGame({ maxHouses: 20, maxHotels: 6 }).buildingSupply).toEqual({
+      houses: 20,
+      hotels: 6,
+    });
+  });
+
+  it('charges the configured mortgage interest rate', () => {
+    const state = newGame({ mortgageInterestRate: 0.25 });
+    state.players[0].properties = [3]; // Baltic (mortgage $30)
+    setPropertyState(state, { spaceId: 3, houses: 0, mortgaged: true });
+    expect(unmortgageProperty(state, 'p1', 3).players[0].cash).toBe(1462);
+  });
+
+  it('charges the configured jail fine', () => {
+    const state = sendToJail(newGame({ jailFine: 120 }), 'p1');
+    expect(payJailFine(state, 'p1').players[0].cash).toBe(1380);
+
+    state.players[0].cash = 100;
+    expect(() => payJailFine(state, 'p1')).toThrow('Player cannot afford $120 jail fine');
+  });
+
+  it('deals distinct starting properties to every player', () => {
+    const state = newGame({ startingProperties: 3 });
+    const dealt = state.players.flatMap((p) => p.properties);
+
+    expect(state.players.map((p) => p.properties.length)).toEqual([3, 3, 3]);
+    expect(new Set(dealt).size).toBe(9);
+    for (const spaceId of dealt) {
+      expect(state.propertyStates?.[spaceId]).toEqual({ houses: 0, mortgaged: false });
+    }
+    expect(newGame({ startingProperties: 3 }).players).toEqual(state.players);
+  });
+
+  describe('must go around once before buying', () => {
+    it('ignores unowned property until the player has passed Go', () => {
+      const state = newGame({ mustCircuitBeforeBuying: true });
+      state.players[0].position = 6;
+      expect(resolveSpace(state, 'p1', rollFour).type).toBe('noAction');
+      expect(() => buyProperty(state, 'p1', 6)).toThrow('Must pass Go once before buying property');
+
+      state.players[0].hasPassedGo = true;
+      expect(resolveSpace(state, 'p1', rollFour).type).toBe('unownedProperty');
+      expect(buyProperty(state, 'p1', 6).players[0].properties).toEqual([6]);
+    });
+
+    it('still charges rent before the first lap', () => {
+      const state = newGame({ mustCircuitBeforeBuying: true });
+      state.players[1].properties = [6];
+      setPropertyState(state, { spaceId: 6, houses: 0, mortgaged: false });
+      state.players[0].position = 6;
+      expect(resolveSpace(state, 'p1', rollFour).type).toBe('rentPayment');
+    });
+  });
+
+  describe('validateHouseRules', () => {
+    it('accepts valid rules', () => {
+      expect(
+        validateHouseRules({ goSalary: 400, evenBuild: false, mortgageInterestRate: 0.15 }),
+      ).toBeNull();
+    });
+
+    it('rejects unknown rules and out-of-range values', () => {
+      expect(validateHouseRules({ maxPlayers: 8 } as never)).toBe("Unknown rule 'maxPlayers'");
+      expect(validateHouseRules({ startingProperties: 5 })).toBe(
+        "'startingProperties' must be between 0 and 4",
+      );
+      expect(validateHouseRules({ jailFine: 12.5 })).toBe("'jailFine' must be a whole number");
+      expect(validateHouseRules({ evenBuild: 'yes' as never })).toBe(
+        "'evenBuild' must be true or false",
+      );
+      expect(validateHouseRules({ freeParking: 'jackpot' as never })).toBe(
+        "Invalid value for 'freeParking'",
+      );
+    });
+  });
+});
@@ -0,0 +1,226 @@
+import { describe, it, expect } from 'vitest';
+import { simulateGame, runSimulation, formatSimulationSummary } from '../../simulation/simulator';
+import {
+  aggressiveStrategy,
+  cautiousStrategy,
+  passiveStrategy,
+  traderStrategy,
+  caretakerStrategy,
+  getStrategy,
+  liquidationActions,
+} from '../../simulation/strategies';
+import { decideAction, pendingDeciders } from '../../simulation/decisions';
+import { createInitialGameState } from '../../engine/state';
+import { applyGameAction } from '../../engine/reducer';
+import { TurnState } from '../../types/turn';
+
+const fourSeats = [aggressiveStrategy, cautiousStrategy, aggressiveStrategy, passiveStrategy];
+
+describe('simulateGame', () => {
+  it('is deterministic for a seed', () => {
+    const a = simulateGame({ seed: 7, strategies: fourSeats, maxTurns: 300 });
+    const b = simulateGame({ seed: 7, strategies: fourSeats, maxTurns: 300 });
+    expect(a).toEqual(b);
+  });
+
+  it('either finishes with a winner or reports why it stalled', () => {
+    const result = simulateGame({ seed: 3, strategies: fourSeats, maxTurns: 300 });
+    if (result.stalled) {
+      expect(result.winnerSeat).toBeNull();
+    } else {
+      expect(result.winnerSeat).not.toBeNull();
+      expect(result.bankruptcies).toHaveLength(fourSeats.length - 1);
+    }
+    expect(result.turns).toBeGreaterThan(1);
+  });
+
+  it('stalls on the turn limit when nobody buys anything', () => {
+    const result = simulateGame({
+      seed: 1,
+      strategies: [passiveStrategy, { ...passiveStrategy, auctionBid: () => null }],
+      maxTurns: 20,
+    });
+    expect(result.stalled).toBe('turnLimit');
+    expect(result.turns).toBe(21);
+  });
+
+  it('counts every roll as at least one landing', () => {
+    const result = simulateGame({ seed: 11, strategies: fourSeats, maxTurns: 50 });
+    const landings = Object.values(result.landings).reduce((sum, n) => sum + n, 0);
+    expect(landings).toBeGreaterThan(0);
+    expect(Object.keys(result.landings).every((id) => Number(id) >= 0 && Number(id) < 40)).toBe(
+      true,
+    );
+  });
+});
+
+describe('runSimulation', () => {
+  it('aggregates a small batch into a report', () => {
+    const report = runSimulation({ games: 4, seed: 42, strategies: fourSeats, maxTurns: 300 });
+
+    expect(report.config).toEqual({
+      games: 4,
+      players: 4,
+      seed: 42,
+      strategies: ['aggressive', 'cautious', 'aggressive', 'passive'],
+      maxTurns: 300,
+    });
+    expect(report.gamesCompleted + report.gamesStalled).toBe(4);
+    expect(report.stallReasons.turnLimit + report.stallReasons.noLegalAction).toBe(
+      report.gamesStalled,
+    );
+    expect(report.landingFrequency).toHaveLength(40);
+    expect(report.winsBySeat.reduce((a, b) => a + b, 0)).toBe(report.gamesCompleted);
+
+    const shares = report.landingFrequency.reduce((sum, s) => sum + s.share, 0);
+    expect(shares).toBeCloseTo(1, 2);
+  });
+
+  it('produces the same report for the same batch seed', () => {
+    const a = runSimulation({ games: 2, seed: 5, strategies: fourSeats, maxTurns: 200 });
+    const b = runSimulation({ games: 2, seed: 5, strategies: fourSeats, maxTurns: 200 });
+    expect(a).toEqual(b);
+  });
+
+  it('formats a human summary', () => {
+    const report = runSimulation({ games: 2, seed: 9, strategies: fourSeats, maxTurns: 200 });
+    const summary = formatSimulationSummary(report);
+    expect(summary).toContain('Games: 2');
+    expect(summary).toContain('ROI by group');
+    expect(summary).toContain('Bankruptcy causes');
+  });
+});
+
+describe('strategies', () => {
+  it('looks strategies up by name', () => {
+    expect(getStrategy('cautious')).toBe(cautiousStrategy);
+    expect(() => getStrategy('reckless')).toThrow("Unknown strategy 'reckless'");
+  });
+
+  it('lists mortgages cheapest first when raising cash', () => {
+    const state = createInitialGameState(
+      [
+        { id: 'p1', name: 'Alice' },
+        { id: 'p2', name: 'Bob' },
+      ],
+      { gameId: 'liquidate' },
+    );
+    state.players[0].properties = [39, 1];
+    expect(liquidationActions(state, 'p1')).toEqual([
+      { type: 'MortgageProperty', propertyId: 1 },
+      { type: 'MortgageProperty', propertyId: 39 },
+    ]);
+  });
+});
+
+describe('decideAction', () => {
+  function brownSplit() {
+    const state = createInitialGameState(
+      [
+        { id: 'p1', name: 'Alice' },
+        { id: 'p2', name: 'Bob' },
+      ],
+      { gameId: 'decide', settings: { seed: 1 } },
+    );
+    state.players[0].properties = [1];
+    state.players[1].properties = [3];
+    state.turnState = TurnState.PlayerAction;
+    return state;
+  }
+
+  it('only asks the active player outside auctions and trades', () => {
+    const state = brownSplit();
+    expect(pendingDeciders(state)).toEqual(['p1']);
+    expect(decideAction(state, 'p2', cautiousStrategy)).toBeNull();
+    expect(decideAction(state, 'p1', cautiousStrategy)?.action).toEqual({ type: 'EndTurn' });
+  });
+
+  it('lets a trader offer a premium for the last street of a group', () => {
+    const state = brownSplit();
+    const decision = decideAction(state, 'p1', traderStrategy);
+    expect(decision?.action).toEqual({
+      type: 'ProposeTrade',
+      recipientId: 'p2',
+      offer: {
+        offeredProperties: [],
+        offeredCash: 120,
+        offeredCards: 0,
+        requestedProperties: [3],
+        requestedCash: 0,
+        requestedCards: 0,
+      },
+    });
+  });
+
+  it('puts trade recipients first and lets them answer', () => {
+    const proposal = decideAction(brownSplit(), 'p1', traderStrategy)!;
+    const { state } = applyGameAction(brownSplit(), 'p1', proposal.action);
+    expect(pendingDeciders(state)).toEqual(['p2', 'p1']);
+
+    const answer = decideAction(state, 'p2', cautiousStrategy);
+    expect(answer?.action.type).toBe('AcceptTrade');
+    // A stingy offer for a monopoly is turned down
+    state.pendingTrades![0].offeredCash = 80;
+    expect(decideAction(state, 'p2', cautiousStrategy)?.action.type).toBe('RejectTrade');
+  });
+
+  it('lets the caretaker turn down every trade and skip building', () => {
+    const proposal = decideAction(brownSplit(), 'p1', traderStrategy)!;
+    const { state } = applyGameAction(brownSplit(), 'p1', proposal.action);
+    expect(decideAction(state, 'p2', caretakerStrategy)?.action.type).toBe('RejectTrade');
+
+    state.pendingTrades = [];
+    state.players[1].properties = [];
+    state.players[0].properties = [1, 3];
+    expect(decideAction(state, 'p1', caretakerStrategy)?.action).toEqual({ type: 'EndTurn' });
+  });
+
+  it('raises cash before declaring bankruptcy', () => {
+    const state = brownSplit();
+    state.turnState = TurnState.RaisingFunds;
+    state.pendingDebt = { debtorId: 'p1', creditorId: 'p2', amount: 20 };
+    expect(decideAction(state, 'p1', caretakerStrategy)).toEqual({
+      playerId: 'p1',
+      action: { type: 'MortgageProperty', propertyId: 1 },
+      fallbacks: [{ type: 'DeclareBankruptcy', creditorId: 'p2' }],
+    });
+  });
+
+  it('waits on a creditor to settle inherited mortgages before anything else', () => {
+    const state = brownSplit();
+    state.pendingInheritance = { creditorId: 'p2', propertyIds: [39] };
+    expect(pendingDeciders(state)).toEqual(['p2']);
+    expect(decideAction(state, 'p1', cautiousStrategy)).toBeNull();
+    expect(decideAction(state, 'p2', cautiousStrategy)?.action).toEqual({
+      type: 'UnmortgageInheritedProperty',
+      propertyId: 39,
+    });
+
+    state.players[1].cash = 400;
+    expect(decideAction(state, 'p2', cautiousStrategy)?.action).toEqual({
+      type: 'KeepInheritedMortgage',
+      propertyId: 39,
+    });
+  });
+
+  it('has a creditor short of the interest raise it or go bankrupt to the bank', () => {
+    const state = brownSplit();
+    state.pendingInheritance = { creditorId: 'p2', propertyIds: [39] };
+    state.players[1].cash = 10;
+    expect(decideAction(state, 'p2', cautiousStrategy)).toEqual({
+      playerId: 'p2',
+      action: { type: 'MortgageProperty', propertyId: 3 },
+      fallbacks: [{ type: 'DeclareBankruptcy', creditorId: 'bank' }],
+    });
+  });
+
+  it('does not ask the same owner twice', () => {
+    const proposal = decideAction(brownSplit(), 'p1', traderStrategy)!;
+    let { state } = applyGameAction(brownSplit(), 'p1', proposal.action);
+    ({ state } = applyGameAction(state, 'p2', {
+      type: 'RejectTrade',
+      tradeId: state.pendingTrades![0].id,
+    }));
+    expect(decideAction(state, 'p1', traderStrategy)?.action).toEqual({ type: 'EndTurn' });
+  });
+});
@@ -1,11 +1,10 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect } from 'vitest';
 import {
   resolveSpace,
   applySpaceResolution,
   calculateRailroadRent,
   calculateUtilityRent,
   setPropertyState,
-  resetPropertyStates,
 } from '../../engine/spaces';
 import { createInitialGameState, getSpaceByPosition, type PlayerSetup } from '../../engine/state';
 import type { DiceResult } from '../../engine/dice';
@@ -23,10 +22,6 @@ function makeState(): GameState {
 const defaultDice: DiceResult = { die1: 3, die2: 5, total: 8, isDoubles: false };
 
 describe('Step 1A.4 — Space Resolution Engine', () => {
-  beforeEach(() => {
-    resetPropertyStates('test-spaces');
-  });
-
   describe('resolveSpace dispatcher', () => {
     it('P1A.S4.T1: routes property space correctly', () => {
       const state = makeState();
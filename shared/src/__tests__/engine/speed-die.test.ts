@@ -0,0 +1,197 @@
+import { describe, it, expect } from 'vitest';
+import { rollDice } from '../../engine/dice';
+import { applyGameAction } from '../../engine/reducer';
+import { createRng } from '../../engine/rng';
+import { findMrMonopolyDestination } from '../../engine/speed-die';
+import { setPropertyState } from '../../engine/spaces';
+import { createInitialGameState, type PlayerSetup } from '../../engine/state';
+import { GameEventType } from '../../types/gameEvent';
+import type { GameSettings } from '../../types/gameSettings';
+import { TurnState } from '../../types/turn';
+
+const players: PlayerSetup[] = [
+  { id: 'p1', name: 'Alice' },
+  { id: 'p2', name: 'Bob' },
+];
+
+// RNG states that make the next roll come up with the given Speed Die face
+const BUS_ROLL = 42; // 4 + 3, bus
+const TRIPLES_ROLL = 60; // 2 + 2 + 2
+const MR_MONOPOLY_ROLL = 1; // 4 + 1, Mr. Monopoly
+const NUMBER_ROLL = 2; // 5 + 2 + 2
+
+function newGame(settings: Partial<GameSettings> = { speedDie: true }, rngState = BUS_ROLL) {
+  const state = createInitialGameState(players, {
+    gameId: 'speed-die-game',
+    settings: { seed: 3, ...settings },
+  });
+  state.players[0].hasPassedGo = true;
+  state.rngState = rngState;
+  return state;
+}
+
+function own(state: ReturnType<typeof newGame>, playerIndex: number, spaceIds: number[]) {
+  state.players[playerIndex].properties.push(...spaceIds);
+  for (const spaceId of spaceIds) setPropertyState(state, { spaceId, houses: 0, mortgaged: false });
+}
+
+describe('Speed Die', () => {
+  it('rolls a third die only when asked', () => {
+    expect(rollDice(createRng(5)).speedDie).toBeUndefined();
+
+    const faces = new Set<unknown>();
+    const rng = createRng(5);
+    for (let i = 0; i < 200; i++) {
+      const roll = rollDice(rng, { speedDie: true });
+      faces.add(roll.speedDie);
+      const numbered = typeof roll.speedDie === 'number' ? roll.speedDie : 0;
+      expect(roll.total).toBe(roll.die1 + roll.die2 + numbered);
+    }
+    expect(faces).toEqual(new Set([1, 2, 3, 'mrMonopoly', 'bus']));
+  });
+
+  it('adds a numbered face to the move', () => {
+    const { state } = applyGameAction(newGame(undefined, NUMBER_ROLL), 'p1', { type: 'RollDice' });
+    expect(state.lastDiceResult).toMatchObject({ die1: 5, die2: 2, speedDie: 2, total: 9 });
+    expect(state.players[0].position).toBe(9);
+  });
+
+  it('is not rolled before passing Go or in a standard game', () => {
+    const firstLap = newGame();
+    firstLap.players[0].hasPassedGo = false;
+    expect(applyGameAction(firstLap, 'p1', { type: 'RollDice' }).state.lastDiceResult).toEqual({
+      die1: 4,
+      die2: 3,
+      total: 7,
+      isDoubles: false,
+    });
+
+    const standard = newGame({});
+    expect(
+      applyGameAction(standard, 'p1', { type: 'RollDice' }).state.lastDiceResult?.speedDie,
+    ).toBe(undefined);
+  });
+
+  describe('bus', () => {
+    it('lets the player move either die or the total', () => {
+      const { state, events } = applyGameAction(newGame(), 'p1', { type: 'RollDice' });
+      expect(state.turnState).toBe(TurnState.ChoosingSpeedDieMove);
+      expect(state.pendingSpeedDie).toEqual({ type: 'bus', destinations: [4, 3, 7] });
+      expect(state.players[0].position).toBe(0);
+      expect(events.at(-1)).toMatchObject({
+        type: GameEventType.DiceRolled,
+        payload: { speedDie: 'bus', isTriples: false },
+      });
+
+      const moved = applyGameAction(state, 'p1', { type: 'ChooseSpeedDieMove', destination: 3 });
+      expect(moved.state.players[0].position).toBe(3);
+      expect(moved.state.pendingSpeedDie).toBeNull();
+      expect(moved.state.turnState).toBe(TurnState.AwaitingBuyDecision);
+      expect(moved.events[0]).toMatchObject({
+        type: GameEventType.SpeedDieMoved,
+        payload: { playerId: 'p1', face: 'bus', toPosition: 3, spaceName: 'Baltic Avenue' },
+      });
+    });
+
+    it('rejects a destination the roll does not allow', () => {
+      const { state } = applyGameAction(newGame(), 'p1', { type: 'RollDice' });
+      const result = applyGameAction(state, 'p1', { type: 'ChooseSpeedDieMove', destination: 5 });
+      expect(result.error?.message).toBe('Cannot move to space 5 with this roll');
+      expect(applyGameAction(state, 'p1', { type: 'EndTurn' }).error?.code).toBe(
+        'WRONG_TURN_STATE',
+      );
+    });
+
+    it('wraps past Go and pays the salary', () => {
+      const game = newGame();
+      game.players[0].position = 37;
+      const { state } = applyGameAction(game, 'p1', { type: 'RollDice' });
+      expect(state.pendingSpeedDie?.destinations).toEqual([1, 0, 4]);
+      const moved = applyGameAction(state, 'p1', { type: 'ChooseSpeedDieMove', destination: 1 });
+      expect(moved.state.players[0].cash).toBe(1700);
+    });
+  });
+
+  describe('triples', () => {
+    it('moves anywhere on the board and ends the turn without another roll', () => {
+      const { state } = applyGameAction(newGame(undefined, TRIPLES_ROLL), 'p1', {
+        type: 'RollDice',
+      });
+      expect(state.lastDiceResult).toMatchObject({ isDoubles: true, isTriples: true });
+      expect(state.pendingSpeedDie?.type).toBe('triples');
+      expect(state.pendingSpeedDie?.destinations).toHaveLength(40);
+
+      const moved = applyGameAction(state, 'p1', { type: 'ChooseSpeedDieMove', destination: 20 });
+      expect(moved.state.players[0].position).toBe(20);
+      expect(moved.state.turnState).toBe(TurnState.PlayerAction);
+      expect(moved.state.doublesCount).toBe(0);
+    });
+  });
+
+  describe('Mr. Monopoly', () => {
+    it('moves on to the next unowned property after the roll is settled', () => {
+      const { state } = applyGameAction(newGame(undefined, MR_MONOPOLY_ROLL), 'p1', {
+        type: 'RollDice',
+      });
+      expect(state.players[0].position).toBe(5);
+      expect(state.turnState).toBe(TurnState.AwaitingBuyDecision);
+      expect(state.pendingSpeedDie).toEqual({ type: 'mrMonopoly' });
+
+      const bought = applyGameAction(state, 'p1', { type: 'BuyProperty', propertyId: 5 });
+      expect(bought.state.players[0].position).toBe(6);
+      expect(bought.state.pendingSpeedDie).toBeNull();
+      expect(bought.state.turnState).toBe(TurnState.AwaitingBuyDecision);
+      expect(bought.events).toContainEqual(
+        expect.objectContaining({
+          type: GameEventType.SpeedDieMoved,
+          payload: {
+            playerId: 'p1',
+            face: 'mrMonopoly',
+            toPosition: 6,
+            spaceName: 'Oriental Avenue',
+          },
+        }),
+      );
+    });
+
+    it('heads for the next rent once every property is owned', () => {
+      const game = newGame(undefined, MR_MONOPOLY_ROLL);
+      const purchasable = game.board
+        .filter((s) => ['property', 'railroad', 'utility'].includes(s.type))
+        .map((s) => s.id);
+      own(
+        game,
+        0,
+        purchasable.filter((id) => id < 15),
+      );
+      own(
+        game,
+        1,
+        purchasable.filter((id) => id >= 15),
+      );
+      game.propertyStates![15] = { houses: 0, mortgaged: true };
+      game.players[0].position = 5;
+      game.players[1].position = 5;
+
+      expect(findMrMonopolyDestination(game, 'p1')).toBe(16);
+      expect(findMrMonopolyDestination(game, 'p2')).toBe(6);
+    });
+
+    it('stays put when there is nowhere to go', () => {
+      const game = newGame(undefined, MR_MONOPOLY_ROLL);
+      own(
+        game,
+        0,
+        game.board
+          .filter((s) => ['property', 'railroad', 'utility'].includes(s.type))
+          .map((s) => s.id),
+      );
+      expect(findMrMonopolyDestination(game, 'p1')).toBeNull();
+
+      const { state, events } = applyGameAction(game, 'p1', { type: 'RollDice' });
+      expect(state.players[0].position).toBe(5);
+      expect(state.turnState).toBe(TurnState.PlayerAction);
+      expect(events.map((e) => e.type)).not.toContain(GameEventType.SpeedDieMoved);
+    });
+  });
+});
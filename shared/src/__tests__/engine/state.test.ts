@@ -10,6 +10,16 @@ import {
   deserializeGameState,
   type PlayerSetup,
 } from '../../engine/state';
+import { getPropertyState, setPropertyState } from '../../engine/spaces';
+import {
+  getAuction,
+  getBuildingSupply,
+  placeBid,
+  setBuildingSupply,
+  startAuction,
+} from '../../engine/properties';
+import { getConsecutiveDoubles, setConsecutiveDoubles } from '../../engine/dice';
+import { acceptTrade, createTradeOffer, getTrade } from '../../engine/trading';
 
 const twoPlayers: PlayerSetup[] = [
   { id: 'p1', name: 'Alice' },
@@ -145,5 +155,37 @@ describe('Step 1A.1 — Game State Manager', () => {
       const restored = deserializeGameState(json);
       expect(restored).toEqual(state);
     });
+
+    it('round-trips in-flight rules state (auction, supply, doubles, trades)', () => {
+      const state = createInitialGameState(twoPlayers, { gameId: 'roundtrip' });
+      state.players[0].properties = [3];
+      setPropertyState(state, { spaceId: 3, houses: 0, mortgaged: false });
+      setBuildingSupply(state, { houses: 20, hotels: 5 });
+      setConsecutiveDoubles(state, 'p1', 2);
+      startAuction(state, 1);
+      placeBid(state, 'p2', 40);
+      const { state: withTrade, trade } = createTradeOffer(state, 'p1', 'p2', {
+        offeredProperties: [3],
+        offeredCash: 0,
+        offeredCards: 0,
+        requestedProperties: [],
+        requestedCash: 100,
+        requestedCards: 0,
+      });
+
+      const restored = deserializeGameState(serializeGameState(withTrade));
+
+      expect(getAuction(restored)?.highBidderId).toBe('p2');
+      expect(getAuction(restored)?.highBid).toBe(40);
+      expect(getBuildingSupply(restored)).toEqual({ houses: 20, hotels: 5 });
+      expect(getConsecutiveDoubles(restored, 'p1')).toBe(2);
+      expect(getPropertyState(restored, 3)).toEqual({ spaceId: 3, houses: 0, mortgaged: false });
+      expect(getTrade(restored, trade.id)?.status).toBe('pending');
+
+      const accepted = acceptTrade(restored, trade.id);
+      expect(accepted.players[1].properties).toContain(3);
+      expect(accepted.pendingTrades).toEqual([]);
+      expect(getTrade(accepted, trade.id)?.status).toBe('accepted');
+    });
   });
 });
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { getFinalStandings, getWinner } from '../../engine/bankruptcy';
+import { advanceToNextPlayer, applyGameAction, expireGameClock } from '../../engine/reducer';
+import { applyReplayStep } from '../../engine/replay';
+import { createInitialGameState, type PlayerSetup } from '../../engine/state';
+import { getRound, isFinalRoundOver, startGameClock } from '../../engine/timed-game';
+import { GameEventType } from '../../types/gameEvent';
+import type { GameSettings } from '../../types/gameSettings';
+import { TurnState } from '../../types/turn';
+
+const players: PlayerSetup[] = [
+  { id: 'p1', name: 'Alice' },
+  { id: 'p2', name: 'Bob' },
+  { id: 'p3', name: 'Carol' },
+];
+
+function newGame(settings: Partial<GameSettings> = {}) {
+  return createInitialGameState(players, {
+    gameId: 'timed-game',
+    settings: { seed: 9, ...settings },
+  });
+}
+
+// The last seat has rolled and is about to end the turn
+function lastTurnOfRound(settings: Partial<GameSettings> = {}) {
+  const state = newGame(settings);
+  state.currentPlayerIndex = 2;
+  state.turnState = TurnState.PlayerAction;
+  return state;
+}
+
+describe('timed games', () => {
+  it('counts a new round each time play wraps around the table', () => {
+    let state = newGame();
+    expect(getRound(state)).toBe(1);
+    state = advanceToNextPlayer(advanceToNextPlayer(state));
+    expect(getRound(state)).toBe(1);
+    state = advanceToNextPlayer(state);
+    expect(state.currentPlayerIndex).toBe(0);
+    expect(getRound(state)).toBe(2);
+  });
+
+  it('starts the clock only when a time limit is set', () => {
+    const untimed = newGame();
+    startGameClock(untimed, 1000);
+    expect(untimed.gameClock).toBeUndefined();
+
+    const timed = newGame({ gameTimeLimit: 30 });
+    startGameClock(timed, 1000);
+    expect(timed.gameClock).toEqual({ startedAt: 1000, endsAt: 1000 + 30 * 60_000 });
+  });
+
+  it('announces the final round when the round limit is reached', () => {
+    const { state, events } = applyGameAction(lastTurnOfRound({ roundLimit: 2 }), 'p3', {
+      type: 'EndTurn',
+    });
+    expect(getRound(state)).toBe(2);
+    expect(state.finalRound).toBe(2);
+    expect(state.status).toBe('playing');
+    expect(events.at(-1)).toMatchObject({
+      type: GameEventType.FinalRoundStarted,
+      payload: { round: 2, reason: 'rounds' },
+    });
+  });
+
+  it('makes the current round the last one when the clock runs out', () => {
+    const game = newGame({ gameTimeLimit: 30 });
+    const { state, events } = expireGameClock(game, { now: 5000 });
+    expect(state.finalRound).toBe(1);
+    expect(events).toEqual([
+      expect.objectContaining({
+        type: GameEventType.FinalRoundStarted,
+        payload: { round: 1, reason: 'time' },
+        timestamp: 5000,
+      }),
+    ]);
+    expect(game.finalRound).toBeUndefined();
+
+    // A second expiry changes nothing
+    expect(expireGameClock(state).events).toEqual([]);
+  });
+
+  it('ends the game by net worth once the final round is over', () => {
+    const game = lastTurnOfRound();
+    game.finalRound = 1;
+    game.players[1].cash = 2500;
+    game.players[1].properties = [39]; // Boardwalk
+
+    const { state, events } = applyGameAction(game, 'p3', { type: 'EndTurn' });
+    expect(isFinalRoundOver(state)).toBe(true);
+    expect(state.status).toBe('finished');
+    expect(getWinner(state)).toBe('p2');
+    expect(events.at(-1)).toMatchObject({
+      type: GameEventType.GameEnded,
+      payload: { winnerId: 'p2', reason: 'finalRound' },
+    });
+  });
+
+  it('ends a timed game on an automatic end of turn too', () => {
+    const game = lastTurnOfRound();
+    game.finalRound = 1;
+    const state = applyReplayStep(game, { type: 'autoEndTurn', timestamp: 1 });
+    expect(state.status).toBe('finished');
+  });
+
+  it('replays a clock expiry', () => {
+    const state = applyReplayStep(newGame({ gameTimeLimit: 60 }), {
+      type: 'clockExpired',
+      timestamp: 1,
+    });
+    expect(state.finalRound).toBe(1);
+  });
+
+  it('ranks survivors by net worth ahead of bankrupt players', () => {
+    const game = lastTurnOfRound();
+    game.finalRound = 1;
+    game.players[0].cash = 900;
+    game.players[1].isBankrupt = true;
+    game.players[1].isActive = false;
+    game.events.push({
+      id: 'evt-1',
+      gameId: game.gameId,
+      type: GameEventType.PlayerBankrupt,
+      payload: { playerId: 'p2', creditorId: 'bank' },
+      timestamp: 0,
+    });
+
+    const { state } = applyGameAction(game, 'p3', { type: 'EndTurn' });
+    expect(getFinalStandings(state)).toEqual([
+      { playerId: 'p3', playerName: 'Carol', position: 1, netWorth: 1500, eliminationOrder: 0 },
+      { playerId: 'p1', playerName: 'Alice', position: 2, netWorth: 900, eliminationOrder: 0 },
+      { playerId: 'p2', playerName: 'Bob', position: 3, netWorth: 0, eliminationOrder: 1 },
+    ]);
+  });
+});
@@ -1,16 +1,28 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect } from 'vitest';
 import {
   createTradeOffer,
+  createMultiTradeOffer,
+  getTradeHoldouts,
+  getTradeProblem,
   acceptTrade,
   rejectTrade,
   counterTrade,
   storeTrade,
   getTrade,
-  resetTrades,
+  getTradeThreads,
 } from '../../engine/trading';
-import { setPropertyState, resetPropertyStates } from '../../engine/spaces';
+import { applyGameAction, expireTrades } from '../../engine/reducer';
+import { applyReplayStep } from '../../engine/replay';
+import { pendingDeciders } from '../../simulation/decisions';
+import { setPropertyState } from '../../engine/spaces';
+import { startAuction, placeBid } from '../../engine/properties';
 import { createInitialGameState, type PlayerSetup } from '../../engine/state';
+import { GameEventType } from '../../types/gameEvent';
+import type { GameAction, TradeOfferPayload } from '../../types/gameAction';
+import type { GameSettings } from '../../types/gameSettings';
 import type { GameState } from '../../types/gameState';
+import type { TradeTransfer } from '../../types/trade';
+import { TurnState } from '../../types/turn';
 
 const players: PlayerSetup[] = [
   { id: 'p1', name: 'Alice' },
@@ -22,11 +34,6 @@ function makeState(): GameState {
 }
 
 describe('Step 1A.7 — Trading Logic', () => {
-  beforeEach(() => {
-    resetPropertyStates('test-trading');
-    resetTrades();
-  });
-
   describe('createTradeOffer', () => {
     it('P1A.S7.T1: creates a trade offer in pending status', () => {
       const state = makeState();
@@ -79,6 +86,40 @@ describe('Step 1A.7 — Trading Logic', () => {
       ).toThrow('cannot afford');
     });
 
+    it('rejects negative or fractional cash and cards', () => {
+      const state = makeState();
+      const offer = (items: Partial<TradeOfferPayload>) => () =>
+        createTradeOffer(state, 'p1', 'p2', {
+          offeredProperties: [],
+          offeredCash: 0,
+          offeredCards: 0,
+          requestedProperties: [],
+          requestedCash: 0,
+          requestedCards: 0,
+          ...items,
+        });
+      const message = 'Cash and cards in a trade must be whole numbers, zero or more';
+      expect(offer({ requestedCash: -100 })).toThrow(message);
+      expect(offer({ offeredCash: 10.5 })).toThrow(message);
+      expect(offer({ requestedCards: -1 })).toThrow(message);
+    });
+
+    it('only offers trades to another player still in the game', () => {
+      const state = makeState();
+      const offerTo = (recipientId: string) => () =>
+        createTradeOffer(state, 'p1', recipientId, {
+          offeredProperties: [],
+          offeredCash: 10,
+          offeredCards: 0,
+          requestedProperties: [],
+          requestedCash: 0,
+          requestedCards: 0,
+        });
+      expect(offerTo('p1')).toThrow('Players cannot trade with themselves');
+      state.players[1].isBankrupt = true;
+      expect(offerTo('p2')).toThrow('Recipient not found');
+    });
+
     it("P1A.S7.T3: rejects if recipient doesn't own requested property", () => {
       const state = makeState();
       expect(() =>
@@ -128,7 +169,7 @@ describe('Step 1A.7 — Trading Logic', () => {
         requestedCash: 0,
         requestedCards: 0,
       });
-      storeTrade(trade);
+      storeTrade(state, trade);
 
       const newState = acceptTrade(state, trade.id);
       expect(newState.players[0].properties).toContain(6);
@@ -155,7 +196,7 @@ describe('Step 1A.7 — Trading Logic', () => {
         requestedCash: 0,
         requestedCards: 0,
       });
-      storeTrade(trade);
+      storeTrade(state, trade);
 
       const newState = acceptTrade(state, trade.id);
 
@@ -171,6 +212,52 @@ describe('Step 1A.7 — Trading Logic', () => {
       expect(newState.players[1].cash).toBe(1700);
       expect(newState.players[1].getOutOfJailFreeCards).toBe(1);
     });
+
+    it('refuses to take a bidder below the cash they have bid at auction', () => {
+      const state = makeState();
+      state.players[0].properties = [3];
+      setPropertyState(state, { spaceId: 3, houses: 0, mortgaged: false });
+      const { trade } = createTradeOffer(state, 'p1', 'p2', {
+        offeredProperties: [3],
+        offeredCash: 0,
+        offeredCards: 0,
+        requestedProperties: [],
+        requestedCash: 1000,
+        requestedCards: 0,
+      });
+      storeTrade(state, trade);
+
+      startAuction(state, 39, 0);
+      placeBid(state, 'p2', 1400, 0);
+      expect(() => acceptTrade(state, trade.id)).toThrow(
+        "Trade is no longer valid: Bob can't pay out $1000 while bidding $1400 at auction",
+      );
+
+      placeBid(state, 'p1', 1450, 0);
+      expect(acceptTrade(state, trade.id).players[1].cash).toBe(500);
+    });
+
+    it('counts a sealed bid as cash already promised', () => {
+      const state = createInitialGameState(players, {
+        gameId: 'test-trading',
+        settings: { sealedBidAuctions: true },
+      });
+      const { trade } = createTradeOffer(state, 'p1', 'p2', {
+        offeredProperties: [],
+        offeredCash: 0,
+        offeredCards: 0,
+        requestedProperties: [],
+        requestedCash: 200,
+        requestedCards: 0,
+      });
+      storeTrade(state, trade);
+
+      startAuction(state, 39, 0);
+      placeBid(state, 'p2', 1400, 0);
+      expect(getTradeProblem(state, trade, 'p2')).toBe(
+        "Bob can't pay out $200 while bidding $1400 at auction",
+      );
+    });
   });
 
   describe('rejectTrade', () => {
@@ -187,13 +274,13 @@ describe('Step 1A.7 — Trading Logic', () => {
         requestedCash: 0,
         requestedCards: 0,
       });
-      storeTrade(trade);
+      storeTrade(state, trade);
 
       const newState = rejectTrade(state, trade.id);
       expect(newState.players[0].properties).toContain(3);
       expect(newState.players[0].cash).toBe(1500);
 
-      const rejectedTrade = getTrade(trade.id);
+      const rejectedTrade = getTrade(newState, trade.id);
       expect(rejectedTrade?.status).toBe('rejected');
     });
   });
@@ -214,9 +301,9 @@ describe('Step 1A.7 — Trading Logic', () => {
         requestedCash: 0,
         requestedCards: 0,
       });
-      storeTrade(trade);
+      storeTrade(state, trade);
 
-      const { trade: counter } = counterTrade(state, trade.id, {
+      const { state: counterState, trade: counter } = counterTrade(state, trade.id, {
         offeredProperties: [6],
         offeredCash: 0,
         offeredCards: 0,
@@ -232,8 +319,483 @@ describe('Step 1A.7 — Trading Logic', () => {
       expect(counter.status).toBe('pending');
 
       // Original marked as countered
-      const original = getTrade(trade.id);
+      const original = getTrade(counterState, trade.id);
       expect(original?.status).toBe('countered');
     });
   });
+
+  describe('stale trades', () => {
+    const START = 1_000_000;
+    const balticForOriental: TradeOfferPayload = {
+      offeredProperties: [3],
+      offeredCash: 100,
+      offeredCards: 0,
+      requestedProperties: [6],
+      requestedCash: 0,
+      requestedCards: 0,
+    };
+
+    // Alice holds the brown group and is mid-turn; Bob owns Oriental Avenue
+    function tradingGame(settings: Partial<GameSettings> = {}): GameState {
+      const state = createInitialGameState(players, {
+        gameId: 'test-trading',
+        settings: { seed: 1, ...settings },
+      });
+      state.turnState = TurnState.PlayerAction;
+      state.players[0].properties = [1, 3];
+      state.players[1].properties = [6];
+      for (const spaceId of [1, 3, 6])
+        setPropertyState(state, { spaceId, houses: 0, mortgaged: false });
+      return state;
+    }
+
+    function propose(state: GameState, offer = balticForOriental): GameState {
+      const result = applyGameAction(
+        state,
+        'p1',
+        { type: 'ProposeTrade', recipientId: 'p2', offer },
+        { now: START },
+      );
+      expect(result.error).toBeUndefined();
+      return result.state;
+    }
+
+    it('rechecks a trade when it is accepted', () => {
+      const state = tradingGame();
+      const { state: offered, trade } = createTradeOffer(state, 'p1', 'p2', balticForOriental);
+
+      offered.players[0].properties = [1];
+      expect(() => acceptTrade(offered, trade.id)).toThrow(
+        'Trade is no longer valid: Alice no longer owns Baltic Avenue',
+      );
+
+      const { state: asking, trade: ask } = createTradeOffer(state, 'p1', 'p2', {
+        ...balticForOriental,
+        offeredCash: 0,
+        requestedCash: 300,
+      });
+      asking.players[1].cash = 250;
+      expect(() => acceptTrade(asking, ask.id)).toThrow('Bob cannot afford the $300 asked for');
+    });
+
+    it('calls off a trade once the proposer builds on the group it offers from', () => {
+      const state = propose(tradingGame());
+      const tradeId = state.pendingTrades![0].id;
+
+      const { state: built, events } = applyGameAction(
+        state,
+        'p1',
+        { type: 'BuildHouse', propertyId: 1 },
+        { now: START },
+      );
+      expect(built.pendingTrades).toEqual([]);
+      expect(getTrade(built, tradeId)).toMatchObject({
+        status: 'invalidated',
+        reason: "Baltic Avenue can't change hands while its color group has buildings",
+      });
+      expect(events.at(-1)).toMatchObject({
+        type: GameEventType.TradeCancelled,
+        payload: { tradeId, proposerId: 'p1', recipientId: 'p2', status: 'invalidated' },
+      });
+    });
+
+    it('lets an unanswered offer lapse after the time limit', () => {
+      const state = propose(tradingGame({ tradeTimeLimit: 60 }));
+      const trade = state.pendingTrades![0];
+      expect(trade.expiresAt).toBe(START + 60_000);
+
+      const late = applyGameAction(
+        state,
+        'p2',
+        { type: 'AcceptTrade', tradeId: trade.id },
+        { now: START + 60_000 },
+      );
+      expect(late.error?.message).toBe('Trade offer has expired');
+      const lateCounter = applyGameAction(
+        state,
+        'p2',
+        {
+          type: 'CounterTrade',
+          tradeId: trade.id,
+          offer: { ...balticForOriental, offeredProperties: [6], requestedProperties: [3] },
+        },
+        { now: START + 60_000 },
+      );
+      expect(lateCounter.error?.message).toBe('Trade offer has expired');
+      expect(expireTrades(state, { now: START + 59_000 }).error?.message).toBe(
+        'No trade offers have expired',
+      );
+
+      const { state: lapsed, events } = expireTrades(state, { now: START + 60_000 });
+      expect(getTrade(lapsed, trade.id)).toMatchObject({
+        status: 'expired',
+        reason: 'The offer ran out of time',
+      });
+      expect(events).toHaveLength(1);
+      expect(
+        applyReplayStep(state, { type: 'tradesExpired', timestamp: START + 60_000 }).pendingTrades,
+      ).toEqual([]);
+    });
+
+    it('keeps offers open indefinitely when there is no time limit', () => {
+      const state = propose(tradingGame({ tradeTimeLimit: 0 }));
+      expect(state.pendingTrades![0].expiresAt).toBeNull();
+      expect(expireTrades(state, { now: START + 3_600_000 }).error).toBeDefined();
+    });
+  });
+
+  describe('multi-party trades', () => {
+    const table: PlayerSetup[] = [
+      { id: 'p1', name: 'Alice' },
+      { id: 'p2', name: 'Bob' },
+      { id: 'p3', name: 'Carol' },
+      { id: 'p4', name: 'Dave' },
+    ];
+
+    // Alice owns Baltic, Bob Oriental, Carol Vermont and Dave a jail card
+    function tableGame(): GameState {
+      const state = createInitialGameState(table, {
+        gameId: 'test-trading',
+        settings: { seed: 1 },
+      });
+      state.turnState = TurnState.PlayerAction;
+      state.players[0].properties = [3];
+      state.players[1].properties = [6];
+      state.players[2].properties = [8];
+      state.players[3].getOutOfJailFreeCards = 1;
+      for (const spaceId of [3, 6, 8])
+        setPropertyState(state, { spaceId, houses: 0, mortgaged: false });
+      return state;
+    }
+
+    function give(fromId: string, toId: string, items: Partial<TradeTransfer>): TradeTransfer {
+      return { fromId, toId, properties: [], cash: 0, cards: 0, ...items };
+    }
+
+    function act(state: GameState, playerId: string, action: GameAction) {
+      const result = applyGameAction(state, playerId, action);
+      expect(result.error).toBeUndefined();
+      return result;
+    }
+
+    it('carries out a three-way deal once everyone has accepted', () => {
+      const transfers = [
+        give('p1', 'p2', { properties: [3] }),
+        give('p2', 'p3', { cash: 200 }),
+        give('p3', 'p1', { properties: [8] }),
+      ];
+      let { state } = act(tableGame(), 'p1', { type: 'ProposeMultiTrade', transfers });
+      const trade = state.pendingTrades![0];
+      expect(trade.participantIds).toEqual(['p1', 'p2', 'p3']);
+      expect(getTradeHoldouts(trade)).toEqual(['p2', 'p3']);
+      expect(pendingDeciders(state)).toEqual(['p2', 'p3', 'p1']);
+
+      const bob = act(state, 'p2', { type: 'AcceptTrade', tradeId: trade.id });
+      state = bob.state;
+      expect(bob.events).toEqual([]);
+      expect(getTradeHoldouts(getTrade(state, trade.id)!)).toEqual(['p3']);
+      expect(state.players[0].properties).toEqual([3]);
+
+      const carol = act(state, 'p3', { type: 'AcceptTrade', tradeId: trade.id });
+      state = carol.state;
+      expect(carol.events.map((e) => e.type)).toEqual([GameEventType.TradeCompleted]);
+      expect(state.players.map((p) => p.properties)).toEqual([[8], [6, 3], [], []]);
+      expect(state.players.map((p) => p.cash)).toEqual([1500, 1300, 1700, 1500]);
+      expect(getTrade(state, trade.id)?.status).toBe('accepted');
+    });
+
+    it('carries out a four-way deal in one go', () => {
+      const transfers = [
+        give('p1', 'p2', { properties: [3], cash: 50 }),
+        give('p2', 'p3', { properties: [6] }),
+        give('p3', 'p4', { properties: [8] }),
+        give('p4', 'p1', { cards: 1, cash: 100 }),
+      ];
+      let { state } = act(tableGame(), 'p1', { type: 'ProposeMultiTrade', transfers });
+      const tradeId = state.pendingTrades![0].id;
+      for (const id of ['p4', 'p2', 'p3']) {
+        state = act(state, id, { type: 'AcceptTrade', tradeId }).state;
+      }
+
+      expect(state.players.map((p) => p.properties)).toEqual([[], [3], [6], [8]]);
+      expect(state.players.map((p) => p.cash)).toEqual([1550, 1550, 1500, 1400]);
+      expect(state.players.map((p) => p.getOutOfJailFreeCards)).toEqual([1, 0, 0, 0]);
+    });
+
+    it('leaves everything untouched when the last acceptance cannot be covered', () => {
+      const transfers = [
+        give('p1', 'p2', { properties: [3] }),
+        give('p2', 'p3', { properties: [6] }),
+        give('p3', 'p4', { properties: [8] }),
+        give('p4', 'p1', { cash: 400 }),
+      ];
+      let { state } = act(tableGame(), 'p1', { type: 'ProposeMultiTrade', transfers });
+      const tradeId = state.pendingTrades![0].id;
+      state = act(state, 'p2', { type: 'AcceptTrade', tradeId }).state;
+      state = act(state, 'p3', { type: 'AcceptTrade', tradeId }).state;
+      state.players[3].cash = 300;
+
+      const result = applyGameAction(state, 'p4', { type: 'AcceptTrade', tradeId });
+      expect(result.error?.message).toBe(
+        'Trade is no longer valid: Dave cannot afford the $400 asked for',
+      );
+      expect(result.state.players.map((p) => p.properties)).toEqual([[3], [6], [8], []]);
+      expect(getTrade(result.state, tradeId)?.status).toBe('pending');
+    });
+
+    it('checks the deal when it is proposed', () => {
+      const state = tableGame();
+      expect(() =>
+        createMultiTradeOffer(state, 'p1', [give('p1', 'p2', { properties: [3] })]),
+      ).toThrow('A multi-party trade needs at least three players');
+      expect(() =>
+        createMultiTradeOffer(state, 'p1', [
+          give('p1', 'p2', { properties: [3] }),
+          give('p1', 'p3', { properties: [3] }),
+        ]),
+      ).toThrow('Property 3 is traded more than once');
+      expect(() =>
+        createMultiTradeOffer(state, 'p1', [
+          give('p1', 'p2', { cash: 10 }),
+          give('p2', 'p3', { properties: [8] }),
+        ]),
+      ).toThrow('Player p2 does not own property 8');
+      expect(() =>
+        createMultiTradeOffer(state, 'p1', [
+          give('p1', 'p2', { cash: 10 }),
+          give('p3', 'p4', { cards: 1 }),
+        ]),
+      ).toThrow('Player p3 does not have enough GOOJF cards');
+      expect(() =>
+        createMultiTradeOffer(state, 'p1', [
+          give('p1', 'p2', { properties: [3] }),
+          give('bank', 'p1', { cash: 100 }),
+        ]),
+      ).toThrow('The bank does not take part in trades');
+
+      const message = 'Cash and cards in a trade must be whole numbers, zero or more';
+      expect(() =>
+        createMultiTradeOffer(state, 'p1', [
+          give('p1', 'p2', { properties: [3] }),
+          give('p2', 'p3', { cash: -200, properties: [6] }),
+        ]),
+      ).toThrow(message);
+      expect(() =>
+        createMultiTradeOffer(state, 'p1', [
+          give('p1', 'p2', { cash: 12.5 }),
+          give('p4', 'p3', { cards: 0.5 }),
+        ]),
+      ).toThrow(message);
+    });
+
+    it('only takes answers from participants still to accept', () => {
+      const { state, trade } = createMultiTradeOffer(tableGame(), 'p1', [
+        give('p1', 'p2', { properties: [3] }),
+        give('p2', 'p3', { cash: 100 }),
+      ]);
+      expect(() => acceptTrade(state, trade.id, Date.now(), 'p1')).toThrow(
+        'Player p1 has no answer to give on this trade',
+      );
+      expect(() => acceptTrade(state, trade.id, Date.now(), 'p4')).toThrow('no answer to give');
+      expect(() =>
+        counterTrade(state, trade.id, {
+          offeredProperties: [],
+          offeredCash: 0,
+          offeredCards: 0,
+          requestedProperties: [],
+          requestedCash: 0,
+          requestedCards: 0,
+        }),
+      ).toThrow('Only two-player trades can be countered');
+    });
+
+    it('holds players who accepted to the cash they put up', () => {
+      const { state, trade } = createMultiTradeOffer(tableGame(), 'p1', [
+        give('p1', 'p2', { properties: [3] }),
+        give('p2', 'p3', { cash: 600 }),
+        give('p3', 'p1', { properties: [8] }),
+      ]);
+      state.players[1].cash = 500;
+      // Bob hasn't agreed yet, so may still raise the money
+      expect(getTradeProblem(state, trade)).toBeNull();
+
+      state.players[1].cash = 1500;
+      const accepted = acceptTrade(state, trade.id, Date.now(), 'p2');
+      accepted.players[1].cash = 500;
+      expect(getTradeProblem(accepted, getTrade(accepted, trade.id)!)).toBe(
+        'Bob no longer has the $600 on offer',
+      );
+    });
+
+    it('checks what every payer gives before the last acceptance moves anything', () => {
+      const transfers = [
+        give('p1', 'p2', { cash: 300 }),
+        give('p2', 'p3', { properties: [6] }),
+        give('p4', 'p1', { cards: 1 }),
+      ];
+      let { state } = act(tableGame(), 'p1', { type: 'ProposeMultiTrade', transfers });
+      const tradeId = state.pendingTrades![0].id;
+      state = act(state, 'p2', { type: 'AcceptTrade', tradeId }).state;
+      state = act(state, 'p3', { type: 'AcceptTrade', tradeId }).state;
+      const trade = getTrade(state, tradeId)!;
+
+      state.players[0].cash = 200;
+      const short = applyGameAction(state, 'p4', { type: 'AcceptTrade', tradeId });
+      expect(short.error?.message).toBe(
+        'Trade is no longer valid: Alice no longer has the $300 on offer',
+      );
+      expect(short.state.players.map((p) => p.cash)).toEqual([200, 1500, 1500, 1500]);
+
+      state.players[0].cash = 1500;
+      state.players[3].getOutOfJailFreeCards = 0;
+      expect(getTradeProblem(state, trade, 'p4')).toBe(
+        'Dave no longer has the Get Out of Jail Free card asked for',
+      );
+      state.players[3].getOutOfJailFreeCards = 1;
+      expect(getTradeProblem(state, trade, 'p4')).toBeNull();
+    });
+  });
+
+  describe('negotiation threads', () => {
+    const START = 1_000_000;
+    const offer = (items: Partial<TradeOfferPayload>): TradeOfferPayload => ({
+      offeredProperties: [],
+      offeredCash: 0,
+      offeredCards: 0,
+      requestedProperties: [],
+      requestedCash: 0,
+      requestedCards: 0,
+      ...items,
+    });
+
+    // Alice owns Baltic Avenue and Bob owns Oriental Avenue, mid-turn
+    function negotiation(): GameState {
+      const state = createInitialGameState(players, {
+        gameId: 'test-trading',
+        settings: { seed: 1 },
+      });
+      state.turnState = TurnState.PlayerAction;
+      state.players[0].properties = [3];
+      state.players[1].properties = [6];
+      for (const spaceId of [3, 6])
+        setPropertyState(state, { spaceId, houses: 0, mortgaged: false });
+      return state;
+    }
+
+    function act(state: GameState, playerId: string, action: GameAction, now: number) {
+      const result = applyGameAction(state, playerId, action, { now });
+      expect(result.error).toBeUndefined();
+      return result;
+    }
+
+    it('keeps every offer and counter-offer of a negotiation together', () => {
+      let { state } = act(
+        negotiation(),
+        'p1',
+        {
+          type: 'ProposeTrade',
+          recipientId: 'p2',
+          offer: offer({ offeredProperties: [3], requestedProperties: [6] }),
+        },
+        START,
+      );
+      const opening = state.pendingTrades![0];
+
+      state = act(
+        state,
+        'p2',
+        {
+          type: 'CounterTrade',
+          tradeId: opening.id,
+          offer: offer({ offeredProperties: [6], requestedProperties: [3], requestedCash: 100 }),
+        },
+        START + 1000,
+      ).state;
+      const counter = state.pendingTrades![0];
+      expect(counter).toMatchObject({ threadId: opening.id, counterTo: opening.id });
+
+      state = act(
+        state,
+        'p1',
+        {
+          type: 'CounterTrade',
+          tradeId: counter.id,
+          offer: offer({ offeredProperties: [3], offeredCash: 50, requestedProperties: [6] }),
+        },
+        START + 2000,
+      ).state;
+      const final = state.pendingTrades![0];
+      const { state: done, events } = act(
+        state,
+        'p2',
+        { type: 'AcceptTrade', tradeId: final.id },
+        START + 3000,
+      );
+
+      const threads = getTradeThreads(done);
+      expect(threads).toHaveLength(1);
+      expect(threads[0]).toMatchObject({
+        id: opening.id,
+        participantIds: ['p1', 'p2'],
+        status: 'accepted',
+      });
+      expect(
+        threads[0].offers.map((o) => [o.proposerId, o.status, o.createdAt, o.resolvedAt]),
+      ).toEqual([
+        ['p1', 'countered', START, START + 1000],
+        ['p2', 'countered', START + 1000, START + 2000],
+        ['p1', 'accepted', START + 2000, START + 3000],
+      ]);
+      expect(threads[0].offers[2].counterTo).toBe(counter.id);
+
+      expect(events[0].type).toBe(GameEventType.TradeCompleted);
+      expect(events[0].payload).toEqual({
+        tradeId: final.id,
+        playerId: 'p2',
+        threadId: opening.id,
+        participantIds: ['p1', 'p2'],
+        transfers: [
+          {
+            fromId: 'p1',
+            toId: 'p2',
+            properties: [3],
+            propertyNames: ['Baltic Avenue'],
+            cash: 50,
+            cards: 0,
+          },
+          {
+            fromId: 'p2',
+            toId: 'p1',
+            properties: [6],
+            propertyNames: ['Oriental Avenue'],
+            cash: 0,
+            cards: 0,
+          },
+        ],
+        clauses: [],
+      });
+    });
+
+    it('starts a new thread for each fresh offer and filters them by player', () => {
+      let { state } = act(
+        negotiation(),
+        'p1',
+        { type: 'ProposeTrade', recipientId: 'p2', offer: offer({ offeredCash: 10 }) },
+        START,
+      );
+      const first = state.pendingTrades![0];
+      state = act(state, 'p2', { type: 'RejectTrade', tradeId: first.id }, START + 500).state;
+      state = act(
+        state,
+        'p2',
+        { type: 'ProposeTrade', recipientId: 'p1', offer: offer({ requestedCash: 20 }) },
+        START + 1000,
+      ).state;
+
+      const threads = getTradeThreads(state, 'p1');
+      expect(threads.map((t) => t.status)).toEqual(['rejected', 'pending']);
+      expect(threads[0].offers[0].resolvedAt).toBe(START + 500);
+      expect(getTradeThreads(state, 'p9')).toEqual([]);
+    });
+  });
 });
@@ -38,6 +38,12 @@ describe('Step 1A.2 — Turn State Machine', () => {
     expect(machine.currentState).toBe(TurnState.Auction);
   });
 
+  it('AwaitingBuyDecision → PlayerAction on decline when auctions are off', () => {
+    const machine = new TurnStateMachine(TurnState.AwaitingBuyDecision);
+    machine.transition({ type: 'DeclineProperty', propertyId: 1 }, { auctionDisabled: true });
+    expect(machine.currentState).toBe(TurnState.PlayerAction);
+  });
+
   it('P1A.S2.T5: AwaitingBuyDecision → PlayerAction on buy', () => {
     const machine = new TurnStateMachine(TurnState.AwaitingBuyDecision);
     machine.transition({ type: 'BuyProperty', propertyId: 1 });
@@ -76,6 +82,36 @@ describe('Step 1A.2 — Turn State Machine', () => {
     expect(machine.currentState).toBe(TurnState.WaitingForRoll);
   });
 
+  it('PlayerAction → RaisingFunds → PlayerAction around an unpaid debt', () => {
+    const machine = new TurnStateMachine(TurnState.PlayerAction);
+    machine.transition({ type: 'RollDice' }, { shortOfFunds: true });
+    expect(machine.currentState).toBe(TurnState.RaisingFunds);
+    expect(machine.getValidActions()).toEqual([
+      'SellBuilding',
+      'MortgageProperty',
+      'ProposeTrade',
+      'ProposeMultiTrade',
+      'DeclareBankruptcy',
+    ]);
+    expect(() => machine.transition({ type: 'EndTurn' })).toThrow(
+      'Cannot end turn while raising funds',
+    );
+
+    machine.transition({ type: 'MortgageProperty', propertyId: 1 }, { debtSettled: true });
+    expect(machine.currentState).toBe(TurnState.PlayerAction);
+  });
+
+  it('Rolling → ChoosingSpeedDieMove → Rolling on a bus or triples roll', () => {
+    const machine = new TurnStateMachine(TurnState.Rolling);
+    machine.transition({ type: 'RollDice' }, { speedDieChoice: true });
+    expect(machine.currentState).toBe(TurnState.ChoosingSpeedDieMove);
+    expect(machine.getValidActions()).toEqual(['ChooseSpeedDieMove']);
+    expect(() => machine.transition({ type: 'EndTurn' })).toThrow();
+
+    machine.transition({ type: 'ChooseSpeedDieMove', destination: 5 });
+    expect(machine.currentState).toBe(TurnState.Rolling);
+  });
+
   it('P1A.S2.T11: getValidActions returns correct actions for each state', () => {
     const machine = new TurnStateMachine(TurnState.WaitingForRoll);
     expect(machine.getValidActions()).toContain('RollDice');
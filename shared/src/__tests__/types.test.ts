@@ -237,6 +237,11 @@ describe('Socket.IO event contracts (P0.S5.T11)', () => {
       selectToken: (_data, _cb) => {},
       startGame: (_data, _cb) => {},
       leaveRoom: (_data, _cb) => {},
+      addBot: (_data, _cb) => {},
+      removeBot: (_data, _cb) => {},
+      updateHouseRules: (_data, _cb) => {},
+      listBoards: (_cb) => {},
+      selectBoard: (_data, _cb) => {},
       gameAction: (_data, _cb) => {},
       reconnect: (_data, _cb) => {},
       chatMessage: (_data, _cb) => {},
@@ -257,6 +262,8 @@ describe('Socket.IO event contracts (P0.S5.T11)', () => {
       playerDisconnected: (_data) => {},
       playerReconnected: (_data) => {},
       turnTimerUpdate: (_data) => {},
+      auctionUpdate: (_data) => {},
+      tradeCancelled: (_trade) => {},
       chatMessage: (_data) => {},
       gameOver: (_data) => {},
       error: (_message) => {},
@@ -1,7 +1,11 @@
 import type { GameState } from '../types/gameState';
+import { GameEventType } from '../types/gameEvent';
+import type { GameStanding } from '../types/socketEvents';
 import { getPlayerById, getSpaceById } from './state';
 import { getPropertyState, setPropertyState } from './spaces';
-import { getBuildingSupply, setBuildingSupply } from './properties';
+import { getBuildingSupply, setBuildingSupply, unmortgageProperty } from './properties';
+import { mortgageInterest } from './rules';
+import { isFinalRoundOver } from './timed-game';
 
 export function canPlayerAfford(state: GameState, playerId: string, amount: number): boolean {
   const player = getPlayerById(state, playerId);
@@ -60,6 +64,53 @@ export function declareBankruptcy(
   return declareBankruptcyToPlayer(newState, player, creditorId);
 }
 
+// Turns the player's negative balance into a pending debt. Whatever part of it
+// was already credited to a creditor player is taken back until it is settled.
+export function openDebt(
+  state: GameState,
+  playerId: string,
+  creditorId: string | 'bank',
+  creditedAmount = 0,
+): GameState {
+  const newState = deepClone(state);
+  const player = getPlayerById(newState, playerId);
+  if (!player) throw new Error(`Player ${playerId} not found`);
+  if (player.cash >= 0) throw new Error(`Player ${playerId} has no shortfall`);
+
+  const amount = -player.cash;
+  player.cash = 0;
+
+  if (creditorId !== 'bank') {
+    const creditor = getPlayerById(newState, creditorId);
+    if (!creditor) throw new Error(`Creditor ${creditorId} not found`);
+    creditor.cash -= Math.min(amount, creditedAmount);
+  }
+
+  newState.pendingDebt = { debtorId: playerId, creditorId, amount };
+  return newState;
+}
+
+export function settleDebt(state: GameState): GameState {
+  const newState = deepClone(state);
+  const debt = newState.pendingDebt;
+  if (!debt) throw new Error('No pending debt');
+
+  const debtor = getPlayerById(newState, debt.debtorId);
+  if (!debtor) throw new Error(`Player ${debt.debtorId} not found`);
+  if (debtor.cash < debt.amount) {
+    throw new Error(`Player ${debt.debtorId} cannot cover a debt of $${debt.amount}`);
+  }
+
+  debtor.cash -= debt.amount;
+  if (debt.creditorId !== 'bank') {
+    const creditor = getPlayerById(newState, debt.creditorId);
+    if (creditor) creditor.cash += debt.amount;
+  }
+
+  newState.pendingDebt = null;
+  return newState;
+}
+
 function declareBankruptcyToPlayer(
   state: GameState,
   bankruptPlayer: ReturnType<typeof getPlayerById>,
@@ -75,6 +126,7 @@ function declareBankruptcyToPlayer(
   bankruptPlayer.cash = 0;
 
   // Transfer all properties (including mortgaged ones)
+  const inheritedMortgages: number[] = [];
   for (const spaceId of bankruptPlayer.properties) {
     creditor.properties.push(spaceId);
 
@@ -91,7 +143,8 @@ function declareBankruptcyToPlayer(
       setBuildingSupply(state, supply);
       setPropertyState(state, { spaceId, houses: 0, mortgaged: propState.mortgaged });
     }
-    // Mortgaged properties stay mortgaged (creditor must decide to pay interest)
+    // Mortgaged properties stay mortgaged until the creditor decides on each one
+    if (propState?.mortgaged) inheritedMortgages.push(spaceId);
   }
   bankruptPlayer.properties = [];
 
@@ -106,15 +159,63 @@ function declareBankruptcyToPlayer(
   // Check win condition
   checkWinCondition(state);
 
+  if (state.status === 'playing' && inheritedMortgages.length > 0) {
+    state.pendingInheritance = { creditorId, propertyIds: inheritedMortgages };
+  }
+
   return state;
 }
 
+// The interest a creditor owes to keep an inherited property mortgaged
+export function inheritedMortgageInterest(state: GameState, spaceId: number): number {
+  return mortgageInterest(state, getSpaceById(state, spaceId)?.mortgageValue ?? 0);
+}
+
+// Settles one inherited mortgaged property: either unmortgage it now at the
+// usual cost, or pay the 10% interest and keep it mortgaged
+export function resolveInheritedMortgage(
+  state: GameState,
+  playerId: string,
+  spaceId: number,
+  unmortgage: boolean,
+): GameState {
+  const inheritance = state.pendingInheritance;
+  if (!inheritance) throw new Error('No inherited mortgages to settle');
+  if (inheritance.creditorId !== playerId) {
+    throw new Error('Only the creditor can settle inherited mortgages');
+  }
+  if (!inheritance.propertyIds.includes(spaceId)) {
+    throw new Error(`Property ${spaceId} is not an inherited mortgage`);
+  }
+
+  let newState: GameState;
+  if (unmortgage) {
+    newState = unmortgageProperty(state, playerId, spaceId);
+  } else {
+    newState = deepClone(state);
+    const player = getPlayerById(newState, playerId);
+    if (!player) throw new Error(`Player ${playerId} not found`);
+    const interest = inheritedMortgageInterest(newState, spaceId);
+    if (player.cash < interest) {
+      throw new Error(`Cannot afford mortgage interest $${interest} (has $${player.cash})`);
+    }
+    player.cash -= interest;
+  }
+
+  const remaining = inheritance.propertyIds.filter((id) => id !== spaceId);
+  newState.pendingInheritance =
+    remaining.length > 0 ? { creditorId: playerId, propertyIds: remaining } : null;
+  return newState;
+}
+
 function declareBankruptcyToBank(
   state: GameState,
   bankruptPlayer: ReturnType<typeof getPlayerById>,
 ): GameState {
   if (!bankruptPlayer) throw new Error('Bankrupt player not found');
 
+  const returned = [...bankruptPlayer.properties];
+
   // All properties go unowned (queued for auction)
   // Remove buildings first
   for (const spaceId of bankruptPlayer.properties) {
@@ -144,6 +245,10 @@ function declareBankruptcyToBank(
 
   checkWinCondition(state);
 
+  if (state.status === 'playing' && state.settings.auctionEnabled && returned.length > 0) {
+    state.auctionQueue = [...(state.auctionQueue ?? []), ...returned];
+  }
+
   return state;
 }
 
@@ -157,7 +262,9 @@ function checkWinCondition(state: GameState): void {
 export function getWinner(state: GameState): string | null {
   if (state.status !== 'finished') return null;
   const activePlayers = state.players.filter((p) => p.isActive && !p.isBankrupt);
-  return activePlayers.length === 1 ? activePlayers[0].id : null;
+  if (activePlayers.length === 1) return activePlayers[0].id;
+  // A timed game that ran out goes to the richest player still standing
+  return isFinalRoundOver(state) ? determineTimedGameWinner(state) : null;
 }
 
 export function calculateNetWorth(state: GameState, playerId: string): number {
@@ -208,6 +315,37 @@ export function determineTimedGameWinner(state: GameState): string | null {
   return winnerId;
 }
 
+// Final placings: the winner, then the other players still standing by net
+// worth, then bankrupt players from the last eliminated to the first
+export function getFinalStandings(state: GameState): GameStanding[] {
+  const winnerId = getWinner(state);
+  const eliminated = state.events
+    .filter((e) => e.type === GameEventType.PlayerBankrupt)
+    .map((e) => e.payload.playerId as string);
+  const eliminationOrder = (playerId: string) => eliminated.indexOf(playerId) + 1;
+
+  const standing = state.players
+    .filter((p) => !p.isBankrupt)
+    .map((p) => ({ player: p, netWorth: calculateNetWorth(state, p.id) }))
+    .sort((a, b) => {
+      if (a.player.id === winnerId) return -1;
+      if (b.player.id === winnerId) return 1;
+      return b.netWorth - a.netWorth;
+    });
+  const bankrupt = state.players
+    .filter((p) => p.isBankrupt)
+    .map((p) => ({ player: p, netWorth: 0 }))
+    .sort((a, b) => eliminationOrder(b.player.id) - eliminationOrder(a.player.id));
+
+  return [...standing, ...bankrupt].map(({ player, netWorth }, i) => ({
+    playerId: player.id,
+    playerName: player.name,
+    position: i + 1,
+    netWorth,
+    eliminationOrder: eliminationOrder(player.id),
+  }));
+}
+
 function deepClone<T>(obj: T): T {
   return JSON.parse(JSON.stringify(obj));
 }
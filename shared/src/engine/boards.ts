@@ -0,0 +1,313 @@
+import type { BoardDefinition, BoardEdition, BoardSummary } from '../types/board';
+import type { Card, CardEffect, DeckType } from '../types/card';
+import type { GameState } from '../types/gameState';
+import type { Space } from '../types/space';
+import { SpaceType } from '../types/space';
+import boardData from '../data/board.json';
+import chanceCards from '../data/chance-cards.json';
+import communityChestCards from '../data/community-chest-cards.json';
+
+export const CLASSIC_BOARD: BoardDefinition = {
+  id: 'classic',
+  name: 'Classic',
+  currencySymbol: '$',
+  colorGroups: [
+    { id: 'brown', name: 'Brown', color: '#8b4513' },
+    { id: 'lightBlue', name: 'Light Blue', color: '#87ceeb' },
+    { id: 'pink', name: 'Pink', color: '#d81b60' },
+    { id: 'orange', name: 'Orange', color: '#ff8f00' },
+    { id: 'red', name: 'Red', color: '#d32f2f' },
+    { id: 'yellow', name: 'Yellow', color: '#fdd835' },
+    { id: 'green', name: 'Green', color: '#388e3c' },
+    { id: 'darkBlue', name: 'Dark Blue', color: '#1565c0' },
+  ],
+  spaces: boardData as Space[],
+  decks: { chance: chanceCards as Card[], communityChest: communityChestCards as Card[] },
+};
+
+// Editions built into every server; more can be loaded as data
+export const BUILT_IN_BOARDS: BoardDefinition[] = [CLASSIC_BOARD];
+
+export const MIN_BOARD_SPACES = 12;
+export const MAX_BOARD_SPACES = 60;
+export const MIN_GROUP_STREETS = 2;
+export const MAX_GROUP_STREETS = 3;
+
+const PURCHASABLE = [SpaceType.Property, SpaceType.Railroad, SpaceType.Utility];
+const SPACE_TYPES = Object.values(SpaceType) as string[];
+const CARD_EFFECTS: CardEffect['type'][] = [
+  'cash',
+  'move',
+  'moveBack',
+  'jail',
+  'collectFromAll',
+  'payEachPlayer',
+  'repairs',
+  'advanceNearestRailroad',
+  'advanceNearestUtility',
+  'goojf',
+  'advanceNearestColor',
+  'cashPerProperty',
+  'swapPositions',
+  'allPayFreeParking',
+  'payPercentOfCash',
+  'freeHouse',
+  'sequence',
+];
+const SWAP_TARGETS = ['nextPlayer', 'richestPlayer', 'poorestPlayer'];
+const MOVING_EFFECTS: CardEffect['type'][] = [
+  'move',
+  'moveBack',
+  'jail',
+  'advanceNearestRailroad',
+  'advanceNearestUtility',
+  'advanceNearestColor',
+  'swapPositions',
+];
+
+export function getBoardEdition(board: BoardDefinition): BoardEdition {
+  const { id, name, currencySymbol, colorGroups } = board;
+  return { id, name, currencySymbol, colorGroups };
+}
+
+export function summarizeBoard(board: BoardDefinition): BoardSummary {
+  return { id: board.id, name: board.name, spaceCount: board.spaces.length };
+}
+
+export function getCurrencySymbol(state: GameState): string {
+  return state.edition?.currencySymbol ?? CLASSIC_BOARD.currencySymbol;
+}
+
+// Color of a group's band, from the game's edition or the classic board
+export function getColorGroupColor(state: GameState, colorGroup: string): string | undefined {
+  const groups = state.edition?.colorGroups ?? CLASSIC_BOARD.colorGroups;
+  return groups.find((g) => g.id === colorGroup)?.color;
+}
+
+// The four corners sit a quarter of the way round the board from each other
+export function getCornerPositions(spaceCount: number): number[] {
+  const side = spaceCount / 4;
+  return [0, side, side * 2, side * 3];
+}
+
+function isWholeNumber(value: unknown, min = 0): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min;
+}
+
+function isText(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function validateSpace(space: Space, index: number, groups: Set<string>): string | null {
+  const label = `Space ${index}`;
+  if (!space || typeof space !== 'object') return `${label} must be an object`;
+  if (space.id !== index || space.position !== index) {
+    return `${label} must have id and position ${index}`;
+  }
+  if (!isText(space.name)) return `${label} needs a name`;
+  if (!SPACE_TYPES.includes(space.type)) return `${label} has unknown type '${space.type}'`;
+  if (space.icon !== undefined && !isText(space.icon)) return `${label} has an invalid icon`;
+
+  if (PURCHASABLE.includes(space.type)) {
+    if (!isWholeNumber(space.cost, 1)) return `${label} needs a price`;
+    if (!isWholeNumber(space.mortgageValue)) return `${label} needs a mortgage value`;
+    const tiers = space.rentTiers;
+    if (!Array.isArray(tiers) || tiers.length === 0 || !tiers.every((t) => isWholeNumber(t))) {
+      return `${label} needs rent tiers`;
+    }
+  }
+
+  if (space.type === SpaceType.Property) {
+    if (space.rentTiers!.length !== 6) {
+      return `${label} needs six rent tiers (base, 1-4 houses, hotel)`;
+    }
+    if (!space.colorGroup || !groups.has(space.colorGroup)) {
+      return `${label} has unknown color group '${space.colorGroup}'`;
+    }
+    if (!isWholeNumber(space.houseCost, 1)) return `${label} needs a house cost`;
+    if (space.hotelCost !== undefined && !isWholeNumber(space.hotelCost, 1)) {
+      return `${label} has an invalid hotel cost`;
+    }
+  } else if (space.colorGroup !== undefined) {
+    return `${label} is not a property and cannot have a color group`;
+  }
+
+  if (space.type === SpaceType.Tax && !isWholeNumber(space.taxAmount)) {
+    return `${label} needs a tax amount`;
+  }
+  return null;
+}
+
+function validateCard(card: Card, deck: DeckType, board: Space[]): string | null {
+  if (!card || typeof card !== 'object') return `A ${deck} card must be an object`;
+  const label = `Card '${card.id}'`;
+  if (!isText(card.id)) return `A ${deck} card needs an id`;
+  if (card.deck !== deck) return `${label} belongs in the ${deck} deck`;
+  if (!isText(card.text)) return `${label} needs text`;
+  return validateEffect(card.effect, label, board);
+}
+
+function validateEffect(
+  effect: CardEffect,
+  label: string,
+  board: Space[],
+  inSequence = false,
+): string | null {
+  if (!effect || !CARD_EFFECTS.includes(effect.type)) {
+    return `${label} has an unknown effect`;
+  }
+  switch (effect.type) {
+    case 'cash':
+    case 'cashPerProperty':
+      return Number.isInteger(effect.amount) ? null : `${label} needs a whole amount`;
+    case 'collectFromAll':
+    case 'payEachPlayer':
+    case 'allPayFreeParking':
+      return isWholeNumber(effect.amount) ? null : `${label} needs a whole amount`;
+    case 'payPercentOfCash':
+      return isWholeNumber(effect.percent, 1) && effect.percent <= 100
+        ? null
+        : `${label} needs a percentage between 1 and 100`;
+    case 'move':
+      return isWholeNumber(effect.position) && effect.position < board.length
+        ? null
+        : `${label} moves to a space that is not on the board`;
+    case 'moveBack':
+      return isWholeNumber(effect.spaces, 1) && effect.spaces < board.length
+        ? null
+        : `${label} moves back an invalid number of spaces`;
+    case 'repairs':
+      return isWholeNumber(effect.perHouse) && isWholeNumber(effect.perHotel)
+        ? null
+        : `${label} needs whole repair costs`;
+    case 'advanceNearestRailroad':
+      return board.some((s) => s.type === SpaceType.Railroad)
+        ? null
+        : `${label} needs a railroad on the board`;
+    case 'advanceNearestUtility':
+      return board.some((s) => s.type === SpaceType.Utility)
+        ? null
+        : `${label} needs a utility on the board`;
+    case 'advanceNearestColor':
+      return board.some((s) => s.colorGroup === effect.colorGroup)
+        ? null
+        : `${label} needs a '${effect.colorGroup}' property on the board`;
+    case 'swapPositions':
+      return SWAP_TARGETS.includes(effect.target)
+        ? null
+        : `${label} must swap with ${SWAP_TARGETS.join(', ')}`;
+    case 'goojf':
+      return inSequence ? `${label} cannot keep a card as one of several effects` : null;
+    case 'sequence':
+      return validateSequence(effect.effects, label, board, inSequence);
+    default:
+      return null;
+  }
+}
+
+function validateSequence(
+  effects: CardEffect[],
+  label: string,
+  board: Space[],
+  inSequence: boolean,
+): string | null {
+  if (inSequence) return `${label} cannot nest effect sequences`;
+  if (!Array.isArray(effects) || effects.length < 2) {
+    return `${label} needs at least two effects in its sequence`;
+  }
+  if (effects.filter((e) => MOVING_EFFECTS.includes(e?.type)).length > 1) {
+    return `${label} can move the player at most once`;
+  }
+  for (const effect of effects) {
+    const error = validateEffect(effect, label, board, true);
+    if (error) return error;
+  }
+  return null;
+}
+
+// Checks a board definition before it is offered to a room. Returns the first
+// problem found, or null when the board can be played.
+export function validateBoardDefinition(value: unknown): string | null {
+  if (!value || typeof value !== 'object') return 'Board definition must be an object';
+  const board = value as BoardDefinition;
+
+  if (typeof board.id !== 'string' || !/^[a-z0-9-]{1,40}$/.test(board.id)) {
+    return 'Board id must be 1-40 lowercase letters, digits or dashes';
+  }
+  if (!isText(board.name)) return 'Board needs a name';
+  if (!isText(board.currencySymbol) || board.currencySymbol.length > 4) {
+    return 'Currency symbol must be 1-4 characters';
+  }
+
+  if (!Array.isArray(board.colorGroups)) return 'Board needs a list of color groups';
+  const groups = new Set<string>();
+  for (const group of board.colorGroups) {
+    if (!group || !isText(group.id) || !isText(group.name)) {
+      return 'Each color group needs an id and a name';
+    }
+    if (groups.has(group.id)) return `Color group '${group.id}' is defined twice`;
+    if (typeof group.color !== 'string' || !/^#[0-9a-f]{6}$/i.test(group.color)) {
+      return `Color group '${group.id}' needs a hex color like #8b4513`;
+    }
+    groups.add(group.id);
+  }
+
+  const spaces = board.spaces;
+  if (!Array.isArray(spaces)) return 'Board needs a list of spaces';
+  if (
+    spaces.length < MIN_BOARD_SPACES ||
+    spaces.length > MAX_BOARD_SPACES ||
+    spaces.length % 4 !== 0
+  ) {
+    return `Board must have a multiple of 4 spaces between ${MIN_BOARD_SPACES} and ${MAX_BOARD_SPACES}`;
+  }
+  for (let i = 0; i < spaces.length; i++) {
+    const error = validateSpace(spaces[i], i, groups);
+    if (error) return error;
+  }
+
+  const corners = getCornerPositions(spaces.length);
+  for (const space of spaces) {
+    if (corners.includes(space.position) !== (space.type === SpaceType.Corner)) {
+      return `Corners must be at spaces ${corners.join(', ')} and nowhere else`;
+    }
+  }
+  for (const group of groups) {
+    const streets = spaces.filter((s) => s.colorGroup === group).length;
+    if (streets < MIN_GROUP_STREETS || streets > MAX_GROUP_STREETS) {
+      return `Color group '${group}' needs ${MIN_GROUP_STREETS}-${MAX_GROUP_STREETS} streets, not ${streets}`;
+    }
+  }
+
+  if (
+    !board.decks ||
+    !Array.isArray(board.decks.chance) ||
+    !Array.isArray(board.decks.communityChest)
+  ) {
+    return 'Board needs chance and community chest decks';
+  }
+  const cardIds = new Set<string>();
+  const decks: [DeckType, SpaceType][] = [
+    ['chance', SpaceType.Chance],
+    ['communityChest', SpaceType.CommunityChest],
+  ];
+  for (const [deck, spaceType] of decks) {
+    const cards = board.decks[deck];
+    if (cards.length === 0 && spaces.some((s) => s.type === spaceType)) {
+      return `The ${deck} deck is empty but the board has ${deck} spaces`;
+    }
+    for (const card of cards) {
+      const error = validateCard(card, deck, spaces);
+      if (error) return error;
+      if (cardIds.has(card.id)) return `Card '${card.id}' is defined twice`;
+      cardIds.add(card.id);
+    }
+    // Get Out of Jail Free cards leave the deck when drawn, so a deck of only
+    // those would run dry
+    if (cards.every((c) => c.effect.type === 'goojf') && spaces.some((s) => s.type === spaceType)) {
+      return `The ${deck} deck needs a card other than Get Out of Jail Free`;
+    }
+  }
+
+  return null;
+}
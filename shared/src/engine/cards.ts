@@ -1,7 +1,7 @@
 import type { GameState } from '../types/gameState';
-import type { Card, DeckType } from '../types/card';
+import type { Card, CardEffect, DeckType, SwapTarget } from '../types/card';
 import type { DiceResult } from './dice';
-import { getPlayerById } from './state';
+import { getJailPosition, getPlayerById, getSpaceById } from './state';
 import {
   resolveSpace,
   applySpaceResolution,
@@ -9,9 +9,15 @@ import {
   countOwnedOfType,
   calculateRailroadRent,
   getPropertyState,
+  payRent,
+  type SpaceResolution,
 } from './spaces';
-import { SpaceType } from '../types/space';
+import { SpaceType, type Space } from '../types/space';
 import { didPassGo } from './dice';
+import { collectForFreeParking } from './free-parking';
+import { collectGoSalary } from './rules';
+import { buildHouse, canBuildHouse } from './properties';
+import { getRentTerms } from './rent-agreements';
 
 export function createDeck(cardDefinitions: Card[], rng: () => number = Math.random): Card[] {
   const deck = [...cardDefinitions];
@@ -66,6 +72,8 @@ export interface CardEffectResult {
   movedToPosition?: number;
   passedGo?: boolean;
   sentToJail?: boolean;
+  swappedWithPlayerId?: string;
+  freeHouseSpaceId?: number;
   needsBuyDecision?: boolean;
   spaceResolution?: ReturnType<typeof resolveSpace>;
 }
@@ -76,8 +84,15 @@ export function applyCardEffect(
   card: Card,
   diceResult?: DiceResult,
 ): CardEffectResult {
-  const effect = card.effect;
+  return applyEffect(state, playerId, card.effect, diceResult);
+}
 
+function applyEffect(
+  state: GameState,
+  playerId: string,
+  effect: CardEffect,
+  diceResult?: DiceResult,
+): CardEffectResult {
   switch (effect.type) {
     case 'cash':
       return applyCashEffect(state, playerId, effect.amount);
@@ -100,6 +115,20 @@ export function applyCardEffect(
     case 'goojf':
       // Already handled in drawCard
       return { state };
+    case 'advanceNearestColor':
+      return applyAdvanceNearestColor(state, playerId, effect.colorGroup, diceResult);
+    case 'cashPerProperty':
+      return applyCashPerPropertyEffect(state, playerId, effect.amount);
+    case 'swapPositions':
+      return applySwapPositionsEffect(state, playerId, effect.target);
+    case 'allPayFreeParking':
+      return applyAllPayFreeParkingEffect(state, playerId, effect.amount);
+    case 'payPercentOfCash':
+      return applyPayPercentOfCashEffect(state, playerId, effect.percent);
+    case 'freeHouse':
+      return applyFreeHouseEffect(state, playerId);
+    case 'sequence':
+      return applySequenceEffect(state, playerId, effect.effects, diceResult);
     default:
       return { state };
   }
@@ -110,6 +139,7 @@ function applyCashEffect(state: GameState, playerId: string, amount: number): Ca
   const player = getPlayerById(newState, playerId);
   if (!player) throw new Error(`Player ${playerId} not found`);
   player.cash += amount;
+  if (amount < 0) collectForFreeParking(newState, -amount);
   return { state: newState };
 }
 
@@ -128,7 +158,7 @@ function applyMoveEffect(
 
   const passedGo = didPassGo(oldPosition, targetPosition);
   if (passedGo) {
-    player.cash += 200;
+    collectGoSalary(newState, player);
   }
 
   // Resolve the target space
@@ -165,7 +195,8 @@ function applyMoveBackEffect(
   const player = getPlayerById(newState, playerId);
   if (!player) throw new Error(`Player ${playerId} not found`);
 
-  const newPosition = (player.position - spaces + 40) % 40;
+  const size = newState.board.length;
+  const newPosition = (player.position - spaces + size) % size;
   player.position = newPosition;
 
   // Resolve the target space
@@ -192,7 +223,7 @@ function applyJailEffect(state: GameState, playerId: string): CardEffectResult {
   const player = getPlayerById(newState, playerId);
   if (!player) throw new Error(`Player ${playerId} not found`);
 
-  player.position = 10;
+  player.position = getJailPosition(newState);
   player.jailStatus = { inJail: true, turnsInJail: 0 };
 
   return { state: newState, sentToJail: true };
@@ -207,11 +238,13 @@ function applyCollectFromAllEffect(
   const player = getPlayerById(newState, playerId);
   if (!player) throw new Error(`Player ${playerId} not found`);
 
+  // Like all-pay Free Parking, each player hands over only what they have
   let totalCollected = 0;
   for (const other of newState.players) {
     if (other.id !== playerId && other.isActive && !other.isBankrupt) {
-      other.cash -= amount;
-      totalCollected += amount;
+      const paid = Math.min(amount, Math.max(other.cash, 0));
+      other.cash -= paid;
+      totalCollected += paid;
     }
   }
   player.cash += totalCollected;
@@ -264,13 +297,12 @@ function applyRepairsEffect(
   }
 
   player.cash -= totalCost;
+  collectForFreeParking(newState, totalCost);
   return { state: newState };
 }
 
-const RAILROAD_POSITIONS = [5, 15, 25, 35];
-const UTILITY_POSITIONS = [12, 28];
-
-function findNearestPosition(currentPosition: number, positions: number[]): number {
+function findNearestPosition(state: GameState, currentPosition: number, type: SpaceType): number {
+  const positions = state.board.filter((s) => s.type === type).map((s) => s.position);
   // Find the nearest position going forward (clockwise)
   for (const pos of positions) {
     if (pos > currentPosition) return pos;
@@ -289,12 +321,12 @@ function applyAdvanceNearestRailroad(
   if (!player) throw new Error(`Player ${playerId} not found`);
 
   const oldPosition = player.position;
-  const nearestRR = findNearestPosition(oldPosition, RAILROAD_POSITIONS);
+  const nearestRR = findNearestPosition(newState, oldPosition, SpaceType.Railroad);
   player.position = nearestRR;
 
   const passedGo = didPassGo(oldPosition, nearestRR);
   if (passedGo) {
-    player.cash += 200;
+    collectGoSalary(newState, player);
   }
 
   // Check if railroad is owned
@@ -322,25 +354,21 @@ function applyAdvanceNearestRailroad(
 
   // Owned by another player — pay DOUBLE rent
   const railroadsOwned = countOwnedOfType(newState, ownership.ownerId, SpaceType.Railroad);
-  const normalRent = calculateRailroadRent(railroadsOwned);
+  const rentTiers = newState.board.find((s) => s.position === nearestRR)?.rentTiers;
+  const normalRent = calculateRailroadRent(railroadsOwned, rentTiers);
   const doubleRent = normalRent * 2;
 
-  player.cash -= doubleRent;
-  const owner = getPlayerById(newState, ownership.ownerId);
-  if (owner) owner.cash += doubleRent;
-
   const space = newState.board.find((s) => s.position === nearestRR)!;
-  return {
-    state: newState,
-    movedToPosition: nearestRR,
-    passedGo,
-    spaceResolution: {
-      type: 'rentPayment',
-      space,
-      rentAmount: doubleRent,
-      ownerId: ownership.ownerId,
-    },
-  };
+  const spaceResolution = cardRentResolution(
+    newState,
+    playerId,
+    space,
+    ownership.ownerId,
+    doubleRent,
+  );
+  payRent(newState, playerId, spaceResolution);
+
+  return { state: newState, movedToPosition: nearestRR, passedGo, spaceResolution };
 }
 
 function applyAdvanceNearestUtility(
@@ -353,12 +381,12 @@ function applyAdvanceNearestUtility(
   if (!player) throw new Error(`Player ${playerId} not found`);
 
   const oldPosition = player.position;
-  const nearestUtil = findNearestPosition(oldPosition, UTILITY_POSITIONS);
+  const nearestUtil = findNearestPosition(newState, oldPosition, SpaceType.Utility);
   player.position = nearestUtil;
 
   const passedGo = didPassGo(oldPosition, nearestUtil);
   if (passedGo) {
-    player.cash += 200;
+    collectGoSalary(newState, player);
   }
 
   const ownership = getPropertyOwnership(newState, nearestUtil);
@@ -385,24 +413,171 @@ function applyAdvanceNearestUtility(
   // Owned — pay 10× dice roll
   const dice = diceResult ?? makeDummyDice();
   const rent = dice.total * 10;
-  player.cash -= rent;
-  const owner = getPlayerById(newState, ownership.ownerId);
-  if (owner) owner.cash += rent;
-
   const space = newState.board.find((s) => s.position === nearestUtil)!;
+  const spaceResolution = cardRentResolution(newState, playerId, space, ownership.ownerId, rent);
+  payRent(newState, playerId, spaceResolution);
+
+  return { state: newState, movedToPosition: nearestUtil, passedGo, spaceResolution };
+}
+
+// Rent a card sends the player to pay, with any trade agreements on the space applied
+function cardRentResolution(
+  state: GameState,
+  playerId: string,
+  space: Space,
+  ownerId: string,
+  rentAmount: number,
+): SpaceResolution {
+  const terms = getRentTerms(state, playerId, space.id, rentAmount);
   return {
-    state: newState,
-    movedToPosition: nearestUtil,
-    passedGo,
-    spaceResolution: {
-      type: 'rentPayment',
-      space,
-      rentAmount: rent,
-      ownerId: ownership.ownerId,
-    },
+    type: 'rentPayment',
+    space,
+    rentAmount: terms.waivedBy ? 0 : rentAmount,
+    ownerId,
+    ...terms,
   };
 }
 
+function applyAdvanceNearestColor(
+  state: GameState,
+  playerId: string,
+  colorGroup: string,
+  diceResult?: DiceResult,
+): CardEffectResult {
+  const player = getPlayerById(state, playerId);
+  if (!player) throw new Error(`Player ${playerId} not found`);
+
+  const positions = state.board.filter((s) => s.colorGroup === colorGroup).map((s) => s.position);
+  if (positions.length === 0) throw new Error(`No ${colorGroup} properties on the board`);
+  const target = positions.find((pos) => pos > player.position) ?? positions[0];
+
+  // Lands like any other move: normal rent, or a buy decision when unowned
+  return applyMoveEffect(state, playerId, target, diceResult);
+}
+
+function applyCashPerPropertyEffect(
+  state: GameState,
+  playerId: string,
+  amount: number,
+): CardEffectResult {
+  const player = getPlayerById(state, playerId);
+  if (!player) throw new Error(`Player ${playerId} not found`);
+  return applyCashEffect(state, playerId, amount * player.properties.length);
+}
+
+// Players trade places without passing GO, and neither space is resolved
+function applySwapPositionsEffect(
+  state: GameState,
+  playerId: string,
+  target: SwapTarget,
+): CardEffectResult {
+  const newState = deepClone(state);
+  const player = getPlayerById(newState, playerId);
+  if (!player) throw new Error(`Player ${playerId} not found`);
+
+  const other = findSwapTarget(newState, playerId, target);
+  if (!other) return { state: newState };
+
+  [player.position, other.position] = [other.position, player.position];
+  return { state: newState, movedToPosition: player.position, swappedWithPlayerId: other.id };
+}
+
+function findSwapTarget(state: GameState, playerId: string, target: SwapTarget) {
+  // Candidates in turn order, starting with the player after the drawer
+  const index = state.players.findIndex((p) => p.id === playerId);
+  const candidates = [...state.players.slice(index + 1), ...state.players.slice(0, index)].filter(
+    (p) => p.isActive && !p.isBankrupt && !p.jailStatus.inJail,
+  );
+  if (candidates.length === 0) return undefined;
+
+  switch (target) {
+    case 'richestPlayer':
+      return candidates.reduce((best, p) => (p.cash > best.cash ? p : best));
+    case 'poorestPlayer':
+      return candidates.reduce((best, p) => (p.cash < best.cash ? p : best));
+    default:
+      return candidates[0];
+  }
+}
+
+// The drawer pays in full and raises funds if that leaves them short. Everyone
+// else pays what they can, as they can't be put in debt on another player's turn.
+function applyAllPayFreeParkingEffect(
+  state: GameState,
+  playerId: string,
+  amount: number,
+): CardEffectResult {
+  const newState = deepClone(state);
+  let total = 0;
+  for (const player of newState.players) {
+    if (player.isActive && !player.isBankrupt) {
+      const paid = player.id === playerId ? amount : Math.min(amount, Math.max(player.cash, 0));
+      player.cash -= paid;
+      total += paid;
+    }
+  }
+  collectForFreeParking(newState, total);
+  return { state: newState };
+}
+
+function applyPayPercentOfCashEffect(
+  state: GameState,
+  playerId: string,
+  percent: number,
+): CardEffectResult {
+  const player = getPlayerById(state, playerId);
+  if (!player) throw new Error(`Player ${playerId} not found`);
+  const amount = Math.floor((Math.max(player.cash, 0) * percent) / 100);
+  return applyCashEffect(state, playerId, -amount);
+}
+
+// Builds one house for free on the first street, in board order, where the
+// player could legally build one. Does nothing if there is no such street.
+function applyFreeHouseEffect(state: GameState, playerId: string): CardEffectResult {
+  const player = getPlayerById(state, playerId);
+  if (!player) throw new Error(`Player ${playerId} not found`);
+
+  for (const spaceId of [...player.properties].sort((a, b) => a - b)) {
+    const space = getSpaceById(state, spaceId);
+    const propState = getPropertyState(state, spaceId);
+    if (!space || propState?.mortgaged || (propState?.houses ?? 0) >= 4) continue;
+
+    // The bank covers the house cost
+    const funded = deepClone(state);
+    getPlayerById(funded, playerId)!.cash += space.houseCost ?? 0;
+    if (canBuildHouse(funded, playerId, spaceId) === null) {
+      return { state: buildHouse(funded, playerId, spaceId), freeHouseSpaceId: spaceId };
+    }
+  }
+  return { state };
+}
+
+// Applies each effect in order. A step that moves the player decides where
+// they end up and what is owed there; steps that don't move leave that alone.
+function applySequenceEffect(
+  state: GameState,
+  playerId: string,
+  effects: CardEffect[],
+  diceResult?: DiceResult,
+): CardEffectResult {
+  let result: CardEffectResult = { state };
+  for (const effect of effects) {
+    const step = applyEffect(result.state, playerId, effect, diceResult);
+    const moved = step.movedToPosition !== undefined || step.sentToJail === true;
+    result = {
+      state: step.state,
+      movedToPosition: moved ? step.movedToPosition : result.movedToPosition,
+      passedGo: result.passedGo || step.passedGo,
+      sentToJail: moved ? step.sentToJail : result.sentToJail,
+      swappedWithPlayerId: step.swappedWithPlayerId ?? result.swappedWithPlayerId,
+      freeHouseSpaceId: step.freeHouseSpaceId ?? result.freeHouseSpaceId,
+      needsBuyDecision: moved ? step.needsBuyDecision : result.needsBuyDecision,
+      spaceResolution: moved ? step.spaceResolution : result.spaceResolution,
+    };
+  }
+  return result;
+}
+
 function getActivePlayerId(state: GameState): string {
   return state.players[state.currentPlayerIndex].id;
 }
@@ -1,13 +1,26 @@
-import type { GameState } from '../types/gameState';
-import { getPlayerById } from './state';
+import type { GameState, SpeedDieFace } from '../types/gameState';
+import type { Player } from '../types/player';
+import { getJailPosition, getPlayerById } from './state';
+import { collectGoSalary } from './rules';
 
 export interface DiceResult {
   die1: number;
   die2: number;
+  // Includes a numbered Speed Die face
   total: number;
+  // Doubles only ever count the two white dice
   isDoubles: boolean;
+  speedDie?: SpeedDieFace;
+  // All three dice show the same number
+  isTriples?: boolean;
 }
 
+export interface RollDiceOptions {
+  speedDie?: boolean;
+}
+
+export const SPEED_DIE_FACES: SpeedDieFace[] = [1, 2, 3, 'mrMonopoly', 'mrMonopoly', 'bus'];
+
 export type RngFunction = () => number;
 
 const defaultRng: RngFunction = () => Math.random();
@@ -16,19 +29,31 @@ function rollSingleDie(rng: RngFunction): number {
   return Math.floor(rng() * 6) + 1;
 }
 
-export function rollDice(rng: RngFunction = defaultRng): DiceResult {
+export function rollDice(rng: RngFunction = defaultRng, options: RollDiceOptions = {}): DiceResult {
   const die1 = rollSingleDie(rng);
   const die2 = rollSingleDie(rng);
-  return {
+  const result: DiceResult = {
     die1,
     die2,
     total: die1 + die2,
     isDoubles: die1 === die2,
   };
+  if (!options.speedDie) return result;
+
+  const speedDie = SPEED_DIE_FACES[rollSingleDie(rng) - 1];
+  if (typeof speedDie === 'number') {
+    result.total += speedDie;
+    result.isTriples = result.isDoubles && die1 === speedDie;
+  }
+  return { ...result, speedDie };
 }
 
-export function calculateNewPosition(currentPosition: number, diceTotal: number): number {
-  return (currentPosition + diceTotal) % 40;
+export function calculateNewPosition(
+  currentPosition: number,
+  diceTotal: number,
+  boardSize = 40,
+): number {
+  return (currentPosition + diceTotal) % boardSize;
 }
 
 export function didPassGo(oldPosition: number, newPosition: number): boolean {
@@ -51,59 +76,50 @@ export function applyMovement(
   const player = getPlayerById(newState, playerId);
   if (!player) throw new Error(`Player ${playerId} not found`);
 
-  // Track consecutive doubles
-  if (diceResult.isDoubles) {
-    const currentDoubles = getConsecutiveDoubles(newState, playerId);
-    setConsecutiveDoubles(newState, playerId, currentDoubles + 1);
-
-    // Three consecutive doubles → go to jail
-    if (currentDoubles + 1 >= 3) {
-      player.position = 10;
-      player.jailStatus = { inJail: true, turnsInJail: 0 };
-      setConsecutiveDoubles(newState, playerId, 0);
-      return { state: newState, passedGo: false, sentToJail: true };
-    }
-  } else {
-    setConsecutiveDoubles(newState, playerId, 0);
+  if (recordDoubles(newState, player, diceResult)) {
+    return { state: newState, passedGo: false, sentToJail: true };
   }
 
   const oldPosition = player.position;
-  const newPosition = calculateNewPosition(oldPosition, diceResult.total);
+  const newPosition = calculateNewPosition(oldPosition, diceResult.total, newState.board.length);
   player.position = newPosition;
 
   const passedGo = didPassGo(oldPosition, newPosition);
   if (passedGo) {
-    player.cash += 200;
+    collectGoSalary(newState, player);
   }
 
   return { state: newState, passedGo, sentToJail: false };
 }
 
-// Store consecutive doubles in state metadata
-// We use a simple approach: store on the GameState via a Map-like approach
-// Since GameState doesn't have a dedicated field, we'll track it in state
-// using a convention on the events or as extra state data.
-// For simplicity, we'll attach it to the player-level data via a side map.
+// Tracks consecutive doubles and jails the player on the third. Mutates the
+// given state and returns whether the player was sent to jail.
+export function recordDoubles(state: GameState, player: Player, diceResult: DiceResult): boolean {
+  if (!diceResult.isDoubles) {
+    setConsecutiveDoubles(state, player.id, 0);
+    return false;
+  }
+
+  const currentDoubles = getConsecutiveDoubles(state, player.id);
+  setConsecutiveDoubles(state, player.id, currentDoubles + 1);
 
-const _doublesTracker = new Map<string, Map<string, number>>();
+  // Three consecutive doubles → go to jail
+  if (currentDoubles + 1 >= 3) {
+    player.position = getJailPosition(state);
+    player.jailStatus = { inJail: true, turnsInJail: 0 };
+    setConsecutiveDoubles(state, player.id, 0);
+    return true;
+  }
+  return false;
+}
 
 export function getConsecutiveDoubles(state: GameState, playerId: string): number {
-  const gameMap = _doublesTracker.get(state.gameId);
-  if (!gameMap) return 0;
-  return gameMap.get(playerId) ?? 0;
+  return state.consecutiveDoubles?.[playerId] ?? 0;
 }
 
 export function setConsecutiveDoubles(state: GameState, playerId: string, count: number): void {
-  let gameMap = _doublesTracker.get(state.gameId);
-  if (!gameMap) {
-    gameMap = new Map();
-    _doublesTracker.set(state.gameId, gameMap);
-  }
-  gameMap.set(playerId, count);
-}
-
-export function resetDoublesTracker(gameId: string): void {
-  _doublesTracker.delete(gameId);
+  if (!state.consecutiveDoubles) state.consecutiveDoubles = {};
+  state.consecutiveDoubles[playerId] = count;
 }
 
 function deepCloneState(state: GameState): GameState {
@@ -0,0 +1,28 @@
+import type { GameState } from '../types/gameState';
+
+export function isFreeParkingJackpotEnabled(state: GameState): boolean {
+  return state.settings.freeParking === 'houserule';
+}
+
+export function getFreeParkingPot(state: GameState): number {
+  return state.freeParkingPot ?? 0;
+}
+
+// Under the house rule, taxes, jail fines and card payments go into the pot
+// instead of the bank. Mutates the given state.
+export function collectForFreeParking(state: GameState, amount: number): void {
+  if (!isFreeParkingJackpotEnabled(state) || amount <= 0) return;
+  state.freeParkingPot = getFreeParkingPot(state) + amount;
+}
+
+// Hands the whole pot to the player who landed on Free Parking. Mutates the
+// given state and returns the amount paid out.
+export function payOutFreeParking(state: GameState, playerId: string): number {
+  const player = state.players.find((p) => p.id === playerId);
+  if (!player) throw new Error(`Player ${playerId} not found`);
+
+  const amount = getFreeParkingPot(state);
+  player.cash += amount;
+  state.freeParkingPot = 0;
+  return amount;
+}
@@ -5,6 +5,9 @@ export {
   getPlayerById,
   getSpaceByPosition,
   getSpaceById,
+  getJailPosition,
+  getFreeParkingPosition,
+  getGoToJailPosition,
   getPropertiesOwnedBy,
   spaceToProperty,
   isGameOver,
@@ -14,8 +17,29 @@ export {
   type InitialGameStateOptions,
 } from './state';
 
+// Board editions
+export {
+  CLASSIC_BOARD,
+  BUILT_IN_BOARDS,
+  MIN_BOARD_SPACES,
+  MAX_BOARD_SPACES,
+  MIN_GROUP_STREETS,
+  MAX_GROUP_STREETS,
+  validateBoardDefinition,
+  getBoardEdition,
+  summarizeBoard,
+  getCurrencySymbol,
+  getColorGroupColor,
+  getCornerPositions,
+} from './boards';
+
 // Step 1A.2 — Turn State Machine
-export { TurnStateMachine, type TurnContext } from './turn-machine';
+export {
+  TurnStateMachine,
+  createTurnMachine,
+  syncTurnMachine,
+  type TurnContext,
+} from './turn-machine';
 
 // Step 1A.3 — Dice & Movement
 export {
@@ -25,12 +49,33 @@ export {
   applyMovement,
   getConsecutiveDoubles,
   setConsecutiveDoubles,
-  resetDoublesTracker,
+  recordDoubles,
+  SPEED_DIE_FACES,
   type DiceResult,
+  type RollDiceOptions,
   type RngFunction,
   type MovementResult,
 } from './dice';
 
+// Speed Die
+export {
+  usesSpeedDie,
+  needsSpeedDieChoice,
+  speedDieDestinations,
+  findMrMonopolyDestination,
+  moveForwardTo,
+} from './speed-die';
+
+// Seeded RNG
+export {
+  createRng,
+  createStateRng,
+  nextRandom,
+  randomId,
+  generateSeed,
+  normalizeSeed,
+} from './rng';
+
 // Step 1A.4 — Space Resolution Engine
 export {
   resolveSpace,
@@ -41,16 +86,37 @@ export {
   getPropertyOwnership,
   getPropertyState,
   setPropertyState,
-  resetPropertyStates,
   getColorGroupSpaces,
   ownsAllInColorGroup,
   countOwnedOfType,
+  payRent,
+  rentKeptByOwner,
   type SpaceResolution,
   type SpaceResolutionType,
   type PropertyOwnership,
   type PropertyStateEntry,
 } from './spaces';
 
+// Free Parking house rule
+export {
+  isFreeParkingJackpotEnabled,
+  getFreeParkingPot,
+  collectForFreeParking,
+  payOutFreeParking,
+} from './free-parking';
+
+// House rules
+export {
+  MAX_STARTING_PROPERTIES,
+  HOUSE_RULE_LIMITS,
+  getRule,
+  goSalaryAt,
+  collectGoSalary,
+  mortgageInterest,
+  canBuyProperties,
+  validateHouseRules,
+} from './rules';
+
 // Step 1A.5 — Card System
 export {
   createDeck,
@@ -66,8 +132,16 @@ export {
   buyProperty,
   startAuction,
   getAuction,
+  getCurrentBidder,
+  getMinimumBid,
+  getCommittedBid,
   placeBid,
   passBid,
+  expireAuctionCountdown,
+  isAwaitingBid,
+  revealSealedBids,
+  redactAuction,
+  redactGameState,
   isAuctionComplete,
   resolveAuction,
   hasMonopoly,
@@ -79,7 +153,6 @@ export {
   unmortgageProperty,
   getBuildingSupply,
   setBuildingSupply,
-  resetBuildingSupply,
   initBuildingSupply,
   type AuctionState,
   type BuildingSupply,
@@ -88,33 +161,65 @@ export {
 // Step 1A.7 — Trading Logic
 export {
   createTradeOffer,
+  createMultiTradeOffer,
   acceptTrade,
   rejectTrade,
   counterTrade,
   storeTrade,
   getTrade,
-  resetTrades,
+  getTradeProblem,
+  isTradeExpired,
+  cancelTrade,
+  isMultiPartyTrade,
+  getTradeParticipants,
+  getTradeTransfers,
+  getTradeHoldouts,
+  getTradeThreads,
+  getTradeContents,
 } from './trading';
 
-// Step 1A.8 — Jail Logic
+// Rent immunity and rent-share clauses agreed in trades
 export {
-  sendToJail,
-  payJailFine,
-  useJailCard,
-  rollInJail,
-  type JailRollResult,
-} from './jail';
+  CLAUSE_LIMITS,
+  clauseOwnerAfterTrade,
+  validateTradeClauses,
+  startRentAgreements,
+  getRentAgreements,
+  getRentTerms,
+  spendRentImmunity,
+  tickRentAgreements,
+  type RentTerms,
+} from './rent-agreements';
+
+// Step 1A.8 — Jail Logic
+export { sendToJail, payJailFine, useJailCard, rollInJail, type JailRollResult } from './jail';
 
 // Step 1A.9 — Bankruptcy & Endgame
 export {
   canPlayerAfford,
   calculateLiquidationValue,
   declareBankruptcy,
+  openDebt,
+  settleDebt,
+  inheritedMortgageInterest,
+  resolveInheritedMortgage,
   getWinner,
   calculateNetWorth,
   determineTimedGameWinner,
+  getFinalStandings,
 } from './bankruptcy';
 
+// Timed games
+export {
+  isTimedGame,
+  getRound,
+  startGameClock,
+  getFinalRound,
+  isFinalRound,
+  isFinalRoundOver,
+  beginFinalRound,
+} from './timed-game';
+
 // Step 1A.10 — Event System
 export {
   GameEventEmitter,
@@ -129,3 +234,38 @@ export {
   createBuildingSoldEvent,
   createDiceRolledEvent,
 } from './events';
+
+// Action Reducer
+export {
+  applyGameAction,
+  advanceToNextPlayer,
+  getTimeoutAction,
+  getTimeoutActor,
+  autoRollForPlayer,
+  autoEndTurnForPlayer,
+  expireGameClock,
+  expireAuction,
+  expireTrades,
+  type GameActionResult,
+  type GameActionError,
+  type ApplyGameActionOptions,
+} from './reducer';
+
+// Who may take each action, and when
+export {
+  ACTION_PERMISSIONS,
+  isActionOpen,
+  checkActionPermission,
+  type ActionActor,
+  type ActionPermission,
+} from './permissions';
+
+// Replay
+export {
+  createReplay,
+  appendReplayStep,
+  createReplayInitialState,
+  applyReplayStep,
+  reconstructStateAt,
+  buildReplayTimeline,
+} from './replay';
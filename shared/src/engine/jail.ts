@@ -1,14 +1,16 @@
 import type { GameState } from '../types/gameState';
 import type { DiceResult } from './dice';
-import { getPlayerById } from './state';
+import { getJailPosition, getPlayerById } from './state';
 import { calculateNewPosition, didPassGo, setConsecutiveDoubles } from './dice';
+import { collectForFreeParking } from './free-parking';
+import { collectGoSalary, getRule } from './rules';
 
 export function sendToJail(state: GameState, playerId: string): GameState {
   const newState = deepClone(state);
   const player = getPlayerById(newState, playerId);
   if (!player) throw new Error(`Player ${playerId} not found`);
 
-  player.position = 10;
+  player.position = getJailPosition(newState);
   player.jailStatus = { inJail: true, turnsInJail: 0 };
   setConsecutiveDoubles(newState, playerId, 0);
 
@@ -24,11 +26,13 @@ export function payJailFine(state: GameState, playerId: string): GameState {
     throw new Error('Player is not in jail');
   }
 
-  if (player.cash < 50) {
-    throw new Error('Player cannot afford $50 jail fine');
+  const fine = getRule(newState, 'jailFine');
+  if (player.cash < fine) {
+    throw new Error(`Player cannot afford $${fine} jail fine`);
   }
 
-  player.cash -= 50;
+  player.cash -= fine;
+  collectForFreeParking(newState, fine);
   player.jailStatus = { inJail: false };
 
   return newState;
@@ -78,22 +82,32 @@ export function rollInJail(
   // Rolled doubles → free
   if (diceResult.isDoubles) {
     player.jailStatus = { inJail: false };
-    const newPosition = calculateNewPosition(player.position, diceResult.total);
+    const newPosition = calculateNewPosition(
+      player.position,
+      diceResult.total,
+      newState.board.length,
+    );
     player.position = newPosition;
-    if (didPassGo(10, newPosition)) {
-      player.cash += 200;
+    if (didPassGo(getJailPosition(newState), newPosition)) {
+      collectGoSalary(newState, player);
     }
     return { state: newState, freedFromJail: true, forcedExit: false, diceResult };
   }
 
-  // Third failed attempt → forced to pay $50 and move
+  // Third failed attempt → forced to pay the fine and move
   if (turnsInJail >= 2) {
-    player.cash -= 50;
+    const fine = getRule(newState, 'jailFine');
+    player.cash -= fine;
+    collectForFreeParking(newState, fine);
     player.jailStatus = { inJail: false };
-    const newPosition = calculateNewPosition(player.position, diceResult.total);
+    const newPosition = calculateNewPosition(
+      player.position,
+      diceResult.total,
+      newState.board.length,
+    );
     player.position = newPosition;
-    if (didPassGo(10, newPosition)) {
-      player.cash += 200;
+    if (didPassGo(getJailPosition(newState), newPosition)) {
+      collectGoSalary(newState, player);
     }
     return { state: newState, freedFromJail: true, forcedExit: true, diceResult };
   }
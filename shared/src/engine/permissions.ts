@@ -0,0 +1,157 @@
+import { TurnState } from '../types/turn';
+import type { GameAction } from '../types/gameAction';
+import type { GameSettings } from '../types/gameSettings';
+import type { GameState } from '../types/gameState';
+import type { GameActionError } from './reducer';
+import { getActivePlayer, getPlayerById } from './state';
+import { getRule } from './rules';
+import { getTrade, getTradeHoldouts, getTradeParticipants } from './trading';
+
+// Who may take an action:
+//   activePlayer     - the player whose turn it is
+//   anyPlayer        - anyone still in the game
+//   tradeRecipient   - a player the trade is still waiting on for an answer
+//   tradeParticipant - anyone the trade involves, including its proposer
+//   creditor         - the player settling mortgages inherited from a bankruptcy
+export type ActionActor =
+  | 'activePlayer'
+  | 'anyPlayer'
+  | 'tradeRecipient'
+  | 'tradeParticipant'
+  | 'creditor';
+
+export interface ActionPermission {
+  actor: ActionActor;
+  // Turn states the action is taken in; any state when omitted
+  turnStates?: TurnState[];
+  // A house rule that, when switched on, lets the action be taken in any turn state
+  anytimeRule?: keyof GameSettings;
+  // Plainer refusals than the generic one for particular turn states
+  refusals?: Partial<Record<TurnState, string>>;
+}
+
+const MANAGING_ASSETS = [TurnState.PlayerAction, TurnState.RaisingFunds];
+
+export const ACTION_PERMISSIONS: Record<GameAction['type'], ActionPermission> = {
+  RollDice: { actor: 'activePlayer', turnStates: [TurnState.WaitingForRoll] },
+  RollForDoubles: { actor: 'activePlayer', turnStates: [TurnState.WaitingForRoll] },
+  PayJailFine: { actor: 'activePlayer', turnStates: [TurnState.WaitingForRoll] },
+  UseJailCard: { actor: 'activePlayer', turnStates: [TurnState.WaitingForRoll] },
+  ChooseSpeedDieMove: { actor: 'activePlayer', turnStates: [TurnState.ChoosingSpeedDieMove] },
+  BuyProperty: { actor: 'activePlayer', turnStates: [TurnState.AwaitingBuyDecision] },
+  DeclineProperty: { actor: 'activePlayer', turnStates: [TurnState.AwaitingBuyDecision] },
+  AuctionBid: { actor: 'anyPlayer', turnStates: [TurnState.Auction] },
+  AuctionPass: { actor: 'anyPlayer', turnStates: [TurnState.Auction] },
+  BuildHouse: { actor: 'anyPlayer', turnStates: [TurnState.PlayerAction] },
+  BuildHotel: { actor: 'anyPlayer', turnStates: [TurnState.PlayerAction] },
+  UnmortgageProperty: { actor: 'anyPlayer', turnStates: [TurnState.PlayerAction] },
+  SellBuilding: { actor: 'anyPlayer', turnStates: MANAGING_ASSETS },
+  MortgageProperty: { actor: 'anyPlayer', turnStates: MANAGING_ASSETS },
+  ProposeTrade: { actor: 'anyPlayer', turnStates: MANAGING_ASSETS, anytimeRule: 'tradeAnytime' },
+  ProposeMultiTrade: {
+    actor: 'anyPlayer',
+    turnStates: MANAGING_ASSETS,
+    anytimeRule: 'tradeAnytime',
+  },
+  AcceptTrade: { actor: 'tradeRecipient' },
+  CounterTrade: { actor: 'tradeRecipient' },
+  RejectTrade: { actor: 'tradeParticipant' },
+  DeclareBankruptcy: { actor: 'activePlayer' },
+  UnmortgageInheritedProperty: { actor: 'creditor' },
+  KeepInheritedMortgage: { actor: 'creditor' },
+  EndTurn: {
+    actor: 'activePlayer',
+    turnStates: [TurnState.PlayerAction],
+    refusals: { [TurnState.RaisingFunds]: 'Cannot end turn while raising funds' },
+  },
+};
+
+// What a creditor who can't pay for inherited mortgages may do besides settling
+// them: raise the money, or give up and go bankrupt to the bank
+const INHERITANCE_FUNDING_ACTIONS: GameAction['type'][] = [
+  'SellBuilding',
+  'MortgageProperty',
+  'DeclareBankruptcy',
+];
+
+// Whether the action is the creditor raising money for inherited mortgages,
+// which they may do whatever the turn state and whoever's turn it is
+export function isFundingInheritance(
+  state: GameState,
+  playerId: string,
+  type: GameAction['type'],
+): boolean {
+  return (
+    state.pendingInheritance?.creditorId === playerId && INHERITANCE_FUNDING_ACTIONS.includes(type)
+  );
+}
+
+// Whether the game's turn state lets the action be taken at all, whoever takes it
+export function isActionOpen(state: GameState, type: GameAction['type']): boolean {
+  const { turnStates, anytimeRule } = ACTION_PERMISSIONS[type];
+  if (!turnStates || turnStates.includes(state.turnState)) return true;
+  return anytimeRule !== undefined && getRule(state, anytimeRule) === true;
+}
+
+// Checks that the player may take the action in the game's current turn state.
+// Returns the refusal, or null when the action can go ahead to the rules proper.
+export function checkActionPermission(
+  state: GameState,
+  playerId: string,
+  action: GameAction,
+): GameActionError | null {
+  const permission = ACTION_PERMISSIONS[action.type];
+
+  const player = getPlayerById(state, playerId);
+  if (!player || player.isBankrupt) {
+    return { code: 'NOT_A_PLAYER', message: 'You are not playing in this game' };
+  }
+
+  if (isFundingInheritance(state, playerId, action.type)) return null;
+
+  if (permission.actor === 'activePlayer' && getActivePlayer(state).id !== playerId) {
+    return { code: 'NOT_YOUR_TURN', message: 'Not your turn' };
+  }
+
+  if (permission.actor === 'creditor') {
+    const inheritance = state.pendingInheritance;
+    if (inheritance && inheritance.creditorId !== playerId) {
+      return { code: 'NOT_CREDITOR', message: 'Only the creditor can settle inherited mortgages' };
+    }
+  }
+
+  if (
+    (permission.actor === 'tradeRecipient' || permission.actor === 'tradeParticipant') &&
+    'tradeId' in action
+  ) {
+    const trade = getTrade(state, action.tradeId);
+    if (!trade) {
+      return { code: 'TRADE_NOT_FOUND', message: `Trade ${action.tradeId} not found` };
+    }
+    if (trade.status !== 'pending') {
+      return { code: 'INVALID_ACTION', message: 'Trade is not pending' };
+    }
+    const parties =
+      permission.actor === 'tradeRecipient' ? getTradeHoldouts(trade) : getTradeParticipants(trade);
+    if (!parties.includes(playerId)) {
+      return {
+        code: 'NOT_TRADE_PARTY',
+        message:
+          permission.actor === 'tradeRecipient'
+            ? 'Only a player the trade is waiting on can answer it'
+            : 'Only players in the trade can turn it down',
+      };
+    }
+  }
+
+  if (!isActionOpen(state, action.type)) {
+    return {
+      code: 'WRONG_TURN_STATE',
+      message:
+        permission.refusals?.[state.turnState] ??
+        `Invalid action '${action.type}' in state '${state.turnState}'`,
+    };
+  }
+
+  return null;
+}
@@ -1,4 +1,6 @@
-import type { GameState } from '../types/gameState';
+import type { GameState, BuildingSupply } from '../types/gameState';
+import type { AuctionState } from '../types/auction';
+import type { Player } from '../types/player';
 import type { ColorGroup } from '../types/space';
 import { SpaceType } from '../types/space';
 import { getPlayerById, getSpaceById } from './state';
@@ -9,29 +11,24 @@ import {
   ownsAllInColorGroup,
   getColorGroupSpaces,
 } from './spaces';
+import { canBuyProperties, getRule, mortgageInterest } from './rules';
 
-export interface BuildingSupply {
-  houses: number;
-  hotels: number;
-}
+export type { AuctionState, BuildingSupply };
 
-// Track building supply per game
-const _buildingSupply = new Map<string, BuildingSupply>();
+function fullBuildingSupply(state: GameState): BuildingSupply {
+  return { houses: getRule(state, 'maxHouses'), hotels: getRule(state, 'maxHotels') };
+}
 
 export function getBuildingSupply(state: GameState): BuildingSupply {
-  return _buildingSupply.get(state.gameId) ?? { houses: 32, hotels: 12 };
+  return { ...(state.buildingSupply ?? fullBuildingSupply(state)) };
 }
 
 export function setBuildingSupply(state: GameState, supply: BuildingSupply): void {
-  _buildingSupply.set(state.gameId, supply);
-}
-
-export function resetBuildingSupply(gameId: string): void {
-  _buildingSupply.delete(gameId);
+  state.buildingSupply = { ...supply };
 }
 
 export function initBuildingSupply(state: GameState): void {
-  _buildingSupply.set(state.gameId, { houses: 32, hotels: 12 });
+  state.buildingSupply = fullBuildingSupply(state);
 }
 
 export function buyProperty(state: GameState, playerId: string, spaceId: number): GameState {
@@ -68,6 +65,10 @@ export function buyProperty(state: GameState, playerId: string, spaceId: number)
     throw new Error(`Player ${playerId} is not on space ${spaceId}`);
   }
 
+  if (!canBuyProperties(newState, player)) {
+    throw new Error('Must pass Go once before buying property');
+  }
+
   // Transfer
   player.cash -= cost;
   player.properties.push(spaceId);
@@ -76,19 +77,7 @@ export function buyProperty(state: GameState, playerId: string, spaceId: number)
   return newState;
 }
 
-// Auction state
-export interface AuctionState {
-  propertyId: number;
-  highBid: number;
-  highBidderId: string | null;
-  eligiblePlayers: string[];
-  passedPlayers: string[];
-  currentBidderIndex: number;
-}
-
-const _auctionStates = new Map<string, AuctionState>();
-
-export function startAuction(state: GameState, spaceId: number): AuctionState {
+export function startAuction(state: GameState, spaceId: number, now = Date.now()): AuctionState {
   const activePlayers = state.players.filter((p) => p.isActive && !p.isBankrupt).map((p) => p.id);
 
   const auction: AuctionState = {
@@ -97,18 +86,49 @@ export function startAuction(state: GameState, spaceId: number): AuctionState {
     highBidderId: null,
     eligiblePlayers: activePlayers,
     passedPlayers: [],
-    currentBidderIndex: 0,
+    currentBidderIndex: firstBidderIndex(state, activePlayers),
+    deadline: null,
   };
+  if (getRule(state, 'sealedBidAuctions')) {
+    auction.sealed = true;
+    auction.sealedBids = {};
+  }
 
-  _auctionStates.set(state.gameId, auction);
+  state.auction = auction;
+  restartAuctionCountdown(state, now);
   return auction;
 }
 
 export function getAuction(state: GameState): AuctionState | null {
-  return _auctionStates.get(state.gameId) ?? null;
+  return state.auction ?? null;
+}
+
+// The player due to bid when bidding goes round the table; null when anyone may bid
+export function getCurrentBidder(state: GameState): string | null {
+  const auction = getAuction(state);
+  if (!auction || auction.sealed || !getRule(state, 'auctionRoundRobin')) return null;
+  return auction.eligiblePlayers[auction.currentBidderIndex] ?? null;
+}
+
+// The cash a player has promised at the auction under way: their sealed bid,
+// or the high bid while they hold it
+export function getCommittedBid(state: GameState, playerId: string): number {
+  const auction = getAuction(state);
+  if (!auction) return 0;
+  if (auction.sealed) return auction.sealedBids?.[playerId] ?? 0;
+  return auction.highBidderId === playerId ? auction.highBid : 0;
+}
+
+export function getMinimumBid(state: GameState): number {
+  return (getAuction(state)?.highBid ?? 0) + getRule(state, 'minBidIncrement');
 }
 
-export function placeBid(state: GameState, playerId: string, amount: number): AuctionState {
+export function placeBid(
+  state: GameState,
+  playerId: string,
+  amount: number,
+  now = Date.now(),
+): AuctionState {
   const auction = getAuction(state);
   if (!auction) throw new Error('No active auction');
 
@@ -119,8 +139,21 @@ export function placeBid(state: GameState, playerId: string, amount: number): Au
     throw new Error(`Player ${playerId} has already passed`);
   }
 
-  if (amount <= auction.highBid) {
-    throw new Error(`Bid $${amount} must be greater than current high bid $${auction.highBid}`);
+  // Cash only ever moves in whole amounts, as in trades
+  if (!Number.isInteger(amount)) throw new Error('Bids must be whole numbers');
+
+  if (auction.sealed) return placeSealedBid(state, auction, player, amount);
+
+  const currentBidder = getCurrentBidder(state);
+  if (currentBidder && currentBidder !== playerId) {
+    throw new Error(
+      `Waiting for ${getPlayerById(state, currentBidder)?.name ?? currentBidder} to bid`,
+    );
+  }
+
+  const minimum = getMinimumBid(state);
+  if (amount < minimum) {
+    throw new Error(`Bid $${amount} must be at least $${minimum}`);
   }
 
   if (amount > player.cash) {
@@ -129,25 +162,162 @@ export function placeBid(state: GameState, playerId: string, amount: number): Au
 
   auction.highBid = amount;
   auction.highBidderId = playerId;
+  if (currentBidder) advanceBidder(auction);
+  restartAuctionCountdown(state, now);
 
   return auction;
 }
 
-export function passBid(state: GameState, playerId: string): AuctionState {
+// Passing is allowed out of turn; it only moves the bidding on when the
+// player due to bid drops out
+export function passBid(state: GameState, playerId: string, now = Date.now()): AuctionState {
   const auction = getAuction(state);
   if (!auction) throw new Error('No active auction');
 
+  if (auction.sealedBids?.[playerId] != null) {
+    throw new Error(`Player ${playerId} has already bid`);
+  }
+
   if (!auction.passedPlayers.includes(playerId)) {
     auction.passedPlayers.push(playerId);
   }
 
+  if (getCurrentBidder(state) === playerId) {
+    advanceBidder(auction);
+    restartAuctionCountdown(state, now);
+  }
+
   return auction;
 }
 
+// Closes the bidding once the countdown has run out: the player due to bid
+// passes when bidding goes round the table, otherwise everyone but the high
+// bidder does. Returns the players who were passed.
+export function expireAuctionCountdown(state: GameState, now: number): string[] {
+  const auction = getAuction(state);
+  if (!auction) throw new Error('No active auction');
+  if (!auction.deadline) throw new Error('Auction has no countdown');
+  if (now < auction.deadline) throw new Error('Auction countdown has not run out');
+
+  const currentBidder = getCurrentBidder(state);
+  const passing = currentBidder
+    ? [currentBidder]
+    : auction.eligiblePlayers.filter((id) => isAwaitingBid(auction, id));
+  for (const id of passing) passBid(state, id, now);
+  return passing;
+}
+
+// Whether the auction is still waiting on this player: an open auction waits
+// on everyone who hasn't passed except the high bidder, a sealed one on
+// everyone who has neither bid nor passed
+export function isAwaitingBid(auction: AuctionState, playerId: string): boolean {
+  if (!auction.eligiblePlayers.includes(playerId) || auction.passedPlayers.includes(playerId)) {
+    return false;
+  }
+  return auction.sealed
+    ? auction.sealedBids?.[playerId] == null
+    : playerId !== auction.highBidderId;
+}
+
+// Opens the sealed bids together. The highest bid wins, and a tie goes to
+// whoever comes first in turn order from the player whose turn it is.
+// Returns every bid that was made.
+export function revealSealedBids(state: GameState): Record<string, number> {
+  const auction = getAuction(state);
+  if (!auction?.sealed) throw new Error('No sealed auction');
+
+  const bids: Record<string, number> = {};
+  for (const [id, amount] of Object.entries(auction.sealedBids ?? {})) {
+    if (amount != null) bids[id] = amount;
+  }
+
+  const count = state.players.length;
+  for (let i = 0; i < count; i++) {
+    const id = state.players[(state.currentPlayerIndex + i) % count].id;
+    if (bids[id] !== undefined && bids[id] > auction.highBid) {
+      auction.highBid = bids[id];
+      auction.highBidderId = id;
+    }
+  }
+  return bids;
+}
+
+// What a player may see of the auction: sealed bids stay hidden apart from
+// their own, though everyone can see who has bid. Pass null for spectators.
+export function redactAuction(auction: AuctionState, viewerId: string | null): AuctionState {
+  if (!auction.sealedBids) return auction;
+  const sealedBids: Record<string, number | null> = {};
+  for (const [id, amount] of Object.entries(auction.sealedBids)) {
+    sealedBids[id] = id === viewerId ? amount : null;
+  }
+  return { ...auction, sealedBids };
+}
+
+export function redactGameState(state: GameState, viewerId: string | null): GameState {
+  if (!state.auction?.sealed) return state;
+  return { ...state, auction: redactAuction(state.auction, viewerId) };
+}
+
+function placeSealedBid(
+  state: GameState,
+  auction: AuctionState,
+  player: Player,
+  amount: number,
+): AuctionState {
+  if (auction.sealedBids?.[player.id] != null) {
+    throw new Error(`Player ${player.id} has already bid`);
+  }
+
+  const minimum = getMinimumBid(state);
+  if (amount < minimum) {
+    throw new Error(`Bid $${amount} must be at least $${minimum}`);
+  }
+
+  if (amount > player.cash) {
+    throw new Error(`Player ${player.id} cannot afford $${amount} (has $${player.cash})`);
+  }
+
+  auction.sealedBids = { ...auction.sealedBids, [player.id]: amount };
+  return auction;
+}
+
+function restartAuctionCountdown(state: GameState, now: number): void {
+  const auction = getAuction(state);
+  if (!auction) return;
+  const seconds = getRule(state, 'auctionTimeLimit');
+  auction.deadline = seconds > 0 ? now + seconds * 1000 : null;
+}
+
+// Bidding round the table opens with the player whose turn it is, or the next seat along
+function firstBidderIndex(state: GameState, eligible: string[]): number {
+  const count = state.players.length;
+  for (let i = 0; i < count; i++) {
+    const index = eligible.indexOf(state.players[(state.currentPlayerIndex + i) % count].id);
+    if (index !== -1) return index;
+  }
+  return 0;
+}
+
+// Moves to the next seat still in the auction, skipping the high bidder
+function advanceBidder(auction: AuctionState): void {
+  const count = auction.eligiblePlayers.length;
+  for (let step = 1; step <= count; step++) {
+    const index = (auction.currentBidderIndex + step) % count;
+    const id = auction.eligiblePlayers[index];
+    if (!auction.passedPlayers.includes(id) && id !== auction.highBidderId) {
+      auction.currentBidderIndex = index;
+      return;
+    }
+  }
+}
+
 export function isAuctionComplete(state: GameState): boolean {
   const auction = getAuction(state);
   if (!auction) return true;
 
+  // Sealed bids are in once every player has bid or passed
+  if (auction.sealed) return !auction.eligiblePlayers.some((id) => isAwaitingBid(auction, id));
+
   const remaining = auction.eligiblePlayers.filter((id) => !auction.passedPlayers.includes(id));
 
   // All passed or only one remaining (who is the high bidder)
@@ -173,7 +343,7 @@ export function resolveAuction(state: GameState): GameState {
   }
   // If no bids, property remains unowned
 
-  _auctionStates.delete(state.gameId);
+  newState.auction = null;
   return newState;
 }
 
@@ -201,7 +371,9 @@ export function canBuildHouse(state: GameState, playerId: string, spaceId: numbe
   if (houses >= 5) return 'Property already has a hotel';
 
   // Check even-build rule
-  const groupSpaces = getColorGroupSpaces(state, space.colorGroup);
+  const groupSpaces = getRule(state, 'evenBuild')
+    ? getColorGroupSpaces(state, space.colorGroup)
+    : [];
   for (const gs of groupSpaces) {
     if (gs.id === spaceId) continue;
     const gsState = getPropertyState(state, gs.id);
@@ -281,7 +453,7 @@ export function canSellBuilding(
   if (houses <= 0) return 'No buildings to sell';
 
   // Check even-sell rule: after selling, max-min across group must be <= 1
-  if (space.colorGroup) {
+  if (space.colorGroup && getRule(state, 'evenBuild')) {
     const groupSpaces = getColorGroupSpaces(state, space.colorGroup);
     const allHousesAfter: number[] = [];
     for (const gs of groupSpaces) {
@@ -401,7 +573,7 @@ export function unmortgageProperty(state: GameState, playerId: string, spaceId:
   }
 
   const mortgageValue = space.mortgageValue ?? 0;
-  const interest = Math.ceil(mortgageValue * 0.1);
+  const interest = mortgageInterest(newState, mortgageValue);
   const totalCost = mortgageValue + interest;
 
   if (player.cash < totalCost) {
@@ -0,0 +1,1137 @@
+import type { DiceResultState, GameState } from '../types/gameState';
+import type { GameAction, GameActionErrorCode } from '../types/gameAction';
+import type { GameEvent } from '../types/gameEvent';
+import { GameEventType } from '../types/gameEvent';
+import { TurnState } from '../types/turn';
+import {
+  rollDice,
+  applyMovement,
+  getConsecutiveDoubles,
+  setConsecutiveDoubles,
+  recordDoubles,
+  type DiceResult,
+} from './dice';
+import { createStateRng } from './rng';
+import {
+  getActivePlayer,
+  getPlayerById,
+  getSpaceById,
+  getSpaceByPosition,
+  isGameOver,
+} from './state';
+import {
+  resolveSpace,
+  applySpaceResolution,
+  rentKeptByOwner,
+  getPropertyState,
+  getColorGroupSpaces,
+} from './spaces';
+import { tickRentAgreements } from './rent-agreements';
+import {
+  buyProperty,
+  startAuction,
+  getAuction,
+  placeBid,
+  passBid,
+  expireAuctionCountdown,
+  revealSealedBids,
+  isAuctionComplete,
+  resolveAuction,
+  buildHouse,
+  sellBuilding,
+  canSellBuilding,
+  mortgageProperty,
+  unmortgageProperty,
+} from './properties';
+import {
+  createTradeOffer,
+  createMultiTradeOffer,
+  acceptTrade,
+  getTrade,
+  rejectTrade,
+  counterTrade,
+  cancelTrade,
+  getTradeContents,
+  getTradeProblem,
+  isTradeExpired,
+} from './trading';
+import { payJailFine, useJailCard, rollInJail } from './jail';
+import { getRule, goSalaryAt } from './rules';
+import {
+  usesSpeedDie,
+  needsSpeedDieChoice,
+  speedDieDestinations,
+  findMrMonopolyDestination,
+  moveForwardTo,
+} from './speed-die';
+import {
+  advanceRound,
+  beginFinalRound,
+  getRound,
+  isFinalRound,
+  isFinalRoundOver,
+} from './timed-game';
+import { drawCard, applyCardEffect } from './cards';
+import {
+  declareBankruptcy,
+  openDebt,
+  settleDebt,
+  inheritedMortgageInterest,
+  resolveInheritedMortgage,
+  getWinner,
+} from './bankruptcy';
+import { createTurnMachine, syncTurnMachine, type TurnStateMachine } from './turn-machine';
+import { checkActionPermission, isFundingInheritance } from './permissions';
+
+export interface GameActionError {
+  code: GameActionErrorCode;
+  message: string;
+}
+
+export interface GameActionResult {
+  state: GameState;
+  events: GameEvent[];
+  error?: GameActionError;
+}
+
+export interface ApplyGameActionOptions {
+  // Timestamp stamped on emitted events; defaults to Date.now()
+  now?: number;
+}
+
+interface ReducerContext {
+  machine: TurnStateMachine;
+  events: GameEvent[];
+  now: number;
+  // Rent credited to an owner this action, reclaimed if the payer falls short
+  rentCredited?: { ownerId: string; amount: number };
+}
+
+// The only actions accepted while a creditor settles inherited mortgages
+const INHERITANCE_ACTIONS: GameAction['type'][] = [
+  'UnmortgageInheritedProperty',
+  'KeepInheritedMortgage',
+];
+
+// Applies one player action to a game. The input state is never mutated: on
+// success the result carries the next state and the events the action emitted,
+// on failure the original state is returned unchanged alongside the error.
+export function applyGameAction(
+  state: GameState,
+  playerId: string,
+  action: GameAction,
+  options: ApplyGameActionOptions = {},
+): GameActionResult {
+  if (state.status !== 'playing') {
+    return fail(state, 'GAME_NOT_IN_PROGRESS', 'Game is not in progress');
+  }
+
+  const refusal = checkActionPermission(state, playerId, action);
+  if (refusal) {
+    return fail(state, refusal.code, refusal.message);
+  }
+
+  if (
+    state.pendingInheritance &&
+    !INHERITANCE_ACTIONS.includes(action.type) &&
+    !isFundingInheritance(state, playerId, action.type)
+  ) {
+    const creditor = getPlayerById(state, state.pendingInheritance.creditorId);
+    return fail(
+      state,
+      'INVALID_ACTION',
+      `Waiting for ${creditor?.name ?? 'the creditor'} to settle inherited mortgages`,
+    );
+  }
+
+  let next = deepClone(state);
+  const ctx: ReducerContext = {
+    machine: createTurnMachine(next),
+    events: [],
+    now: options.now ?? Date.now(),
+  };
+
+  try {
+    next = applyAction(next, playerId, action, ctx);
+    next = reconcileDebt(next, action, ctx);
+  } catch (err) {
+    return fail(state, 'INVALID_ACTION', err instanceof Error ? err.message : 'Action failed');
+  }
+
+  callOffBrokenTrades(next, ctx);
+
+  if (getRule(next, 'roundLimit') > 0 && isFinalRound(next) && beginFinalRound(next)) {
+    addEvent(ctx, next, GameEventType.FinalRoundStarted, {
+      round: next.finalRound,
+      reason: 'rounds',
+    });
+  }
+
+  if (isGameOver(next) || isFinalRoundOver(next)) {
+    next.status = 'finished';
+    addEvent(ctx, next, GameEventType.GameEnded, {
+      winnerId: getWinner(next),
+      reason: isGameOver(next) ? 'lastPlayerStanding' : 'finalRound',
+    });
+  }
+
+  syncTurnMachine(next, ctx.machine);
+
+  return { state: next, events: ctx.events };
+}
+
+// Runs out a timed game's clock: the round in progress becomes the last one,
+// so every player gets the same number of turns before the game ends
+export function expireGameClock(
+  state: GameState,
+  options: ApplyGameActionOptions = {},
+): GameActionResult {
+  if (state.status !== 'playing') {
+    return fail(state, 'GAME_NOT_IN_PROGRESS', 'Game is not in progress');
+  }
+
+  const next = deepClone(state);
+  const ctx: ReducerContext = {
+    machine: createTurnMachine(next),
+    events: [],
+    now: options.now ?? Date.now(),
+  };
+  if (beginFinalRound(next)) {
+    addEvent(ctx, next, GameEventType.FinalRoundStarted, { round: getRound(next), reason: 'time' });
+  }
+  return { state: next, events: ctx.events };
+}
+
+// Runs out an auction's countdown, passing whoever was still holding the
+// bidding open and settling the auction if that was the last of them
+export function expireAuction(
+  state: GameState,
+  options: ApplyGameActionOptions = {},
+): GameActionResult {
+  if (state.status !== 'playing') {
+    return fail(state, 'GAME_NOT_IN_PROGRESS', 'Game is not in progress');
+  }
+
+  let next = deepClone(state);
+  const ctx: ReducerContext = {
+    machine: createTurnMachine(next),
+    events: [],
+    now: options.now ?? Date.now(),
+  };
+
+  try {
+    for (const playerId of expireAuctionCountdown(next, ctx.now)) {
+      addEvent(ctx, next, GameEventType.AuctionBid, { playerId, passed: true, timedOut: true });
+    }
+    next = settleAuctionIfComplete(next, { type: 'AuctionPass' }, ctx);
+  } catch (err) {
+    return fail(state, 'INVALID_ACTION', err instanceof Error ? err.message : 'Action failed');
+  }
+
+  // Paying for the property may leave the winner short of cash they offered in a trade
+  callOffBrokenTrades(next, ctx);
+  syncTurnMachine(next, ctx.machine);
+  return { state: next, events: ctx.events };
+}
+
+// Lets trade offers left unanswered past the time limit lapse
+export function expireTrades(
+  state: GameState,
+  options: ApplyGameActionOptions = {},
+): GameActionResult {
+  if (state.status !== 'playing') {
+    return fail(state, 'GAME_NOT_IN_PROGRESS', 'Game is not in progress');
+  }
+
+  const next = deepClone(state);
+  const ctx: ReducerContext = {
+    machine: createTurnMachine(next),
+    events: [],
+    now: options.now ?? Date.now(),
+  };
+  callOffBrokenTrades(next, ctx);
+  if (ctx.events.length === 0) {
+    return fail(state, 'INVALID_ACTION', 'No trade offers have expired');
+  }
+  return { state: next, events: ctx.events };
+}
+
+// Calls off every pending trade that has run out of time or can no longer go
+// through as offered, so neither side is left holding a deal that would fail
+function callOffBrokenTrades(state: GameState, ctx: ReducerContext): void {
+  for (const trade of [...(state.pendingTrades ?? [])]) {
+    const expired = isTradeExpired(trade, ctx.now);
+    const reason = expired ? 'The offer ran out of time' : getTradeProblem(state, trade);
+    if (!reason) continue;
+
+    const status = expired ? 'expired' : 'invalidated';
+    cancelTrade(state, trade.id, status, reason, ctx.now);
+    addEvent(ctx, state, GameEventType.TradeCancelled, {
+      tradeId: trade.id,
+      proposerId: trade.proposerId,
+      recipientId: trade.recipientId,
+      status,
+      reason,
+    });
+  }
+}
+
+function fail(state: GameState, code: GameActionErrorCode, message: string): GameActionResult {
+  return { state, events: [], error: { code, message } };
+}
+
+function addEvent(
+  ctx: ReducerContext,
+  state: GameState,
+  type: GameEventType,
+  payload: Record<string, unknown>,
+): void {
+  if (!state.events) state.events = [];
+  const event: GameEvent = {
+    id: `evt-${state.events.length + 1}`,
+    gameId: state.gameId,
+    type,
+    payload,
+    timestamp: ctx.now,
+  };
+  state.events.push(event);
+  ctx.events.push(event);
+}
+
+// Holds the active player in RaisingFunds while they owe more than they have,
+// and settles the debt as soon as their cash covers it
+function reconcileDebt(state: GameState, action: GameAction, ctx: ReducerContext): GameState {
+  const { machine } = ctx;
+  const debt = state.pendingDebt;
+
+  if (debt) {
+    const debtor = getPlayerById(state, debt.debtorId);
+    if (!debtor || debtor.cash < debt.amount) return state;
+    state = settleDebt(state);
+    machine.transition(action, { debtSettled: true });
+    addEvent(ctx, state, GameEventType.DebtSettled, {
+      playerId: debt.debtorId,
+      creditorId: debt.creditorId,
+      amount: debt.amount,
+    });
+    return state;
+  }
+
+  if (state.status !== 'playing' || machine.currentState !== TurnState.PlayerAction) return state;
+  const player = getActivePlayer(state);
+  if (player.cash >= 0) return state;
+
+  const creditorId = ctx.rentCredited?.ownerId ?? 'bank';
+  state = openDebt(state, player.id, creditorId, ctx.rentCredited?.amount ?? 0);
+  machine.transition(action, { shortOfFunds: true });
+  addEvent(ctx, state, GameEventType.DebtIncurred, {
+    playerId: player.id,
+    creditorId,
+    amount: state.pendingDebt?.amount ?? 0,
+  });
+  return state;
+}
+
+// Properties returned to the bank by a bankruptcy are auctioned one after
+// another before the next player gets to roll
+function startQueuedAuction(state: GameState, ctx: ReducerContext): GameState {
+  const propertyId = state.auctionQueue?.shift();
+  if (propertyId === undefined) {
+    state.auctionQueue = null;
+    ctx.machine.currentState = TurnState.WaitingForRoll;
+    return state;
+  }
+
+  startAuction(state, propertyId, ctx.now);
+  ctx.machine.currentState = TurnState.Auction;
+  addEvent(ctx, state, GameEventType.AuctionStarted, {
+    propertyId,
+    queued: state.auctionQueue?.length ?? 0,
+  });
+  return state;
+}
+
+function finishAuction(state: GameState, action: GameAction, ctx: ReducerContext): GameState {
+  if (state.auctionQueue) return startQueuedAuction(state, ctx);
+  ctx.machine.transition(action, { auctionComplete: true });
+  return playMrMonopoly(state, ctx, action);
+}
+
+// Hands the property to the winner once the last bidder has dropped out
+function settleAuctionIfComplete(
+  state: GameState,
+  action: GameAction,
+  ctx: ReducerContext,
+): GameState {
+  if (!isAuctionComplete(state)) return state;
+  const auction = getAuction(state);
+  // Sealed bids are only made public here, all at once
+  const bids = auction?.sealed ? revealSealedBids(state) : undefined;
+  addEvent(ctx, state, GameEventType.AuctionEnded, {
+    propertyId: auction?.propertyId ?? null,
+    winnerId: auction?.highBidderId ?? null,
+    winningBid: auction?.highBid ?? 0,
+    ...(bids ? { bids } : {}),
+  });
+  state = resolveAuction(state);
+  return finishAuction(state, action, ctx);
+}
+
+function toDiceState(diceResult: DiceResult): DiceResultState {
+  const { die1, die2, total, isDoubles, speedDie, isTriples } = diceResult;
+  if (speedDie === undefined) return { die1, die2, total, isDoubles };
+  return { die1, die2, total, isDoubles, speedDie, isTriples: isTriples ?? false };
+}
+
+function recordPassedGo(state: GameState, ctx: ReducerContext, playerId: string): void {
+  state.lastPassedGo = true;
+  addEvent(ctx, state, GameEventType.PassedGo, {
+    playerId,
+    amount: goSalaryAt(state, getActivePlayer(state).position),
+  });
+}
+
+// Mr. Monopoly's move waits until the first landing is settled, so it runs as
+// soon as the turn reaches PlayerAction. It is lost if the player was jailed or
+// is left owing money.
+function playMrMonopoly(state: GameState, ctx: ReducerContext, action: GameAction): GameState {
+  if (state.pendingSpeedDie?.type !== 'mrMonopoly') return state;
+  if (ctx.machine.currentState !== TurnState.PlayerAction) return state;
+  state.pendingSpeedDie = null;
+
+  const player = getActivePlayer(state);
+  const dice = state.lastDiceResult;
+  if (!dice || player.jailStatus.inJail || player.cash < 0) return state;
+  const destination = findMrMonopolyDestination(state, player.id);
+  if (destination === null) return state;
+
+  if (moveForwardTo(state, player.id, destination)) recordPassedGo(state, ctx, player.id);
+  addEvent(ctx, state, GameEventType.SpeedDieMoved, {
+    playerId: player.id,
+    face: 'mrMonopoly',
+    toPosition: destination,
+    spaceName: getSpaceByPosition(state, destination)?.name ?? 'Unknown',
+  });
+
+  ctx.machine.currentState = TurnState.Rolling;
+  state = handlePostRollResolution(state, player.id, dice, ctx, action);
+  state.lastDiceResult = dice;
+  return state;
+}
+
+function handlePostRollResolution(
+  state: GameState,
+  _playerId: string,
+  diceResult: DiceResult,
+  ctx: ReducerContext,
+  action: GameAction,
+): GameState {
+  const { machine } = ctx;
+  const currentPlayer = getActivePlayer(state);
+  const resolution = resolveSpace(state, currentPlayer.id, diceResult);
+  state = applySpaceResolution(state, currentPlayer.id, resolution);
+
+  // Emit events for space resolution
+  if (resolution.type === 'tax') {
+    addEvent(ctx, state, GameEventType.TaxPaid, {
+      playerId: currentPlayer.id,
+      amount: resolution.taxAmount,
+      spaceName: resolution.space.name,
+    });
+  } else if (resolution.type === 'rentPayment' && resolution.ownerId) {
+    ctx.rentCredited = { ownerId: resolution.ownerId, amount: rentKeptByOwner(resolution) };
+    addEvent(ctx, state, GameEventType.RentPaid, {
+      payerId: currentPlayer.id,
+      receiverId: resolution.ownerId,
+      amount: resolution.rentAmount,
+      spaceName: resolution.space.name,
+      ...(resolution.waivedBy && { waived: true }),
+      ...(resolution.rentShares && { shares: resolution.rentShares }),
+    });
+  } else if (resolution.type === 'goToJail') {
+    addEvent(ctx, state, GameEventType.PlayerJailed, { playerId: currentPlayer.id });
+  } else if (resolution.type === 'freeParking') {
+    addEvent(ctx, state, GameEventType.FreeParkingJackpot, {
+      playerId: currentPlayer.id,
+      amount: resolution.jackpotAmount ?? 0,
+    });
+  }
+
+  // Handle card drawing
+  if (resolution.type === 'drawCard' && resolution.deckName) {
+    const drawResult = drawCard(state, resolution.deckName);
+    state = drawResult.state;
+    state.lastCardDrawn = drawResult.card;
+
+    addEvent(ctx, state, GameEventType.CardDrawn, {
+      playerId: currentPlayer.id,
+      cardText: drawResult.card.text,
+      deck: resolution.deckName,
+    });
+
+    // Apply card effect
+    const effectResult = applyCardEffect(state, currentPlayer.id, drawResult.card, diceResult);
+    state = effectResult.state;
+
+    const cardRent = effectResult.spaceResolution;
+    if (cardRent?.type === 'rentPayment' && cardRent.ownerId) {
+      ctx.rentCredited = { ownerId: cardRent.ownerId, amount: rentKeptByOwner(cardRent) };
+    }
+
+    // If card moves player and triggers buy decision
+    if (effectResult.needsBuyDecision && effectResult.spaceResolution?.propertyDetails) {
+      state.pendingBuyDecision = {
+        spaceId: effectResult.spaceResolution.propertyDetails.spaceId,
+        spaceName: effectResult.spaceResolution.propertyDetails.name,
+        cost: effectResult.spaceResolution.propertyDetails.cost,
+      };
+    }
+
+    // If card sends to jail
+    if (effectResult.sentToJail) {
+      state.lastResolution = {
+        type: 'goToJail',
+        spaceName: 'Jail',
+      };
+      addEvent(ctx, state, GameEventType.PlayerJailed, { playerId: currentPlayer.id });
+    }
+  } else {
+    state.lastCardDrawn = null;
+  }
+
+  // Set resolution info for client UI
+  if (resolution.type === 'unownedProperty' && resolution.propertyDetails) {
+    state.pendingBuyDecision = {
+      spaceId: resolution.propertyDetails.spaceId,
+      spaceName: resolution.propertyDetails.name,
+      cost: resolution.propertyDetails.cost,
+    };
+    state.lastResolution = {
+      type: 'unownedProperty',
+      spaceName: resolution.space.name,
+    };
+  } else if (resolution.type === 'rentPayment') {
+    const owner = resolution.ownerId ? getPlayerById(state, resolution.ownerId) : null;
+    state.lastResolution = {
+      type: resolution.waivedBy ? 'rentWaived' : 'rentPayment',
+      spaceName: resolution.space.name,
+      amount: resolution.rentAmount,
+      ownerId: resolution.ownerId,
+      ownerName: owner?.name,
+    };
+    state.pendingBuyDecision = null;
+  } else if (resolution.type === 'tax') {
+    state.lastResolution = {
+      type: 'tax',
+      spaceName: resolution.space.name,
+      amount: resolution.taxAmount,
+    };
+    state.pendingBuyDecision = null;
+  } else if (resolution.type === 'goToJail') {
+    state.lastResolution = {
+      type: 'goToJail',
+      spaceName: 'Go To Jail',
+    };
+    state.pendingBuyDecision = null;
+  } else if (resolution.type === 'freeParking') {
+    state.lastResolution = {
+      type: 'freeParking',
+      spaceName: resolution.space.name,
+      amount: resolution.jackpotAmount ?? 0,
+    };
+    state.pendingBuyDecision = null;
+  } else if (resolution.type === 'drawCard') {
+    state.lastResolution = {
+      type: 'drawCard',
+      spaceName: resolution.space.name,
+      deckName: resolution.deckName,
+    };
+  } else {
+    state.lastResolution = {
+      type: resolution.type,
+      spaceName: resolution.space.name,
+    };
+    state.pendingBuyDecision = null;
+  }
+
+  // Transition through Rolling -> Resolving
+  machine.transition(action, {}); // auto to Resolving
+
+  // pendingBuyDecision can be set by direct landing OR by a card effect
+  const landedOnUnownedProperty = !!state.pendingBuyDecision;
+  machine.transition(action, { landedOnUnownedProperty });
+
+  return state;
+}
+
+function applyAction(
+  state: GameState,
+  playerId: string,
+  action: GameAction,
+  ctx: ReducerContext,
+): GameState {
+  const { machine } = ctx;
+  switch (action.type) {
+    case 'RollDice': {
+      machine.transition(action);
+      const player = getActivePlayer(state);
+      const diceResult = rollDice(createStateRng(state), {
+        speedDie: usesSpeedDie(state, player),
+      });
+      // Triples end the turn after their move instead of granting another roll
+      const rolledDoubles = diceResult.isDoubles && !diceResult.isTriples;
+      machine.rolledDoubles = rolledDoubles;
+
+      state.lastDiceResult = toDiceState(diceResult);
+      state.doublesCount = getConsecutiveDoubles(state, playerId) + (rolledDoubles ? 1 : 0);
+      state.lastCardDrawn = null;
+      state.lastPassedGo = false;
+
+      addEvent(ctx, state, GameEventType.DiceRolled, { playerId, ...toDiceState(diceResult) });
+
+      if (player.jailStatus.inJail) {
+        const jailResult = rollInJail(state, player.id, diceResult);
+        state = jailResult.state;
+        state.lastDiceResult = toDiceState(diceResult);
+
+        if (!jailResult.freedFromJail) {
+          state.lastResolution = { type: 'stayInJail', spaceName: 'Jail' };
+          state.pendingBuyDecision = null;
+          machine.transition(action, {});
+          machine.transition(action, {});
+          return state;
+        }
+
+        if (jailResult.forcedExit) {
+          state.lastResolution = {
+            type: 'forcedJailExit',
+            spaceName: 'Jail',
+            amount: getRule(state, 'jailFine'),
+          };
+        } else {
+          state.lastResolution = { type: 'freedFromJail', spaceName: 'Jail' };
+        }
+        addEvent(ctx, state, GameEventType.PlayerFreed, { playerId: player.id });
+
+        state = handlePostRollResolution(state, player.id, diceResult, ctx, action);
+        state.lastDiceResult = toDiceState(diceResult);
+        return state;
+      }
+
+      // A bus or triples roll waits for the player to pick a destination
+      const choosing = needsSpeedDieChoice(diceResult);
+      let sentToJail: boolean;
+      let passedGo = false;
+      if (choosing) {
+        if (diceResult.isTriples) setConsecutiveDoubles(state, player.id, 0);
+        sentToJail = rolledDoubles && recordDoubles(state, player, diceResult);
+      } else {
+        const moveResult = applyMovement(state, player.id, diceResult);
+        state = moveResult.state;
+        sentToJail = moveResult.sentToJail;
+        passedGo = moveResult.passedGo;
+      }
+      state.lastDiceResult = toDiceState(diceResult);
+
+      if (sentToJail) {
+        state.lastResolution = { type: 'threeDoublesToJail', spaceName: 'Jail' };
+        state.pendingBuyDecision = null;
+        state.doublesCount = 0;
+        addEvent(ctx, state, GameEventType.PlayerJailed, { playerId: player.id });
+        machine.transition(action, {});
+        machine.transition(action, {});
+        return state;
+      }
+
+      if (choosing) {
+        state.pendingSpeedDie = {
+          type: diceResult.isTriples ? 'triples' : 'bus',
+          destinations: speedDieDestinations(state, player.position, diceResult),
+        };
+        state.pendingBuyDecision = null;
+        state.lastResolution = null;
+        machine.transition(action, { speedDieChoice: true });
+        return state;
+      }
+
+      if (passedGo) recordPassedGo(state, ctx, player.id);
+
+      state = handlePostRollResolution(state, player.id, diceResult, ctx, action);
+      state.lastDiceResult = toDiceState(diceResult);
+
+      if (diceResult.speedDie === 'mrMonopoly') {
+        state.pendingSpeedDie = { type: 'mrMonopoly' };
+        state = playMrMonopoly(state, ctx, action);
+      }
+      return state;
+    }
+
+    case 'ChooseSpeedDieMove': {
+      machine.transition(action);
+      const pending = state.pendingSpeedDie;
+      const dice = state.lastDiceResult;
+      if (!dice || !pending?.destinations?.includes(action.destination)) {
+        throw new Error(`Cannot move to space ${action.destination} with this roll`);
+      }
+
+      state.pendingSpeedDie = null;
+      if (moveForwardTo(state, playerId, action.destination)) recordPassedGo(state, ctx, playerId);
+      addEvent(ctx, state, GameEventType.SpeedDieMoved, {
+        playerId,
+        face: pending.type,
+        toPosition: action.destination,
+        spaceName: getSpaceByPosition(state, action.destination)?.name ?? 'Unknown',
+      });
+
+      state = handlePostRollResolution(state, playerId, dice, ctx, action);
+      state.lastDiceResult = dice;
+      return state;
+    }
+
+    case 'RollForDoubles': {
+      machine.transition(action);
+      const diceResult = rollDice(createStateRng(state));
+
+      state.lastDiceResult = {
+        die1: diceResult.die1,
+        die2: diceResult.die2,
+        total: diceResult.total,
+        isDoubles: diceResult.isDoubles,
+      };
+      state.lastCardDrawn = null;
+
+      addEvent(ctx, state, GameEventType.DiceRolled, {
+        playerId,
+        die1: diceResult.die1,
+        die2: diceResult.die2,
+        total: diceResult.total,
+        isDoubles: diceResult.isDoubles,
+      });
+
+      const player = getActivePlayer(state);
+      const jailResult = rollInJail(state, player.id, diceResult);
+      state = jailResult.state;
+      state.lastDiceResult = {
+        die1: diceResult.die1,
+        die2: diceResult.die2,
+        total: diceResult.total,
+        isDoubles: diceResult.isDoubles,
+      };
+
+      if (jailResult.freedFromJail) {
+        machine.rolledDoubles = diceResult.isDoubles;
+
+        if (jailResult.forcedExit) {
+          state.lastResolution = {
+            type: 'forcedJailExit',
+            spaceName: 'Jail',
+            amount: getRule(state, 'jailFine'),
+          };
+        } else {
+          state.lastResolution = { type: 'freedFromJail', spaceName: 'Jail' };
+        }
+        addEvent(ctx, state, GameEventType.PlayerFreed, { playerId: player.id });
+
+        state = handlePostRollResolution(state, player.id, diceResult, ctx, action);
+        state.lastDiceResult = {
+          die1: diceResult.die1,
+          die2: diceResult.die2,
+          total: diceResult.total,
+          isDoubles: diceResult.isDoubles,
+        };
+      } else {
+        state.lastResolution = { type: 'stayInJail', spaceName: 'Jail' };
+        state.pendingBuyDecision = null;
+        machine.transition(action, {});
+        machine.transition(action, {});
+      }
+
+      return state;
+    }
+
+    case 'BuyProperty': {
+      machine.transition(action);
+      const space = getSpaceById(state, action.propertyId);
+      state = buyProperty(state, playerId, action.propertyId);
+      state.pendingBuyDecision = null;
+      state.lastResolution = null;
+      addEvent(ctx, state, GameEventType.PropertyPurchased, {
+        playerId,
+        propertyId: action.propertyId,
+        spaceName: space?.name ?? 'Unknown',
+        price: space?.cost ?? 0,
+      });
+      return playMrMonopoly(state, ctx, action);
+    }
+
+    case 'DeclineProperty': {
+      machine.transition(action, { auctionDisabled: !state.settings.auctionEnabled });
+      state.pendingBuyDecision = null;
+      if (state.settings.auctionEnabled) {
+        startAuction(state, action.propertyId, ctx.now);
+        addEvent(ctx, state, GameEventType.AuctionStarted, { propertyId: action.propertyId });
+      }
+      return state;
+    }
+
+    case 'AuctionBid': {
+      machine.transition(action);
+      const auction = getAuction(state);
+      if (!auction) throw new Error('No active auction');
+      placeBid(state, playerId, action.amount, ctx.now);
+      // Everyone learns that a sealed bid went in, but not how much it was
+      addEvent(
+        ctx,
+        state,
+        GameEventType.AuctionBid,
+        auction.sealed
+          ? { playerId, passed: false, sealed: true }
+          : { playerId, amount: action.amount, passed: false },
+      );
+      return settleAuctionIfComplete(state, action, ctx);
+    }
+
+    case 'AuctionPass': {
+      machine.transition(action);
+      passBid(state, playerId, ctx.now);
+      addEvent(ctx, state, GameEventType.AuctionBid, { playerId, passed: true });
+      return settleAuctionIfComplete(state, action, ctx);
+    }
+
+    case 'BuildHouse':
+    case 'BuildHotel': {
+      machine.transition(action);
+      const bSpace = getSpaceById(state, action.propertyId);
+      state = buildHouse(state, playerId, action.propertyId);
+      addEvent(ctx, state, GameEventType.HouseBuilt, {
+        playerId,
+        propertyId: action.propertyId,
+        spaceName: bSpace?.name ?? 'Unknown',
+        buildingType: action.type === 'BuildHotel' ? 'hotel' : 'house',
+      });
+      return state;
+    }
+
+    case 'SellBuilding': {
+      // A creditor raising money for inherited mortgages leaves the turn as it is
+      if (!state.pendingInheritance) machine.transition(action);
+      return sellBuilding(state, playerId, action.propertyId);
+    }
+
+    case 'MortgageProperty': {
+      if (!state.pendingInheritance) machine.transition(action);
+      state = mortgageProperty(state, playerId, action.propertyId);
+      addEvent(ctx, state, GameEventType.PropertyMortgaged, {
+        playerId,
+        propertyId: action.propertyId,
+      });
+      return state;
+    }
+
+    case 'UnmortgageProperty': {
+      machine.transition(action);
+      state = unmortgageProperty(state, playerId, action.propertyId);
+      addEvent(ctx, state, GameEventType.PropertyUnmortgaged, {
+        playerId,
+        propertyId: action.propertyId,
+      });
+      return state;
+    }
+
+    // Trade offers leave the turn where it is; the permission table decides when they're allowed
+    case 'ProposeTrade': {
+      const trade = createTradeOffer(state, playerId, action.recipientId, action.offer, ctx.now);
+      return trade.state;
+    }
+
+    case 'ProposeMultiTrade': {
+      return createMultiTradeOffer(state, playerId, action.transfers, ctx.now).state;
+    }
+
+    case 'AcceptTrade': {
+      state = acceptTrade(state, action.tradeId, ctx.now, playerId);
+      // A multi-party trade waits until every participant has accepted
+      const trade = getTrade(state, action.tradeId);
+      if (trade?.status === 'accepted') {
+        addEvent(ctx, state, GameEventType.TradeCompleted, {
+          tradeId: action.tradeId,
+          playerId,
+          ...getTradeContents(state, trade),
+        });
+      }
+      return state;
+    }
+
+    case 'RejectTrade': {
+      return rejectTrade(state, action.tradeId, ctx.now);
+    }
+
+    case 'CounterTrade': {
+      const trade = counterTrade(state, action.tradeId, action.offer, ctx.now);
+      return trade.state;
+    }
+
+    case 'PayJailFine': {
+      machine.transition(action);
+      state = payJailFine(state, playerId);
+      state.lastResolution = {
+        type: 'paidJailFine',
+        spaceName: 'Jail',
+        amount: getRule(state, 'jailFine'),
+      };
+      addEvent(ctx, state, GameEventType.PlayerFreed, { playerId });
+      return state;
+    }
+
+    case 'UseJailCard': {
+      machine.transition(action);
+      state = useJailCard(state, playerId);
+      state.lastResolution = { type: 'usedJailCard', spaceName: 'Jail' };
+      addEvent(ctx, state, GameEventType.PlayerFreed, { playerId });
+      return state;
+    }
+
+    case 'DeclareBankruptcy': {
+      // An outstanding debt decides who inherits the bankrupt player's assets. A
+      // creditor who can't pay for inherited mortgages hands everything to the bank.
+      const creditorId = state.pendingInheritance
+        ? 'bank'
+        : (state.pendingDebt?.creditorId ?? action.creditorId);
+      state = declareBankruptcy(state, playerId, creditorId);
+      state.pendingDebt = null;
+      state.pendingInheritance = null;
+      addEvent(ctx, state, GameEventType.PlayerBankrupt, { playerId, creditorId });
+
+      state.lastDiceResult = null;
+      state.lastCardDrawn = null;
+      state.lastResolution = null;
+      state.pendingBuyDecision = null;
+      state.pendingSpeedDie = null;
+
+      const activePlayer = state.players[state.currentPlayerIndex];
+      if (activePlayer && (activePlayer.isBankrupt || !activePlayer.isActive)) {
+        state = advanceToNextPlayer(state);
+        machine.currentState = TurnState.WaitingForRoll;
+      }
+
+      if (state.auctionQueue?.length) {
+        state = startQueuedAuction(state, ctx);
+      }
+
+      return state;
+    }
+
+    case 'UnmortgageInheritedProperty': {
+      state = resolveInheritedMortgage(state, playerId, action.propertyId, true);
+      addEvent(ctx, state, GameEventType.PropertyUnmortgaged, {
+        playerId,
+        propertyId: action.propertyId,
+      });
+      return state;
+    }
+
+    case 'KeepInheritedMortgage': {
+      const interest = inheritedMortgageInterest(state, action.propertyId);
+      state = resolveInheritedMortgage(state, playerId, action.propertyId, false);
+      addEvent(ctx, state, GameEventType.MortgageInterestPaid, {
+        playerId,
+        propertyId: action.propertyId,
+        amount: interest,
+      });
+      return state;
+    }
+
+    case 'EndTurn': {
+      machine.transition(action);
+
+      state.lastDiceResult = null;
+      state.lastCardDrawn = null;
+      state.lastResolution = null;
+      state.pendingBuyDecision = null;
+      state.pendingSpeedDie = null;
+      state.doublesCount = 0;
+      state.lastPassedGo = false;
+
+      if (machine.currentState === TurnState.EndTurn) {
+        state = advanceToNextPlayer(state);
+        machine.transition({ type: 'RollDice' } as GameAction, {});
+        machine.currentState = TurnState.WaitingForRoll;
+
+        const nextPlayer = getActivePlayer(state);
+        addEvent(ctx, state, GameEventType.TurnStarted, { playerId: nextPlayer.id });
+      }
+
+      return state;
+    }
+  }
+}
+
+export function advanceToNextPlayer(state: GameState): GameState {
+  const activePlayers = state.players.filter((p) => p.isActive && !p.isBankrupt);
+  if (activePlayers.length <= 1) return state;
+
+  let nextIndex = (state.currentPlayerIndex + 1) % state.players.length;
+  while (state.players[nextIndex].isBankrupt || !state.players[nextIndex].isActive) {
+    nextIndex = (nextIndex + 1) % state.players.length;
+  }
+
+  const next = { ...state, currentPlayerIndex: nextIndex };
+  if (state.rentAgreements?.length) next.rentAgreements = tickRentAgreements(state);
+  advanceRound(next, state.currentPlayerIndex, nextIndex);
+  return next;
+}
+
+// Who the turn timer acts for: a creditor settling inherited mortgages holds up
+// the game, otherwise it is the active player
+export function getTimeoutActor(state: GameState): string {
+  return state.pendingInheritance?.creditorId ?? getActivePlayer(state).id;
+}
+
+// The action the turn timer takes for the timeout actor once their time runs
+// out, or null while the turn waits on something else (an auction, or funds
+// being raised). Applied through applyGameAction like any other action.
+export function getTimeoutAction(state: GameState): GameAction | null {
+  if (state.pendingInheritance) return getInheritanceTimeoutAction(state);
+  switch (state.turnState) {
+    case TurnState.WaitingForRoll:
+      return { type: 'RollDice' };
+    case TurnState.ChoosingSpeedDieMove: {
+      const destination = state.pendingSpeedDie?.destinations?.[0];
+      return destination === undefined ? null : { type: 'ChooseSpeedDieMove', destination };
+    }
+    case TurnState.AwaitingBuyDecision:
+      return state.pendingBuyDecision
+        ? { type: 'DeclineProperty', propertyId: state.pendingBuyDecision.spaceId }
+        : null;
+    case TurnState.PlayerAction:
+      return { type: 'EndTurn' };
+    default:
+      return null;
+  }
+}
+
+// Keep the next inherited mortgage if the creditor can pay its interest,
+// otherwise raise the money a building or mortgage at a time, and go bankrupt
+// once nothing is left to sell
+function getInheritanceTimeoutAction(state: GameState): GameAction {
+  const { creditorId, propertyIds } = state.pendingInheritance!;
+  const creditor = getPlayerById(state, creditorId)!;
+  const propertyId = propertyIds[0];
+  if (creditor.cash >= inheritedMortgageInterest(state, propertyId)) {
+    return { type: 'KeepInheritedMortgage', propertyId };
+  }
+
+  const building = creditor.properties.find(
+    (id) => canSellBuilding(state, creditorId, id) === null,
+  );
+  if (building !== undefined) return { type: 'SellBuilding', propertyId: building, count: 1 };
+
+  const groupHasBuildings = (spaceId: number): boolean => {
+    const colorGroup = getSpaceById(state, spaceId)?.colorGroup;
+    return (
+      !!colorGroup &&
+      getColorGroupSpaces(state, colorGroup).some(
+        (s) => (getPropertyState(state, s.id)?.houses ?? 0) > 0,
+      )
+    );
+  };
+  const mortgageable = creditor.properties.find(
+    (id) => !getPropertyState(state, id)?.mortgaged && !groupHasBuildings(id),
+  );
+  if (mortgageable !== undefined) return { type: 'MortgageProperty', propertyId: mortgageable };
+
+  return { type: 'DeclareBankruptcy', creditorId: 'bank' };
+}
+
+// Roll or end the turn on behalf of the active player, kept so replays with
+// autoRoll and autoEndTurn steps rebuild as they were played. Live timeouts go
+// through getTimeoutAction instead.
+export function autoRollForPlayer(state: GameState): GameState {
+  const machine = createTurnMachine(state);
+  const player = getActivePlayer(state);
+
+  try {
+    machine.transition({ type: 'RollDice' });
+    const diceResult = rollDice(createStateRng(state));
+    machine.rolledDoubles = diceResult.isDoubles;
+
+    state.lastDiceResult = {
+      die1: diceResult.die1,
+      die2: diceResult.die2,
+      total: diceResult.total,
+      isDoubles: diceResult.isDoubles,
+    };
+
+    if (player.jailStatus.inJail) {
+      const jailResult = rollInJail(state, player.id, diceResult);
+      state = jailResult.state;
+      if (!jailResult.freedFromJail) {
+        machine.transition({ type: 'RollDice' }, {});
+        machine.transition({ type: 'RollDice' }, {});
+        syncTurnMachine(state, machine);
+        return state;
+      }
+    }
+
+    const moveResult = applyMovement(state, player.id, diceResult);
+    state = moveResult.state;
+
+    if (!moveResult.sentToJail) {
+      const currentPlayer = getActivePlayer(state);
+      const resolution = resolveSpace(state, currentPlayer.id, diceResult);
+      state = applySpaceResolution(state, currentPlayer.id, resolution);
+
+      machine.transition({ type: 'RollDice' }, {});
+      machine.transition(
+        { type: 'RollDice' },
+        { landedOnUnownedProperty: resolution.type === 'unownedProperty' },
+      );
+    } else {
+      machine.transition({ type: 'RollDice' }, {});
+      machine.transition({ type: 'RollDice' }, {});
+    }
+
+    syncTurnMachine(state, machine);
+    return state;
+  } catch {
+    return state;
+  }
+}
+
+export function autoEndTurnForPlayer(state: GameState): GameState {
+  const machine = createTurnMachine(state);
+
+  try {
+    machine.transition({ type: 'EndTurn' });
+
+    if (machine.currentState === TurnState.EndTurn) {
+      state = advanceToNextPlayer(state);
+      machine.currentState = TurnState.WaitingForRoll;
+    }
+
+    state.lastDiceResult = null;
+    state.lastCardDrawn = null;
+    state.lastResolution = null;
+    state.pendingBuyDecision = null;
+    state.pendingSpeedDie = null;
+    syncTurnMachine(state, machine);
+    if (isFinalRoundOver(state)) state.status = 'finished';
+    return state;
+  } catch {
+    state = advanceToNextPlayer(state);
+    machine.currentState = TurnState.WaitingForRoll;
+    state.lastDiceResult = null;
+    state.lastCardDrawn = null;
+    state.lastResolution = null;
+    state.pendingBuyDecision = null;
+    state.pendingSpeedDie = null;
+    state.turnState = TurnState.WaitingForRoll;
+    state.rolledDoubles = false;
+    if (isFinalRoundOver(state)) state.status = 'finished';
+    return state;
+  }
+}
+
+function deepClone<T>(obj: T): T {
+  return JSON.parse(JSON.stringify(obj));
+}
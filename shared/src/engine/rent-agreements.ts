@@ -0,0 +1,200 @@
+import type { GameState } from '../types/gameState';
+import type { RentAgreement, TradeClause, TradeOffer } from '../types/trade';
+import { SpaceType } from '../types/space';
+import { getPlayerById, getSpaceById } from './state';
+
+// Allowed range for each number a trade clause carries
+export const CLAUSE_LIMITS = {
+  landings: [1, 10],
+  percent: [1, 100],
+  turns: [1, 50],
+} as const;
+
+const RENTED_SPACE_TYPES = [SpaceType.Property, SpaceType.Railroad, SpaceType.Utility];
+
+// The trade fields that decide who ends up owning a clause's property
+type ClauseTrade = Pick<
+  TradeOffer,
+  'proposerId' | 'recipientId' | 'offeredProperties' | 'requestedProperties' | 'clauses'
+>;
+
+function ownerOf(state: GameState, propertyId: number): string | null {
+  return state.players.find((p) => p.properties.includes(propertyId))?.id ?? null;
+}
+
+function inRange(value: number, [min, max]: readonly [number, number]): boolean {
+  return Number.isInteger(value) && value >= min && value <= max;
+}
+
+// Who will own the clause's property once the trade goes through, or null
+// when it won't belong to either player
+export function clauseOwnerAfterTrade(
+  state: GameState,
+  trade: ClauseTrade,
+  clause: TradeClause,
+): string | null {
+  if (trade.offeredProperties.includes(clause.propertyId)) return trade.recipientId;
+  if (trade.requestedProperties.includes(clause.propertyId)) return trade.proposerId;
+  const owner = ownerOf(state, clause.propertyId);
+  return owner === trade.proposerId || owner === trade.recipientId ? owner : null;
+}
+
+// The first property whose rent shares would add up to more than all of its
+// rent once the trade's clauses join those already in force, or null.
+// Agreements on a property that changes hands lapse, so they don't count.
+export function findOversharedProperty(state: GameState, trade: ClauseTrade): number | null {
+  const percentByProperty = new Map<number, number>();
+  for (const clause of trade.clauses ?? []) {
+    if (clause.type !== 'rentShare') continue;
+    const { propertyId } = clause;
+    if (!percentByProperty.has(propertyId)) {
+      const changesHands =
+        trade.offeredProperties.includes(propertyId) ||
+        trade.requestedProperties.includes(propertyId);
+      const inForce = changesHands ? [] : getRentAgreements(state, propertyId);
+      percentByProperty.set(
+        propertyId,
+        inForce.reduce((sum, a) => sum + (a.type === 'rentShare' ? a.percent : 0), 0),
+      );
+    }
+    percentByProperty.set(propertyId, percentByProperty.get(propertyId)! + clause.percent);
+  }
+  for (const [propertyId, percent] of percentByProperty) {
+    if (percent > CLAUSE_LIMITS.percent[1]) return propertyId;
+  }
+  return null;
+}
+
+export function validateTradeClauses(state: GameState, trade: ClauseTrade): void {
+  for (const clause of trade.clauses ?? []) {
+    const space = getSpaceById(state, clause.propertyId);
+    if (!space || !RENTED_SPACE_TYPES.includes(space.type)) {
+      throw new Error(`Property ${clause.propertyId} not found`);
+    }
+    const ownerId = clauseOwnerAfterTrade(state, trade, clause);
+    if (!ownerId) throw new Error(`${space.name} does not belong to either player`);
+    if (
+      clause.beneficiaryId === ownerId ||
+      (clause.beneficiaryId !== trade.proposerId && clause.beneficiaryId !== trade.recipientId)
+    ) {
+      throw new Error(`A clause on ${space.name} must favor the player who won't own it`);
+    }
+
+    if (clause.type === 'rentImmunity' && !inRange(clause.landings, CLAUSE_LIMITS.landings)) {
+      const [min, max] = CLAUSE_LIMITS.landings;
+      throw new Error(`Rent immunity must cover ${min} to ${max} landings`);
+    }
+    if (clause.type === 'rentShare') {
+      if (!inRange(clause.percent, CLAUSE_LIMITS.percent)) {
+        const [min, max] = CLAUSE_LIMITS.percent;
+        throw new Error(`Rent share must be ${min}% to ${max}%`);
+      }
+      if (!inRange(clause.turns, CLAUSE_LIMITS.turns)) {
+        const [min, max] = CLAUSE_LIMITS.turns;
+        throw new Error(`Rent share must last ${min} to ${max} turns`);
+      }
+    }
+  }
+
+  const overshared = findOversharedProperty(state, trade);
+  if (overshared !== null) {
+    throw new Error(
+      `Rent shares on ${getSpaceById(state, overshared)!.name} would add up to more than 100%`,
+    );
+  }
+}
+
+// Puts an accepted trade's clauses into force, bound to whoever now owns each
+// property. Mutates the given state.
+export function startRentAgreements(state: GameState, trade: TradeOffer): void {
+  const agreements = state.rentAgreements ?? [];
+  (trade.clauses ?? []).forEach((clause, index) => {
+    const ownerId = ownerOf(state, clause.propertyId);
+    if (!ownerId) return;
+    const base = {
+      id: `${trade.id}-${index}`,
+      tradeId: trade.id,
+      propertyId: clause.propertyId,
+      ownerId,
+      beneficiaryId: clause.beneficiaryId,
+    };
+    agreements.push(
+      clause.type === 'rentImmunity'
+        ? { ...base, type: 'rentImmunity', landingsLeft: clause.landings }
+        : { ...base, type: 'rentShare', percent: clause.percent, turnsLeft: clause.turns },
+    );
+  });
+  state.rentAgreements = agreements;
+}
+
+// An agreement lapses once its owner has parted with the property or either
+// player has gone bankrupt
+function isInForce(state: GameState, agreement: RentAgreement): boolean {
+  const owner = getPlayerById(state, agreement.ownerId);
+  const beneficiary = getPlayerById(state, agreement.beneficiaryId);
+  return (
+    !!owner &&
+    !owner.isBankrupt &&
+    owner.properties.includes(agreement.propertyId) &&
+    !!beneficiary &&
+    !beneficiary.isBankrupt
+  );
+}
+
+export function getRentAgreements(state: GameState, propertyId?: number): RentAgreement[] {
+  return (state.rentAgreements ?? []).filter(
+    (a) => (propertyId === undefined || a.propertyId === propertyId) && isInForce(state, a),
+  );
+}
+
+export interface RentTerms {
+  // The immunity agreement that waives this rent, if any
+  waivedBy?: string;
+  // Cuts of the rent passed on to players holding a share
+  rentShares?: { playerId: string; amount: number }[];
+}
+
+// How the trade agreements on a property change the rent due on one landing:
+// an immunity the payer holds waives it, otherwise shares are split off.
+// Shares are held back when the payer can't cover the rent, so the whole debt
+// is owed to the owner alone.
+export function getRentTerms(
+  state: GameState,
+  payerId: string,
+  propertyId: number,
+  rentAmount: number,
+): RentTerms {
+  const agreements = getRentAgreements(state, propertyId);
+  const immunity = agreements.find(
+    (a) => a.type === 'rentImmunity' && a.beneficiaryId === payerId && a.landingsLeft > 0,
+  );
+  if (immunity) return { waivedBy: immunity.id };
+  if ((getPlayerById(state, payerId)?.cash ?? 0) < rentAmount) return {};
+
+  const rentShares = agreements.flatMap((a) =>
+    a.type === 'rentShare'
+      ? [{ playerId: a.beneficiaryId, amount: Math.floor((rentAmount * a.percent) / 100) }]
+      : [],
+  );
+  return rentShares.length > 0 ? { rentShares } : {};
+}
+
+// Spends one rent-free landing, ending the agreement once none are left.
+// Mutates the given state.
+export function spendRentImmunity(state: GameState, agreementId: string): void {
+  const agreement = state.rentAgreements?.find((a) => a.id === agreementId);
+  if (agreement?.type !== 'rentImmunity') return;
+  agreement.landingsLeft -= 1;
+  if (agreement.landingsLeft <= 0) {
+    state.rentAgreements = state.rentAgreements!.filter((a) => a.id !== agreementId);
+  }
+}
+
+// Counts down rent shares as a turn ends and drops agreements that have run
+// out or lapsed
+export function tickRentAgreements(state: GameState): RentAgreement[] {
+  return (state.rentAgreements ?? [])
+    .filter((a) => isInForce(state, a))
+    .map((a) => (a.type === 'rentShare' ? { ...a, turnsLeft: a.turnsLeft - 1 } : a))
+    .filter((a) => (a.type === 'rentShare' ? a.turnsLeft > 0 : a.landingsLeft > 0));
+}
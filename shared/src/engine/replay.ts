@@ -0,0 +1,89 @@
+import type { BoardDefinition } from '../types/board';
+import type { GameState } from '../types/gameState';
+import type { GameReplay, ReplayStep } from '../types/replay';
+import { createInitialGameState } from './state';
+import {
+  applyGameAction,
+  autoRollForPlayer,
+  autoEndTurnForPlayer,
+  expireGameClock,
+  expireAuction,
+  expireTrades,
+} from './reducer';
+
+// The board the game was created with is needed to deal its decks again
+export function createReplay(state: GameState, board?: BoardDefinition): GameReplay {
+  if (state.seed === undefined) {
+    throw new Error('Cannot record a replay for an unseeded game');
+  }
+  return {
+    gameId: state.gameId,
+    seed: state.seed,
+    players: state.players.map((p) => ({ id: p.id, name: p.name, token: p.token })),
+    settings: { ...state.settings },
+    ...(board ? { board } : {}),
+    steps: [],
+  };
+}
+
+export function appendReplayStep(replay: GameReplay, step: ReplayStep): GameReplay {
+  return { ...replay, steps: [...replay.steps, step] };
+}
+
+export function createReplayInitialState(replay: GameReplay): GameState {
+  const state = createInitialGameState(replay.players, {
+    gameId: replay.gameId,
+    settings: { ...replay.settings, seed: replay.seed },
+    board: replay.board,
+  });
+  // Games usually get a generated seed, which lives on state.seed rather than in settings
+  state.settings = { ...replay.settings };
+  return state;
+}
+
+export function applyReplayStep(state: GameState, step: ReplayStep): GameState {
+  switch (step.type) {
+    case 'action': {
+      const result = applyGameAction(state, step.playerId, step.action, { now: step.timestamp });
+      if (result.error) {
+        throw new Error(`Replay diverged: ${result.error.message}`);
+      }
+      return result.state;
+    }
+    case 'autoRoll':
+      return autoRollForPlayer(deepClone(state));
+    case 'autoEndTurn':
+      return autoEndTurnForPlayer(deepClone(state));
+    case 'clockExpired':
+      return expireGameClock(state, { now: step.timestamp }).state;
+    case 'auctionExpired':
+      return expireAuction(state, { now: step.timestamp }).state;
+    case 'tradesExpired':
+      return expireTrades(state, { now: step.timestamp }).state;
+  }
+}
+
+// Rebuilds the state after the first `step` entries of the action stream
+// (0 is the initial state). Steps past the end clamp to the final state.
+export function reconstructStateAt(replay: GameReplay, step: number): GameState {
+  const count = Math.max(0, Math.min(step, replay.steps.length));
+  let state = createReplayInitialState(replay);
+  for (let i = 0; i < count; i++) {
+    state = applyReplayStep(state, replay.steps[i]);
+  }
+  return state;
+}
+
+// Every intermediate state in order, for scrubbing back and forth without
+// replaying from the start each time. timeline[i] is the state after i steps.
+export function buildReplayTimeline(replay: GameReplay): GameState[] {
+  const timeline = [createReplayInitialState(replay)];
+  for (const step of replay.steps) {
+    timeline.push(applyReplayStep(timeline[timeline.length - 1], step));
+  }
+  return timeline;
+}
+
+function deepClone<T>(obj: T): T {
+  return JSON.parse(JSON.stringify(obj));
+}
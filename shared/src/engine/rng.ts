@@ -0,0 +1,63 @@
+import type { GameState } from '../types/gameState';
+import type { RngFunction } from './dice';
+
+// Mulberry32 — a tiny PRNG whose whole state is a single uint32, so it
+// serializes with the rest of GameState and a game can be replayed exactly
+// from its seed.
+
+function step(rngState: number): { value: number; next: number } {
+  const next = (rngState + 0x6d2b79f5) >>> 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return { value: ((t ^ (t >>> 14)) >>> 0) / 4294967296, next };
+}
+
+export function normalizeSeed(seed: number): number {
+  return Math.floor(seed) >>> 0;
+}
+
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+// Standalone RNG for callers that don't hold a GameState (e.g. tooling)
+export function createRng(seed: number): RngFunction {
+  let rngState = normalizeSeed(seed);
+  return () => {
+    const { value, next } = step(rngState);
+    rngState = next;
+    return value;
+  };
+}
+
+// Draws the next value from the game's RNG, advancing state.rngState in place
+export function nextRandom(state: GameState): number {
+  if (state.rngState === undefined) {
+    // States persisted before seeding existed fall back to a seed derived from the game ID
+    state.rngState = normalizeSeed(state.seed ?? hashString(state.gameId));
+  }
+  const { value, next } = step(state.rngState);
+  state.rngState = next;
+  return value;
+}
+
+export function createStateRng(state: GameState): RngFunction {
+  return () => nextRandom(state);
+}
+
+export function randomId(state: GameState, prefix: string): string {
+  const suffix = Math.floor(nextRandom(state) * 36 ** 9)
+    .toString(36)
+    .padStart(9, '0');
+  return `${prefix}-${suffix}`;
+}
+
+function hashString(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
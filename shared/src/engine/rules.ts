@@ -0,0 +1,77 @@
+import type { GameState } from '../types/gameState';
+import type { GameSettings, HouseRules } from '../types/gameSettings';
+import { DEFAULT_GAME_SETTINGS } from '../types/gameSettings';
+import type { Player } from '../types/player';
+
+// Largest deal that still fits six players on the 28 purchasable spaces
+export const MAX_STARTING_PROPERTIES = 4;
+
+// Allowed range for each numeric house rule
+export const HOUSE_RULE_LIMITS: Partial<Record<keyof HouseRules, [number, number]>> = {
+  turnTimeLimit: [10, 600],
+  auctionTimeLimit: [0, 120],
+  minBidIncrement: [1, 500],
+  tradeTimeLimit: [0, 600],
+  goSalary: [0, 2000],
+  maxHouses: [0, 88],
+  maxHotels: [0, 22],
+  mortgageInterestRate: [0, 1],
+  jailFine: [0, 1000],
+  startingProperties: [0, MAX_STARTING_PROPERTIES],
+  gameTimeLimit: [0, 240],
+  roundLimit: [0, 500],
+};
+
+// Rules missing from states saved before they existed fall back to the standard game
+export function getRule<K extends keyof GameSettings>(state: GameState, rule: K): GameSettings[K] {
+  return state.settings[rule] ?? DEFAULT_GAME_SETTINGS[rule];
+}
+
+// Salary for passing Go and stopping at the given position; landing exactly on Go
+// pays double under the house rule
+export function goSalaryAt(state: GameState, position: number): number {
+  const salary = getRule(state, 'goSalary');
+  return position === 0 && getRule(state, 'doubleGoSalary') ? salary * 2 : salary;
+}
+
+// Pays the Go salary and records that the player has been around the board.
+// Mutates the given player.
+export function collectGoSalary(state: GameState, player: Player): number {
+  const amount = goSalaryAt(state, player.position);
+  player.cash += amount;
+  player.hasPassedGo = true;
+  return amount;
+}
+
+export function mortgageInterest(state: GameState, mortgageValue: number): number {
+  return Math.ceil(mortgageValue * getRule(state, 'mortgageInterestRate'));
+}
+
+export function canBuyProperties(state: GameState, player: Player): boolean {
+  return !getRule(state, 'mustCircuitBeforeBuying') || player.hasPassedGo === true;
+}
+
+// Checks host-supplied rules before they are stored on a room
+export function validateHouseRules(rules: Partial<HouseRules>): string | null {
+  for (const [key, value] of Object.entries(rules)) {
+    if (!(key in DEFAULT_GAME_SETTINGS) || key === 'maxPlayers' || key === 'startingCash') {
+      return `Unknown rule '${key}'`;
+    }
+    const expected = DEFAULT_GAME_SETTINGS[key as keyof HouseRules];
+
+    if (key === 'freeParking') {
+      if (value !== 'classic' && value !== 'houserule') return `Invalid value for '${key}'`;
+    } else if (typeof expected === 'boolean') {
+      if (typeof value !== 'boolean') return `'${key}' must be true or false`;
+    } else {
+      const [min, max] = HOUSE_RULE_LIMITS[key as keyof HouseRules] ?? [0, Infinity];
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+        return `'${key}' must be between ${min} and ${max}`;
+      }
+      if (key !== 'mortgageInterestRate' && !Number.isInteger(value)) {
+        return `'${key}' must be a whole number`;
+      }
+    }
+  }
+  return null;
+}
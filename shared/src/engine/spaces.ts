@@ -2,7 +2,21 @@ import type { GameState } from '../types/gameState';
 import type { Space, ColorGroup } from '../types/space';
 import { SpaceType } from '../types/space';
 import type { DiceResult } from './dice';
-import { getPlayerById, getSpaceByPosition } from './state';
+import {
+  getFreeParkingPosition,
+  getGoToJailPosition,
+  getJailPosition,
+  getPlayerById,
+  getSpaceByPosition,
+} from './state';
+import {
+  collectForFreeParking,
+  getFreeParkingPot,
+  isFreeParkingJackpotEnabled,
+  payOutFreeParking,
+} from './free-parking';
+import { canBuyProperties, getRule } from './rules';
+import { getRentTerms, spendRentImmunity, type RentTerms } from './rent-agreements';
 
 export type SpaceResolutionType =
   | 'unownedProperty'
@@ -11,13 +25,15 @@ export type SpaceResolutionType =
   | 'goToJail'
   | 'drawCard'
   | 'noAction'
-  | 'ownProperty';
+  | 'ownProperty'
+  | 'freeParking';
 
-export interface SpaceResolution {
+export interface SpaceResolution extends RentTerms {
   type: SpaceResolutionType;
   space: Space;
   rentAmount?: number;
   taxAmount?: number;
+  jackpotAmount?: number;
   deckName?: 'chance' | 'communityChest';
   ownerId?: string;
   propertyDetails?: {
@@ -56,40 +72,17 @@ export interface PropertyStateEntry {
   mortgaged: boolean;
 }
 
-// We store property states in a global map keyed by gameId
-const _propertyStates = new Map<string, Map<number, PropertyStateEntry>>();
-
 export function getPropertyState(state: GameState, spaceId: number): PropertyStateEntry | null {
-  let gameMap = _propertyStates.get(state.gameId);
-  // Rehydrate in-memory map from state (e.g. after Redis deserialization)
-  if (!gameMap && state.propertyStates) {
-    gameMap = new Map();
-    for (const [key, val] of Object.entries(state.propertyStates)) {
-      const id = Number(key);
-      gameMap.set(id, { spaceId: id, houses: val.houses, mortgaged: val.mortgaged });
-    }
-    _propertyStates.set(state.gameId, gameMap);
-  }
-  if (!gameMap) return null;
-  return gameMap.get(spaceId) ?? null;
+  const entry = state.propertyStates?.[spaceId];
+  if (!entry) return null;
+  return { spaceId, houses: entry.houses, mortgaged: entry.mortgaged };
 }
 
 export function setPropertyState(state: GameState, entry: PropertyStateEntry): void {
-  let gameMap = _propertyStates.get(state.gameId);
-  if (!gameMap) {
-    gameMap = new Map();
-    _propertyStates.set(state.gameId, gameMap);
-  }
-  gameMap.set(entry.spaceId, entry);
-  // Keep state.propertyStates in sync so it serializes over the socket / Redis
   if (!state.propertyStates) state.propertyStates = {};
   state.propertyStates[entry.spaceId] = { houses: entry.houses, mortgaged: entry.mortgaged };
 }
 
-export function resetPropertyStates(gameId: string): void {
-  _propertyStates.delete(gameId);
-}
-
 export function getColorGroupSpaces(state: GameState, colorGroup: ColorGroup): Space[] {
   return state.board.filter((s) => s.colorGroup === colorGroup);
 }
@@ -128,13 +121,25 @@ export function calculateStreetRent(space: Space, houses: number, hasMonopoly: b
   return hasMonopoly ? baseRent * 2 : baseRent;
 }
 
-export function calculateRailroadRent(railroadsOwned: number): number {
+// rentTiers: rent by number of railroads owned; the classic rent doubles with each
+export function calculateRailroadRent(railroadsOwned: number, rentTiers?: number[]): number {
   if (railroadsOwned <= 0) return 0;
+  if (rentTiers && rentTiers.length > 0) {
+    return rentTiers[Math.min(railroadsOwned, rentTiers.length) - 1];
+  }
   return 25 * Math.pow(2, railroadsOwned - 1);
 }
 
-export function calculateUtilityRent(diceTotal: number, utilitiesOwned: number): number {
+// rentTiers: dice multiplier by number of utilities owned
+export function calculateUtilityRent(
+  diceTotal: number,
+  utilitiesOwned: number,
+  rentTiers?: number[],
+): number {
   if (utilitiesOwned <= 0) return 0;
+  if (rentTiers && rentTiers.length > 0) {
+    return diceTotal * rentTiers[Math.min(utilitiesOwned, rentTiers.length) - 1];
+  }
   const multiplier = utilitiesOwned >= 2 ? 10 : 4;
   return diceTotal * multiplier;
 }
@@ -181,8 +186,11 @@ function resolvePropertySpace(
 ): SpaceResolution {
   const ownership = getPropertyOwnership(state, space.id);
 
-  // Unowned
+  // Unowned — nothing happens until the player may buy
   if (!ownership) {
+    if (!canBuyProperties(state, getPlayerById(state, playerId)!)) {
+      return { type: 'noAction', space };
+    }
     return {
       type: 'unownedProperty',
       space,
@@ -204,6 +212,14 @@ function resolvePropertySpace(
     return { type: 'noAction', space, ownerId: ownership.ownerId };
   }
 
+  // Owner in jail — no rent under the house rule
+  if (
+    getRule(state, 'noRentInJail') &&
+    getPlayerById(state, ownership.ownerId)?.jailStatus.inJail
+  ) {
+    return { type: 'noAction', space, ownerId: ownership.ownerId };
+  }
+
   // Calculate rent based on property type
   let rentAmount = 0;
 
@@ -214,20 +230,48 @@ function resolvePropertySpace(
     rentAmount = calculateStreetRent(space, ownership.houses, hasMonopoly);
   } else if (space.type === SpaceType.Railroad) {
     const railroadsOwned = countOwnedOfType(state, ownership.ownerId, SpaceType.Railroad);
-    rentAmount = calculateRailroadRent(railroadsOwned);
+    rentAmount = calculateRailroadRent(railroadsOwned, space.rentTiers);
   } else if (space.type === SpaceType.Utility) {
     const utilitiesOwned = countOwnedOfType(state, ownership.ownerId, SpaceType.Utility);
-    rentAmount = calculateUtilityRent(diceResult.total, utilitiesOwned);
+    rentAmount = calculateUtilityRent(diceResult.total, utilitiesOwned, space.rentTiers);
   }
 
+  // Trade agreements can waive the rent or split it with other players
+  const terms = getRentTerms(state, playerId, space.id, rentAmount);
   return {
     type: 'rentPayment',
     space,
-    rentAmount,
+    rentAmount: terms.waivedBy ? 0 : rentAmount,
     ownerId: ownership.ownerId,
+    ...terms,
   };
 }
 
+// What the owner keeps of a rent payment once agreed shares are passed on
+export function rentKeptByOwner(resolution: SpaceResolution): number {
+  const shared = (resolution.rentShares ?? []).reduce((sum, s) => sum + s.amount, 0);
+  return (resolution.rentAmount ?? 0) - shared;
+}
+
+// Moves a rent payment from the payer to the owner and anyone holding a share,
+// or spends the immunity that waived it. Mutates the given state.
+export function payRent(state: GameState, payerId: string, resolution: SpaceResolution): void {
+  if (resolution.waivedBy) {
+    spendRentImmunity(state, resolution.waivedBy);
+    return;
+  }
+  const payer = getPlayerById(state, payerId);
+  if (!payer) throw new Error(`Player ${payerId} not found`);
+  payer.cash -= resolution.rentAmount ?? 0;
+
+  const owner = resolution.ownerId ? getPlayerById(state, resolution.ownerId) : undefined;
+  if (owner) owner.cash += rentKeptByOwner(resolution);
+  for (const share of resolution.rentShares ?? []) {
+    const holder = getPlayerById(state, share.playerId);
+    if (holder) holder.cash += share.amount;
+  }
+}
+
 function resolveTax(state: GameState, playerId: string, space: Space): SpaceResolution {
   const player = getPlayerById(state, playerId);
   if (!player) throw new Error(`Player ${playerId} not found`);
@@ -237,14 +281,19 @@ function resolveTax(state: GameState, playerId: string, space: Space): SpaceReso
 }
 
 function resolveCorner(state: GameState, playerId: string, space: Space): SpaceResolution {
-  // Go To Jail (position 30)
-  if (space.position === 30) {
+  // Go To Jail (three quarters of the way round)
+  if (space.position === getGoToJailPosition(state)) {
     return { type: 'goToJail', space };
   }
 
-  // Go (position 0) — landing on Go awards $200 (already handled by movement, but resolve as noAction)
-  // Free Parking (position 20) — no-op
-  // Just Visiting (position 10) — no-op
+  // Free Parking (half way round) — pays out the jackpot under the house rule
+  if (space.position === getFreeParkingPosition(state) && isFreeParkingJackpotEnabled(state)) {
+    return { type: 'freeParking', space, jackpotAmount: getFreeParkingPot(state) };
+  }
+
+  // Go (position 0) — the salary is already handled by movement, so resolve as noAction
+  // Free Parking — no-op in the classic rules
+  // Just Visiting — no-op
   return { type: 'noAction', space };
 }
 
@@ -261,21 +310,19 @@ export function applySpaceResolution(
     case 'tax': {
       const amount = resolution.taxAmount ?? 0;
       player.cash -= amount;
+      collectForFreeParking(newState, amount);
+      break;
+    }
+    case 'freeParking': {
+      payOutFreeParking(newState, playerId);
       break;
     }
     case 'rentPayment': {
-      const amount = resolution.rentAmount ?? 0;
-      player.cash -= amount;
-      if (resolution.ownerId) {
-        const owner = getPlayerById(newState, resolution.ownerId);
-        if (owner) {
-          owner.cash += amount;
-        }
-      }
+      payRent(newState, playerId, resolution);
       break;
     }
     case 'goToJail': {
-      player.position = 10;
+      player.position = getJailPosition(newState);
       player.jailStatus = { inJail: true, turnsInJail: 0 };
       break;
     }
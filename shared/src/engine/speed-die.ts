@@ -0,0 +1,72 @@
+import type { GameState } from '../types/gameState';
+import type { Player } from '../types/player';
+import { SpaceType, type Space } from '../types/space';
+import type { DiceResult } from './dice';
+import { didPassGo } from './dice';
+import { collectGoSalary, getRule } from './rules';
+import { getPlayerById, getSpaceByPosition } from './state';
+import { getPropertyOwnership } from './spaces';
+
+const PURCHASABLE = [SpaceType.Property, SpaceType.Railroad, SpaceType.Utility];
+
+// The Speed Die joins the roll once a player has been around the board, and
+// never while they are rolling to get out of jail
+export function usesSpeedDie(state: GameState, player: Player): boolean {
+  return getRule(state, 'speedDie') && player.hasPassedGo === true && !player.jailStatus.inJail;
+}
+
+// A bus or triples roll lets the player choose where to move
+export function needsSpeedDieChoice(diceResult: DiceResult): boolean {
+  return diceResult.isTriples === true || diceResult.speedDie === 'bus';
+}
+
+// Triples go anywhere on the board; the bus moves either white die or their sum
+export function speedDieDestinations(
+  state: GameState,
+  position: number,
+  diceResult: DiceResult,
+): number[] {
+  const size = state.board.length;
+  if (diceResult.isTriples) return state.board.map((s) => s.position);
+  if (diceResult.speedDie !== 'bus') return [];
+
+  const steps = [diceResult.die1, diceResult.die2, diceResult.die1 + diceResult.die2];
+  return [...new Set(steps.map((n) => (position + n) % size))];
+}
+
+// Mr. Monopoly sends the player ahead to the next unowned property, or once
+// everything is owned, to the next property they would pay rent on
+export function findMrMonopolyDestination(state: GameState, playerId: string): number | null {
+  const player = getPlayerById(state, playerId);
+  if (!player) throw new Error(`Player ${playerId} not found`);
+
+  const size = state.board.length;
+  const ahead: Space[] = [];
+  for (let i = 1; i < size; i++) {
+    const space = getSpaceByPosition(state, (player.position + i) % size);
+    if (space && PURCHASABLE.includes(space.type)) ahead.push(space);
+  }
+
+  const unowned = ahead.find((space) => !getPropertyOwnership(state, space.id));
+  if (unowned) return unowned.position;
+
+  const rented = ahead.find((space) => {
+    const ownership = getPropertyOwnership(state, space.id);
+    if (!ownership || ownership.ownerId === playerId || ownership.mortgaged) return false;
+    const ownerJailed = getPlayerById(state, ownership.ownerId)?.jailStatus.inJail;
+    return !(getRule(state, 'noRentInJail') && ownerJailed);
+  });
+  return rented?.position ?? null;
+}
+
+// Moves the player forward to a chosen space, paying Go salary on the way past.
+// Mutates the given state and returns whether Go was passed.
+export function moveForwardTo(state: GameState, playerId: string, destination: number): boolean {
+  const player = getPlayerById(state, playerId);
+  if (!player) throw new Error(`Player ${playerId} not found`);
+
+  const passedGo = didPassGo(player.position, destination);
+  player.position = destination;
+  if (passedGo) collectGoSalary(state, player);
+  return passedGo;
+}
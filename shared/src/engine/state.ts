@@ -3,14 +3,16 @@ import type { GameSettings } from '../types/gameSettings';
 import { DEFAULT_GAME_SETTINGS } from '../types/gameSettings';
 import type { Player, JailStatus } from '../types/player';
 import type { Space } from '../types/space';
+import { SpaceType } from '../types/space';
 import type { Property } from '../types/property';
-import type { Card } from '../types/card';
 import { TurnState } from '../types/turn';
 import { STARTING_CASH } from '../types/money';
 import { TokenType } from '../types/token';
-import boardData from '../data/board.json';
-import chanceCards from '../data/chance-cards.json';
-import communityChestCards from '../data/community-chest-cards.json';
+import type { BoardDefinition } from '../types/board';
+import { CLASSIC_BOARD, getBoardEdition, getCornerPositions } from './boards';
+import { createDeck } from './cards';
+import { initBuildingSupply } from './properties';
+import { createStateRng, generateSeed, normalizeSeed, randomId } from './rng';
 
 const TOKENS = Object.values(TokenType);
 
@@ -23,6 +25,8 @@ export interface PlayerSetup {
 export interface InitialGameStateOptions {
   gameId?: string;
   settings?: Partial<GameSettings>;
+  // Defaults to the classic board
+  board?: BoardDefinition;
 }
 
 export function createInitialGameState(
@@ -49,25 +53,85 @@ export function createInitialGameState(
     getOutOfJailFreeCards: 0,
   }));
 
-  const board: Space[] = boardData as Space[];
-  const decks: DeckState = {
-    chance: [...(chanceCards as Card[])],
-    communityChest: [...(communityChestCards as Card[])],
-  };
+  const edition = options.board ?? CLASSIC_BOARD;
+  const board: Space[] = edition.spaces;
+  const decks: DeckState = { chance: [], communityChest: [] };
+  const seed = normalizeSeed(settings.seed ?? generateSeed());
 
-  return {
-    gameId: options.gameId ?? generateGameId(),
+  const state: GameState = {
+    gameId: options.gameId ?? '',
     status: 'playing' as GameStatus,
     players: gamePlayers,
     currentPlayerIndex: 0,
     board,
+    edition: getBoardEdition(edition),
     decks,
     turnState: TurnState.WaitingForRoll,
     settings,
     events: [],
+    seed,
+    rngState: seed,
     pendingTrades: [],
+    tradeHistory: [],
     propertyStates: {},
+    auction: null,
+    round: 1,
+    consecutiveDoubles: {},
+    rolledDoubles: false,
   };
+
+  // Every random draw goes through the state's RNG so the game is reproducible from its seed
+  const rng = createStateRng(state);
+  if (!options.gameId) state.gameId = randomId(state, 'game');
+  decks.chance = createDeck(edition.decks.chance, rng);
+  decks.communityChest = createDeck(edition.decks.communityChest, rng);
+  initBuildingSupply(state);
+  dealStartingProperties(state, rng);
+
+  return state;
+}
+
+// Deals the house-rule starting properties round-robin from a shuffled board
+function dealStartingProperties(state: GameState, rng: () => number): void {
+  const perPlayer = state.settings.startingProperties;
+  if (perPlayer <= 0) return;
+
+  const spaceIds = state.board
+    .filter(
+      (s) =>
+        s.type === SpaceType.Property ||
+        s.type === SpaceType.Railroad ||
+        s.type === SpaceType.Utility,
+    )
+    .map((s) => s.id);
+  if (perPlayer * state.players.length > spaceIds.length) {
+    throw new Error(`Not enough properties to deal ${perPlayer} to each player`);
+  }
+
+  for (let i = spaceIds.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [spaceIds[i], spaceIds[j]] = [spaceIds[j], spaceIds[i]];
+  }
+
+  for (let round = 0; round < perPlayer; round++) {
+    for (const player of state.players) {
+      const spaceId = spaceIds.pop()!;
+      player.properties.push(spaceId);
+      state.propertyStates![spaceId] = { houses: 0, mortgaged: false };
+    }
+  }
+}
+
+export function getJailPosition(state: GameState): number {
+  return getCornerPositions(state.board.length)[1];
+}
+
+export function getFreeParkingPosition(state: GameState): number {
+  return getCornerPositions(state.board.length)[2];
+}
+
+export function getGoToJailPosition(state: GameState): number {
+  return getCornerPositions(state.board.length)[3];
 }
 
 export function getActivePlayer(state: GameState): Player {
@@ -130,7 +194,3 @@ export function serializeGameState(state: GameState): string {
 export function deserializeGameState(json: string): GameState {
   return JSON.parse(json) as GameState;
 }
-
-function generateGameId(): string {
-  return 'game-' + Math.random().toString(36).substring(2, 11);
-}
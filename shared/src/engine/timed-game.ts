@@ -0,0 +1,47 @@
+import type { GameState } from '../types/gameState';
+import { getRule } from './rules';
+
+export function isTimedGame(state: GameState): boolean {
+  return getRule(state, 'gameTimeLimit') > 0 || getRule(state, 'roundLimit') > 0;
+}
+
+export function getRound(state: GameState): number {
+  return state.round ?? 1;
+}
+
+// Starts the wall clock of a game with a time limit. Mutates the given state.
+export function startGameClock(state: GameState, now: number): void {
+  const minutes = getRule(state, 'gameTimeLimit');
+  if (minutes <= 0) return;
+  state.gameClock = { startedAt: now, endsAt: now + minutes * 60_000 };
+}
+
+// The round that ends the game, whichever of the clock or the round limit came first
+export function getFinalRound(state: GameState): number | null {
+  const limit = getRule(state, 'roundLimit');
+  const rounds = [state.finalRound ?? 0, limit].filter((r) => r > 0);
+  return rounds.length > 0 ? Math.min(...rounds) : null;
+}
+
+export function isFinalRound(state: GameState): boolean {
+  return getFinalRound(state) === getRound(state);
+}
+
+// True once every player has taken their turn in the final round
+export function isFinalRoundOver(state: GameState): boolean {
+  const finalRound = getFinalRound(state);
+  return finalRound !== null && getRound(state) > finalRound;
+}
+
+// Fixes the current round as the last one. Returns false when a final round
+// was already announced. Mutates the given state.
+export function beginFinalRound(state: GameState): boolean {
+  if (state.finalRound != null) return false;
+  state.finalRound = getRound(state);
+  return true;
+}
+
+// Counts a new round when the turn passes back around the table. Mutates the given state.
+export function advanceRound(state: GameState, fromIndex: number, toIndex: number): void {
+  if (toIndex <= fromIndex) state.round = getRound(state) + 1;
+}
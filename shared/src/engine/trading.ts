@@ -1,16 +1,25 @@
 import type { GameState } from '../types/gameState';
-import type { TradeOffer } from '../types/trade';
+import type { Player } from '../types/player';
+import type { TradeOffer, TradeThread, TradeTransfer } from '../types/trade';
 import type { TradeOfferPayload } from '../types/gameAction';
-import { getPlayerById } from './state';
+import { getPlayerById, getSpaceById } from './state';
 import { getPropertyState, getColorGroupSpaces } from './spaces';
-
-let _tradeCounter = 0;
+import { randomId } from './rng';
+import { getRule } from './rules';
+import { getCommittedBid } from './properties';
+import {
+  clauseOwnerAfterTrade,
+  findOversharedProperty,
+  startRentAgreements,
+  validateTradeClauses,
+} from './rent-agreements';
 
 export function createTradeOffer(
   state: GameState,
   proposerId: string,
   recipientId: string,
   offer: TradeOfferPayload,
+  now = Date.now(),
 ): { state: GameState; trade: TradeOffer } {
   const newState = deepClone(state);
 
@@ -18,8 +27,9 @@ export function createTradeOffer(
   const proposer = getPlayerById(newState, proposerId);
   if (!proposer) throw new Error('Proposer not found');
 
+  if (recipientId === proposerId) throw new Error('Players cannot trade with themselves');
   const recipient = getPlayerById(newState, recipientId);
-  if (!recipient) throw new Error('Recipient not found');
+  if (!recipient || recipient.isBankrupt) throw new Error('Recipient not found');
 
   // Validate proposer owns all offered properties
   for (const propId of offer.offeredProperties) {
@@ -37,6 +47,13 @@ export function createTradeOffer(
     validateNoBuildings(newState, propId);
   }
 
+  validateTradeAmounts(
+    offer.offeredCash,
+    offer.requestedCash,
+    offer.offeredCards,
+    offer.requestedCards,
+  );
+
   // Validate cash
   if (offer.offeredCash > proposer.cash) {
     throw new Error('Proposer cannot afford offered cash');
@@ -50,8 +67,9 @@ export function createTradeOffer(
     throw new Error('Recipient does not have enough GOOJF cards');
   }
 
+  const id = generateTradeId(newState);
   const trade: TradeOffer = {
-    id: `trade-${++_tradeCounter}`,
+    id,
     proposerId,
     recipientId,
     offeredProperties: [...offer.offeredProperties],
@@ -60,96 +78,355 @@ export function createTradeOffer(
     requestedProperties: [...offer.requestedProperties],
     requestedCash: offer.requestedCash,
     requestedCards: offer.requestedCards,
+    ...(offer.clauses?.length && { clauses: offer.clauses.map((c) => ({ ...c })) }),
     status: 'pending',
+    expiresAt: tradeDeadline(newState, now),
+    threadId: id,
+    createdAt: now,
   };
+  validateTradeClauses(newState, trade);
 
-  // Store in map for accept/reject lookups and in state for socket delivery
-  storeTrade(trade);
-  if (!newState.pendingTrades) newState.pendingTrades = [];
-  newState.pendingTrades.push(trade);
+  storeTrade(newState, trade);
 
   return { state: newState, trade };
 }
 
+// A deal between three or more players. The proposer agrees by proposing; it
+// goes through once every other participant has accepted.
+export function createMultiTradeOffer(
+  state: GameState,
+  proposerId: string,
+  transfers: TradeTransfer[],
+  now = Date.now(),
+): { state: GameState; trade: TradeOffer } {
+  const newState = deepClone(state);
+
+  const participantIds = [proposerId];
+  for (const transfer of transfers) {
+    for (const id of [transfer.fromId, transfer.toId]) {
+      if (!participantIds.includes(id)) participantIds.push(id);
+    }
+  }
+  if (participantIds.length < 3) {
+    throw new Error('A multi-party trade needs at least three players');
+  }
+  if (!transfers.some((t) => t.fromId === proposerId || t.toId === proposerId)) {
+    throw new Error('Proposer must take part in the trade');
+  }
+
+  for (const id of participantIds) {
+    // Trades are between players only; the bank buys and sells through auctions
+    // and mortgages instead
+    if (id === 'bank') throw new Error('The bank does not take part in trades');
+    const player = getPlayerById(newState, id);
+    if (!player || player.isBankrupt) throw new Error(`Player ${id} not found`);
+  }
+
+  const traded = new Set<number>();
+  for (const transfer of transfers) {
+    if (transfer.fromId === transfer.toId) throw new Error('Players cannot trade with themselves');
+    validateTradeAmounts(transfer.cash, transfer.cards);
+    if (transfer.properties.length === 0 && transfer.cash <= 0 && transfer.cards <= 0) {
+      throw new Error('Each transfer must hand something over');
+    }
+    const giver = getPlayerById(newState, transfer.fromId)!;
+    for (const propId of transfer.properties) {
+      if (!giver.properties.includes(propId)) {
+        throw new Error(`Player ${giver.id} does not own property ${propId}`);
+      }
+      if (traded.has(propId)) throw new Error(`Property ${propId} is traded more than once`);
+      traded.add(propId);
+      validateNoBuildings(newState, propId);
+    }
+  }
+
+  for (const id of participantIds) {
+    const player = getPlayerById(newState, id)!;
+    const { cash, cards } = totalGivenBy(transfers, id);
+    // Like a two-player offer, the others only need the cash once they accept
+    if (id === proposerId && cash > player.cash) {
+      throw new Error('Proposer cannot afford offered cash');
+    }
+    if (cards > player.getOutOfJailFreeCards) {
+      throw new Error(`Player ${id} does not have enough GOOJF cards`);
+    }
+  }
+
+  const id = generateTradeId(newState);
+  const trade: TradeOffer = {
+    id,
+    proposerId,
+    recipientId: '',
+    offeredProperties: [],
+    offeredCash: 0,
+    offeredCards: 0,
+    requestedProperties: [],
+    requestedCash: 0,
+    requestedCards: 0,
+    status: 'pending',
+    expiresAt: tradeDeadline(newState, now),
+    participantIds,
+    transfers: transfers.map((t) => ({ ...t, properties: [...t.properties] })),
+    acceptedBy: [proposerId],
+    threadId: id,
+    createdAt: now,
+  };
+
+  storeTrade(newState, trade);
+
+  return { state: newState, trade };
+}
+
+export function isMultiPartyTrade(trade: TradeOffer): boolean {
+  return trade.transfers !== undefined;
+}
+
+export function getTradeParticipants(trade: TradeOffer): string[] {
+  return trade.participantIds ?? [trade.proposerId, trade.recipientId];
+}
+
+// Every hand-over in the trade; a two-player offer is one each way
+export function getTradeTransfers(trade: TradeOffer): TradeTransfer[] {
+  if (trade.transfers) return trade.transfers;
+  return [
+    {
+      fromId: trade.proposerId,
+      toId: trade.recipientId,
+      properties: trade.offeredProperties,
+      cash: trade.offeredCash,
+      cards: trade.offeredCards,
+    },
+    {
+      fromId: trade.recipientId,
+      toId: trade.proposerId,
+      properties: trade.requestedProperties,
+      cash: trade.requestedCash,
+      cards: trade.requestedCards,
+    },
+  ];
+}
+
+// Participants who still have to accept before the trade goes through
+export function getTradeHoldouts(trade: TradeOffer): string[] {
+  const accepted = trade.acceptedBy ?? [trade.proposerId];
+  return getTradeParticipants(trade).filter((id) => !accepted.includes(id));
+}
+
+function totalGivenBy(
+  transfers: TradeTransfer[],
+  playerId: string,
+): { cash: number; cards: number } {
+  const given = transfers.filter((t) => t.fromId === playerId);
+  return {
+    cash: given.reduce((sum, t) => sum + t.cash, 0),
+    cards: given.reduce((sum, t) => sum + t.cards, 0),
+  };
+}
+
+function generateTradeId(state: GameState): string {
+  // Redraw on collision — states branched from the same snapshot share an RNG position
+  let id = randomId(state, 'trade');
+  while (getTrade(state, id)) id = randomId(state, 'trade');
+  return id;
+}
+
+function tradeDeadline(state: GameState, now: number): number | null {
+  const timeLimit = getRule(state, 'tradeTimeLimit');
+  return timeLimit > 0 ? now + timeLimit * 1000 : null;
+}
+
+function validateTradeAmounts(...amounts: number[]): void {
+  if (!amounts.every((amount) => Number.isInteger(amount) && amount >= 0)) {
+    throw new Error('Cash and cards in a trade must be whole numbers, zero or more');
+  }
+}
+
 function validateNoBuildings(state: GameState, spaceId: number): void {
+  if (hasBuildingsInGroup(state, spaceId)) {
+    const space = state.board.find((s) => s.id === spaceId);
+    throw new Error(`Cannot trade — buildings exist in ${space?.colorGroup} color group`);
+  }
+}
+
+function hasBuildingsInGroup(state: GameState, spaceId: number): boolean {
   const space = state.board.find((s) => s.id === spaceId);
-  if (!space) return;
-
-  if (space.colorGroup) {
-    const groupSpaces = getColorGroupSpaces(state, space.colorGroup);
-    for (const gs of groupSpaces) {
-      const propState = getPropertyState(state, gs.id);
-      if (propState && propState.houses > 0) {
-        throw new Error(`Cannot trade — buildings exist in ${space.colorGroup} color group`);
+  if (!space?.colorGroup) return false;
+  return getColorGroupSpaces(state, space.colorGroup).some(
+    (gs) => (getPropertyState(state, gs.id)?.houses ?? 0) > 0,
+  );
+}
+
+export function isTradeExpired(trade: TradeOffer, now: number): boolean {
+  return trade.expiresAt != null && now >= trade.expiresAt;
+}
+
+// Why a pending trade can no longer go through as offered, worded for the
+// players, or null while it still can. Cash is only checked for players who
+// have agreed, counting the one now accepting; the others may raise it before
+// they accept.
+export function getTradeProblem(
+  state: GameState,
+  trade: TradeOffer,
+  acceptorId?: string,
+): string | null {
+  const players: Player[] = [];
+  for (const id of getTradeParticipants(trade)) {
+    const player = getPlayerById(state, id);
+    if (!player) return 'A player in this trade has left the game';
+    players.push(player);
+  }
+
+  for (const player of players) {
+    if (player.isBankrupt) return `${player.name} has gone bankrupt`;
+  }
+
+  const transfers = getTradeTransfers(trade);
+  for (const player of players) {
+    for (const transfer of transfers.filter((t) => t.fromId === player.id)) {
+      for (const propId of transfer.properties) {
+        const name = getSpaceById(state, propId)?.name ?? `property ${propId}`;
+        if (!player.properties.includes(propId)) return `${player.name} no longer owns ${name}`;
+        if (hasBuildingsInGroup(state, propId)) {
+          return `${name} can't change hands while its color group has buildings`;
+        }
       }
     }
   }
+
+  for (const clause of trade.clauses ?? []) {
+    if (!clauseOwnerAfterTrade(state, trade, clause)) {
+      const name = getSpaceById(state, clause.propertyId)?.name ?? `property ${clause.propertyId}`;
+      return `${name} no longer belongs to either player`;
+    }
+  }
+  const overshared = findOversharedProperty(state, trade);
+  if (overshared !== null) {
+    return `Rent shares on ${getSpaceById(state, overshared)?.name} would add up to more than 100%`;
+  }
+
+  const holdouts = getTradeHoldouts(trade);
+  for (const player of players) {
+    const accepting = player.id === acceptorId;
+    const agreed = !holdouts.includes(player.id);
+    const { cash, cards } = totalGivenBy(transfers, player.id);
+    if (accepting && player.cash < cash) {
+      return `${player.name} cannot afford the $${cash} asked for`;
+    }
+    if (agreed && player.cash < cash) {
+      return `${player.name} no longer has the $${cash} on offer`;
+    }
+    // Cash promised at auction has to stay put until the bidding closes
+    const bid = getCommittedBid(state, player.id);
+    if (acceptorId !== undefined && cash > 0 && player.cash - cash < bid) {
+      return `${player.name} can't pay out $${cash} while bidding $${bid} at auction`;
+    }
+    if (player.getOutOfJailFreeCards < cards) {
+      return `${player.name} no longer has the Get Out of Jail Free card ${agreed ? 'on offer' : 'asked for'}`;
+    }
+  }
+  return null;
 }
 
-// Trade store
-const _trades = new Map<string, TradeOffer>();
+// Calls off a pending trade that expired or broke. Mutates the given state.
+export function cancelTrade(
+  state: GameState,
+  tradeId: string,
+  status: 'invalidated' | 'expired',
+  reason: string,
+  now = Date.now(),
+): TradeOffer {
+  const trade = getTrade(state, tradeId);
+  if (!trade) throw new Error(`Trade ${tradeId} not found`);
+  trade.status = status;
+  trade.reason = reason;
+  trade.resolvedAt = now;
+  storeTrade(state, trade);
+  return trade;
+}
 
-export function storeTrade(trade: TradeOffer): void {
-  _trades.set(trade.id, trade);
+// Pending trades live in state.pendingTrades; resolved ones move to state.tradeHistory
+export function storeTrade(state: GameState, trade: TradeOffer): void {
+  const pending = (state.pendingTrades ?? []).filter((t) => t.id !== trade.id);
+  const history = (state.tradeHistory ?? []).filter((t) => t.id !== trade.id);
+  if (trade.status === 'pending') {
+    pending.push(trade);
+  } else {
+    history.push(trade);
+  }
+  state.pendingTrades = pending;
+  state.tradeHistory = history;
 }
 
-export function getTrade(tradeId: string): TradeOffer | undefined {
-  return _trades.get(tradeId);
+export function getTrade(state: GameState, tradeId: string): TradeOffer | undefined {
+  return (
+    state.pendingTrades?.find((t) => t.id === tradeId) ??
+    state.tradeHistory?.find((t) => t.id === tradeId)
+  );
 }
 
-export function acceptTrade(state: GameState, tradeId: string): GameState {
-  const trade = getTrade(tradeId);
+// Accepts on behalf of a participant still to answer: the recipient of a
+// two-player offer, or the given player in a multi-party deal. The trade is
+// carried out once nobody is left to accept.
+export function acceptTrade(
+  state: GameState,
+  tradeId: string,
+  now = Date.now(),
+  playerId?: string,
+): GameState {
+  const newState = deepClone(state);
+  const trade = getTrade(newState, tradeId);
   if (!trade) throw new Error(`Trade ${tradeId} not found`);
   if (trade.status !== 'pending') throw new Error('Trade is not pending');
+  if (isTradeExpired(trade, now)) throw new Error('Trade offer has expired');
 
-  const newState = deepClone(state);
-  const proposer = getPlayerById(newState, trade.proposerId);
-  const recipient = getPlayerById(newState, trade.recipientId);
-  if (!proposer || !recipient) throw new Error('Players not found');
-
-  // Transfer properties from proposer to recipient
-  for (const propId of trade.offeredProperties) {
-    proposer.properties = proposer.properties.filter((id) => id !== propId);
-    recipient.properties.push(propId);
+  const multiParty = isMultiPartyTrade(trade);
+  const acceptorId = multiParty ? playerId : trade.recipientId;
+  if (!acceptorId || !getTradeHoldouts(trade).includes(acceptorId)) {
+    throw new Error(`Player ${playerId} has no answer to give on this trade`);
   }
 
-  // Transfer properties from recipient to proposer
-  for (const propId of trade.requestedProperties) {
-    recipient.properties = recipient.properties.filter((id) => id !== propId);
-    proposer.properties.push(propId);
-  }
+  // Anyone may have spent, built or lost what was on the table since the offer,
+  // so every payer's cash and cards are checked before anything moves
+  const problem = getTradeProblem(newState, trade, acceptorId);
+  if (problem) throw new Error(`Trade is no longer valid: ${problem}`);
 
-  // Transfer cash
-  proposer.cash -= trade.offeredCash;
-  recipient.cash += trade.offeredCash;
-  recipient.cash -= trade.requestedCash;
-  proposer.cash += trade.requestedCash;
+  if (multiParty) {
+    trade.acceptedBy = [...(trade.acceptedBy ?? []), acceptorId];
+    if (getTradeHoldouts(trade).length > 0) {
+      storeTrade(newState, trade);
+      return newState;
+    }
+  }
 
-  // Transfer GOOJF cards
-  proposer.getOutOfJailFreeCards -= trade.offeredCards;
-  recipient.getOutOfJailFreeCards += trade.offeredCards;
-  recipient.getOutOfJailFreeCards -= trade.requestedCards;
-  proposer.getOutOfJailFreeCards += trade.requestedCards;
+  // Every hand-over is applied together, so the deal goes through whole or not at all
+  for (const transfer of getTradeTransfers(trade)) {
+    const from = getPlayerById(newState, transfer.fromId)!;
+    const to = getPlayerById(newState, transfer.toId)!;
+    from.properties = from.properties.filter((id) => !transfer.properties.includes(id));
+    to.properties.push(...transfer.properties);
+    from.cash -= transfer.cash;
+    to.cash += transfer.cash;
+    from.getOutOfJailFreeCards -= transfer.cards;
+    to.getOutOfJailFreeCards += transfer.cards;
+  }
+  startRentAgreements(newState, trade);
 
-  // Mark trade as accepted
+  // Mark trade as accepted and move it out of pendingTrades
   trade.status = 'accepted';
-  _trades.set(tradeId, trade);
-
-  // Remove from pendingTrades in state
-  newState.pendingTrades = (newState.pendingTrades ?? []).filter((t) => t.id !== tradeId);
+  trade.resolvedAt = now;
+  storeTrade(newState, trade);
 
   return newState;
 }
 
-export function rejectTrade(state: GameState, tradeId: string): GameState {
-  const trade = getTrade(tradeId);
+export function rejectTrade(state: GameState, tradeId: string, now = Date.now()): GameState {
+  const newState = deepClone(state);
+  const trade = getTrade(newState, tradeId);
   if (!trade) throw new Error(`Trade ${tradeId} not found`);
 
   trade.status = 'rejected';
-  _trades.set(tradeId, trade);
-
-  const newState = deepClone(state);
-  newState.pendingTrades = (newState.pendingTrades ?? []).filter((t) => t.id !== tradeId);
+  trade.resolvedAt = now;
+  storeTrade(newState, trade);
   return newState;
 }
 
@@ -157,30 +434,69 @@ export function counterTrade(
   state: GameState,
   tradeId: string,
   newOffer: TradeOfferPayload,
+  now = Date.now(),
 ): { state: GameState; trade: TradeOffer } {
-  const originalTrade = getTrade(tradeId);
+  const stateWithoutOld = deepClone(state);
+  const originalTrade = getTrade(stateWithoutOld, tradeId);
   if (!originalTrade) throw new Error(`Trade ${tradeId} not found`);
+  if (isMultiPartyTrade(originalTrade)) {
+    throw new Error('Only two-player trades can be countered');
+  }
+  if (isTradeExpired(originalTrade, now)) throw new Error('Trade offer has expired');
 
-  // Mark original as countered and remove from state
+  // Mark original as countered and move it into the history
   originalTrade.status = 'countered';
-  _trades.set(tradeId, originalTrade);
-  const stateWithoutOld = deepClone(state);
-  stateWithoutOld.pendingTrades = (stateWithoutOld.pendingTrades ?? []).filter(
-    (t) => t.id !== tradeId,
-  );
+  originalTrade.resolvedAt = now;
+  storeTrade(stateWithoutOld, originalTrade);
 
-  // Create new trade with swapped roles
-  return createTradeOffer(
+  // Create new trade with swapped roles, continuing the same negotiation
+  const result = createTradeOffer(
     stateWithoutOld,
     originalTrade.recipientId,
     originalTrade.proposerId,
     newOffer,
+    now,
   );
+  result.trade.threadId = originalTrade.threadId ?? originalTrade.id;
+  result.trade.counterTo = originalTrade.id;
+  return result;
 }
 
-export function resetTrades(): void {
-  _trades.clear();
-  _tradeCounter = 0;
+// Every negotiation in the game, oldest offer first within each, optionally
+// only those the given player took part in
+export function getTradeThreads(state: GameState, playerId?: string): TradeThread[] {
+  const offers = [...(state.tradeHistory ?? []), ...(state.pendingTrades ?? [])].sort(
+    (a, b) => (a.createdAt ?? 0) - (b.createdAt ?? 0),
+  );
+
+  const threads = new Map<string, TradeThread>();
+  for (const offer of offers) {
+    const id = offer.threadId ?? offer.id;
+    const thread = threads.get(id) ?? { id, participantIds: [], offers: [], status: offer.status };
+    thread.offers.push(offer);
+    thread.status = offer.status;
+    for (const participantId of getTradeParticipants(offer)) {
+      if (!thread.participantIds.includes(participantId)) {
+        thread.participantIds.push(participantId);
+      }
+    }
+    threads.set(id, thread);
+  }
+
+  return [...threads.values()].filter((t) => !playerId || t.participantIds.includes(playerId));
+}
+
+// What changed hands in a trade, with property names, for the TradeCompleted event
+export function getTradeContents(state: GameState, trade: TradeOffer) {
+  return {
+    threadId: trade.threadId ?? trade.id,
+    participantIds: getTradeParticipants(trade),
+    transfers: getTradeTransfers(trade).map((t) => ({
+      ...t,
+      propertyNames: t.properties.map((id) => getSpaceById(state, id)?.name ?? `Property ${id}`),
+    })),
+    clauses: trade.clauses ?? [],
+  };
 }
 
 function deepClone<T>(obj: T): T {
@@ -1,10 +1,17 @@
 import { TurnState } from '../types/turn';
 import type { GameAction } from '../types/gameAction';
+import type { GameState } from '../types/gameState';
 
 export interface TurnContext {
   landedOnUnownedProperty?: boolean;
   rolledDoubles?: boolean;
   auctionComplete?: boolean;
+  // A declined property stays with the bank when auctions are turned off
+  auctionDisabled?: boolean;
+  shortOfFunds?: boolean;
+  debtSettled?: boolean;
+  // A bus or triples roll waits for the player to pick where to move
+  speedDieChoice?: boolean;
 }
 
 export class TurnStateMachine {
@@ -38,10 +45,21 @@ export class TurnStateMachine {
         throw new Error(`Invalid action '${actionType}' in state '${this.currentState}'`);
 
       case TurnState.Rolling:
+        if (context.speedDieChoice) {
+          this.currentState = TurnState.ChoosingSpeedDieMove;
+          return this.currentState;
+        }
         // Auto-transition to Resolving after dice result
         this.currentState = TurnState.Resolving;
         return this.currentState;
 
+      case TurnState.ChoosingSpeedDieMove:
+        if (actionType === 'ChooseSpeedDieMove') {
+          this.currentState = TurnState.Rolling;
+          return this.currentState;
+        }
+        throw new Error(`Invalid action '${actionType}' in state '${this.currentState}'`);
+
       case TurnState.Resolving:
         if (context.landedOnUnownedProperty) {
           this.currentState = TurnState.AwaitingBuyDecision;
@@ -56,7 +74,7 @@ export class TurnStateMachine {
           return this.currentState;
         }
         if (actionType === 'DeclineProperty') {
-          this.currentState = TurnState.Auction;
+          this.currentState = context.auctionDisabled ? TurnState.PlayerAction : TurnState.Auction;
           return this.currentState;
         }
         throw new Error(`Invalid action '${actionType}' in state '${this.currentState}'`);
@@ -72,6 +90,10 @@ export class TurnStateMachine {
         throw new Error(`Invalid action '${actionType}' in state '${this.currentState}'`);
 
       case TurnState.PlayerAction:
+        if (context.shortOfFunds) {
+          this.currentState = TurnState.RaisingFunds;
+          return this.currentState;
+        }
         if (actionType === 'EndTurn') {
           if (this._rolledDoubles) {
             this._rolledDoubles = false;
@@ -87,7 +109,28 @@ export class TurnStateMachine {
           actionType === 'SellBuilding' ||
           actionType === 'MortgageProperty' ||
           actionType === 'UnmortgageProperty' ||
-          actionType === 'ProposeTrade'
+          actionType === 'ProposeTrade' ||
+          actionType === 'ProposeMultiTrade'
+        ) {
+          return this.currentState;
+        }
+        throw new Error(`Invalid action '${actionType}' in state '${this.currentState}'`);
+
+      case TurnState.RaisingFunds:
+        // Left only by settling the debt or declaring bankruptcy
+        if (context.debtSettled) {
+          this.currentState = TurnState.PlayerAction;
+          return this.currentState;
+        }
+        if (actionType === 'EndTurn') {
+          throw new Error('Cannot end turn while raising funds');
+        }
+        if (
+          actionType === 'SellBuilding' ||
+          actionType === 'MortgageProperty' ||
+          actionType === 'ProposeTrade' ||
+          actionType === 'ProposeMultiTrade' ||
+          actionType === 'DeclareBankruptcy'
         ) {
           return this.currentState;
         }
@@ -109,6 +152,8 @@ export class TurnStateMachine {
         return ['RollDice', 'PayJailFine', 'UseJailCard', 'RollForDoubles'];
       case TurnState.Rolling:
         return [];
+      case TurnState.ChoosingSpeedDieMove:
+        return ['ChooseSpeedDieMove'];
       case TurnState.Resolving:
         return [];
       case TurnState.AwaitingBuyDecision:
@@ -123,8 +168,17 @@ export class TurnStateMachine {
           'MortgageProperty',
           'UnmortgageProperty',
           'ProposeTrade',
+          'ProposeMultiTrade',
           'EndTurn',
         ];
+      case TurnState.RaisingFunds:
+        return [
+          'SellBuilding',
+          'MortgageProperty',
+          'ProposeTrade',
+          'ProposeMultiTrade',
+          'DeclareBankruptcy',
+        ];
       case TurnState.EndTurn:
         return [];
       default:
@@ -132,3 +186,16 @@ export class TurnStateMachine {
     }
   }
 }
+
+// The turn machine is rebuilt from GameState for every action, so any server
+// instance can pick up a game from persisted state
+export function createTurnMachine(state: GameState): TurnStateMachine {
+  const machine = new TurnStateMachine(state.turnState);
+  machine.rolledDoubles = state.rolledDoubles ?? false;
+  return machine;
+}
+
+export function syncTurnMachine(state: GameState, machine: TurnStateMachine): void {
+  state.turnState = machine.currentState;
+  state.rolledDoubles = machine.rolledDoubles;
+}
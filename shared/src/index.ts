@@ -1,27 +1,49 @@
 // Types
 export { SpaceType } from './types/space';
 export type { Space, ColorGroup } from './types/space';
+export type {
+  BoardDefinition,
+  BoardEdition,
+  BoardSummary,
+  ColorGroupDefinition,
+} from './types/board';
 export { TokenType } from './types/token';
 export type { Player, JailStatus } from './types/player';
 export type { Property, PropertyType } from './types/property';
-export type { Card, CardEffect, DeckType } from './types/card';
+export type { Card, CardEffect, DeckType, SwapTarget } from './types/card';
 export { TurnState } from './types/turn';
-export type { TradeOffer, TradeStatus } from './types/trade';
+export type {
+  RentAgreement,
+  TradeClause,
+  TradeThread,
+  TradeOffer,
+  TradeStatus,
+  TradeTransfer,
+} from './types/trade';
+export type { AuctionState } from './types/auction';
 export type { MoneyDenomination, CashBreakdown } from './types/money';
 export { MONEY_DENOMINATIONS, STARTING_CASH_BREAKDOWN, STARTING_CASH } from './types/money';
 export type { TitleDeedData } from './types/titleDeed';
-export type { GameSettings } from './types/gameSettings';
+export type { GameSettings, HouseRules } from './types/gameSettings';
 export { DEFAULT_GAME_SETTINGS } from './types/gameSettings';
 export { GameEventType } from './types/gameEvent';
 export type { GameEvent } from './types/gameEvent';
-export type { GameAction, TradeOfferPayload } from './types/gameAction';
+export type { GameAction, GameActionErrorCode, TradeOfferPayload } from './types/gameAction';
+export type { GameReplay, ReplayStep, ReplayPlayer } from './types/replay';
 export type {
   GameState,
   GameStatus,
   DeckState,
+  BuildingSupply,
+  PropertyStateRecord,
   DiceResultState,
   PendingBuyDecision,
+  PendingSpeedDie,
+  SpeedDieFace,
   LastResolution,
+  PendingDebt,
+  PendingInheritance,
+  GameClock,
 } from './types/gameState';
 export type {
   ClientToServerEvents,
@@ -30,9 +52,14 @@ export type {
   SocketData,
   RoomPlayer,
   RoomMetadata,
+  BotStrategyName,
+  AuctionUpdate,
   ChatMessage,
   GameStanding,
 } from './types/socketEvents';
 
 // Engine
 export * from './engine';
+
+// Simulation
+export * from './simulation';
@@ -0,0 +1,103 @@
+import { writeFileSync } from 'fs';
+import { DEFAULT_GAME_SETTINGS } from '../types/gameSettings';
+import { STRATEGIES, getStrategy } from './strategies';
+import { runSimulation, formatSimulationSummary } from './simulator';
+
+// Usage: pnpm --filter @monopoly/shared simulate --games 10000 --players 4 --seed 42
+//   --strategies aggressive,cautious   strategies assigned to seats round-robin
+//   --max-turns 1000                   turns before a game counts as stalled
+//   --out report.json                  write JSON to a file instead of stdout
+
+interface CliOptions {
+  games: number;
+  players: number;
+  seed: number;
+  strategies: string[];
+  maxTurns?: number;
+  out?: string;
+}
+
+function parseIntFlag(flag: string, value: string | undefined, min: number): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new Error(`${flag} must be an integer >= ${min}`);
+  }
+  return parsed;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    games: 100,
+    players: 4,
+    seed: Date.now() >>> 0,
+    strategies: Object.keys(STRATEGIES),
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    const value = argv[i + 1];
+    switch (flag) {
+      case '--':
+        continue;
+      case '--games':
+        options.games = parseIntFlag(flag, value, 1);
+        break;
+      case '--players':
+        options.players = parseIntFlag(flag, value, 2);
+        break;
+      case '--seed':
+        options.seed = parseIntFlag(flag, value, 0);
+        break;
+      case '--max-turns':
+        options.maxTurns = parseIntFlag(flag, value, 1);
+        break;
+      case '--strategies':
+        options.strategies = (value ?? '').split(',').filter(Boolean);
+        break;
+      case '--out':
+        options.out = value;
+        break;
+      default:
+        throw new Error(`Unknown option '${flag}'`);
+    }
+    i++;
+  }
+
+  return options;
+}
+
+function main(): void {
+  const options = parseArgs(process.argv.slice(2));
+  if (options.players > DEFAULT_GAME_SETTINGS.maxPlayers) {
+    throw new Error(`--players must be at most ${DEFAULT_GAME_SETTINGS.maxPlayers}`);
+  }
+
+  const pool = options.strategies.map(getStrategy);
+  if (pool.length === 0) throw new Error('--strategies must name at least one strategy');
+  const strategies = Array.from({ length: options.players }, (_, i) => pool[i % pool.length]);
+
+  const report = runSimulation({
+    games: options.games,
+    seed: options.seed,
+    strategies,
+    maxTurns: options.maxTurns,
+  });
+  const json = JSON.stringify(report, null, 2);
+  const summary = formatSimulationSummary(report);
+
+  // Keep stdout clean JSON unless the report goes to a file
+  if (options.out) {
+    writeFileSync(options.out, json + '\n');
+    process.stdout.write(summary + '\n');
+  } else {
+    process.stdout.write(json + '\n');
+    process.stderr.write(summary + '\n');
+  }
+}
+
+try {
+  main();
+} catch (err) {
+  process.stderr.write(`${err instanceof Error ? err.message : String(err)}\n`);
+  process.exit(1);
+}
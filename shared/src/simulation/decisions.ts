@@ -0,0 +1,177 @@
+import type { GameState } from '../types/gameState';
+import type { GameAction } from '../types/gameAction';
+import { TurnState } from '../types/turn';
+import { getActivePlayer, getPlayerById, getSpaceById, getSpaceByPosition } from '../engine/state';
+import { inheritedMortgageInterest } from '../engine/bankruptcy';
+import { getCurrentBidder, isAwaitingBid } from '../engine/properties';
+import { getRule } from '../engine/rules';
+import { getTradeHoldouts } from '../engine/trading';
+import { liquidationActions, type Strategy } from './strategies';
+
+export interface BotDecision {
+  playerId: string;
+  action: GameAction;
+  // Tried in order if the preferred action is rejected by the engine
+  fallbacks?: GameAction[];
+}
+
+// Cash an inherited mortgage must leave behind before it is worth paying off
+const INHERITANCE_RESERVE = 300;
+
+function withFallbacks(playerId: string, actions: GameAction[]): BotDecision {
+  const [action, ...fallbacks] = actions;
+  return fallbacks.length > 0 ? { playerId, action, fallbacks } : { playerId, action };
+}
+
+// Players who currently owe the game a decision, most urgent first: a creditor
+// settling inherited mortgages, players yet to answer a trade, auction bidders,
+// then the active player
+export function pendingDeciders(state: GameState): string[] {
+  if (state.status !== 'playing') return [];
+  // Nothing else can happen until a creditor settles inherited mortgages
+  if (state.pendingInheritance) return [state.pendingInheritance.creditorId];
+  const deciders: string[] = [];
+
+  for (const trade of state.pendingTrades ?? []) {
+    for (const id of getTradeHoldouts(trade)) {
+      if (!deciders.includes(id)) deciders.push(id);
+    }
+  }
+
+  if (state.auction) {
+    const { auction } = state;
+    const currentBidder = getCurrentBidder(state);
+    for (const id of auction.eligiblePlayers) {
+      if (!isAwaitingBid(auction, id)) continue;
+      if (currentBidder && id !== currentBidder) continue;
+      if (!deciders.includes(id)) deciders.push(id);
+    }
+  }
+
+  const active = getActivePlayer(state);
+  if (!state.auction && !deciders.includes(active.id)) deciders.push(active.id);
+  return deciders;
+}
+
+// The next action a scripted player would take, or null if it has nothing to decide
+export function decideAction(
+  state: GameState,
+  playerId: string,
+  strategy: Strategy,
+): BotDecision | null {
+  const player = getPlayerById(state, playerId);
+  if (!player || player.isBankrupt || state.status !== 'playing') return null;
+
+  if (state.pendingInheritance) {
+    if (state.pendingInheritance.creditorId !== playerId) return null;
+    const propertyId = state.pendingInheritance.propertyIds[0];
+    const keep: GameAction = { type: 'KeepInheritedMortgage', propertyId };
+    if (player.cash < inheritedMortgageInterest(state, propertyId)) {
+      return withFallbacks(playerId, [
+        ...liquidationActions(state, playerId),
+        { type: 'DeclareBankruptcy', creditorId: 'bank' },
+      ]);
+    }
+    const payoff =
+      (getSpaceById(state, propertyId)?.mortgageValue ?? 0) +
+      inheritedMortgageInterest(state, propertyId);
+    return player.cash - payoff >= INHERITANCE_RESERVE
+      ? withFallbacks(playerId, [{ type: 'UnmortgageInheritedProperty', propertyId }, keep])
+      : withFallbacks(playerId, [keep]);
+  }
+
+  const trade = (state.pendingTrades ?? []).find((t) => getTradeHoldouts(t).includes(playerId));
+  if (trade) {
+    const reject: GameAction = { type: 'RejectTrade', tradeId: trade.id };
+    return strategy.respondToTrade(state, playerId, trade)
+      ? withFallbacks(playerId, [{ type: 'AcceptTrade', tradeId: trade.id }, reject])
+      : withFallbacks(playerId, [reject]);
+  }
+
+  if (state.auction) {
+    const { auction } = state;
+    const currentBidder = getCurrentBidder(state);
+    const canBid =
+      isAwaitingBid(auction, playerId) && (!currentBidder || currentBidder === playerId);
+    if (!canBid) return null;
+    const bid = strategy.auctionBid(state, playerId, auction);
+    return bid === null
+      ? withFallbacks(playerId, [{ type: 'AuctionPass' }])
+      : withFallbacks(playerId, [{ type: 'AuctionBid', amount: bid }, { type: 'AuctionPass' }]);
+  }
+
+  if (getActivePlayer(state).id !== playerId) return null;
+
+  switch (state.turnState) {
+    case TurnState.WaitingForRoll: {
+      if (!player.jailStatus.inJail) return withFallbacks(playerId, [{ type: 'RollDice' }]);
+      if (player.getOutOfJailFreeCards > 0) {
+        return withFallbacks(playerId, [{ type: 'UseJailCard' }, { type: 'RollDice' }]);
+      }
+      if (strategy.payJailFine(state, playerId) && player.cash >= getRule(state, 'jailFine')) {
+        return withFallbacks(playerId, [{ type: 'PayJailFine' }, { type: 'RollDice' }]);
+      }
+      return withFallbacks(playerId, [{ type: 'RollDice' }]);
+    }
+
+    case TurnState.ChoosingSpeedDieMove: {
+      const destinations = state.pendingSpeedDie?.destinations ?? [];
+      if (destinations.length === 0) return null;
+      return withFallbacks(playerId, [
+        {
+          type: 'ChooseSpeedDieMove',
+          destination: pickSpeedDieDestination(state, playerId, destinations),
+        },
+      ]);
+    }
+
+    case TurnState.AwaitingBuyDecision: {
+      const pending = state.pendingBuyDecision;
+      if (!pending) return null;
+      const decline: GameAction = { type: 'DeclineProperty', propertyId: pending.spaceId };
+      return strategy.shouldBuy(state, playerId, pending.spaceId)
+        ? withFallbacks(playerId, [{ type: 'BuyProperty', propertyId: pending.spaceId }, decline])
+        : withFallbacks(playerId, [decline]);
+    }
+
+    case TurnState.RaisingFunds: {
+      const creditorId = state.pendingDebt?.creditorId ?? 'bank';
+      return withFallbacks(playerId, [
+        ...liquidationActions(state, playerId),
+        { type: 'DeclareBankruptcy', creditorId },
+      ]);
+    }
+
+    case TurnState.PlayerAction: {
+      const manage = strategy.manageAssets(state, playerId);
+      const proposal = strategy.proposeTrade(state, playerId);
+      const actions: GameAction[] = [];
+      if (manage) actions.push(manage);
+      if (proposal) actions.push({ type: 'ProposeTrade', ...proposal });
+      actions.push({ type: 'EndTurn' });
+      return withFallbacks(playerId, actions);
+    }
+
+    default:
+      return null;
+  }
+}
+
+// Heads for an unowned property if one is in reach, then one the bot already
+// owns, otherwise the furthest option
+function pickSpeedDieDestination(
+  state: GameState,
+  playerId: string,
+  destinations: number[],
+): number {
+  const ownerOf = (spaceId: number) =>
+    state.players.find((p) => p.properties.includes(spaceId))?.id ?? null;
+  const spaces = destinations
+    .map((position) => getSpaceByPosition(state, position))
+    .filter((space) => space !== undefined);
+
+  const unowned = spaces.find((space) => space.cost !== undefined && !ownerOf(space.id));
+  if (unowned) return unowned.position;
+  const own = spaces.find((space) => ownerOf(space.id) === playerId);
+  return own?.position ?? destinations[destinations.length - 1];
+}
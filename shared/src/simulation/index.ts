@@ -0,0 +1,22 @@
+export type { Strategy } from './strategies';
+export {
+  aggressiveStrategy,
+  cautiousStrategy,
+  passiveStrategy,
+  traderStrategy,
+  caretakerStrategy,
+  STRATEGIES,
+  getStrategy,
+  liquidationActions,
+} from './strategies';
+export type { BotDecision } from './decisions';
+export { decideAction, pendingDeciders } from './decisions';
+export type {
+  StallReason,
+  BankruptcyCause,
+  SimulateGameOptions,
+  GameResult,
+  SimulationOptions,
+  SimulationReport,
+} from './simulator';
+export { simulateGame, runSimulation, formatSimulationSummary } from './simulator';
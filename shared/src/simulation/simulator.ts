@@ -0,0 +1,422 @@
+import type { GameState } from '../types/gameState';
+import type { GameAction } from '../types/gameAction';
+import type { GameEvent } from '../types/gameEvent';
+import { GameEventType } from '../types/gameEvent';
+import { SpaceType } from '../types/space';
+import { createInitialGameState, getPlayerById } from '../engine/state';
+import { applyGameAction } from '../engine/reducer';
+import { getWinner } from '../engine/bankruptcy';
+import { createRng } from '../engine/rng';
+import type { Strategy } from './strategies';
+import { decideAction, pendingDeciders, type BotDecision } from './decisions';
+
+export type StallReason = 'turnLimit' | 'noLegalAction';
+
+export type BankruptcyCause = 'rent' | 'tax' | 'card' | 'jailFine' | 'other';
+
+export interface SimulateGameOptions {
+  seed: number;
+  // One strategy per seat; the player count is strategies.length
+  strategies: Strategy[];
+  maxTurns?: number;
+}
+
+export interface GameResult {
+  seed: number;
+  turns: number;
+  winnerSeat: number | null;
+  stalled: StallReason | null;
+  // Landings per space id
+  landings: Record<number, number>;
+  // Purchase, auction and building spend per property group
+  invested: Record<string, number>;
+  // Rent collected per property group
+  rentCollected: Record<string, number>;
+  bankruptcies: Array<{ seat: number; cause: BankruptcyCause; group?: string }>;
+}
+
+export interface SimulationOptions {
+  games: number;
+  seed: number;
+  strategies: Strategy[];
+  maxTurns?: number;
+}
+
+export interface SimulationReport {
+  config: {
+    games: number;
+    players: number;
+    seed: number;
+    strategies: string[];
+    maxTurns: number;
+  };
+  gamesCompleted: number;
+  gamesStalled: number;
+  stallRate: number;
+  stallReasons: Record<StallReason, number>;
+  gameLength: { mean: number; median: number; min: number; max: number };
+  winsBySeat: number[];
+  winsByStrategy: Record<string, number>;
+  landingFrequency: Array<{ spaceId: number; name: string; landings: number; share: number }>;
+  colorGroupRoi: Array<{ group: string; invested: number; rentCollected: number; roi: number }>;
+  bankruptcyCauses: Record<BankruptcyCause, number>;
+  rentBankruptciesByGroup: Record<string, number>;
+}
+
+const DEFAULT_MAX_TURNS = 1000;
+// Hard stop on engine steps per turn, in case a strategy keeps choosing no-op actions
+const MAX_ACTIONS_PER_TURN = 200;
+
+// Property groups for ROI: street color, or railroad/utility
+function groupOf(state: GameState, spaceId: number): string | null {
+  const space = state.board.find((s) => s.id === spaceId);
+  if (!space) return null;
+  if (space.type === SpaceType.Railroad) return 'railroad';
+  if (space.type === SpaceType.Utility) return 'utility';
+  return space.colorGroup ?? null;
+}
+
+function seatOf(state: GameState, playerId: string): number {
+  return state.players.findIndex((p) => p.id === playerId);
+}
+
+function bankruptcyCause(state: GameState): BankruptcyCause {
+  switch (state.lastResolution?.type) {
+    case 'rentPayment':
+      return 'rent';
+    case 'tax':
+      return 'tax';
+    case 'drawCard':
+      return 'card';
+    case 'forcedJailExit':
+      return 'jailFine';
+    default:
+      return 'other';
+  }
+}
+
+function chooseAction(state: GameState, strategies: Strategy[]): BotDecision | null {
+  for (const playerId of pendingDeciders(state)) {
+    const decision = decideAction(state, playerId, strategies[seatOf(state, playerId)]);
+    if (decision) return decision;
+  }
+  return null;
+}
+
+function landedSpaces(before: GameState, after: GameState, playerId: string): number[] {
+  const resolution = after.lastResolution?.type;
+  const dice = after.lastDiceResult;
+  if (!dice || resolution === 'stayInJail' || resolution === 'threeDoublesToJail') return [];
+
+  const from = getPlayerById(before, playerId)?.position ?? 0;
+  const primary = (from + dice.total) % before.board.length;
+  const finalPlayer = getPlayerById(after, playerId);
+  const landings = [primary];
+  // Card movement lands the player a second time, unless it sent them to jail
+  if (finalPlayer && finalPlayer.position !== primary && !finalPlayer.jailStatus.inJail) {
+    landings.push(finalPlayer.position);
+  }
+  return landings;
+}
+
+function recordEvents(state: GameState, events: GameEvent[], result: GameResult): void {
+  for (const event of events) {
+    const p = event.payload;
+    let spaceId: number | null = null;
+    let invested = 0;
+
+    if (event.type === GameEventType.PropertyPurchased) {
+      spaceId = p.propertyId as number;
+      invested = (p.price as number) ?? 0;
+    } else if (event.type === GameEventType.AuctionEnded && p.winnerId) {
+      spaceId = p.propertyId as number;
+      invested = (p.winningBid as number) ?? 0;
+    } else if (event.type === GameEventType.HouseBuilt) {
+      spaceId = p.propertyId as number;
+      invested = state.board.find((s) => s.id === spaceId)?.houseCost ?? 0;
+    } else if (event.type === GameEventType.RentPaid) {
+      const space = state.board.find((s) => s.name === p.spaceName);
+      const group = space ? groupOf(state, space.id) : null;
+      if (group) {
+        result.rentCollected[group] = (result.rentCollected[group] ?? 0) + (p.amount as number);
+      }
+      continue;
+    }
+
+    const group = spaceId === null ? null : groupOf(state, spaceId);
+    if (group) result.invested[group] = (result.invested[group] ?? 0) + invested;
+  }
+}
+
+// Plays one complete game with scripted players, without any server or storage
+export function simulateGame(options: SimulateGameOptions): GameResult {
+  const { seed, strategies } = options;
+  const maxTurns = options.maxTurns ?? DEFAULT_MAX_TURNS;
+  const players = strategies.map((s, i) => ({ id: `seat-${i}`, name: `${s.name} ${i + 1}` }));
+
+  let state = createInitialGameState(players, { gameId: `sim-${seed}`, settings: { seed } });
+  const result: GameResult = {
+    seed,
+    turns: 1,
+    winnerSeat: null,
+    stalled: null,
+    landings: {},
+    invested: {},
+    rentCollected: {},
+    bankruptcies: [],
+  };
+
+  let actionsThisTurn = 0;
+  while (state.status === 'playing') {
+    if (result.turns > maxTurns) {
+      result.stalled = 'turnLimit';
+      break;
+    }
+    if (++actionsThisTurn > MAX_ACTIONS_PER_TURN) {
+      result.stalled = 'noLegalAction';
+      break;
+    }
+
+    const choice = chooseAction(state, strategies);
+    if (!choice) {
+      result.stalled = 'noLegalAction';
+      break;
+    }
+
+    let applied: { action: GameAction; next: GameState; events: GameEvent[] } | null = null;
+    for (const action of [choice.action, ...(choice.fallbacks ?? [])]) {
+      const attempt = applyGameAction(state, choice.playerId, action, { now: 0 });
+      if (!attempt.error) {
+        applied = { action, next: attempt.state, events: attempt.events };
+        break;
+      }
+    }
+    if (!applied) {
+      result.stalled = 'noLegalAction';
+      break;
+    }
+
+    const { action, next, events } = applied;
+    if (action.type === 'RollDice' || action.type === 'RollForDoubles') {
+      for (const spaceId of landedSpaces(state, next, choice.playerId)) {
+        result.landings[spaceId] = (result.landings[spaceId] ?? 0) + 1;
+      }
+    }
+    if (action.type === 'DeclareBankruptcy') {
+      const cause = bankruptcyCause(state);
+      const space = state.board.find((s) => s.name === state.lastResolution?.spaceName);
+      result.bankruptcies.push({
+        seat: seatOf(state, choice.playerId),
+        cause,
+        group: cause === 'rent' && space ? (groupOf(state, space.id) ?? undefined) : undefined,
+      });
+    }
+    recordEvents(next, events, result);
+
+    if (events.some((e) => e.type === GameEventType.TurnStarted)) {
+      result.turns++;
+      actionsThisTurn = 0;
+    }
+
+    // The event log is consumed above; dropping it keeps per-action cloning cheap
+    next.events = [];
+    state = next;
+  }
+
+  if (state.status === 'finished') {
+    const winnerId = getWinner(state);
+    result.winnerSeat = winnerId ? seatOf(state, winnerId) : null;
+  }
+
+  return result;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function round(value: number, places = 4): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+export function runSimulation(options: SimulationOptions): SimulationReport {
+  const { games, seed, strategies } = options;
+  const maxTurns = options.maxTurns ?? DEFAULT_MAX_TURNS;
+  // Per-game seeds come from the batch seed, so a whole run is reproducible
+  const seedRng = createRng(seed);
+  const board = createInitialGameState(
+    strategies.map((_, i) => ({ id: `seat-${i}`, name: `seat-${i}` })),
+    { gameId: 'sim-board', settings: { seed } },
+  ).board;
+
+  const lengths: number[] = [];
+  const stallReasons: Record<StallReason, number> = { turnLimit: 0, noLegalAction: 0 };
+  const winsBySeat = strategies.map(() => 0);
+  const winsByStrategy: Record<string, number> = {};
+  const landings: Record<number, number> = {};
+  const invested: Record<string, number> = {};
+  const rentCollected: Record<string, number> = {};
+  const bankruptcyCauses: Record<BankruptcyCause, number> = {
+    rent: 0,
+    tax: 0,
+    card: 0,
+    jailFine: 0,
+    other: 0,
+  };
+  const rentBankruptciesByGroup: Record<string, number> = {};
+
+  for (const strategy of strategies) winsByStrategy[strategy.name] = 0;
+
+  for (let i = 0; i < games; i++) {
+    const game = simulateGame({
+      seed: Math.floor(seedRng() * 4294967296),
+      strategies,
+      maxTurns,
+    });
+
+    if (game.stalled) {
+      stallReasons[game.stalled]++;
+    } else {
+      lengths.push(game.turns);
+    }
+    if (game.winnerSeat !== null) {
+      winsBySeat[game.winnerSeat]++;
+      winsByStrategy[strategies[game.winnerSeat].name]++;
+    }
+    for (const [spaceId, count] of Object.entries(game.landings)) {
+      landings[Number(spaceId)] = (landings[Number(spaceId)] ?? 0) + count;
+    }
+    for (const [group, amount] of Object.entries(game.invested)) {
+      invested[group] = (invested[group] ?? 0) + amount;
+    }
+    for (const [group, amount] of Object.entries(game.rentCollected)) {
+      rentCollected[group] = (rentCollected[group] ?? 0) + amount;
+    }
+    for (const bankruptcy of game.bankruptcies) {
+      bankruptcyCauses[bankruptcy.cause]++;
+      if (bankruptcy.group) {
+        rentBankruptciesByGroup[bankruptcy.group] =
+          (rentBankruptciesByGroup[bankruptcy.group] ?? 0) + 1;
+      }
+    }
+  }
+
+  const totalLandings = Object.values(landings).reduce((sum, n) => sum + n, 0);
+  const groups = [...new Set([...Object.keys(invested), ...Object.keys(rentCollected)])];
+  const gamesStalled = stallReasons.turnLimit + stallReasons.noLegalAction;
+
+  return {
+    config: {
+      games,
+      players: strategies.length,
+      seed,
+      strategies: strategies.map((s) => s.name),
+      maxTurns,
+    },
+    gamesCompleted: games - gamesStalled,
+    gamesStalled,
+    stallRate: games > 0 ? round(gamesStalled / games) : 0,
+    stallReasons,
+    gameLength: {
+      mean: lengths.length ? round(lengths.reduce((a, b) => a + b, 0) / lengths.length, 1) : 0,
+      median: median(lengths),
+      min: lengths.length ? Math.min(...lengths) : 0,
+      max: lengths.length ? Math.max(...lengths) : 0,
+    },
+    winsBySeat,
+    winsByStrategy,
+    landingFrequency: board.map((space) => ({
+      spaceId: space.id,
+      name: space.name,
+      landings: landings[space.id] ?? 0,
+      share: totalLandings > 0 ? round((landings[space.id] ?? 0) / totalLandings) : 0,
+    })),
+    colorGroupRoi: groups.map((group) => {
+      const spent = invested[group] ?? 0;
+      const earned = rentCollected[group] ?? 0;
+      return {
+        group,
+        invested: spent,
+        rentCollected: earned,
+        roi: spent > 0 ? round((earned - spent) / spent) : 0,
+      };
+    }),
+    bankruptcyCauses,
+    rentBankruptciesByGroup,
+  };
+}
+
+function table(headers: string[], rows: Array<Array<string | number>>): string {
+  const cells = [headers, ...rows.map((row) => row.map(String))];
+  const widths = headers.map((_, col) => Math.max(...cells.map((row) => row[col].length)));
+  const line = (row: string[]) =>
+    row.map((cell, col) => (col === 0 ? cell.padEnd(widths[col]) : cell.padStart(widths[col])));
+  return [
+    line(cells[0]).join('  '),
+    widths.map((w) => '-'.repeat(w)).join('  '),
+    ...cells.slice(1).map((row) => line(row).join('  ')),
+  ].join('\n');
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+// Human-readable summary of a report
+export function formatSimulationSummary(report: SimulationReport): string {
+  const { config, gameLength } = report;
+  const sections: string[] = [];
+
+  sections.push(
+    [
+      `Games: ${config.games}  Players: ${config.players}  Seed: ${config.seed}`,
+      `Strategies: ${config.strategies.join(', ')}`,
+      `Completed: ${report.gamesCompleted}  Stalled: ${report.gamesStalled} (${percent(report.stallRate)})` +
+        `  [turn limit ${report.stallReasons.turnLimit}, no legal action ${report.stallReasons.noLegalAction}]`,
+      `Game length (turns): mean ${gameLength.mean}  median ${gameLength.median}` +
+        `  min ${gameLength.min}  max ${gameLength.max}`,
+    ].join('\n'),
+  );
+
+  sections.push(
+    table(
+      ['Seat', 'Strategy', 'Wins'],
+      report.winsBySeat.map((wins, seat) => [seat + 1, config.strategies[seat], wins]),
+    ),
+  );
+
+  const topLandings = [...report.landingFrequency]
+    .sort((a, b) => b.landings - a.landings)
+    .slice(0, 10);
+  sections.push(
+    'Most landed spaces\n' +
+      table(
+        ['Space', 'Landings', 'Share'],
+        topLandings.map((s) => [s.name, s.landings, percent(s.share)]),
+      ),
+  );
+
+  sections.push(
+    'ROI by group\n' +
+      table(
+        ['Group', 'Invested', 'Rent', 'ROI'],
+        [...report.colorGroupRoi]
+          .sort((a, b) => b.roi - a.roi)
+          .map((g) => [g.group, g.invested, g.rentCollected, percent(g.roi)]),
+      ),
+  );
+
+  sections.push(
+    'Bankruptcy causes\n' +
+      table(
+        ['Cause', 'Count'],
+        Object.entries(report.bankruptcyCauses).map(([cause, count]) => [cause, count]),
+      ),
+  );
+
+  return sections.join('\n\n');
+}
@@ -0,0 +1,336 @@
+import type { GameState } from '../types/gameState';
+import type { GameAction, TradeOfferPayload } from '../types/gameAction';
+import type { AuctionState } from '../types/auction';
+import type { TradeOffer, TradeTransfer } from '../types/trade';
+import { SpaceType, type ColorGroup } from '../types/space';
+import { getPlayerById, getSpaceById } from '../engine/state';
+import { getPropertyState, getColorGroupSpaces } from '../engine/spaces';
+import { canBuildHouse, canSellBuilding, getMinimumBid } from '../engine/properties';
+import { mortgageInterest } from '../engine/rules';
+import { getTradeTransfers } from '../engine/trading';
+
+// A scripted player. Each hook answers one decision the rules leave open;
+// everything else (rolling, ending the turn, settling debts) is driven by
+// decideAction so strategies stay small and comparable.
+export interface Strategy {
+  name: string;
+  // Whether to buy the unowned property the player just landed on
+  shouldBuy(state: GameState, playerId: string, spaceId: number): boolean;
+  // Amount to bid in the running auction, or null to pass. A sealed auction
+  // takes a single bid, so it is the most the player would pay.
+  auctionBid(state: GameState, playerId: string, auction: AuctionState): number | null;
+  // Whether to pay the jail fine up front instead of rolling for doubles
+  payJailFine(state: GameState, playerId: string): boolean;
+  // Optional build/unmortgage step during the player's own PlayerAction phase
+  manageAssets(state: GameState, playerId: string): GameAction | null;
+  // Whether to accept a pending trade addressed to the player
+  respondToTrade(state: GameState, playerId: string, trade: TradeOffer): boolean;
+  // Trade to propose during the player's own PlayerAction phase, if any
+  proposeTrade(
+    state: GameState,
+    playerId: string,
+  ): { recipientId: string; offer: TradeOfferPayload } | null;
+}
+
+function cashOf(state: GameState, playerId: string): number {
+  return getPlayerById(state, playerId)?.cash ?? 0;
+}
+
+function costOf(state: GameState, spaceId: number): number {
+  return getSpaceById(state, spaceId)?.cost ?? 0;
+}
+
+// Raises the high bid by the step while that stays within the limit. There is
+// no second round in a sealed auction, so the bid goes straight in at the limit.
+function auctionOffer(
+  state: GameState,
+  auction: AuctionState,
+  step: number,
+  limit: number,
+): number | null {
+  const minimum = getMinimumBid(state);
+  const bid = auction.sealed ? limit : Math.max(auction.highBid + step, minimum);
+  return bid >= minimum && bid <= limit ? bid : null;
+}
+
+// Number of other properties in the space's color group the player already owns
+function groupFoothold(state: GameState, playerId: string, spaceId: number): number {
+  const space = getSpaceById(state, spaceId);
+  const player = getPlayerById(state, playerId);
+  if (!space?.colorGroup || !player) return 0;
+  return getColorGroupSpaces(state, space.colorGroup).filter(
+    (s) => s.id !== spaceId && player.properties.includes(s.id),
+  ).length;
+}
+
+// Builds on the least-developed buildable street, keeping `reserve` cash back
+function buildAction(state: GameState, playerId: string, reserve: number): GameAction | null {
+  const player = getPlayerById(state, playerId);
+  if (!player) return null;
+
+  let best: { spaceId: number; houses: number } | null = null;
+  for (const spaceId of player.properties) {
+    const space = getSpaceById(state, spaceId);
+    if (!space || space.type !== SpaceType.Property) continue;
+    if (canBuildHouse(state, playerId, spaceId) !== null) continue;
+    if (player.cash - (space.houseCost ?? 0) < reserve) continue;
+    const houses = getPropertyState(state, spaceId)?.houses ?? 0;
+    if (!best || houses < best.houses) best = { spaceId, houses };
+  }
+
+  if (!best) return null;
+  return best.houses === 4
+    ? { type: 'BuildHotel', propertyId: best.spaceId }
+    : { type: 'BuildHouse', propertyId: best.spaceId };
+}
+
+function unmortgageAction(state: GameState, playerId: string, reserve: number): GameAction | null {
+  const player = getPlayerById(state, playerId);
+  if (!player) return null;
+  for (const spaceId of player.properties) {
+    if (!getPropertyState(state, spaceId)?.mortgaged) continue;
+    const mortgageValue = getSpaceById(state, spaceId)?.mortgageValue ?? 0;
+    const payoff = mortgageValue + mortgageInterest(state, mortgageValue);
+    if (player.cash - payoff >= reserve) {
+      return { type: 'UnmortgageProperty', propertyId: spaceId };
+    }
+  }
+  return null;
+}
+
+function holdingValue(state: GameState, spaceIds: number[], cash: number, cards: number): number {
+  const properties = spaceIds.reduce((sum, spaceId) => {
+    const space = getSpaceById(state, spaceId);
+    const mortgaged = getPropertyState(state, spaceId)?.mortgaged ?? false;
+    return sum + (space?.cost ?? 0) - (mortgaged ? (space?.mortgageValue ?? 0) : 0);
+  }, 0);
+  return properties + cash + cards * 50;
+}
+
+// Whether the player would own a full color group after gaining and losing the given properties
+function completesGroup(
+  state: GameState,
+  playerId: string,
+  gained: number[],
+  lost: number[],
+): boolean {
+  const player = getPlayerById(state, playerId);
+  if (!player) return false;
+  const owned = new Set([...player.properties.filter((id) => !lost.includes(id)), ...gained]);
+  return gained.some((spaceId) => {
+    const colorGroup = getSpaceById(state, spaceId)?.colorGroup;
+    return (
+      colorGroup !== undefined &&
+      getColorGroupSpaces(state, colorGroup).every((s) => owned.has(s.id))
+    );
+  });
+}
+
+// Accepts trades worth at least `margin` more than they cost; handing another
+// player a monopoly needs double the value in return
+function acceptsTrade(state: GameState, playerId: string, trade: TradeOffer, margin: number) {
+  const transfers = getTradeTransfers(trade);
+  const incoming = transfers.filter((t) => t.toId === playerId);
+  const outgoing = transfers.filter((t) => t.fromId === playerId);
+  const worth = (list: TradeTransfer[]) =>
+    list.reduce((sum, t) => sum + holdingValue(state, t.properties, t.cash, t.cards), 0);
+  const propertiesOf = (list: TradeTransfer[]) => list.flatMap((t) => t.properties);
+
+  if (cashOf(state, playerId) < outgoing.reduce((sum, t) => sum + t.cash, 0)) return false;
+  const received = worth(incoming);
+  const given = worth(outgoing);
+  const handsOverGroup = outgoing.some((t) =>
+    completesGroup(
+      state,
+      t.toId,
+      t.properties,
+      propertiesOf(transfers.filter((o) => o.fromId === t.toId)),
+    ),
+  );
+  if (handsOverGroup) return received >= given * 2;
+  const bonus = completesGroup(state, playerId, propertiesOf(incoming), propertiesOf(outgoing))
+    ? 200
+    : 0;
+  return received + bonus - given >= margin;
+}
+
+// Offers cash for the last street missing from one of the player's color groups
+function groupCompletionOffer(
+  state: GameState,
+  playerId: string,
+  reserve: number,
+): { recipientId: string; offer: TradeOfferPayload } | null {
+  const player = getPlayerById(state, playerId);
+  if (!player) return null;
+  // One open offer at a time
+  if ((state.pendingTrades ?? []).some((t) => t.proposerId === playerId)) return null;
+
+  const asked = [...(state.pendingTrades ?? []), ...(state.tradeHistory ?? [])].filter(
+    (t) => t.proposerId === playerId,
+  );
+  const groups = new Set(
+    player.properties
+      .map((id) => getSpaceById(state, id)?.colorGroup)
+      .filter((g): g is ColorGroup => g !== undefined),
+  );
+
+  for (const colorGroup of groups) {
+    const spaces = getColorGroupSpaces(state, colorGroup);
+    const missing = spaces.filter((s) => !player.properties.includes(s.id));
+    if (missing.length !== 1) continue;
+    if (spaces.some((s) => (getPropertyState(state, s.id)?.houses ?? 0) > 0)) continue;
+
+    const target = missing[0];
+    const owner = state.players.find((p) => !p.isBankrupt && p.properties.includes(target.id));
+    if (!owner) continue;
+    // Never ask the same owner for the same street twice
+    if (
+      asked.some((t) => t.recipientId === owner.id && t.requestedProperties.includes(target.id))
+    ) {
+      continue;
+    }
+
+    const price = (target.cost ?? 0) * 2;
+    if (player.cash - price < reserve) continue;
+    return {
+      recipientId: owner.id,
+      offer: {
+        offeredProperties: [],
+        offeredCash: price,
+        offeredCards: 0,
+        requestedProperties: [target.id],
+        requestedCash: 0,
+        requestedCards: 0,
+      },
+    };
+  }
+  return null;
+}
+
+// Buys everything it can afford, bids up to list price and builds whenever possible
+export const aggressiveStrategy: Strategy = {
+  name: 'aggressive',
+  shouldBuy: (state, playerId, spaceId) => cashOf(state, playerId) >= costOf(state, spaceId),
+  auctionBid: (state, playerId, auction) => {
+    const limit = Math.min(costOf(state, auction.propertyId), cashOf(state, playerId));
+    return auctionOffer(state, auction, 10, limit);
+  },
+  payJailFine: (state, playerId) => cashOf(state, playerId) >= 200,
+  manageAssets: (state, playerId) =>
+    buildAction(state, playerId, 0) ?? unmortgageAction(state, playerId, 100),
+  respondToTrade: (state, playerId, trade) => acceptsTrade(state, playerId, trade, 50),
+  proposeTrade: () => null,
+};
+
+// Keeps a cash cushion, only bids at a discount and builds once comfortably ahead
+export const cautiousStrategy: Strategy = {
+  name: 'cautious',
+  shouldBuy: (state, playerId, spaceId) => {
+    const reserve = groupFoothold(state, playerId, spaceId) > 0 ? 150 : 300;
+    return cashOf(state, playerId) - costOf(state, spaceId) >= reserve;
+  },
+  auctionBid: (state, playerId, auction) => {
+    const limit = Math.min(
+      Math.floor(costOf(state, auction.propertyId) * 0.7),
+      cashOf(state, playerId) - 300,
+    );
+    return auctionOffer(state, auction, 10, limit);
+  },
+  payJailFine: () => false,
+  manageAssets: (state, playerId) =>
+    unmortgageAction(state, playerId, 400) ?? buildAction(state, playerId, 400),
+  respondToTrade: (state, playerId, trade) => acceptsTrade(state, playerId, trade, 100),
+  proposeTrade: () => null,
+};
+
+// Never buys outright; only picks up properties cheaply at auction
+export const passiveStrategy: Strategy = {
+  name: 'passive',
+  shouldBuy: () => false,
+  auctionBid: (state, playerId, auction) => {
+    const limit = Math.min(
+      Math.floor(costOf(state, auction.propertyId) * 0.5),
+      cashOf(state, playerId) - 200,
+    );
+    return auctionOffer(state, auction, 1, limit);
+  },
+  payJailFine: () => false,
+  manageAssets: (state, playerId) => buildAction(state, playerId, 300),
+  respondToTrade: (state, playerId, trade) => acceptsTrade(state, playerId, trade, 0),
+  proposeTrade: () => null,
+};
+
+// Buys with a small cushion and pays a premium to complete color groups by trade
+export const traderStrategy: Strategy = {
+  name: 'trader',
+  shouldBuy: (state, playerId, spaceId) => cashOf(state, playerId) - costOf(state, spaceId) >= 100,
+  auctionBid: (state, playerId, auction) => {
+    const premium = groupFoothold(state, playerId, auction.propertyId) > 0 ? 1.2 : 0.9;
+    const limit = Math.min(
+      Math.floor(costOf(state, auction.propertyId) * premium),
+      cashOf(state, playerId) - 100,
+    );
+    return auctionOffer(state, auction, 10, limit);
+  },
+  payJailFine: (state, playerId) => cashOf(state, playerId) >= 300,
+  manageAssets: (state, playerId) =>
+    buildAction(state, playerId, 150) ?? unmortgageAction(state, playerId, 250),
+  respondToTrade: (state, playerId, trade) => acceptsTrade(state, playerId, trade, 0),
+  proposeTrade: (state, playerId) => groupCompletionOffer(state, playerId, 150),
+};
+
+// Minds the seat of an absent player: keeps a cash cushion, never builds or trades
+export const caretakerStrategy: Strategy = {
+  name: 'caretaker',
+  shouldBuy: (state, playerId, spaceId) => {
+    const reserve = groupFoothold(state, playerId, spaceId) > 0 ? 100 : 200;
+    return cashOf(state, playerId) - costOf(state, spaceId) >= reserve;
+  },
+  auctionBid: (state, playerId, auction) => {
+    const limit = Math.min(
+      Math.floor(costOf(state, auction.propertyId) * 0.6),
+      cashOf(state, playerId) - 300,
+    );
+    return auctionOffer(state, auction, 10, limit);
+  },
+  payJailFine: () => false,
+  manageAssets: () => null,
+  respondToTrade: () => false,
+  proposeTrade: () => null,
+};
+
+export const STRATEGIES: Record<string, Strategy> = {
+  aggressive: aggressiveStrategy,
+  cautious: cautiousStrategy,
+  passive: passiveStrategy,
+  trader: traderStrategy,
+};
+
+export function getStrategy(name: string): Strategy {
+  const strategy = STRATEGIES[name];
+  if (!strategy) {
+    throw new Error(`Unknown strategy '${name}'. Available: ${Object.keys(STRATEGIES).join(', ')}`);
+  }
+  return strategy;
+}
+
+// Actions that could raise cash for a player in debt, most painless first:
+// sell buildings, then mortgage the cheapest properties
+export function liquidationActions(state: GameState, playerId: string): GameAction[] {
+  const player = getPlayerById(state, playerId);
+  if (!player) return [];
+
+  const sells: GameAction[] = player.properties
+    .filter((spaceId) => canSellBuilding(state, playerId, spaceId) === null)
+    .map((spaceId) => ({ type: 'SellBuilding', propertyId: spaceId, count: 1 }));
+
+  const mortgages: GameAction[] = player.properties
+    .filter((spaceId) => !getPropertyState(state, spaceId)?.mortgaged)
+    .sort(
+      (a, b) =>
+        (getSpaceById(state, a)?.mortgageValue ?? 0) - (getSpaceById(state, b)?.mortgageValue ?? 0),
+    )
+    .map((spaceId) => ({ type: 'MortgageProperty', propertyId: spaceId }));
+
+  return [...sells, ...mortgages];
+}
@@ -0,0 +1,17 @@
+export interface AuctionState {
+  propertyId: number;
+  highBid: number;
+  highBidderId: string | null;
+  eligiblePlayers: string[];
+  passedPlayers: string[];
+  // Index into eligiblePlayers of the player due to bid when bidding goes round the table
+  currentBidderIndex: number;
+  // When the countdown runs out (epoch ms); null when auctions are untimed
+  deadline?: number | null;
+  // Sealed auctions take one hidden bid from each player, revealed together
+  // when the bidding closes; highBid stays 0 until then
+  sealed?: boolean;
+  // Bids so far by player. Players are only sent their own amount; everyone
+  // else's shows as null.
+  sealedBids?: Record<string, number | null>;
+}
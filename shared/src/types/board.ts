@@ -0,0 +1,31 @@
+import type { DeckState } from './gameState';
+import type { ColorGroup, Space } from './space';
+
+export interface ColorGroupDefinition {
+  id: ColorGroup;
+  name: string;
+  // Hex color of the group's band, e.g. '#8b4513'
+  color: string;
+}
+
+// An edition of the game: its spaces, color groups, card decks and currency.
+// The spaces form a square ring, so there are corners at 0 (Go), a quarter of
+// the way round (Jail), half way (Free Parking) and three quarters (Go To Jail).
+export interface BoardDefinition {
+  id: string;
+  name: string;
+  currencySymbol: string;
+  colorGroups: ColorGroupDefinition[];
+  spaces: Space[];
+  decks: DeckState;
+}
+
+// What a game keeps of its edition besides the spaces and decks
+export type BoardEdition = Pick<BoardDefinition, 'id' | 'name' | 'currencySymbol' | 'colorGroups'>;
+
+// Entry in the list of editions a room can choose from
+export interface BoardSummary {
+  id: string;
+  name: string;
+  spaceCount: number;
+}
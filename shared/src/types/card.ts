@@ -10,7 +10,17 @@ export type CardEffect =
   | { type: 'repairs'; perHouse: number; perHotel: number }
   | { type: 'advanceNearestRailroad' }
   | { type: 'advanceNearestUtility' }
-  | { type: 'goojf' };
+  | { type: 'goojf' }
+  | { type: 'advanceNearestColor'; colorGroup: string }
+  | { type: 'cashPerProperty'; amount: number }
+  | { type: 'swapPositions'; target: SwapTarget }
+  | { type: 'allPayFreeParking'; amount: number }
+  | { type: 'payPercentOfCash'; percent: number }
+  | { type: 'freeHouse' }
+  | { type: 'sequence'; effects: CardEffect[] };
+
+// Who a swapPositions card trades places with; players in jail are never picked
+export type SwapTarget = 'nextPlayer' | 'richestPlayer' | 'poorestPlayer';
 
 export interface Card {
   id: string;
@@ -1,3 +1,5 @@
+import type { TradeClause, TradeTransfer } from './trade';
+
 export type GameAction =
   | { type: 'RollDice' }
   | { type: 'BuyProperty'; propertyId: number }
@@ -10,15 +12,34 @@ export type GameAction =
   | { type: 'MortgageProperty'; propertyId: number }
   | { type: 'UnmortgageProperty'; propertyId: number }
   | { type: 'ProposeTrade'; recipientId: string; offer: TradeOfferPayload }
+  | { type: 'ProposeMultiTrade'; transfers: TradeTransfer[] }
   | { type: 'AcceptTrade'; tradeId: string }
   | { type: 'RejectTrade'; tradeId: string }
   | { type: 'CounterTrade'; tradeId: string; offer: TradeOfferPayload }
   | { type: 'PayJailFine' }
   | { type: 'UseJailCard' }
   | { type: 'RollForDoubles' }
+  | { type: 'ChooseSpeedDieMove'; destination: number }
   | { type: 'DeclareBankruptcy'; creditorId: string | 'bank' }
+  | { type: 'UnmortgageInheritedProperty'; propertyId: number }
+  | { type: 'KeepInheritedMortgage'; propertyId: number }
   | { type: 'EndTurn' };
 
+// Why an action was refused
+export type GameActionErrorCode =
+  | 'GAME_NOT_IN_PROGRESS'
+  // The sender isn't a player still in the game
+  | 'NOT_A_PLAYER'
+  | 'NOT_YOUR_TURN'
+  // The action isn't taken in the game's current turn state
+  | 'WRONG_TURN_STATE'
+  | 'TRADE_NOT_FOUND'
+  // The trade isn't the sender's to answer
+  | 'NOT_TRADE_PARTY'
+  // Only the creditor settles inherited mortgages
+  | 'NOT_CREDITOR'
+  | 'INVALID_ACTION';
+
 export interface TradeOfferPayload {
   offeredProperties: number[];
   offeredCash: number;
@@ -26,4 +47,5 @@ export interface TradeOfferPayload {
   requestedProperties: number[];
   requestedCash: number;
   requestedCards: number;
+  clauses?: TradeClause[];
 }
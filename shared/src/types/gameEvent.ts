@@ -13,6 +13,7 @@ export enum GameEventType {
   PropertyMortgaged = 'PropertyMortgaged',
   PropertyUnmortgaged = 'PropertyUnmortgaged',
   TradeCompleted = 'TradeCompleted',
+  TradeCancelled = 'TradeCancelled',
   PlayerBankrupt = 'PlayerBankrupt',
   GameEnded = 'GameEnded',
   AuctionStarted = 'AuctionStarted',
@@ -20,6 +21,12 @@ export enum GameEventType {
   AuctionEnded = 'AuctionEnded',
   PassedGo = 'PassedGo',
   TaxPaid = 'TaxPaid',
+  DebtIncurred = 'DebtIncurred',
+  DebtSettled = 'DebtSettled',
+  MortgageInterestPaid = 'MortgageInterestPaid',
+  FreeParkingJackpot = 'FreeParkingJackpot',
+  FinalRoundStarted = 'FinalRoundStarted',
+  SpeedDieMoved = 'SpeedDieMoved',
 }
 
 export interface GameEvent {
@@ -4,12 +4,67 @@ export interface GameSettings {
   turnTimeLimit: number;
   freeParking: 'classic' | 'houserule';
   auctionEnabled: boolean;
+  // Seconds left on the auction countdown, reset by every bid (0 for no countdown)
+  auctionTimeLimit: number;
+  // Smallest amount a bid must raise the high bid by
+  minBidIncrement: number;
+  // Bidders take turns in seat order instead of bidding freely
+  auctionRoundRobin: boolean;
+  // Each player makes one hidden bid, all revealed together when bidding closes
+  sealedBidAuctions: boolean;
+  // Seconds a trade offer waits for an answer before it lapses (0 for no limit)
+  tradeTimeLimit: number;
+  // Players may propose trades at any point, not just while a turn is managing assets
+  tradeAnytime: boolean;
+  goSalary: number;
+  // Landing exactly on Go pays the salary twice
+  doubleGoSalary: boolean;
+  // Owners sitting in jail cannot collect rent
+  noRentInJail: boolean;
+  evenBuild: boolean;
+  maxHouses: number;
+  maxHotels: number;
+  mortgageInterestRate: number;
+  jailFine: number;
+  // Properties dealt to each player at random when the game starts
+  startingProperties: number;
+  // Players cannot buy property until they have passed Go once
+  mustCircuitBeforeBuying: boolean;
+  // Roll the third Speed Die once a player has been around the board
+  speedDie: boolean;
+  // Minutes before a timed game plays its final round (0 for no time limit)
+  gameTimeLimit: number;
+  // Rounds before a timed game ends (0 for no round limit)
+  roundLimit: number;
+  seed?: number;
 }
 
+// The settings a host can change from the lobby rules editor
+export type HouseRules = Omit<GameSettings, 'maxPlayers' | 'startingCash' | 'seed'>;
+
 export const DEFAULT_GAME_SETTINGS: GameSettings = {
   maxPlayers: 6,
   startingCash: 1500,
   turnTimeLimit: 60,
   freeParking: 'classic',
   auctionEnabled: true,
+  auctionTimeLimit: 15,
+  minBidIncrement: 1,
+  auctionRoundRobin: false,
+  sealedBidAuctions: false,
+  tradeTimeLimit: 120,
+  tradeAnytime: false,
+  goSalary: 200,
+  doubleGoSalary: false,
+  noRentInJail: false,
+  evenBuild: true,
+  maxHouses: 32,
+  maxHotels: 12,
+  mortgageInterestRate: 0.1,
+  jailFine: 50,
+  startingProperties: 0,
+  mustCircuitBeforeBuying: false,
+  speedDie: false,
+  gameTimeLimit: 0,
+  roundLimit: 0,
 };
@@ -4,7 +4,9 @@ import { Card } from './card';
 import { TurnState } from './turn';
 import { GameSettings } from './gameSettings';
 import { GameEvent } from './gameEvent';
-import { TradeOffer } from './trade';
+import { RentAgreement, TradeOffer } from './trade';
+import { AuctionState } from './auction';
+import type { BoardEdition } from './board';
 
 export type GameStatus = 'waiting' | 'playing' | 'finished';
 
@@ -13,11 +15,33 @@ export interface DeckState {
   communityChest: Card[];
 }
 
+export interface BuildingSupply {
+  houses: number;
+  hotels: number;
+}
+
+export interface PropertyStateRecord {
+  houses: number;
+  mortgaged: boolean;
+}
+
+// Third die of the Speed Die variant
+export type SpeedDieFace = 1 | 2 | 3 | 'mrMonopoly' | 'bus';
+
 export interface DiceResultState {
   die1: number;
   die2: number;
   total: number;
   isDoubles: boolean;
+  speedDie?: SpeedDieFace;
+  isTriples?: boolean;
+}
+
+// A Speed Die roll still being played out: a bus or triples move waiting for
+// the player to pick where to go, or Mr. Monopoly's move after the first landing
+export interface PendingSpeedDie {
+  type: 'bus' | 'triples' | 'mrMonopoly';
+  destinations?: number[];
 }
 
 export interface PendingBuyDecision {
@@ -35,22 +59,66 @@ export interface LastResolution {
   deckName?: 'chance' | 'communityChest';
 }
 
+// Money the active player could not pay; their turn is held in RaisingFunds
+// until cash covers it or they go bankrupt to the creditor
+export interface PendingDebt {
+  debtorId: string;
+  creditorId: string | 'bank';
+  amount: number;
+}
+
+// Mortgaged properties a creditor took over from a bankrupt player. Each one
+// must be unmortgaged or have its 10% interest paid before play continues.
+export interface PendingInheritance {
+  creditorId: string;
+  propertyIds: number[];
+}
+
+// Wall-clock window of a timed game
+export interface GameClock {
+  startedAt: number;
+  endsAt: number;
+}
+
 export interface GameState {
   gameId: string;
   status: GameStatus;
   players: Player[];
   currentPlayerIndex: number;
   board: Space[];
+  // Missing from games on the classic board saved before editions existed
+  edition?: BoardEdition;
   decks: DeckState;
   turnState: TurnState;
   settings: GameSettings;
   events: GameEvent[];
+  seed?: number;
+  rngState?: number;
   lastDiceResult?: DiceResultState | null;
   lastCardDrawn?: Card | null;
   pendingBuyDecision?: PendingBuyDecision | null;
+  pendingSpeedDie?: PendingSpeedDie | null;
   lastResolution?: LastResolution | null;
+  pendingDebt?: PendingDebt | null;
+  pendingInheritance?: PendingInheritance | null;
   doublesCount?: number;
   lastPassedGo?: boolean;
   pendingTrades?: TradeOffer[];
-  propertyStates?: Record<number, { houses: number; mortgaged: boolean }>;
+  tradeHistory?: TradeOffer[];
+  // Rent immunity and rent-sharing terms agreed in trades, until they run out
+  rentAgreements?: RentAgreement[];
+  propertyStates?: Record<number, PropertyStateRecord>;
+  buildingSupply?: BuildingSupply;
+  auction?: AuctionState | null;
+  // Money collected for whoever lands on Free Parking under the house rule
+  freeParkingPot?: number;
+  // Properties returned to the bank by a bankruptcy, auctioned in order
+  auctionQueue?: number[] | null;
+  // Starts at 1 and advances each time play wraps around the table
+  round?: number;
+  gameClock?: GameClock | null;
+  // The last round of a timed game, fixed when the clock runs out or the round limit is reached
+  finalRound?: number | null;
+  consecutiveDoubles?: Record<string, number>;
+  rolledDoubles?: boolean;
 }
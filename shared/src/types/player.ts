@@ -13,4 +13,6 @@ export interface Player {
   isActive: boolean;
   isBankrupt: boolean;
   getOutOfJailFreeCards: number;
+  // Set the first time the player collects a Go salary
+  hasPassedGo?: boolean;
 }
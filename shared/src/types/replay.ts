@@ -0,0 +1,31 @@
+import type { BoardDefinition } from './board';
+import type { GameAction } from './gameAction';
+import type { GameSettings } from './gameSettings';
+import type { TokenType } from './token';
+
+// One entry in a game's action stream. Turn-timer fallbacks, a timed game's
+// clock running out, auction countdowns closing and trade offers lapsing are
+// recorded alongside player actions so the stream reproduces the game exactly.
+export type ReplayStep =
+  | { type: 'action'; playerId: string; action: GameAction; timestamp: number }
+  | { type: 'autoRoll'; timestamp: number }
+  | { type: 'autoEndTurn'; timestamp: number }
+  | { type: 'clockExpired'; timestamp: number }
+  | { type: 'auctionExpired'; timestamp: number }
+  | { type: 'tradesExpired'; timestamp: number };
+
+export interface ReplayPlayer {
+  id: string;
+  name: string;
+  token: TokenType;
+}
+
+export interface GameReplay {
+  gameId: string;
+  seed: number;
+  players: ReplayPlayer[];
+  settings: GameSettings;
+  // Omitted for games on the classic board
+  board?: BoardDefinition;
+  steps: ReplayStep[];
+}
@@ -1,10 +1,16 @@
-import { GameAction } from './gameAction';
+import type { BoardDefinition, BoardSummary } from './board';
+import type { AuctionState } from './auction';
+import { GameAction, GameActionErrorCode } from './gameAction';
 import { GameState } from './gameState';
 import { GameEvent } from './gameEvent';
+import { HouseRules } from './gameSettings';
 import { TokenType } from './token';
+import type { TradeOffer } from './trade';
 
 // --- Lobby / Room types ---
 
+export type BotStrategyName = 'cautious' | 'aggressive' | 'trader';
+
 export interface RoomPlayer {
   id: string;
   name: string;
@@ -12,6 +18,11 @@ export interface RoomPlayer {
   isReady: boolean;
   isHost: boolean;
   isConnected: boolean;
+  // Server-controlled seat, played by the named strategy
+  isBot?: boolean;
+  botStrategy?: BotStrategyName;
+  // Human seat temporarily played by the caretaker bot after a disconnect or timeout
+  caretaker?: boolean;
 }
 
 export interface RoomMetadata {
@@ -20,6 +31,10 @@ export interface RoomMetadata {
   players: RoomPlayer[];
   maxPlayers: number;
   startingCash: number;
+  // Rules the host changed from their defaults in the lobby
+  houseRules?: Partial<HouseRules>;
+  // Edition the host picked; omitted for the classic board
+  board?: BoardDefinition;
   status: 'waiting' | 'playing' | 'finished';
   gameId?: string;
   createdAt: number;
@@ -30,7 +45,12 @@ export interface RoomMetadata {
 export interface ClientToServerEvents {
   // Lobby
   createRoom: (
-    settings: { playerName: string; maxPlayers?: number; startingCash?: number },
+    settings: {
+      playerName: string;
+      maxPlayers?: number;
+      startingCash?: number;
+      houseRules?: Partial<HouseRules>;
+    },
     callback: (response: { ok: boolean; roomCode?: string; error?: string }) => void,
   ) => void;
   joinRoom: (
@@ -54,11 +74,31 @@ export interface ClientToServerEvents {
     data: { roomCode: string },
     callback: (response: { ok: boolean; error?: string }) => void,
   ) => void;
+  addBot: (
+    data: { roomCode: string; strategy: BotStrategyName },
+    callback: (response: { ok: boolean; player?: RoomPlayer; error?: string }) => void,
+  ) => void;
+  removeBot: (
+    data: { roomCode: string; botId: string },
+    callback: (response: { ok: boolean; error?: string }) => void,
+  ) => void;
+  updateHouseRules: (
+    data: { roomCode: string; rules: Partial<HouseRules> },
+    callback: (response: { ok: boolean; error?: string }) => void,
+  ) => void;
+  listBoards: (
+    callback: (response: { ok: boolean; boards?: BoardSummary[]; error?: string }) => void,
+  ) => void;
+  // Picks a registered edition by id, or supplies a complete custom board
+  selectBoard: (
+    data: { roomCode: string; boardId?: string; board?: BoardDefinition },
+    callback: (response: { ok: boolean; error?: string }) => void,
+  ) => void;
 
   // In-game
   gameAction: (
     data: { roomCode: string; action: GameAction },
-    callback: (response: { ok: boolean; error?: string }) => void,
+    callback: (response: { ok: boolean; error?: string; code?: GameActionErrorCode }) => void,
   ) => void;
 
   // Reconnection
@@ -92,7 +132,7 @@ export interface ServerToClientEvents {
   gameStarted: (state: GameState) => void;
   stateUpdate: (state: GameState) => void;
   gameEvent: (event: GameEvent) => void;
-  actionError: (data: { message: string }) => void;
+  actionError: (data: { message: string; code?: GameActionErrorCode }) => void;
 
   // Reconnection
   playerDisconnected: (data: { playerId: string }) => void;
@@ -101,6 +141,12 @@ export interface ServerToClientEvents {
   // Turn timer
   turnTimerUpdate: (data: { secondsRemaining: number; phase: string }) => void;
 
+  // Auction countdown; secondsRemaining is null when auctions are untimed
+  auctionUpdate: (data: AuctionUpdate) => void;
+
+  // A pending trade was called off, with trade.reason saying why; sent to both sides
+  tradeCancelled: (trade: TradeOffer) => void;
+
   // Chat
   chatMessage: (data: ChatMessage) => void;
 
@@ -111,6 +157,11 @@ export interface ServerToClientEvents {
   error: (message: string) => void;
 }
 
+export interface AuctionUpdate {
+  auction: AuctionState;
+  secondsRemaining: number | null;
+}
+
 export interface ChatMessage {
   id: string;
   playerId: string;
@@ -8,15 +8,9 @@ export enum SpaceType {
   Corner = 'corner',
 }
 
-export type ColorGroup =
-  | 'brown'
-  | 'lightBlue'
-  | 'pink'
-  | 'orange'
-  | 'red'
-  | 'yellow'
-  | 'green'
-  | 'darkBlue';
+// Color groups are declared by each board definition; the classic board uses
+// brown, lightBlue, pink, orange, red, yellow, green and darkBlue
+export type ColorGroup = string;
 
 export interface Space {
   id: number;
@@ -30,4 +24,6 @@ export interface Space {
   houseCost?: number;
   hotelCost?: number;
   taxAmount?: number;
+  // Emoji drawn on the space, e.g. a different train for each railroad
+  icon?: string;
 }
@@ -1,8 +1,51 @@
-export type TradeStatus = 'pending' | 'accepted' | 'rejected' | 'countered';
+export type TradeStatus =
+  | 'pending'
+  | 'accepted'
+  | 'rejected'
+  | 'countered'
+  | 'invalidated'
+  | 'expired';
+
+// One player's hand-over in a deal between three or more players
+export interface TradeTransfer {
+  fromId: string;
+  toId: string;
+  properties: number[];
+  cash: number;
+  cards: number;
+}
+
+// A standing term a two-player trade can add on top of what changes hands.
+// It binds whoever owns the property once the trade has gone through.
+export type TradeClause =
+  // The beneficiary lands on the property rent-free this many times
+  | { type: 'rentImmunity'; propertyId: number; beneficiaryId: string; landings: number }
+  // The beneficiary gets this percentage of every rent paid on the property
+  | {
+      type: 'rentShare';
+      propertyId: number;
+      beneficiaryId: string;
+      percent: number;
+      turns: number;
+    };
+
+// A clause in force on GameState.rentAgreements after its trade went through
+export type RentAgreement = {
+  id: string;
+  tradeId: string;
+  propertyId: number;
+  ownerId: string;
+  beneficiaryId: string;
+} & (
+  | { type: 'rentImmunity'; landingsLeft: number }
+  // Counted down as each player's turn ends
+  | { type: 'rentShare'; percent: number; turnsLeft: number }
+);
 
 export interface TradeOffer {
   id: string;
   proposerId: string;
+  // The other player in a two-player trade; empty for a multi-party deal
   recipientId: string;
   offeredProperties: number[];
   offeredCash: number;
@@ -11,4 +54,31 @@ export interface TradeOffer {
   requestedCash: number;
   requestedCards: number;
   status: TradeStatus;
+  // When an unanswered offer lapses (epoch ms); null when offers don't expire
+  expiresAt?: number | null;
+  // Why an invalidated or expired offer was called off
+  reason?: string;
+  // Multi-party deals list everyone taking part (proposer first) and every
+  // hand-over between them; the offered/requested fields are then left empty
+  participantIds?: string[];
+  transfers?: TradeTransfer[];
+  // Participants who have agreed so far; the deal goes through once all have
+  acceptedBy?: string[];
+  clauses?: TradeClause[];
+  // Every offer in a negotiation carries the id of the offer that opened it;
+  // a counter-offer also points at the offer it answers
+  threadId?: string;
+  counterTo?: string;
+  // When the offer was made and when it stopped being pending (epoch ms)
+  createdAt?: number;
+  resolvedAt?: number;
+}
+
+// One negotiation: an offer and every counter-offer made to it, oldest first
+export interface TradeThread {
+  id: string;
+  participantIds: string[];
+  offers: TradeOffer[];
+  // Where the negotiation stands, from its latest offer
+  status: TradeStatus;
 }
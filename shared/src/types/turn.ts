@@ -3,8 +3,10 @@ export enum TurnState {
   Rolling = 'Rolling',
   Resolving = 'Resolving',
   AwaitingBuyDecision = 'AwaitingBuyDecision',
+  ChoosingSpeedDieMove = 'ChoosingSpeedDieMove',
   Auction = 'Auction',
   PlayerAction = 'PlayerAction',
+  RaisingFunds = 'RaisingFunds',
   TradeNegotiation = 'TradeNegotiation',
   EndTurn = 'EndTurn',
 }